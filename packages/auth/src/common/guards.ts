@@ -0,0 +1,119 @@
+import {
+  AbiSchema,
+  isFeatureEnabled,
+  MissingRoleError,
+  Role,
+  ThirdwebSDK,
+} from "@thirdweb-dev/sdk";
+import { BigNumberish, ethers } from "ethers";
+
+/**
+ * Checks whether a logged in wallet is allowed to access a route
+ */
+export type AddressCheck = (address: string) => Promise<boolean>;
+
+export type GuardContext = {
+  sdk: ThirdwebSDK;
+  /**
+   * How long the results of guards are cached for each address, in seconds
+   */
+  guardCacheLifetime: number;
+};
+
+/**
+ * The default lifetime of the results of guards, 1 minute
+ */
+export const DEFAULT_GUARD_CACHE_LIFETIME = 60;
+
+/**
+ * Create the checks of the guards of an adapter, which share a cache of their results by chain and address,
+ * so that routes behind guards don't read the contracts on every request
+ */
+export function createAddressChecks(ctx: GuardContext) {
+  const cache = new Map<string, { allowed: boolean; expiresAt: number }>();
+
+  function cached(key: string, check: AddressCheck): AddressCheck {
+    return async (address: string) => {
+      const now = Date.now();
+      // the same contract address can be a different contract on another chain
+      const { chainId } = await ctx.sdk.getProvider().getNetwork();
+      const cacheKey = `${chainId}:${key}:${address}`.toLowerCase();
+      const result = cache.get(cacheKey);
+      if (result && result.expiresAt > now) {
+        return result.allowed;
+      }
+
+      const allowed = await check(address);
+      // forget the expired results, so that the cache doesn't grow forever
+      Array.from(cache.entries()).forEach(([k, { expiresAt }]) => {
+        if (expiresAt <= now) {
+          cache.delete(k);
+        }
+      });
+      cache.set(cacheKey, {
+        allowed,
+        expiresAt: now + ctx.guardCacheLifetime * 1000,
+      });
+      return allowed;
+    };
+  }
+
+  /**
+   * Check that the wallet holds at least `min` tokens of an ERC20 contract, in display units like `"100"`
+   */
+  function tokenBalance(contract: string, min: string | number): AddressCheck {
+    return cached(`token:${contract}:${min}`, async (address) => {
+      const token = await ctx.sdk.getContract(contract);
+      const balance = await token.erc20.balanceOf(address);
+      return balance.value.gte(
+        ethers.utils.parseUnits(min.toString(), balance.decimals),
+      );
+    });
+  }
+
+  /**
+   * Check that the wallet owns an NFT of an ERC721 or ERC1155 contract.
+   * A token ID is required for ERC1155 contracts, and optional for ERC721 contracts to accept any of their NFTs.
+   */
+  function nft(contract: string, tokenId?: BigNumberish): AddressCheck {
+    return cached(`nft:${contract}:${tokenId ?? ""}`, async (address) => {
+      const collection = await ctx.sdk.getContract(contract);
+      if (isFeatureEnabled(AbiSchema.parse(collection.abi), "ERC1155")) {
+        if (tokenId === undefined) {
+          throw new Error(
+            `A token ID is required to check the NFTs of the ERC1155 contract '${contract}'`,
+          );
+        }
+        return (await collection.erc1155.balanceOf(address, tokenId)).gt(0);
+      }
+
+      if (tokenId === undefined) {
+        return (await collection.erc721.balanceOf(address)).gt(0);
+      }
+      const owner = await collection.erc721
+        .ownerOf(tokenId)
+        .catch(() => ethers.constants.AddressZero);
+      return owner.toLowerCase() === address.toLowerCase();
+    });
+  }
+
+  /**
+   * Check that the wallet has a role on a contract with permissions
+   */
+  function role(contract: string, roleName: Role): AddressCheck {
+    return cached(`role:${contract}:${roleName}`, async (address) => {
+      const permissions = await ctx.sdk.getContract(contract);
+      try {
+        await permissions.roles.verify([roleName], address);
+        return true;
+      } catch (err) {
+        if (err instanceof MissingRoleError) {
+          return false;
+        }
+        throw err;
+      }
+    });
+  }
+
+  return { tokenBalance, nft, role };
+}
@@ -0,0 +1,393 @@
+import { ThirdwebSDK } from "@thirdweb-dev/sdk";
+import { serialize } from "cookie";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * A logged in session of a user, which lasts as long as its refresh token keeps being used
+ */
+export type ThirdwebAuthSession = {
+  /**
+   * The jti of the current access token of the session, which identifies the session until it is refreshed
+   */
+  jti: string;
+  /**
+   * The jti of the session that the user logged in with, shared by every session refreshed from it
+   */
+  familyId: string;
+  /**
+   * The address of the logged in wallet
+   */
+  address: string;
+  /**
+   * The SHA-256 hash of the current refresh token, the refresh token itself is never stored
+   */
+  refreshTokenHash: string;
+  /**
+   * When the user logged in
+   */
+  createdAt: Date;
+  /**
+   * When the session was last refreshed, or created
+   */
+  refreshedAt: Date;
+  /**
+   * When the refresh token expires, if the session isn't refreshed before
+   */
+  expiresAt: Date;
+  /**
+   * When the refresh token was exchanged for new tokens. The session is kept until it expires,
+   * so that its whole family is revoked if its refresh token is used again.
+   */
+  rotatedAt?: Date;
+};
+
+/**
+ * Stores the sessions of logged in users, so that they can be refreshed and revoked on the server.
+ * Implement it with a shared database like Redis to use it with multiple servers.
+ */
+export interface ISessionStore {
+  /**
+   * Save a new session
+   */
+  create(session: ThirdwebAuthSession): Promise<void>;
+  /**
+   * Get the session with the given jti, including sessions that were rotated
+   *
+   * @returns The session, or undefined if it doesn't exist, expired or was revoked
+   */
+  get(jti: string): Promise<ThirdwebAuthSession | undefined>;
+  /**
+   * Mark a session as rotated when its refresh token is exchanged for new tokens, by setting its `rotatedAt`
+   *
+   * @returns Whether the session wasn't rotated already, so that only one request can refresh a session
+   */
+  rotate(jti: string, rotatedAt: Date): Promise<boolean>;
+  /**
+   * Delete every session of a family, when it is revoked
+   */
+  revokeFamily(familyId: string): Promise<void>;
+  /**
+   * List the sessions of a wallet that were not rotated
+   */
+  list(address: string): Promise<ThirdwebAuthSession[]>;
+}
+
+/**
+ * Session store that keeps the sessions in memory, for a single server
+ */
+export class MemorySessionStore implements ISessionStore {
+  private sessions = new Map<string, ThirdwebAuthSession>();
+
+  async create(session: ThirdwebAuthSession): Promise<void> {
+    // forget the expired sessions, so that the store doesn't grow forever
+    const now = new Date();
+    Array.from(this.sessions.values()).forEach(({ jti, expiresAt }) => {
+      if (expiresAt < now) {
+        this.sessions.delete(jti);
+      }
+    });
+
+    this.sessions.set(session.jti, session);
+  }
+
+  async get(jti: string): Promise<ThirdwebAuthSession | undefined> {
+    const session = this.sessions.get(jti);
+    return session && session.expiresAt >= new Date() ? session : undefined;
+  }
+
+  async rotate(jti: string, rotatedAt: Date): Promise<boolean> {
+    // check and set without awaiting in between, so that concurrent calls can't both rotate the session
+    const session = this.sessions.get(jti);
+    if (!session || session.expiresAt < rotatedAt || session.rotatedAt) {
+      return false;
+    }
+    this.sessions.set(jti, { ...session, rotatedAt });
+    return true;
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    Array.from(this.sessions.values()).forEach((session) => {
+      if (session.familyId === familyId) {
+        this.sessions.delete(session.jti);
+      }
+    });
+  }
+
+  async list(address: string): Promise<ThirdwebAuthSession[]> {
+    const now = new Date();
+    return Array.from(this.sessions.values()).filter(
+      (session) =>
+        session.address.toLowerCase() === address.toLowerCase() &&
+        session.expiresAt >= now &&
+        !session.rotatedAt,
+    );
+  }
+}
+
+export type SessionContext = {
+  sdk: ThirdwebSDK;
+  domain: string;
+  /**
+   * The path of the auth routes, the refresh token cookie is only sent to its refresh route
+   */
+  authUrl: string;
+  sessionStore: ISessionStore;
+  /**
+   * How long access tokens are valid for, in seconds
+   */
+  accessTokenLifetime: number;
+  /**
+   * How long refresh tokens are valid for, in seconds
+   */
+  refreshTokenLifetime: number;
+};
+
+export type SessionTokens = {
+  address: string;
+  token: string;
+  /**
+   * When the access token expires, so that clients can refresh it before
+   */
+  expiresAt: Date;
+  refreshToken: string;
+  /**
+   * The cookies to set on the response for the tokens
+   */
+  cookies: string[];
+};
+
+export const ACCESS_TOKEN_COOKIE = "thirdweb_auth_token";
+export const REFRESH_TOKEN_COOKIE = "thirdweb_auth_refresh_token";
+
+/**
+ * The default lifetime of access tokens, 15 minutes
+ */
+export const DEFAULT_ACCESS_TOKEN_LIFETIME = 60 * 15;
+
+/**
+ * The default lifetime of refresh tokens, 30 days
+ */
+export const DEFAULT_REFRESH_TOKEN_LIFETIME = 60 * 60 * 24 * 30;
+
+/**
+ * How long a rotated refresh token is treated as used by a concurrent request rather than reused, 10 seconds
+ */
+const CONCURRENT_REFRESH_WINDOW = 10;
+
+/**
+ * Thrown when a refresh token was used by a concurrent request, like from another tab,
+ * which already got the new tokens of the session
+ */
+export class ConcurrentRefreshError extends Error {
+  constructor() {
+    super("Session is already being refreshed");
+  }
+}
+
+/**
+ * Start a new session for a user that logged in
+ */
+export async function createSession(
+  ctx: SessionContext,
+  address: string,
+): Promise<SessionTokens> {
+  return startSession(ctx, address, new Date());
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token. The refresh token can only be used once,
+ * and the session is identified by the jti of the new access token from then on.
+ * Using a refresh token again means that it was stolen, so every session of its family is revoked.
+ */
+export async function refreshSession(
+  ctx: SessionContext,
+  refreshToken: string,
+): Promise<SessionTokens> {
+  const session = await getRefreshTokenSession(ctx, refreshToken);
+  if (!session) {
+    throw new Error("Refresh token is invalid, expired or has been revoked");
+  }
+
+  const now = new Date();
+  // Rotate the old tokens first, so that concurrent requests can't refresh the same session twice
+  if (session.rotatedAt || !(await ctx.sessionStore.rotate(session.jti, now))) {
+    const rotatedAt =
+      session.rotatedAt || (await ctx.sessionStore.get(session.jti))?.rotatedAt;
+    if (
+      rotatedAt &&
+      now.getTime() - rotatedAt.getTime() < CONCURRENT_REFRESH_WINDOW * 1000
+    ) {
+      throw new ConcurrentRefreshError();
+    }
+    await ctx.sessionStore.revokeFamily(session.familyId);
+    throw new Error(
+      "Refresh token has already been used, the session has been revoked",
+    );
+  }
+
+  return startSession(
+    ctx,
+    session.address,
+    session.createdAt,
+    session.familyId,
+  );
+}
+
+/**
+ * Revoke the session of the access token or refresh token of a user that logs out
+ */
+export async function endSession(
+  ctx: SessionContext,
+  token?: string,
+  refreshToken?: string,
+) {
+  const session = refreshToken
+    ? await getRefreshTokenSession(ctx, refreshToken)
+    : undefined;
+  if (session) {
+    await ctx.sessionStore.revokeFamily(session.familyId);
+  }
+
+  if (token) {
+    try {
+      const { jti } = await ctx.sdk.auth.verifyAuthToken(ctx.domain, token);
+      await revokeSession(ctx, jti);
+    } catch {
+      // The access token has expired, so it can't be used anymore
+    }
+  }
+}
+
+/**
+ * Revoke a session and every session of its family, so that none of their tokens can be used anymore
+ */
+export async function revokeSession(ctx: SessionContext, jti: string) {
+  const session = await ctx.sessionStore.get(jti);
+  if (session) {
+    await ctx.sessionStore.revokeFamily(session.familyId);
+  }
+}
+
+/**
+ * Authenticate an access token, which is only valid while its session hasn't been revoked or refreshed
+ *
+ * @returns The address of the authenticated wallet
+ */
+export async function authenticateSession(
+  ctx: SessionContext,
+  token: string,
+): Promise<string> {
+  const { sub, jti } = await ctx.sdk.auth.verifyAuthToken(ctx.domain, token);
+  const session = await ctx.sessionStore.get(jti);
+  if (!session || session.rotatedAt) {
+    throw new Error("Session has been revoked");
+  }
+  return sub;
+}
+
+/**
+ * The cookies that remove the tokens from the browser on logout, or when they are invalid
+ */
+export function getClearedCookies(ctx: SessionContext): string[] {
+  // Set the tokens to 'none' and expire in 5 seconds
+  const expires = new Date(Date.now() + 5 * 1000);
+  return [
+    serialize(ACCESS_TOKEN_COOKIE, "", { path: "/", expires }),
+    serialize(REFRESH_TOKEN_COOKIE, "", {
+      path: getRefreshPath(ctx),
+      expires,
+    }),
+  ];
+}
+
+async function startSession(
+  ctx: SessionContext,
+  address: string,
+  createdAt: Date,
+  familyId?: string,
+): Promise<SessionTokens> {
+  const now = new Date();
+  const jti = randomBytes(16).toString("hex");
+  const tokenExpiresAt = new Date(
+    now.getTime() + ctx.accessTokenLifetime * 1000,
+  );
+  const token = await ctx.sdk.auth.generateAuthTokenForAddress(
+    ctx.domain,
+    address,
+    { jti, expirationTime: tokenExpiresAt },
+  );
+
+  // The refresh token is a random secret, prefixed by the jti of the session to find it in the store
+  const secret = randomBytes(32).toString("hex");
+  const expiresAt = new Date(now.getTime() + ctx.refreshTokenLifetime * 1000);
+  await ctx.sessionStore.create({
+    jti,
+    familyId: familyId || jti,
+    address,
+    refreshTokenHash: hashSecret(secret),
+    createdAt,
+    refreshedAt: now,
+    expiresAt,
+  });
+
+  const refreshToken = `${jti}.${secret}`;
+  // Securely set httpOnly cookies on request to prevent XSS on frontend
+  const cookieOptions = {
+    httpOnly: true,
+    secure: true,
+    sameSite: "strict" as const,
+  };
+  const cookies = [
+    // Set path to / to enable thirdweb_auth_token usage on all endpoints
+    serialize(ACCESS_TOKEN_COOKIE, token, {
+      ...cookieOptions,
+      path: "/",
+      expires: tokenExpiresAt,
+    }),
+    // The refresh token is only sent to the refresh route, so that it is exposed as little as possible
+    serialize(REFRESH_TOKEN_COOKIE, refreshToken, {
+      ...cookieOptions,
+      path: getRefreshPath(ctx),
+      expires: expiresAt,
+    }),
+  ];
+
+  return {
+    address,
+    token,
+    expiresAt: tokenExpiresAt,
+    refreshToken,
+    cookies,
+  };
+}
+
+function getRefreshPath(ctx: SessionContext): string {
+  return `${ctx.authUrl.replace(/\/$/, "")}/refresh`;
+}
+
+async function getRefreshTokenSession(
+  ctx: SessionContext,
+  refreshToken: string,
+): Promise<ThirdwebAuthSession | undefined> {
+  const [jti, secret] = refreshToken.split(".");
+  if (!jti || !secret) {
+    return undefined;
+  }
+
+  const session = await ctx.sessionStore.get(jti);
+  if (!session) {
+    return undefined;
+  }
+
+  // Compare the hashes in constant time, so that the secret can't be guessed from the response times
+  const hash = Buffer.from(hashSecret(secret), "hex");
+  const expectedHash = Buffer.from(session.refreshTokenHash, "hex");
+  return hash.length === expectedHash.length &&
+    timingSafeEqual(hash, expectedHash)
+    ? session
+    : undefined;
+}
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
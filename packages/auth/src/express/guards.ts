@@ -0,0 +1,78 @@
+import { AddressCheck, createAddressChecks } from "../common/guards";
+import { ThirdwebAuthContext } from "./types";
+import { Role } from "@thirdweb-dev/sdk";
+import { BigNumberish } from "ethers";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+
+export function createGuards(ctx: ThirdwebAuthContext) {
+  const checks = createAddressChecks(ctx);
+
+  function guard(check?: AddressCheck): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (!req.user) {
+        return res.status(401).json({
+          error: "Not logged in.",
+        });
+      }
+
+      try {
+        if (check && !(await check(req.user.address))) {
+          return res.status(403).json({
+            error: "Not allowed to access this route.",
+          });
+        }
+      } catch {
+        // The contract couldn't be read, or doesn't implement the checked extension
+        return res.status(500).json({
+          error: "Failed to check access to this route.",
+        });
+      }
+
+      return next();
+    };
+  }
+
+  /**
+   * Middleware that only lets logged in users through
+   *
+   * @example
+   * ```javascript
+   * app.get("/secret", requireAuth(), (req, res) => res.json(req.user));
+   * ```
+   */
+  function requireAuth() {
+    return guard();
+  }
+
+  /**
+   * Middleware that only lets users through that hold at least `min` tokens of an ERC20 contract
+   *
+   * @param contract - The address of the token contract
+   * @param min - The minimum balance in display units, like `"100"`
+   */
+  function requireTokenBalance(contract: string, min: string | number) {
+    return guard(checks.tokenBalance(contract, min));
+  }
+
+  /**
+   * Middleware that only lets users through that own an NFT of an ERC721 or ERC1155 contract
+   *
+   * @param contract - The address of the NFT contract
+   * @param tokenId - The NFT to own, required for ERC1155 contracts, any NFT of ERC721 contracts if omitted
+   */
+  function requireNFT(contract: string, tokenId?: BigNumberish) {
+    return guard(checks.nft(contract, tokenId));
+  }
+
+  /**
+   * Middleware that only lets users through that have a role on a contract
+   *
+   * @param contract - The address of the contract with permissions
+   * @param role - The role to have, like `"minter"`
+   */
+  function requireRole(contract: string, role: Role) {
+    return guard(checks.role(contract, role));
+  }
+
+  return { requireAuth, requireTokenBalance, requireNFT, requireRole };
+}
@@ -1,39 +1,61 @@
+import { DEFAULT_GUARD_CACHE_LIFETIME } from "../common/guards";
+import {
+  authenticateSession,
+  DEFAULT_ACCESS_TOKEN_LIFETIME,
+  DEFAULT_REFRESH_TOKEN_LIFETIME,
+  MemorySessionStore,
+  revokeSession,
+} from "../common/session";
+import { createGuards } from "./guards";
 import loginHandler from "./routes/login";
 import logoutHandler from "./routes/logout";
+import nonceHandler from "./routes/nonce";
+import refreshHandler from "./routes/refresh";
 import userHandler from "./routes/user";
 import {
   ThirdwebAuthConfig,
   ThirdwebAuthRoute,
   ThirdwebAuthUser,
 } from "./types";
-import { ThirdwebSDK } from "@thirdweb-dev/sdk";
+import { MemoryNonceStore, ThirdwebSDK } from "@thirdweb-dev/sdk";
 import cookieParser from "cookie-parser";
 import { Express, NextFunction, Request, Response } from "express";
 
 export * from "./types";
+export { MemorySessionStore } from "../common/session";
 
 export function getUser(req: Request): ThirdwebAuthUser | null {
   return req.user;
 }
 
 export function ThirdwebAuth(app: Express, cfg: ThirdwebAuthConfig) {
+  const authUrl = cfg.authUrl?.replace(/\/$/, "") || "/auth";
   const ctx = {
     ...cfg,
-    sdk: ThirdwebSDK.fromPrivateKey(cfg.privateKey, "mainnet"),
+    authUrl,
+    sdk: ThirdwebSDK.fromPrivateKey(cfg.privateKey, cfg.network || "mainnet"),
+    nonceStore: cfg.nonceStore || new MemoryNonceStore(),
+    sessionStore: cfg.sessionStore || new MemorySessionStore(),
+    accessTokenLifetime:
+      cfg.accessTokenLifetime || DEFAULT_ACCESS_TOKEN_LIFETIME,
+    refreshTokenLifetime:
+      cfg.refreshTokenLifetime || DEFAULT_REFRESH_TOKEN_LIFETIME,
+    guardCacheLifetime:
+      cfg.guardCacheLifetime !== undefined
+        ? cfg.guardCacheLifetime
+        : DEFAULT_GUARD_CACHE_LIFETIME,
   };
 
-  const authUrl = cfg.authUrl?.replace(/\/$/, "") || "/auth";
-
   app.use(cookieParser());
 
   app.use(async (req: Request, _: Response, next: NextFunction) => {
-    const { sdk, domain } = ctx;
     let user = null;
     const token = req.cookies.thirdweb_auth_token;
 
     if (token) {
       try {
-        const address = await sdk.auth.authenticate(domain, token);
+        // Tokens of sessions that were revoked or refreshed are rejected
+        const address = await authenticateSession(ctx, token);
 
         if (ctx.callbacks?.user) {
           user = await ctx.callbacks.user(address);
@@ -58,11 +80,39 @@ export function ThirdwebAuth(app: Express, cfg: ThirdwebAuthConfig) {
       case "user":
         return userHandler(req, res);
       case "logout":
-        return logoutHandler(req, res);
+        return logoutHandler(req, res, ctx);
+      case "nonce":
+        return nonceHandler(req, res, ctx);
       default:
         return res.status(400).json({
           message: "Invalid route for authentication.",
         });
     }
   });
+
+  app.post(`${authUrl}/refresh`, (req: Request, res: Response) =>
+    refreshHandler(req, res, ctx),
+  );
+
+  /**
+   * List the active sessions of a wallet, like to show a user where they are logged in
+   */
+  async function getSessions(address: string) {
+    return ctx.sessionStore.list(address);
+  }
+
+  /**
+   * Revoke a session and the sessions it was refreshed from, so that their access and refresh tokens can't be used anymore
+   *
+   * @param jti - The jti of the session
+   */
+  async function revoke(jti: string) {
+    await revokeSession(ctx, jti);
+  }
+
+  return {
+    getSessions,
+    revokeSession: revoke,
+    ...createGuards(ctx),
+  };
 }
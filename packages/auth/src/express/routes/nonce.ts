@@ -0,0 +1,19 @@
+import { ThirdwebAuthContext } from "../types";
+import { Request, Response } from "express";
+
+export default async function handler(
+  req: Request,
+  res: Response,
+  ctx: ThirdwebAuthContext,
+) {
+  if (req.method !== "GET") {
+    return res.status(400).json({
+      error: "Invalid method. Only GET supported.",
+    });
+  }
+
+  // Every login request has to be signed with a new nonce from the server, which is consumed on login
+  const nonce = await ctx.nonceStore.generate();
+  res.setHeader("Cache-Control", "no-store");
+  return res.status(200).json({ nonce });
+}
@@ -1,12 +1,46 @@
-import { ThirdwebSDK } from "@thirdweb-dev/sdk";
+import { ISessionStore } from "../../common/session";
+import { ChainOrRpc, INonceStore, ThirdwebSDK } from "@thirdweb-dev/sdk";
 import { Request } from "express";
 
-export type ThirdwebAuthRoute = "login" | "user" | "logout";
+export type ThirdwebAuthRoute =
+  | "login"
+  | "user"
+  | "logout"
+  | "nonce"
+  | "refresh";
 
 export type ThirdwebAuthConfig = {
   privateKey: string;
   domain: string;
   authUrl?: string;
+  /**
+   * Where the nonces of login requests are stored, defaults to memory.
+   * Use a shared store when running multiple servers.
+   */
+  nonceStore?: INonceStore;
+  /**
+   * Where the sessions of logged in users are stored, defaults to memory.
+   * Sessions are revoked on logout, and can be listed and revoked with `getSessions` and `revokeSession`.
+   */
+  sessionStore?: ISessionStore;
+  /**
+   * How long access tokens are valid for in seconds, defaults to 15 minutes.
+   * Expired access tokens are replaced by calling the `/refresh` route.
+   */
+  accessTokenLifetime?: number;
+  /**
+   * How long refresh tokens are valid for in seconds, defaults to 30 days.
+   * Every refresh issues a new refresh token, so users stay logged in as long as they keep coming back.
+   */
+  refreshTokenLifetime?: number;
+  /**
+   * The network of the contracts checked by guards like `requireNFT`, defaults to mainnet
+   */
+  network?: ChainOrRpc;
+  /**
+   * How long the results of guards are cached for each address in seconds, defaults to 1 minute
+   */
+  guardCacheLifetime?: number;
   callbacks?: {
     login?: (address: string) => Promise<void> | void;
     user?: (
@@ -20,6 +54,12 @@ export type ThirdwebAuthConfig = {
 export type ThirdwebAuthContext = {
   sdk: ThirdwebSDK;
   domain: string;
+  authUrl: string;
+  nonceStore: INonceStore;
+  sessionStore: ISessionStore;
+  accessTokenLifetime: number;
+  refreshTokenLifetime: number;
+  guardCacheLifetime: number;
   callbacks?: {
     login?: (address: string) => Promise<void> | void;
     user?: (
@@ -30,6 +70,8 @@ export type ThirdwebAuthContext = {
   };
 };
 
+export type { ISessionStore, ThirdwebAuthSession } from "../../common/session";
+
 export type ThirdwebAuthUser = {
   address: string;
   [key: string]: any;
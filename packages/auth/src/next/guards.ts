@@ -0,0 +1,106 @@
+import { AddressCheck, createAddressChecks } from "../common/guards";
+import {
+  ThirdwebAuthContext,
+  ThirdwebAuthGuard,
+  ThirdwebAuthUser,
+} from "./types";
+import { Role } from "@thirdweb-dev/sdk";
+import { BigNumberish } from "ethers";
+import { GetServerSidePropsContext, NextApiRequest } from "next";
+
+export function createGuards(
+  ctx: ThirdwebAuthContext,
+  getUser: (
+    req: GetServerSidePropsContext["req"] | NextApiRequest,
+  ) => Promise<ThirdwebAuthUser | null>,
+) {
+  const checks = createAddressChecks(ctx);
+
+  function guard(check?: AddressCheck): ThirdwebAuthGuard {
+    async function isAllowed(user: ThirdwebAuthUser | null) {
+      return !!user && (!check || (await check(user.address)));
+    }
+
+    return {
+      apiRoute: (handler) => async (req, res) => {
+        const user = await getUser(req);
+        if (!user) {
+          return res.status(401).json({
+            error: "Not logged in.",
+          });
+        }
+        try {
+          if (!(await isAllowed(user))) {
+            return res.status(403).json({
+              error: "Not allowed to access this route.",
+            });
+          }
+        } catch {
+          // The contract couldn't be read, or doesn't implement the checked extension
+          return res.status(500).json({
+            error: "Failed to check access to this route.",
+          });
+        }
+
+        return handler(req, res);
+      },
+      getServerSideProps: (getServerSideProps, options) => async (context) => {
+        if (!(await isAllowed(await getUser(context.req)))) {
+          return options?.redirect
+            ? { redirect: { destination: options.redirect, permanent: false } }
+            : { notFound: true };
+        }
+
+        return getServerSideProps(context);
+      },
+    };
+  }
+
+  /**
+   * Guard that only lets logged in users through
+   *
+   * @example
+   * ```javascript
+   * export default requireAuth().apiRoute((req, res) => { ... });
+   * export const getServerSideProps = requireAuth().getServerSideProps(
+   *   async (context) => ({ props: {} }),
+   *   { redirect: "/login" },
+   * );
+   * ```
+   */
+  function requireAuth() {
+    return guard();
+  }
+
+  /**
+   * Guard that only lets users through that hold at least `min` tokens of an ERC20 contract
+   *
+   * @param contract - The address of the token contract
+   * @param min - The minimum balance in display units, like `"100"`
+   */
+  function requireTokenBalance(contract: string, min: string | number) {
+    return guard(checks.tokenBalance(contract, min));
+  }
+
+  /**
+   * Guard that only lets users through that own an NFT of an ERC721 or ERC1155 contract
+   *
+   * @param contract - The address of the NFT contract
+   * @param tokenId - The NFT to own, required for ERC1155 contracts, any NFT of ERC721 contracts if omitted
+   */
+  function requireNFT(contract: string, tokenId?: BigNumberish) {
+    return guard(checks.nft(contract, tokenId));
+  }
+
+  /**
+   * Guard that only lets users through that have a role on a contract
+   *
+   * @param contract - The address of the contract with permissions
+   * @param role - The role to have, like `"minter"`
+   */
+  function requireRole(contract: string, role: Role) {
+    return guard(checks.role(contract, role));
+  }
+
+  return { requireAuth, requireTokenBalance, requireNFT, requireRole };
+}
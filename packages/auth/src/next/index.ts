@@ -1,5 +1,16 @@
+import { DEFAULT_GUARD_CACHE_LIFETIME } from "../common/guards";
+import {
+  authenticateSession,
+  DEFAULT_ACCESS_TOKEN_LIFETIME,
+  DEFAULT_REFRESH_TOKEN_LIFETIME,
+  MemorySessionStore,
+  revokeSession,
+} from "../common/session";
+import { createGuards } from "./guards";
 import loginHandler from "./routes/login";
 import logoutHandler from "./routes/logout";
+import nonceHandler from "./routes/nonce";
+import refreshHandler from "./routes/refresh";
 import userHandler from "./routes/user";
 import {
   ThirdwebAuthConfig,
@@ -7,7 +18,7 @@ import {
   ThirdwebAuthRoute,
   ThirdwebAuthUser,
 } from "./types";
-import { ThirdwebSDK } from "@thirdweb-dev/sdk";
+import { MemoryNonceStore, ThirdwebSDK } from "@thirdweb-dev/sdk";
 import { NextRequest } from "next/server";
 import {
   GetServerSidePropsContext,
@@ -16,6 +27,7 @@ import {
 } from "next/types";
 
 export * from "./types";
+export { MemorySessionStore } from "../common/session";
 
 async function ThirdwebAuthRouter(
   req: NextApiRequest,
@@ -32,7 +44,11 @@ async function ThirdwebAuthRouter(
     case "user":
       return await userHandler(req, res, ctx);
     case "logout":
-      return await logoutHandler(req, res);
+      return await logoutHandler(req, res, ctx);
+    case "nonce":
+      return await nonceHandler(req, res, ctx);
+    case "refresh":
+      return await refreshHandler(req, res, ctx);
     default:
       return res.status(400).json({
         message: "Invalid route for authentication.",
@@ -43,7 +59,18 @@ async function ThirdwebAuthRouter(
 export function ThirdwebAuth(cfg: ThirdwebAuthConfig) {
   const ctx = {
     ...cfg,
-    sdk: ThirdwebSDK.fromPrivateKey(cfg.privateKey, "mainnet"),
+    authUrl: cfg.authUrl?.replace(/\/$/, "") || "/api/auth",
+    sdk: ThirdwebSDK.fromPrivateKey(cfg.privateKey, cfg.network || "mainnet"),
+    nonceStore: cfg.nonceStore || new MemoryNonceStore(),
+    sessionStore: cfg.sessionStore || new MemorySessionStore(),
+    accessTokenLifetime:
+      cfg.accessTokenLifetime || DEFAULT_ACCESS_TOKEN_LIFETIME,
+    refreshTokenLifetime:
+      cfg.refreshTokenLifetime || DEFAULT_REFRESH_TOKEN_LIFETIME,
+    guardCacheLifetime:
+      cfg.guardCacheLifetime !== undefined
+        ? cfg.guardCacheLifetime
+        : DEFAULT_GUARD_CACHE_LIFETIME,
   };
 
   function ThirdwebAuthHandler(
@@ -60,7 +87,6 @@ export function ThirdwebAuth(cfg: ThirdwebAuthConfig) {
   async function getUser(
     req: GetServerSidePropsContext["req"] | NextRequest | NextApiRequest,
   ) {
-    const { sdk, domain } = ctx;
     let user: ThirdwebAuthUser | null = null;
     const token =
       typeof req.cookies.get === "function"
@@ -69,7 +95,8 @@ export function ThirdwebAuth(cfg: ThirdwebAuthConfig) {
 
     if (token) {
       try {
-        const address = await sdk.auth.authenticate(domain, token);
+        // Tokens of sessions that were revoked or refreshed are rejected
+        const address = await authenticateSession(ctx, token);
         user = { address };
       } catch {
         // No-op
@@ -79,5 +106,27 @@ export function ThirdwebAuth(cfg: ThirdwebAuthConfig) {
     return user;
   }
 
-  return { ThirdwebAuthHandler, getUser };
+  /**
+   * List the active sessions of a wallet, like to show a user where they are logged in
+   */
+  async function getSessions(address: string) {
+    return ctx.sessionStore.list(address);
+  }
+
+  /**
+   * Revoke a session and the sessions it was refreshed from, so that their access and refresh tokens can't be used anymore
+   *
+   * @param jti - The jti of the session
+   */
+  async function revoke(jti: string) {
+    await revokeSession(ctx, jti);
+  }
+
+  return {
+    ThirdwebAuthHandler,
+    getUser,
+    getSessions,
+    revokeSession: revoke,
+    ...createGuards(ctx, getUser),
+  };
 }
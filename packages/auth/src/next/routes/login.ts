@@ -1,6 +1,6 @@
+import { createSession } from "../../common/session";
 import { ThirdwebAuthContext } from "../types";
 import { LoginPayload } from "@thirdweb-dev/sdk";
-import { serialize } from "cookie";
 import { NextApiRequest, NextApiResponse } from "next";
 
 function redirectWithError(
@@ -31,28 +31,21 @@ export default async function handler(
     redirectWithError(req, res, "MISSING_LOGIN_PAYLOAD");
   }
 
-  let token;
+  let address;
   try {
-    // Generate an access token with the SDK using the signed payload
-    token = await sdk.auth.generateAuthToken(domain, payload);
+    // Verify the signed payload with the SDK, which consumes its nonce
+    address = await sdk.auth.verify(domain, payload, {
+      nonceStore: ctx.nonceStore,
+    });
   } catch {
     return redirectWithError(req, res, "INVALID_LOGIN_PAYLOAD");
   }
 
-  // Securely set httpOnly cookie on request to prevent XSS on frontend
-  // And set path to / to enable thirdweb_auth_token usage on all endpoints
-  res.setHeader(
-    "Set-Cookie",
-    serialize("thirdweb_auth_token", token, {
-      path: "/",
-      httpOnly: true,
-      secure: true,
-      sameSite: "strict",
-    }),
-  );
+  // Start a session with a short-lived access token and a refresh token, both in httpOnly cookies
+  const { cookies } = await createSession(ctx, address);
+  res.setHeader("Set-Cookie", cookies);
 
   if (ctx.callbacks?.login) {
-    const address = sdk.auth.verify(domain, payload);
     await ctx.callbacks.login(address);
   }
 
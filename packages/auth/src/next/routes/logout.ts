@@ -1,9 +1,11 @@
-import { serialize } from "cookie";
+import { endSession, getClearedCookies } from "../../common/session";
+import { ThirdwebAuthContext } from "../types";
 import { NextApiRequest, NextApiResponse } from "next";
 
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse,
+  ctx: ThirdwebAuthContext,
 ) {
   if (req.method !== "GET") {
     return res.status(400).json({
@@ -11,14 +13,13 @@ export default async function handler(
     });
   }
 
-  // Set the access token to 'none' and expire in 5 seconds
-  res.setHeader(
-    "Set-Cookie",
-    serialize("thirdweb_auth_token", "", {
-      path: "/",
-      expires: new Date(Date.now() + 5 * 1000),
-    }),
+  // Revoke the session on the server, so that copies of its tokens can't be used anymore
+  await endSession(
+    ctx,
+    req.cookies.thirdweb_auth_token,
+    req.cookies.thirdweb_auth_refresh_token,
   );
+  res.setHeader("Set-Cookie", getClearedCookies(ctx));
 
   return res.status(301).redirect(req.headers.referer as string);
 }
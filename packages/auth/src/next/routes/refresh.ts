@@ -0,0 +1,47 @@
+import {
+  ConcurrentRefreshError,
+  getClearedCookies,
+  refreshSession,
+} from "../../common/session";
+import { ThirdwebAuthContext } from "../types";
+import { NextApiRequest, NextApiResponse } from "next";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  ctx: ThirdwebAuthContext,
+) {
+  if (req.method !== "POST") {
+    return res.status(400).json({
+      error: "Invalid method. Only POST supported.",
+    });
+  }
+
+  const refreshToken = req.cookies.thirdweb_auth_refresh_token;
+  if (!refreshToken) {
+    return res.status(401).json({
+      error: "Missing refresh token.",
+    });
+  }
+
+  try {
+    // Rotate the refresh token, the one in the request can't be used again
+    const { address, expiresAt, cookies } = await refreshSession(
+      ctx,
+      refreshToken,
+    );
+    res.setHeader("Set-Cookie", cookies);
+    return res.status(200).json({ address, expiresAt });
+  } catch (err) {
+    if (err instanceof ConcurrentRefreshError) {
+      // Keep the cookies, the concurrent request sets the new tokens
+      return res.status(409).json({
+        error: "Session is already being refreshed.",
+      });
+    }
+    res.setHeader("Set-Cookie", getClearedCookies(ctx));
+    return res.status(401).json({
+      error: "Invalid refresh token.",
+    });
+  }
+}
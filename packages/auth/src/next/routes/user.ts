@@ -1,3 +1,4 @@
+import { authenticateSession } from "../../common/session";
 import { ThirdwebAuthContext, ThirdwebAuthUser } from "../types";
 import { NextApiRequest, NextApiResponse } from "next";
 
@@ -12,13 +13,13 @@ export default async function handler(
     });
   }
 
-  const { sdk, domain } = ctx;
   let user = null;
   const token = req.cookies.thirdweb_auth_token;
 
   if (token) {
     try {
-      const address = await sdk.auth.authenticate(domain, token);
+      // Tokens of sessions that were revoked or refreshed are rejected
+      const address = await authenticateSession(ctx, token);
 
       if (ctx.callbacks?.user) {
         user = await ctx.callbacks.user(address);
@@ -1,10 +1,49 @@
-import { ThirdwebSDK } from "@thirdweb-dev/sdk";
+import { ISessionStore } from "../../common/session";
+import { ChainOrRpc, INonceStore, ThirdwebSDK } from "@thirdweb-dev/sdk";
+import { GetServerSideProps, NextApiHandler } from "next";
 
-export type ThirdwebAuthRoute = "login" | "logout" | "user";
+export type ThirdwebAuthRoute =
+  | "login"
+  | "logout"
+  | "user"
+  | "nonce"
+  | "refresh";
 
 export type ThirdwebAuthConfig = {
   privateKey: string;
   domain: string;
+  /**
+   * The path of the catch-all auth route, defaults to `/api/auth` for `pages/api/auth/[...thirdweb].ts`
+   */
+  authUrl?: string;
+  /**
+   * Where the nonces of login requests are stored, defaults to memory.
+   * Use a shared store when running multiple servers, like on serverless deployments.
+   */
+  nonceStore?: INonceStore;
+  /**
+   * Where the sessions of logged in users are stored, defaults to memory.
+   * Sessions are revoked on logout, and can be listed and revoked with `getSessions` and `revokeSession`.
+   */
+  sessionStore?: ISessionStore;
+  /**
+   * How long access tokens are valid for in seconds, defaults to 15 minutes.
+   * Expired access tokens are replaced by calling the `/refresh` route.
+   */
+  accessTokenLifetime?: number;
+  /**
+   * How long refresh tokens are valid for in seconds, defaults to 30 days.
+   * Every refresh issues a new refresh token, so users stay logged in as long as they keep coming back.
+   */
+  refreshTokenLifetime?: number;
+  /**
+   * The network of the contracts checked by guards like `requireNFT`, defaults to mainnet
+   */
+  network?: ChainOrRpc;
+  /**
+   * How long the results of guards are cached for each address in seconds, defaults to 1 minute
+   */
+  guardCacheLifetime?: number;
   callbacks?: {
     login?: (address: string) => Promise<void> | void;
     user?: (
@@ -18,6 +57,12 @@ export type ThirdwebAuthConfig = {
 export type ThirdwebAuthContext = {
   sdk: ThirdwebSDK;
   domain: string;
+  authUrl: string;
+  nonceStore: INonceStore;
+  sessionStore: ISessionStore;
+  accessTokenLifetime: number;
+  refreshTokenLifetime: number;
+  guardCacheLifetime: number;
   callbacks?: {
     login?: (address: string) => Promise<void> | void;
     user?: (
@@ -28,7 +73,28 @@ export type ThirdwebAuthContext = {
   };
 };
 
+export type { ISessionStore, ThirdwebAuthSession } from "../../common/session";
+
 export type ThirdwebAuthUser = {
   address: string;
   [key: string]: any;
 };
+
+/**
+ * Guards the API routes and pages of an app, like `requireNFT(contract)`
+ */
+export type ThirdwebAuthGuard = {
+  /**
+   * Wrap an API route, which responds with a 401 status to users that are not logged in,
+   * a 403 status to users that are not allowed, and a 500 status when the contract can't be checked
+   */
+  apiRoute: (handler: NextApiHandler) => NextApiHandler;
+  /**
+   * Wrap the `getServerSideProps` of a page, which responds with a 404 page
+   * or redirects to `options.redirect` when the user is not allowed
+   */
+  getServerSideProps: <P extends { [key: string]: any }>(
+    getServerSideProps: GetServerSideProps<P>,
+    options?: { redirect?: string },
+  ) => GetServerSideProps<P>;
+};
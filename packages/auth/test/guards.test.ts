@@ -0,0 +1,222 @@
+import { createGuards as createExpressGuards } from "../src/express/guards";
+import { createGuards as createNextGuards } from "../src/next/guards";
+import { ThirdwebAuthGuard } from "../src/next/types";
+import { MissingRoleError } from "@thirdweb-dev/sdk";
+import { expect } from "chai";
+import { BigNumber, ethers } from "ethers";
+
+const alice = ethers.Wallet.createRandom().address;
+const bob = ethers.Wallet.createRandom().address;
+
+const TOKEN = ethers.Wallet.createRandom().address;
+const ERC721 = ethers.Wallet.createRandom().address;
+const ERC1155 = ethers.Wallet.createRandom().address;
+const PERMISSIONS = ethers.Wallet.createRandom().address;
+const BROKEN = ethers.Wallet.createRandom().address;
+
+const ERC1155_ABI = JSON.parse(
+  new ethers.utils.Interface([
+    "function balanceOf(address account, uint256 id) view returns (uint256 balance)",
+    "function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[] balances)",
+    "function isApprovedForAll(address account, address operator) view returns (bool approved)",
+    "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
+    "function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+    "function setApprovalForAll(address operator, bool approved)",
+  ]).format(ethers.utils.FormatTypes.json) as string,
+);
+
+// Alice holds 150 tokens, the NFT 0 of both collections, and the minter role. Bob has nothing.
+const contracts: Record<string, any> = {
+  [TOKEN]: {
+    abi: [],
+    erc20: {
+      balanceOf: async (address: string) => ({
+        value: ethers.utils.parseUnits(address === alice ? "150" : "0", 18),
+        decimals: 18,
+      }),
+    },
+  },
+  [ERC721]: {
+    abi: [],
+    erc721: {
+      balanceOf: async (address: string) =>
+        BigNumber.from(address === alice ? 1 : 0),
+      ownerOf: async (tokenId: number) => {
+        if (tokenId !== 0) {
+          throw new Error("owner query for nonexistent token");
+        }
+        return alice;
+      },
+    },
+  },
+  [ERC1155]: {
+    abi: ERC1155_ABI,
+    erc1155: {
+      balanceOf: async (address: string, tokenId: number) =>
+        BigNumber.from(address === alice && tokenId === 0 ? 1 : 0),
+    },
+  },
+  [PERMISSIONS]: {
+    abi: [],
+    roles: {
+      verify: async ([role]: string[], address: string) => {
+        if (address !== alice || role !== "minter") {
+          throw new MissingRoleError(address, role);
+        }
+      },
+    },
+  },
+};
+
+function createContext() {
+  const sdk = {
+    chainId: 1,
+    reads: 0,
+    getProvider: () => ({
+      getNetwork: async () => ({ chainId: sdk.chainId }),
+    }),
+    getContract: async (address: string) => {
+      sdk.reads++;
+      if (!contracts[address]) {
+        throw new Error(`could not read ${address}`);
+      }
+      return contracts[address];
+    },
+  };
+  return { sdk, guardCacheLifetime: 60 } as any;
+}
+
+function createResponse() {
+  return {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: any) {
+      this.body = body;
+      return this;
+    },
+  };
+}
+
+const adapters = [
+  {
+    name: "Express",
+    createGuards: (ctx: any) => createExpressGuards(ctx),
+    // the status of the response, 200 if the request got through the middleware
+    async getStatus(guard: any, user: string | null) {
+      const res = createResponse();
+      let passed = false;
+      await guard({ user: user && { address: user } }, res, () => {
+        passed = true;
+      });
+      return passed ? 200 : res.statusCode;
+    },
+  },
+  {
+    name: "Next",
+    createGuards: (ctx: any) =>
+      createNextGuards(ctx, async (req: any) => req.user),
+    async getStatus(guard: any, user: string | null) {
+      const res = createResponse();
+      await (guard as ThirdwebAuthGuard).apiRoute((_, routeRes) =>
+        routeRes.status(200).json({}),
+      )({ user: user && { address: user } } as any, res as any);
+      return res.statusCode;
+    },
+  },
+];
+
+describe("Guards", async () => {
+  for (const adapter of adapters) {
+    describe(adapter.name, async () => {
+      let ctx: any;
+      let guards: ReturnType<typeof createExpressGuards>;
+
+      beforeEach(() => {
+        ctx = createContext();
+        guards = adapter.createGuards(ctx) as any;
+      });
+
+      it("Should respond with 401 to users that are not logged in", async () => {
+        expect(await adapter.getStatus(guards.requireAuth(), null)).to.equal(
+          401,
+        );
+        expect(
+          await adapter.getStatus(guards.requireNFT(ERC721), null),
+        ).to.equal(401);
+        expect(await adapter.getStatus(guards.requireAuth(), bob)).to.equal(
+          200,
+        );
+      });
+
+      it("Should require a token balance", async () => {
+        const guard = guards.requireTokenBalance(TOKEN, "100");
+        expect(await adapter.getStatus(guard, alice)).to.equal(200);
+        expect(await adapter.getStatus(guard, bob)).to.equal(403);
+        expect(
+          await adapter.getStatus(
+            guards.requireTokenBalance(TOKEN, "150.5"),
+            alice,
+          ),
+        ).to.equal(403);
+      });
+
+      it("Should require an NFT", async () => {
+        expect(
+          await adapter.getStatus(guards.requireNFT(ERC721), alice),
+        ).to.equal(200);
+        expect(
+          await adapter.getStatus(guards.requireNFT(ERC721), bob),
+        ).to.equal(403);
+        expect(
+          await adapter.getStatus(guards.requireNFT(ERC721, 0), alice),
+        ).to.equal(200);
+        expect(
+          await adapter.getStatus(guards.requireNFT(ERC721, 1), alice),
+        ).to.equal(403);
+        expect(
+          await adapter.getStatus(guards.requireNFT(ERC1155, 0), alice),
+        ).to.equal(200);
+        expect(
+          await adapter.getStatus(guards.requireNFT(ERC1155, 1), alice),
+        ).to.equal(403);
+        // ERC1155 contracts can only be checked for a token ID
+        expect(
+          await adapter.getStatus(guards.requireNFT(ERC1155), alice),
+        ).to.equal(500);
+      });
+
+      it("Should require a role", async () => {
+        const guard = guards.requireRole(PERMISSIONS, "minter");
+        expect(await adapter.getStatus(guard, alice)).to.equal(200);
+        expect(await adapter.getStatus(guard, bob)).to.equal(403);
+        expect(
+          await adapter.getStatus(
+            guards.requireRole(PERMISSIONS, "admin"),
+            alice,
+          ),
+        ).to.equal(403);
+      });
+
+      it("Should respond with 500 when the contract can't be read", async () => {
+        expect(
+          await adapter.getStatus(guards.requireNFT(BROKEN), alice),
+        ).to.equal(500);
+      });
+
+      it("Should cache the results by chain", async () => {
+        const guard = guards.requireNFT(ERC721);
+        await adapter.getStatus(guard, alice);
+        await adapter.getStatus(guard, alice);
+        expect(ctx.sdk.reads).to.equal(1);
+
+        ctx.sdk.chainId = 137;
+        await adapter.getStatus(guard, alice);
+        expect(ctx.sdk.reads).to.equal(2);
+      });
+    });
+  }
+});
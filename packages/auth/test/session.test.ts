@@ -0,0 +1,150 @@
+/* eslint-disable no-unused-expressions */
+import {
+  authenticateSession,
+  ConcurrentRefreshError,
+  createSession,
+  endSession,
+  getClearedCookies,
+  MemorySessionStore,
+  refreshSession,
+  SessionContext,
+  SessionTokens,
+} from "../src/common/session";
+import { ThirdwebSDK } from "@thirdweb-dev/sdk";
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+describe("Sessions", async () => {
+  const address = ethers.Wallet.createRandom().address;
+  let sessionStore: MemorySessionStore;
+  let ctx: SessionContext;
+
+  beforeEach(() => {
+    sessionStore = new MemorySessionStore();
+    ctx = {
+      sdk: ThirdwebSDK.fromPrivateKey(
+        ethers.Wallet.createRandom().privateKey,
+        "http://localhost:8545",
+      ),
+      domain: "thirdweb.com",
+      authUrl: "/api/auth",
+      sessionStore,
+      accessTokenLifetime: 60,
+      refreshTokenLifetime: 60 * 60,
+    };
+  });
+
+  async function expectRejected(promise: Promise<unknown>, message: string) {
+    try {
+      await promise;
+      expect.fail("Should have been rejected");
+    } catch (err: any) {
+      expect(err.message).to.contain(message);
+    }
+  }
+
+  it("Should rotate the tokens of a session", async () => {
+    const login = await createSession(ctx, address);
+    expect(await authenticateSession(ctx, login.token)).to.equal(address);
+
+    const refreshed = await refreshSession(ctx, login.refreshToken);
+    expect(refreshed.refreshToken).to.not.equal(login.refreshToken);
+    expect(await authenticateSession(ctx, refreshed.token)).to.equal(address);
+    await expectRejected(
+      authenticateSession(ctx, login.token),
+      "Session has been revoked",
+    );
+
+    // only the active session of the family is listed
+    const sessions = await sessionStore.list(address);
+    expect(sessions.map((session) => session.jti)).to.deep.equal([
+      refreshed.refreshToken.split(".")[0],
+    ]);
+    expect(sessions[0].familyId).to.equal(login.refreshToken.split(".")[0]);
+  });
+
+  it("Should scope the refresh token cookie to the refresh route", async () => {
+    const { cookies } = await createSession(ctx, address);
+    expect(cookies[0]).to.contain("Path=/;");
+    expect(cookies[1]).to.contain("Path=/api/auth/refresh;");
+    expect(getClearedCookies(ctx)[1]).to.contain("Path=/api/auth/refresh;");
+  });
+
+  it("Should revoke the family of a reused refresh token", async () => {
+    const login = await createSession(ctx, address);
+    const refreshed = await refreshSession(ctx, login.refreshToken);
+
+    // as if the rotated refresh token was stolen and used a minute later
+    const rotated = await sessionStore.get(login.refreshToken.split(".")[0]);
+    (rotated as any).rotatedAt = new Date(Date.now() - 60 * 1000);
+    await expectRejected(
+      refreshSession(ctx, login.refreshToken),
+      "Refresh token has already been used",
+    );
+
+    await expectRejected(
+      authenticateSession(ctx, refreshed.token),
+      "Session has been revoked",
+    );
+    await expectRejected(
+      refreshSession(ctx, refreshed.refreshToken),
+      "Refresh token is invalid",
+    );
+    expect(await sessionStore.list(address)).to.be.empty;
+  });
+
+  it("Should only refresh a session once for concurrent requests", async () => {
+    const login = await createSession(ctx, address);
+    const results = await Promise.allSettled([
+      refreshSession(ctx, login.refreshToken),
+      refreshSession(ctx, login.refreshToken),
+    ]);
+
+    const refreshed = results.filter(
+      (result) => result.status === "fulfilled",
+    ) as PromiseFulfilledResult<SessionTokens>[];
+    const rejected = results.filter(
+      (result) => result.status === "rejected",
+    ) as PromiseRejectedResult[];
+    expect(refreshed).to.have.length(1);
+    expect(rejected).to.have.length(1);
+    expect(rejected[0].reason).to.be.instanceOf(ConcurrentRefreshError);
+
+    // the session refreshed by the first request is still valid
+    expect(await authenticateSession(ctx, refreshed[0].value.token)).to.equal(
+      address,
+    );
+  });
+
+  it("Should reject expired tokens", async () => {
+    const login = await createSession(
+      { ...ctx, accessTokenLifetime: 1, refreshTokenLifetime: 1 },
+      address,
+    );
+    await new Promise((resolve) => setTimeout(resolve, 2100));
+
+    await expectRejected(authenticateSession(ctx, login.token), "expired");
+    await expectRejected(
+      refreshSession(ctx, login.refreshToken),
+      "Refresh token is invalid, expired or has been revoked",
+    );
+  });
+
+  it("Should revoke every session of the family on logout", async () => {
+    const login = await createSession(ctx, address);
+    const refreshed = await refreshSession(ctx, login.refreshToken);
+    const otherDevice = await createSession(ctx, address);
+
+    await endSession(ctx, refreshed.token);
+    await expectRejected(
+      authenticateSession(ctx, refreshed.token),
+      "Session has been revoked",
+    );
+    // an old refresh token of the family can't be used to sign back in
+    await expectRejected(
+      refreshSession(ctx, login.refreshToken),
+      "Refresh token is invalid",
+    );
+    expect(await authenticateSession(ctx, otherDevice.token)).to.equal(address);
+  });
+});
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract Counter {
+  uint256 public count;
+
+  event Incremented(address indexed by, uint256 count);
+
+  function increment(uint256 by) external {
+    count += by;
+    emit Incremented(msg.sender, count);
+  }
+}
@@ -0,0 +1,41 @@
+import { ERROR_MESSAGES } from "../constants/constants";
+import { prepareEnvironment } from "@gmrchk/cli-testing-library";
+import { copyFile } from "fs/promises";
+import { resolve } from "path";
+
+// compiling the contract can take some time that's fine
+jest.setTimeout(120_000);
+
+describe("npx thirdweb generate", () => {
+  it("should generate typings for a contract", async () => {
+    const { spawn, cleanup, exists, path, readFile } =
+      await prepareEnvironment();
+
+    await copyFile(resolve("./e2e/files/Counter.sol"), `${path}/Counter.sol`);
+
+    const { waitForText, waitForFinish, getExitCode, writeText } = await spawn(
+      "node",
+      "./dist/cli/index.js generate",
+    );
+
+    await waitForText(ERROR_MESSAGES.noConfiguration);
+    await writeText("y");
+
+    // wait for program to finish
+    await waitForFinish();
+
+    // the process should exit with code 0
+    expect(getExitCode()).toEqual(0);
+
+    expect(await exists("thirdweb-types/Counter.ts")).toEqual(true);
+    const typings = await readFile("thirdweb-types/Counter.ts");
+    expect(typings).toContain("export type CounterTypings");
+    expect(typings).toContain(
+      "increment: { args: [by: BigNumberish]; result: TransactionResult };",
+    );
+    expect(typings).toContain("Incremented: { by: string; count: BigNumber };");
+    expect(typings).toContain("as unknown as TypedAbi<CounterTypings>");
+
+    await cleanup(); // cleanup after test
+  });
+});
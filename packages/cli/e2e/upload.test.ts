@@ -0,0 +1,43 @@
+import { prepareEnvironment } from "@gmrchk/cli-testing-library";
+import { copyFile, mkdir } from "fs/promises";
+import { resolve } from "path";
+
+// uploading to IPFS can take some time that's fine
+jest.setTimeout(120_000);
+
+describe("npx thirdweb upload", () => {
+  it("should upload a directory with its nested files", async () => {
+    const { spawn, cleanup, path } = await prepareEnvironment();
+
+    await mkdir(`${path}/site/contracts`, { recursive: true });
+    await copyFile(
+      resolve("./e2e/files/Counter.sol"),
+      `${path}/site/contracts/Counter.sol`,
+    );
+    await copyFile(
+      resolve("./e2e/files/BasicContract.sol"),
+      `${path}/site/BasicContract.sol`,
+    );
+
+    const { waitForFinish, getExitCode, getStdout } = await spawn(
+      "node",
+      "./dist/cli/index.js upload site",
+    );
+
+    // wait for program to finish
+    await waitForFinish();
+
+    // the process should exit with code 0
+    expect(getExitCode()).toEqual(0);
+
+    const lines = getStdout();
+    expect(
+      lines.findIndex((line) => line.includes("Uploaded 2 files")),
+    ).toBeGreaterThan(-1);
+    expect(lines.findIndex((line) => line.includes("ipfs://"))).toBeGreaterThan(
+      -1,
+    );
+
+    await cleanup(); // cleanup after test
+  });
+});
@@ -1,7 +1,9 @@
 #!/usr/bin/env node
 import { installGithubAction } from "../common/ci-installer";
+import { generateTypes } from "../common/codegen";
 import { detectExtensions } from "../common/feature-detector";
 import { processProject } from "../common/processor";
+import { uploadToIpfs } from "../common/upload";
 import { cliVersion, pkg } from "../constants/urls";
 import { info, logger } from "../core/helpers/logger";
 import { twCreate } from "../create/command";
@@ -141,6 +143,38 @@ $$$$$$\\   $$$$$$$\\  $$\\  $$$$$$\\   $$$$$$$ |$$\\  $$\\  $$\\  $$$$$$\\  $$$$
       await detectExtensions(options);
     });
 
+  program
+    .command("generate")
+    .description(
+      "Generate TypeScript typings for your contracts, to get typed function calls and events from the SDK",
+    )
+    .option("-p, --path <project-path>", "path to project", ".")
+    .option(
+      "-u, --uri [uri]",
+      "generate typings for a released contract from its metadata URI instead of compiling the project",
+    )
+    .option(
+      "-o, --output <output-path>",
+      "where to write the typings",
+      "./thirdweb-types",
+    )
+    .option("-d, --debug", "show debug logs")
+    .option("-a, --all", "generate typings for all contracts")
+    .action(async (options) => {
+      await generateTypes(options);
+    });
+
+  program
+    .command("upload")
+    .description(
+      "Upload a file or a directory to IPFS. Directories are uploaded with their nested files under a single URI.",
+    )
+    .argument("<path>", "path to the file or directory to upload")
+    .option("-d, --debug", "show debug logs, including the URI of every file")
+    .action(async (filePath, options) => {
+      await uploadToIpfs(filePath, options);
+    });
+
   program
     .command("install-ci")
     .description(
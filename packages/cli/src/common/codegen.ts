@@ -0,0 +1,112 @@
+import build from "../core/builder/build";
+import { generateTypings, toTypeName } from "../core/codegen/typings";
+import detect from "../core/detection/detect";
+import { error, info, logger, spinner } from "../core/helpers/logger";
+import { createContractsPrompt } from "../core/helpers/selector";
+import { ContractPayload } from "../core/interfaces/ContractPayload";
+import {
+  fetchContractMetadata,
+  fetchRawPredeployMetadata,
+} from "@thirdweb-dev/sdk";
+import { ThirdwebStorage } from "@thirdweb-dev/storage";
+import chalk from "chalk";
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+
+type ContractAbi = {
+  name: string;
+  abi: any[];
+};
+
+export async function generateTypes(options: any) {
+  logger.setSettings({
+    minLevel: options.debug ? "debug" : "info",
+  });
+
+  const contracts = options.uri
+    ? await fetchPublishedAbi(options.uri)
+    : await compileProject(options);
+
+  const outputPath = path.resolve(process.cwd(), options.output);
+  mkdirSync(outputPath, { recursive: true });
+  for (const contract of contracts) {
+    const filePath = path.join(outputPath, `${toTypeName(contract.name)}.ts`);
+    logger.debug("Writing typings to " + filePath);
+    writeFileSync(filePath, generateTypings(contract.name, contract.abi));
+    info(
+      `Generated typings for ${chalk.blueBright(contract.name)} in ${chalk.gray(
+        path.relative(process.cwd(), filePath),
+      )}`,
+    );
+  }
+}
+
+async function fetchPublishedAbi(uri: string): Promise<ContractAbi[]> {
+  const storage = new ThirdwebStorage();
+  const loader = spinner("Fetching contract metadata...");
+  try {
+    const predeployMetadata = await fetchRawPredeployMetadata(uri, storage);
+    const metadata = await fetchContractMetadata(
+      predeployMetadata.metadataUri,
+      storage,
+    );
+    loader.succeed("Fetched contract metadata");
+    return [{ name: metadata.name, abi: metadata.abi }];
+  } catch (e) {
+    loader.fail("Could not fetch contract metadata");
+    logger.error(e);
+    process.exit(1);
+  }
+}
+
+async function compileProject(options: any): Promise<ContractAbi[]> {
+  let projectPath = process.cwd();
+  if (options.path) {
+    logger.debug("Overriding project path to " + options.path);
+
+    const resolvedPath = (options.path as string).startsWith("/")
+      ? options.path
+      : path.resolve(`${projectPath}/${options.path}`);
+    projectPath = resolvedPath;
+  }
+
+  logger.debug("Processing project at path " + projectPath);
+
+  const projectType = await detect(projectPath, options);
+  if (projectType === "none") {
+    error("No detected contracts in this directory.");
+    process.exit(1);
+  }
+
+  let compiledResult;
+  const compileLoader = spinner("Compiling project...");
+  try {
+    compiledResult = await build(projectPath, projectType);
+  } catch (e) {
+    compileLoader.fail("Compilation failed");
+    logger.error(e);
+    process.exit(1);
+  }
+  compileLoader.succeed("Compilation successful");
+
+  let selectedContracts: ContractPayload[] = [];
+  if (compiledResult.contracts.length === 1 || options.all) {
+    selectedContracts = compiledResult.contracts;
+  } else {
+    const choices = compiledResult.contracts.map((c) => ({
+      name: c.name,
+      value: c,
+    }));
+    const prompt = createContractsPrompt(
+      choices,
+      "Choose which contracts to generate typings for",
+    );
+    const selection: Record<string, ContractPayload> = await prompt.run();
+    selectedContracts = Object.keys(selection).map((key) => selection[key]);
+  }
+
+  return selectedContracts.map((contract) => ({
+    name: contract.name,
+    abi: JSON.parse(contract.metadata)["output"]["abi"],
+  }));
+}
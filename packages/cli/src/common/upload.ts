@@ -0,0 +1,57 @@
+import { info, logger, spinner } from "../core/helpers/logger";
+import { ThirdwebStorage } from "@thirdweb-dev/storage";
+import { readDirectory } from "@thirdweb-dev/storage/server";
+import chalk from "chalk";
+import { existsSync, readFileSync, statSync } from "fs";
+import path from "path";
+
+export async function uploadToIpfs(filePath: string, options: any) {
+  logger.setSettings({
+    minLevel: options.debug ? "debug" : "info",
+  });
+
+  const resolvedPath = path.resolve(process.cwd(), filePath);
+  if (!existsSync(resolvedPath)) {
+    logger.error(`Could not find ${filePath}`);
+    process.exit(1);
+  }
+
+  const storage = new ThirdwebStorage();
+  const isDirectory = statSync(resolvedPath).isDirectory();
+  const loader = spinner(
+    `Uploading ${isDirectory ? "directory" : "file"} to IPFS...`,
+  );
+  try {
+    if (isDirectory) {
+      const { uri, uris } = await storage.uploadDirectory(
+        await readDirectory(resolvedPath),
+      );
+      loader.succeed(
+        `Uploaded ${Object.keys(uris).length} files in ${chalk.gray(filePath)}`,
+      );
+      for (const [filePathInDirectory, fileUri] of Object.entries(uris)) {
+        logger.debug(`${filePathInDirectory}: ${fileUri}`);
+      }
+      printUri(storage, uri);
+    } else {
+      const uri = await storage.upload(
+        {
+          name: path.basename(resolvedPath),
+          data: readFileSync(resolvedPath),
+        },
+        { uploadWithoutDirectory: true },
+      );
+      loader.succeed(`Uploaded ${chalk.gray(filePath)}`);
+      printUri(storage, uri);
+    }
+  } catch (e) {
+    loader.fail("Error uploading to IPFS");
+    logger.error(e);
+    process.exit(1);
+  }
+}
+
+function printUri(storage: ThirdwebStorage, uri: string) {
+  info(`IPFS URI: ${chalk.blueBright(uri)}`);
+  info(`Gateway URL: ${chalk.blueBright(storage.resolveScheme(uri))}`);
+}
@@ -0,0 +1,309 @@
+import { ethers } from "ethers";
+
+// ethers returns integers that fit in 48 bits as numbers
+const MAX_NUMBER_BITS = 48;
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// names that can't be used as tuple labels
+const RESERVED_WORDS = [
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "debugger",
+  "default",
+  "delete",
+  "do",
+  "else",
+  "enum",
+  "export",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "function",
+  "if",
+  "import",
+  "in",
+  "instanceof",
+  "new",
+  "null",
+  "return",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "typeof",
+  "var",
+  "void",
+  "while",
+  "with",
+];
+
+type Imports = Set<string>;
+
+/**
+ * Generate a TypeScript module with the typings and the typed ABI of a contract
+ * @param contractName - the name of the contract, used to name the exports
+ * @param abi - the ABI of the contract
+ * @returns the source of the module
+ */
+export function generateTypings(
+  contractName: string,
+  abi: ethers.ContractInterface,
+): string {
+  const name = toTypeName(contractName);
+  const contractInterface = new ethers.utils.Interface(abi as any);
+  const sdkImports: Imports = new Set(["TypedAbi"]);
+  const ethersImports: Imports = new Set();
+
+  // overloaded functions share their name, any of the overloads can be called
+  const functions = new Map<string, { args: string[]; results: string[] }>();
+  for (const fragment of Object.values(contractInterface.functions)) {
+    const fn = functions.get(fragment.name) || { args: [], results: [] };
+    fn.args.push(inputTuple(fragment.inputs, ethersImports));
+    fn.results.push(functionResult(fragment, sdkImports, ethersImports));
+    functions.set(fragment.name, fn);
+  }
+
+  const events = new Map<string, string>();
+  for (const fragment of Object.values(contractInterface.events)) {
+    // only the first of overloaded events can be listened to by name
+    if (!events.has(fragment.name)) {
+      events.set(fragment.name, eventData(fragment, ethersImports));
+    }
+  }
+
+  const lines = [
+    "/* Autogenerated file. Do not edit manually, run `npx thirdweb generate` again instead. */",
+    `import type { ${[...sdkImports]
+      .sort()
+      .join(", ")} } from "@thirdweb-dev/sdk";`,
+  ];
+  if (ethersImports.size > 0) {
+    lines.push(
+      `import type { ${[...ethersImports].sort().join(", ")} } from "ethers";`,
+    );
+  }
+  lines.push(
+    "",
+    `export type ${name}Typings = {`,
+    "  functions: {",
+    ...[...functions.entries()].map(
+      ([fnName, fn]) =>
+        `    ${toKey(fnName)}: { args: ${union(fn.args)}; result: ${union(
+          fn.results,
+        )} };`,
+    ),
+    "  };",
+    "  events: {",
+    ...[...events.entries()].map(
+      ([eventName, data]) => `    ${toKey(eventName)}: ${data};`,
+    ),
+    "  };",
+    "};",
+    "",
+    `export const ${name}Abi = ${JSON.stringify(
+      JSON.parse(contractInterface.format("json") as string),
+      null,
+      2,
+    )} as unknown as TypedAbi<${name}Typings>;`,
+    "",
+  );
+  return lines.join("\n");
+}
+
+/**
+ * The name of the generated types for a contract name, such as `MyContract` for `my-contract.sol`
+ * @internal
+ */
+export function toTypeName(contractName: string): string {
+  const name = contractName
+    .replace(/\.sol$/, "")
+    .split(/[^A-Za-z0-9_$]+/)
+    .filter((part) => part.length > 0)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name || "Contract";
+}
+
+function inputTuple(params: ethers.utils.ParamType[], ethersImports: Imports) {
+  const labels = tupleLabels(params);
+  return `[${params
+    .map((param, i) => `${labels[i]}: ${inputType(param, ethersImports)}`)
+    .join(", ")}]`;
+}
+
+function inputType(
+  param: ethers.utils.ParamType,
+  ethersImports: Imports,
+): string {
+  if (param.baseType === "array") {
+    return `${wrap(inputType(param.arrayChildren, ethersImports))}[]`;
+  }
+  if (param.baseType === "tuple") {
+    // tuples can be passed as objects when all of their components are named
+    if (param.components.every((c) => IDENTIFIER.test(c.name || ""))) {
+      return `{ ${param.components
+        .map((c) => `${c.name}: ${inputType(c, ethersImports)}`)
+        .join("; ")} }`;
+    }
+    return `[${param.components
+      .map((c) => inputType(c, ethersImports))
+      .join(", ")}]`;
+  }
+  if (param.baseType.startsWith("int") || param.baseType.startsWith("uint")) {
+    ethersImports.add("BigNumberish");
+    return "BigNumberish";
+  }
+  if (param.baseType.startsWith("bytes")) {
+    ethersImports.add("BytesLike");
+    return "BytesLike";
+  }
+  return primitiveType(param.baseType);
+}
+
+function functionResult(
+  fragment: ethers.utils.FunctionFragment,
+  sdkImports: Imports,
+  ethersImports: Imports,
+): string {
+  if (
+    fragment.stateMutability !== "view" &&
+    fragment.stateMutability !== "pure"
+  ) {
+    // write functions resolve with the transaction receipt
+    sdkImports.add("TransactionResult");
+    return "TransactionResult";
+  }
+  const outputs = fragment.outputs || [];
+  if (outputs.length === 0) {
+    return "void";
+  }
+  if (outputs.length === 1) {
+    return outputType(outputs[0], ethersImports);
+  }
+  return resultType(outputs, ethersImports);
+}
+
+function outputType(
+  param: ethers.utils.ParamType,
+  ethersImports: Imports,
+): string {
+  if (param.baseType === "array") {
+    return `${wrap(outputType(param.arrayChildren, ethersImports))}[]`;
+  }
+  if (param.baseType === "tuple") {
+    return resultType(param.components, ethersImports);
+  }
+  if (param.baseType.startsWith("int") || param.baseType.startsWith("uint")) {
+    const bits = parseInt(param.baseType.replace(/^u?int/, "") || "256");
+    if (bits <= MAX_NUMBER_BITS) {
+      return "number";
+    }
+    ethersImports.add("BigNumber");
+    return "BigNumber";
+  }
+  if (param.baseType.startsWith("bytes")) {
+    return "string";
+  }
+  return primitiveType(param.baseType);
+}
+
+/**
+ * Decoded structs and multiple return values are arrays that also have their named values as properties
+ */
+function resultType(params: ethers.utils.ParamType[], ethersImports: Imports) {
+  const types = params.map((param) => outputType(param, ethersImports));
+  const tuple = `[${types.join(", ")}]`;
+  const named = params
+    .map((param, i) => (param.name ? `${toKey(param.name)}: ${types[i]}` : ""))
+    .filter((property) => property.length > 0);
+  return named.length > 0 ? `${tuple} & { ${named.join("; ")} }` : tuple;
+}
+
+/**
+ * The data of a contract event, as built by `ContractEvents` in the SDK
+ */
+function eventData(
+  fragment: ethers.utils.EventFragment,
+  ethersImports: Imports,
+) {
+  const properties = fragment.inputs
+    .filter((param) => param.name)
+    .map((param) => {
+      let type: string;
+      if (param.indexed && isDynamic(param)) {
+        // only the hash of indexed dynamic values is logged
+        ethersImports.add("utils");
+        type = "utils.Indexed";
+      } else if (param.baseType === "tuple") {
+        type = `{ ${param.components
+          .filter((c) => c.name)
+          .map((c) => `${toKey(c.name)}: ${outputType(c, ethersImports)}`)
+          .join("; ")} }`;
+      } else {
+        type = outputType(param, ethersImports);
+      }
+      return `${toKey(param.name)}: ${type}`;
+    });
+  return `{ ${properties.join("; ")} }`;
+}
+
+function isDynamic(param: ethers.utils.ParamType) {
+  return (
+    param.baseType === "string" ||
+    param.baseType === "bytes" ||
+    param.baseType === "array" ||
+    param.baseType === "tuple"
+  );
+}
+
+function primitiveType(baseType: string) {
+  switch (baseType) {
+    case "address":
+    case "string":
+      return "string";
+    case "bool":
+      return "boolean";
+    default:
+      return "unknown";
+  }
+}
+
+function tupleLabels(params: ethers.utils.ParamType[]) {
+  const labels: string[] = [];
+  params.forEach((param, i) => {
+    let label =
+      param.name && IDENTIFIER.test(param.name) ? param.name : `arg${i}`;
+    if (RESERVED_WORDS.includes(label)) {
+      label = `_${label}`;
+    }
+    if (labels.includes(label)) {
+      label = `${label}${i}`;
+    }
+    labels.push(label);
+  });
+  return labels;
+}
+
+function toKey(name: string) {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+function union(types: string[]) {
+  const unique = [...new Set(types)];
+  return unique.length === 1 ? unique[0] : unique.join(" | ");
+}
+
+/**
+ * Parenthesize union and intersection types before making them arrays
+ */
+function wrap(type: string) {
+  return / [|&] /.test(type) ? `(${type})` : type;
+}
@@ -1,6 +1,6 @@
-import { getChainFromChainId } from "../../constants/chain";
+import { getDefaultSupportedChains } from "../../constants/chain";
 import { Select, SelectProps } from "../shared/Select";
-import { ChainId, SUPPORTED_CHAIN_IDS } from "@thirdweb-dev/sdk";
+import { ChainId } from "@thirdweb-dev/sdk";
 import { useMemo } from "react";
 
 export interface SupportedNetworkSelectProps extends SelectProps {
@@ -12,21 +12,19 @@ export const SupportedNetworkSelect: React.FC<SupportedNetworkSelectProps> = ({
   ...selectProps
 }) => {
   const deprecatedNetworks = useMemo(() => {
-    return SUPPORTED_CHAIN_IDS.map((supportedChain) => {
-      return getChainFromChainId(supportedChain);
-    }).filter((n) => !!n.deprecated);
+    return getDefaultSupportedChains().filter((n) => !!n.deprecated);
   }, []);
 
   const testnets = useMemo(() => {
-    return SUPPORTED_CHAIN_IDS.map((supportedChain) => {
-      return getChainFromChainId(supportedChain);
-    }).filter((n) => n.testnet && !n.deprecated);
+    return getDefaultSupportedChains().filter(
+      (n) => n.testnet && !n.deprecated,
+    );
   }, []);
 
   const mainnets = useMemo(() => {
-    return SUPPORTED_CHAIN_IDS.map((supportedChain) => {
-      return getChainFromChainId(supportedChain);
-    }).filter((n) => !n.testnet && !n.deprecated);
+    return getDefaultSupportedChains().filter(
+      (n) => !n.testnet && !n.deprecated,
+    );
   }, []);
   return (
     <Select {...selectProps}>
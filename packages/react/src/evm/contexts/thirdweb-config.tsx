@@ -1,7 +1,7 @@
 import {
   Chain,
   SupportedChainId,
-  defaultSupportedChains,
+  getDefaultSupportedChains,
 } from "../constants/chain";
 import { ChainId } from "@thirdweb-dev/sdk";
 import React, { PropsWithChildren, createContext, useContext } from "react";
@@ -23,7 +23,7 @@ export const defaultChainRpc: Record<SupportedChainId | number, string> = {
 
 const ThirdwebConfigContext = createContext<ThirdwebConfigContext>({
   rpcUrlMap: defaultChainRpc,
-  supportedChains: defaultSupportedChains,
+  supportedChains: getDefaultSupportedChains(),
 });
 
 export const ThirdwebConfigProvider: React.FC<
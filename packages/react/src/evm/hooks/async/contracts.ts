@@ -11,6 +11,7 @@ import { useQueryWithNetwork } from "../query-utils/useQueryWithNetwork";
 import { useAddress, useChainId } from "../wallet";
 import {
   useMutation,
+  UseMutationResult,
   useQuery,
   useQueryClient,
   UseQueryResult,
@@ -20,14 +21,16 @@ import {
   ContractEvent,
   ContractForPrebuiltContractType,
   ContractType,
+  ContractTypings,
   EventQueryFilter,
   PrebuiltContractType,
   SUPPORTED_CHAIN_ID,
   ThirdwebSDK,
+  TypedAbi,
   ValidContractInstance,
 } from "@thirdweb-dev/sdk";
 import type { SmartContract } from "@thirdweb-dev/sdk/dist/declarations/src/evm/contracts/smart-contract";
-import { CallOverrides, ContractInterface } from "ethers";
+import { BaseContract, CallOverrides, ContractInterface } from "ethers";
 import { useEffect, useMemo } from "react";
 import invariant from "tiny-invariant";
 
@@ -176,6 +179,26 @@ export function useContract<TContractType extends ContractType>(
     : SmartContract
 >;
 
+/**
+ * Use this resolve a contract address to a smart contract instance with typed functions and events.
+ *
+ * @example
+ * ```javascript
+ * import { MyContractAbi } from "./thirdweb-types/MyContract";
+ *
+ * const { contract, isLoading, error } = useContract("{{contract_address}}", MyContractAbi);
+ * ```
+ *
+ * @param contractAddress - the address of the deployed contract
+ * @param _abi - the typed ABI of the contract, as generated by `npx thirdweb generate`
+ * @returns a response object that includes the contract once it is resolved
+ * @public
+ */
+export function useContract<TTypings extends ContractTypings>(
+  contractAddress: RequiredParam<ContractAddress>,
+  _abi: TypedAbi<TTypings>,
+): UseContractResult<SmartContract<BaseContract, TTypings>>;
+
 /**
  * Use this resolve a contract address to a smart contract instance.
  *
@@ -189,7 +212,6 @@ export function useContract<TContractType extends ContractType>(
  * @returns a response object that includes the contract once it is resolved
  * @public
  */
-
 export function useContract(
   contractAddress: RequiredParam<ContractAddress>,
   _abi: ContractInterface,
@@ -424,6 +446,7 @@ export function useContractEvents(
 
 /**
  * Use this to get data from a contract read-function call.
+ * @remarks The function name, arguments and result are type checked for contracts loaded with an ABI generated by `npx thirdweb generate`.
  *
  * @example
  * ```javascript
@@ -438,6 +461,21 @@ export function useContractEvents(
  *
  * @beta
  */
+export function useContractRead<
+  TTypings extends ContractTypings,
+  TFunctionName extends keyof TTypings["functions"] & string,
+>(
+  contract: RequiredParam<SmartContract<BaseContract, TTypings>>,
+  functionName: TFunctionName,
+  ...args:
+    | TTypings["functions"][TFunctionName]["args"]
+    | [...TTypings["functions"][TFunctionName]["args"], CallOverrides]
+): UseQueryResult<TTypings["functions"][TFunctionName]["result"]>;
+export function useContractRead(
+  contract: RequiredParam<ValidContractInstance>,
+  functionName: RequiredParam<string>,
+  ...args: unknown[] | [...unknown[], CallOverrides]
+): UseQueryResult<any>;
 export function useContractRead(
   contract: RequiredParam<ValidContractInstance>,
   functionName: RequiredParam<string>,
@@ -459,6 +497,7 @@ export function useContractRead(
 
 /**
  * Use this to get a function to make a write call to your contract
+ * @remarks The function name, arguments and result are type checked for contracts loaded with an ABI generated by `npx thirdweb generate`.
  *
  * @example
  * ```javascript
@@ -475,6 +514,27 @@ export function useContractRead(
  *
  * @beta
  */
+export function useContractWrite<
+  TTypings extends ContractTypings,
+  TFunctionName extends keyof TTypings["functions"] & string,
+>(
+  contract: RequiredParam<SmartContract<BaseContract, TTypings>>,
+  functionName: TFunctionName,
+): UseMutationResult<
+  TTypings["functions"][TFunctionName]["result"],
+  unknown,
+  | TTypings["functions"][TFunctionName]["args"]
+  | [...TTypings["functions"][TFunctionName]["args"], CallOverrides]
+  | undefined
+>;
+export function useContractWrite(
+  contract: RequiredParam<ValidContractInstance>,
+  functionName: RequiredParam<string>,
+): UseMutationResult<
+  any,
+  unknown,
+  unknown[] | [...unknown[], CallOverrides] | undefined
+>;
 export function useContractWrite(
   contract: RequiredParam<ValidContractInstance>,
   functionName: RequiredParam<string>,
@@ -46,7 +46,10 @@ export function useLogin(config?: LoginConfig) {
       authConfig,
       "Please specify an authConfig in the ThirdwebProvider",
     );
-    const payload = await sdk?.auth.login(authConfig.domain, cfg);
+    // Sign the login request with a nonce from the server, so that it can only be used once
+    const res = await fetch(`${authConfig.authUrl}/nonce`);
+    const nonce = res.ok ? (await res.json()).nonce : undefined;
+    const payload = await sdk?.auth.login(authConfig.domain, { nonce, ...cfg });
 
     const encodedPayload = encodeURIComponent(btoa(JSON.stringify(payload)));
     const encodedRedirectTo = encodeURIComponent(
@@ -1,12 +1,16 @@
 import { useThirdwebAuthConfig } from "../../contexts/thirdweb-auth";
 import { cacheKeys } from "../../utils/cache-keys";
 import { useQuery } from "@tanstack/react-query";
+import { useRef } from "react";
 import invariant from "tiny-invariant";
 
 export interface ThirdwebAuthUser {
   address: string;
 }
 
+// The share of the lifetime of an access token after which it is renewed
+const REFRESH_AFTER = 0.75;
+
 /**
  * Hook to get the currently logged in user.
  *
@@ -16,6 +20,16 @@ export interface ThirdwebAuthUser {
  */
 export function useUser() {
   const authConfig = useThirdwebAuthConfig();
+  // When the access token was last renewed and when it expires, unknown until the first refresh
+  const accessToken = useRef<{ refreshedAt: number; expiresAt: number }>();
+
+  function getRefreshTime() {
+    if (!accessToken.current) {
+      return Date.now();
+    }
+    const { refreshedAt, expiresAt } = accessToken.current;
+    return refreshedAt + (expiresAt - refreshedAt) * REFRESH_AFTER;
+  }
 
   const { data: user, isLoading } = useQuery(
     cacheKeys.auth.user(),
@@ -24,11 +38,33 @@ export function useUser() {
         authConfig,
         "Please specify an authConfig in the ThirdwebProvider",
       );
+      // Access tokens are short-lived, so renew them with the refresh token of the session before they expire
+      if (Date.now() >= getRefreshTime()) {
+        const refreshRes = await fetch(`${authConfig.authUrl}/refresh`, {
+          method: "POST",
+        });
+        if (refreshRes.ok) {
+          const { expiresAt } = await refreshRes.json();
+          accessToken.current = {
+            refreshedAt: Date.now(),
+            expiresAt: new Date(expiresAt).getTime(),
+          };
+        } else if (refreshRes.status !== 409) {
+          // A concurrent request, like from another tab, renews the access token on a 409
+          accessToken.current = undefined;
+        }
+      }
+
       const res = await fetch(`${authConfig.authUrl}/user`);
-      return (await res.json()) as ThirdwebAuthUser;
+      return (await res.json()) as ThirdwebAuthUser | null;
     },
     {
       enabled: !!authConfig,
+      // Refetch the user of a session when its access token has to be renewed
+      refetchInterval: (loggedInUser) =>
+        loggedInUser && accessToken.current
+          ? Math.max(getRefreshTime() - Date.now(), 1000)
+          : false,
     },
   );
 
@@ -6,7 +6,8 @@ import { MagicConnector, MagicConnectorArguments } from "../connectors/magic";
 import {
   Chain,
   SupportedChain,
-  defaultSupportedChains,
+  getChainFromChainId,
+  getDefaultSupportedChains,
 } from "../constants/chain";
 import { ThirdwebAuthConfig } from "../contexts/thirdweb-auth";
 import {
@@ -224,7 +225,7 @@ export const ThirdwebProvider = <
 >({
   sdkOptions,
   chainRpc = defaultChainRpc,
-  supportedChains = defaultSupportedChains.map(
+  supportedChains = getDefaultSupportedChains().map(
     (c) => c.id,
   ) as TSupportedChain[],
   walletConnectors = defaultWalletConnectors,
@@ -242,7 +243,7 @@ export const ThirdwebProvider = <
     return supportedChains
       .map((c) => {
         if (typeof c === "number") {
-          return defaultSupportedChains.find((sc) => sc.id === c);
+          return getChainFromChainId(c);
         }
         return c as Chain;
       })
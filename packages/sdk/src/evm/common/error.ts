@@ -1,5 +1,6 @@
 import { Feature } from "../constants/contract-features";
-import { NATIVE_TOKENS, SUPPORTED_CHAIN_ID } from "../constants/index";
+import { getChainByChainId } from "../constants/index";
+import type { BatchTransactionResult } from "../core/classes/transaction-batch";
 import { BigNumber, BigNumberish, ethers, providers } from "ethers";
 
 /**
@@ -255,6 +256,44 @@ export class ExtensionNotImplementedError extends Error {
   }
 }
 
+/**
+ * Error thrown when a call of a sequential {@link TransactionBatch} could not be sent or was not mined
+ * @remarks Every call of a sequential batch is a transaction of its own, so the calls that were mined before are not rolled back.
+ * @public
+ */
+export class TransactionBatchError extends Error {
+  /**
+   * The index of the first call of the batch that failed
+   */
+  public index: number;
+  /**
+   * The error of that call
+   */
+  public reason: unknown;
+  /**
+   * One entry per call of the batch, the result of the calls that were mined and `undefined` for the others
+   */
+  public results: (BatchTransactionResult | undefined)[];
+
+  constructor(
+    index: number,
+    reason: unknown,
+    results: (BatchTransactionResult | undefined)[],
+  ) {
+    const mined = results.filter((result) => result !== undefined).length;
+    super(
+      `Call ${index} of the batch failed, ${mined} of its ${
+        results.length
+      } calls were mined: ${
+        reason instanceof Error ? reason.message : String(reason)
+      }`,
+    );
+    this.index = index;
+    this.reason = reason;
+    this.results = results;
+  }
+}
+
 /**
  * @internal
  */
@@ -264,6 +303,22 @@ export type FunctionInfo = {
   value: BigNumber;
 };
 
+/**
+ * A revert reason decoded from the data returned by a failed call
+ * - `name`: `Error` for revert strings, `Panic` for failed assertions and arithmetic errors, or the name of the custom error
+ * - `signature`: the signature of the error, for example `Error(string)`
+ * - `args`: the decoded arguments of the error
+ * - `reason`: a human readable description of the error
+ * @public
+ */
+export type RevertReason = {
+  name: string;
+  signature: string;
+  args: Record<string, any>;
+  reason: string;
+  data: string;
+};
+
 /**
  * @public
  */
@@ -275,6 +330,7 @@ export class TransactionError extends Error {
   public chain: providers.Network;
   public rpcUrl: string;
   public functionInfo: FunctionInfo | undefined;
+  public revert: RevertReason | undefined;
 
   constructor(
     reason: string,
@@ -285,6 +341,7 @@ export class TransactionError extends Error {
     rpcUrl: string,
     raw: string,
     functionInfo: FunctionInfo | undefined,
+    revert?: RevertReason,
   ) {
     let builtErrorMsg = "Contract transaction failed\n\n";
     builtErrorMsg += `Message: ${reason}`;
@@ -307,7 +364,7 @@ export class TransactionError extends Error {
         builtErrorMsg += withSpaces(
           "value",
           `${ethers.utils.formatEther(functionInfo.value)} ${
-            NATIVE_TOKENS[network.chainId as SUPPORTED_CHAIN_ID]?.symbol
+            getChainByChainId(network.chainId)?.nativeCurrency.symbol
           }`,
         );
       }
@@ -334,21 +391,132 @@ export class TransactionError extends Error {
     this.chain = network;
     this.rpcUrl = rpcUrl;
     this.functionInfo = functionInfo;
+    this.revert = revert;
+  }
+}
+
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+// See: https://docs.soliditylang.org/en/v0.8.17/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_CODES: Record<number, string> = {
+  0x00: "generic compiler panic",
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array encoding",
+  0x31: "pop on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to an uninitialized function",
+};
+
+/**
+ * Find the revert data in an error thrown by ethers or by the RPC
+ * @internal
+ * @param error
+ * @param depth
+ */
+export function extractRevertData(error: any, depth = 0): string | undefined {
+  if (!error || typeof error !== "object" || depth > 5) {
+    return undefined;
+  }
+  if (
+    typeof error.data === "string" &&
+    ethers.utils.isHexString(error.data) &&
+    error.data.length >= 10
+  ) {
+    return error.data;
+  }
+  return (
+    extractRevertData(error.data, depth + 1) ||
+    extractRevertData(error.error, depth + 1)
+  );
+}
+
+/**
+ * Decode revert data into a revert string, a panic code or a custom error
+ * @internal
+ * @param data - the revert data
+ * @param contractInterfaces - the interfaces to look for custom errors in
+ */
+export function decodeRevertReason(
+  data: string,
+  contractInterfaces: ethers.utils.Interface[] = [],
+): RevertReason | undefined {
+  const selector = data.slice(0, 10);
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [message] = ethers.utils.defaultAbiCoder.decode(
+        ["string"],
+        ethers.utils.hexDataSlice(data, 4),
+      );
+      return {
+        name: "Error",
+        signature: "Error(string)",
+        args: { message },
+        reason: message,
+        data,
+      };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = ethers.utils.defaultAbiCoder.decode(
+        ["uint256"],
+        ethers.utils.hexDataSlice(data, 4),
+      );
+      const description =
+        PANIC_CODES[code.toNumber()] ||
+        `unknown panic code ${code.toHexString()}`;
+      return {
+        name: "Panic",
+        signature: "Panic(uint256)",
+        args: { code },
+        reason: `Panic: ${description}`,
+        data,
+      };
+    }
+  } catch (e) {
+    return undefined;
+  }
+  for (const contractInterface of contractInterfaces) {
+    try {
+      const parsed = contractInterface.parseError(data);
+      const args: Record<string, any> = {};
+      parsed.errorFragment.inputs.forEach((input, index) => {
+        args[input.name || index.toString()] = parsed.args[index];
+      });
+      return {
+        name: parsed.name,
+        signature: parsed.signature,
+        args,
+        reason: `${parsed.name}(${parsed.args
+          .map((arg: unknown) => String(arg))
+          .join(", ")})`,
+        data,
+      };
+    } catch (e) {
+      // not declared in this interface
+    }
   }
+  return undefined;
 }
 
 /**
  * @internal
  * @param data
  * @param contractInterface
+ * @param value
  */
 function parseFunctionInfo(
   data: string,
   contractInterface: ethers.utils.Interface,
+  value?: BigNumberish,
 ): FunctionInfo | undefined {
   try {
     const fnFragment = contractInterface.parseTransaction({
       data,
+      value,
     });
     const results: Record<string, any> = {};
     const args = fnFragment.args;
@@ -385,6 +553,7 @@ function parseFunctionInfo(
  * @param signerAddress
  * @param contractAddress
  * @param contractInterface
+ * @param context - the transaction data when known, and additional interfaces to decode custom errors with
  */
 export async function convertToTWError(
   error: any,
@@ -392,6 +561,11 @@ export async function convertToTWError(
   signerAddress: string,
   contractAddress: string,
   contractInterface: ethers.utils.Interface,
+  context: {
+    data?: string;
+    value?: BigNumberish;
+    errorInterfaces?: ethers.utils.Interface[];
+  } = {},
 ): Promise<TransactionError> {
   let raw: string;
   if (error.data) {
@@ -405,10 +579,19 @@ export async function convertToTWError(
     // not sure what this is, just throw it back
     raw = error.toString();
   }
+  const revertData = extractRevertData(error);
+  const revert = revertData
+    ? decodeRevertReason(revertData, [
+        contractInterface,
+        ...(context.errorInterfaces || []),
+      ])
+    : undefined;
   const reason =
+    revert?.reason ||
     error.reason ||
     parseMessageParts(/.*?"message[^a-zA-Z0-9]*([^"\\]*).*?/, raw);
-  const data = parseMessageParts(/.*?"data[^a-zA-Z0-9]*([^"\\]*).*?/, raw);
+  const data =
+    context.data || parseMessageParts(/.*?"data[^a-zA-Z0-9]*([^"\\]*).*?/, raw);
   const rpcUrl = parseMessageParts(/.*?"url[^a-zA-Z0-9]*([^"\\]*).*?/, raw);
   let from = parseMessageParts(/.*?"from[^a-zA-Z0-9]*([^"\\]*).*?/, raw);
   let to = parseMessageParts(/.*?"to[^a-zA-Z0-9]*([^"\\]*).*?/, raw);
@@ -421,7 +604,9 @@ export async function convertToTWError(
     from = signerAddress;
   }
   const functionInfo =
-    data.length > 0 ? parseFunctionInfo(data, contractInterface) : undefined;
+    data.length > 0
+      ? parseFunctionInfo(data, contractInterface, context.value)
+      : undefined;
   return new TransactionError(
     reason,
     from,
@@ -431,6 +616,7 @@ export async function convertToTWError(
     rpcUrl,
     raw,
     functionInfo,
+    revert,
   );
 }
 
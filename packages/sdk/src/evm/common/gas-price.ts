@@ -1,18 +1,21 @@
 import { ChainId } from "../constants/chains";
+import {
+  Eip1559GasFees,
+  GasCostEstimate,
+  GasFees,
+  GasStationSpeed,
+} from "../types/gas";
 import fetch from "cross-fetch";
 import { BigNumber, ethers } from "ethers";
 
 /**
+ * Gas station endpoints following the Polygon gas station v2 format
  * @internal
  */
-function getGasStationUrl(chainId: ChainId.Polygon | ChainId.Mumbai): string {
-  switch (chainId) {
-    case ChainId.Polygon:
-      return "https://gasstation-mainnet.matic.network/v2";
-    case ChainId.Mumbai:
-      return "https://gasstation-mumbai.matic.today/v2";
-  }
-}
+export const GAS_STATION_URLS: Record<number, string> = {
+  [ChainId.Polygon]: "https://gasstation-mainnet.matic.network/v2",
+  [ChainId.Mumbai]: "https://gasstation-mumbai.matic.today/v2",
+};
 
 const MIN_POLYGON_GAS_PRICE = ethers.utils.parseUnits("31", "gwei");
 const MIN_MUMBAI_GAS_PRICE = ethers.utils.parseUnits("1", "gwei");
@@ -31,6 +34,23 @@ function getDefaultGasFee(
   }
 }
 
+/**
+ * Fetch the fees of a speed tier from a gas station
+ * @internal
+ */
+export async function fetchGasStationFees(
+  url: string,
+  speed: GasStationSpeed,
+): Promise<Eip1559GasFees> {
+  const data = await (await fetch(url)).json();
+  const toWei = (gwei: number | string) =>
+    ethers.utils.parseUnits(parseFloat(gwei.toString()).toFixed(9), "gwei");
+  return {
+    maxFeePerGas: toWei(data[speed]["maxFee"]),
+    maxPriorityFeePerGas: toWei(data[speed]["maxPriorityFee"]),
+  };
+}
+
 /**
  *
  * @returns the gas price
@@ -39,17 +59,43 @@ function getDefaultGasFee(
 export async function getPolygonGasPriorityFee(
   chainId: ChainId.Polygon | ChainId.Mumbai,
 ): Promise<BigNumber> {
-  const gasStationUrl = getGasStationUrl(chainId);
   try {
-    const data = await (await fetch(gasStationUrl)).json();
     // take the standard speed here, SDK options will define the extra tip
-    const priorityFee = data["standard"]["maxPriorityFee"];
-    if (priorityFee > 0) {
-      const fixedFee = parseFloat(priorityFee).toFixed(9);
-      return ethers.utils.parseUnits(fixedFee, "gwei");
+    const { maxPriorityFeePerGas } = await fetchGasStationFees(
+      GAS_STATION_URLS[chainId],
+      "standard",
+    );
+    if (maxPriorityFeePerGas.gt(0)) {
+      return maxPriorityFeePerGas;
     }
   } catch (e) {
     console.error("failed to fetch gas", e);
   }
   return getDefaultGasFee(chainId);
 }
+
+/**
+ * Compute the range of what a transaction could cost under the given fees
+ * @internal
+ */
+export function getGasCostEstimate(
+  gasLimit: BigNumber,
+  fees: GasFees,
+  baseFeePerGas: BigNumber = BigNumber.from(0),
+): GasCostEstimate {
+  const toEther = (feePerGas: BigNumber) =>
+    ethers.utils.formatEther(gasLimit.mul(feePerGas));
+  if ("gasPrice" in fees) {
+    const cost = toEther(fees.gasPrice);
+    return { gasLimit, min: cost, expected: cost, max: cost };
+  }
+  const { maxFeePerGas, maxPriorityFeePerGas } = fees;
+  const atMost = (feePerGas: BigNumber) =>
+    feePerGas.gt(maxFeePerGas) ? maxFeePerGas : feePerGas;
+  return {
+    gasLimit,
+    min: toEther(atMost(baseFeePerGas)),
+    expected: toEther(atMost(baseFeePerGas.add(maxPriorityFeePerGas))),
+    max: toEther(maxFeePerGas),
+  };
+}
@@ -9,6 +9,7 @@ import {
   InterfaceId_IERC1155,
   InterfaceId_IERC721,
 } from "../constants/contract";
+import type { ReadCache } from "../core/classes/read-cache";
 import { NotFoundError } from "./error";
 import type {
   IERC1155Metadata,
@@ -18,6 +19,10 @@ import type {
 import ERC165MetadataAbi from "@thirdweb-dev/contracts-js/dist/abis/IERC165.json";
 import ERC721MetadataAbi from "@thirdweb-dev/contracts-js/dist/abis/IERC721Metadata.json";
 import ERC1155MetadataAbi from "@thirdweb-dev/contracts-js/dist/abis/IERC1155Metadata.json";
+import {
+  NFTMetadataSchema,
+  SchemaValidationError,
+} from "@thirdweb-dev/storage";
 import type {
   ThirdwebStorage,
   UploadProgressEvent,
@@ -33,6 +38,7 @@ const FALLBACK_METADATA = {
  * @param tokenId - the id (to get it back in the output)
  * @param tokenUri - the uri to fetch
  * @param storage - which storage to fetch from
+ * @param cache - the optional cache to fetch through
  *
  * @internal
  */
@@ -40,22 +46,36 @@ export async function fetchTokenMetadata(
   tokenId: BigNumberish,
   tokenUri: string,
   storage: ThirdwebStorage,
+  cache?: ReadCache,
 ): Promise<NFTMetadata> {
+  const downloadJSON = (uri: string) =>
+    cache
+      ? cache.getMetadata(uri, () =>
+          storage.downloadJSON(uri, NFTMetadataSchema),
+        )
+      : storage.downloadJSON(uri, NFTMetadataSchema);
   const parsedUri = tokenUri.replace(
     "{id}",
     ethers.utils.hexZeroPad(BigNumber.from(tokenId).toHexString(), 32).slice(2),
   );
   let jsonMetadata;
   try {
-    jsonMetadata = await storage.downloadJSON(parsedUri);
+    jsonMetadata = await downloadJSON(parsedUri);
   } catch (err) {
+    // metadata that was downloaded but is invalid should not be hidden behind the fallback
+    if (err instanceof SchemaValidationError) {
+      throw err;
+    }
     const unparsedTokenIdUri = tokenUri.replace(
       "{id}",
       BigNumber.from(tokenId).toString(),
     );
     try {
-      jsonMetadata = await storage.downloadJSON(unparsedTokenIdUri);
+      jsonMetadata = await downloadJSON(unparsedTokenIdUri);
     } catch (e: any) {
+      if (e instanceof SchemaValidationError) {
+        throw e;
+      }
       console.warn(
         `failed to get token metadata: ${JSON.stringify({
           tokenId: tokenId.toString(),
@@ -80,12 +100,14 @@ export async function fetchTokenMetadata(
  * @param provider
  * @param tokenId
  * @param storage
+ * @param cache
  */
 export async function fetchTokenMetadataForContract(
   contractAddress: string,
   provider: providers.Provider,
   tokenId: BigNumberish,
   storage: ThirdwebStorage,
+  cache?: ReadCache,
 ) {
   let uri: string | undefined;
   const erc165 = new Contract(
@@ -115,7 +137,7 @@ export async function fetchTokenMetadataForContract(
   if (!uri) {
     throw new NotFoundError();
   }
-  return fetchTokenMetadata(tokenId, uri, storage);
+  return fetchTokenMetadata(tokenId, uri, storage, cache);
 }
 
 /**
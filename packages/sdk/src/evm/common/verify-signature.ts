@@ -0,0 +1,66 @@
+import { ethers, providers } from "ethers";
+
+/**
+ * The suffix of EIP-6492 signatures of smart contract wallets that are not deployed yet
+ * @internal
+ */
+export const ERC6492_MAGIC_SUFFIX =
+  "0x6492649264926492649264926492649264926492649264926492649264926492";
+
+/**
+ * Creation bytecode of the `ValidateSigOffchain` reference contract of EIP-6492, compiled with solc 0.8.17.
+ * Calling it with `(address signer, bytes32 hash, bytes signature)` returns `0x01` if the signature is valid,
+ * deploying counterfactual wallets and checking EIP-1271 signatures of contracts without sending a transaction.
+ */
+const VALIDATE_SIG_OFFCHAIN_BYTECODE =
+  "0x608060405234801561001057600080fd5b50604051610c0e380380610c0e83398101604081905261002f91610124565b600060405161003d906100dd565b604051809103906000f080158015610059573d6000803e3d6000fd5b5090506000816001600160a01b0316638f0684308686866040518463ffffffff1660e01b815260040161008e939291906101fb565b6020604051808303816000875af11580156100ad573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906100d19190610244565b9050806000526001601ff35b6109a08061026e83390190565b634e487b7160e01b600052604160045260246000fd5b60005b8381101561011b578181015183820152602001610103565b50506000910152565b60008060006060848603121561013957600080fd5b83516001600160a01b038116811461015057600080fd5b6020850151604086015191945092506001600160401b038082111561017457600080fd5b818601915086601f83011261018857600080fd5b81518181111561019a5761019a6100ea565b604051601f8201601f19908116603f011681019083821181831017156101c2576101c26100ea565b816040528281528960208487010111156101db57600080fd5b6101ec836020830160208801610100565b80955050505050509250925092565b60018060a01b0384168152826020820152606060408201526000825180606084015261022e816080850160208701610100565b601f01601f191691909101608001949350505050565b60006020828403121561025657600080fd5b8151801515811461026657600080fd5b939250505056fe608060405234801561001057600080fd5b50610980806100206000396000f3fe608060405234801561001057600080fd5b50600436106100365760003560e01c806316d434011461003b5780638f06843014610062575b600080fd5b61004e61004936600461059c565b610075565b604051901515815260200160405180910390f35b61004e610070366004610610565b6104bb565b60006001600160a01b0386163b606082602086108015906100d657507f649264926492649264926492649264926492649264926492649264926492649287876100bf60208261066c565b6100cb928a9290610693565b6100d4916106bd565b145b905080156101af57600060608882896100f060208261066c565b926100fd93929190610693565b81019061010a919061077e565b9550909250905060008590036101a857600080836001600160a01b0316836040516101359190610818565b6000604051808303816000865af19150503d8060008114610172576040519150601f19603f3d011682016040523d82523d6000602084013e610177565b606091505b5091509150816101a55780604051639d0d6e2d60e01b815260040161019c9190610860565b60405180910390fd5b50505b50506101e9565b86868080601f0160208091040260200160405190810160405280939291908181526020018383808284376000920191909152509294505050505b80806101f55750600083115b156102f457604051630b135d3f60e11b81526001600160a01b038a1690631626ba7e90610228908b90869060040161087a565b602060405180830381865afa925050508015610261575060408051601f3d908101601f1916820190925261025e9181019061089b565b60015b6102b0573d80801561028f576040519150601f19603f3d011682016040523d82523d6000602084013e610294565b606091505b5080604051636f2a959960e01b815260040161019c9190610860565b6001600160e01b03198116630b135d3f60e11b14841580156102cf5750825b80156102d9575086155b156102e857806000526001601ffd5b94506104b29350505050565b6041861461036a5760405162461bcd60e51b815260206004820152603a60248201527f5369676e617475726556616c696461746f72237265636f7665725369676e657260448201527f3a20696e76616c6964207369676e6174757265206c656e677468000000000000606482015260840161019c565b6000610379602082898b610693565b610382916106bd565b90506000610394604060208a8c610693565b61039d916106bd565b90506000898960408181106103b4576103b46108c5565b919091013560f81c915050601b81148015906103d457508060ff16601c14155b156104375760405162461bcd60e51b815260206004820152602d60248201527f5369676e617475726556616c696461746f723a20696e76616c6964207369676e60448201526c617475726520762076616c756560981b606482015260840161019c565b6040805160008152602081018083528d905260ff83169181019190915260608101849052608081018390526001600160a01b038d169060019060a0016020604051602081039080840390855afa158015610495573d6000803e3d6000fd5b505050602060405103516001600160a01b03161496505050505050505b95945050505050565b6040516316d4340160e01b815260009030906316d43401906104ea9088908890889088906001906004016108db565b6020604051808303816000875af1158015610509573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906104b2919061092d565b6001600160a01b038116811461054257600080fd5b50565b60008083601f84011261055757600080fd5b50813567ffffffffffffffff81111561056f57600080fd5b60208301915083602082850101111561058757600080fd5b9250929050565b801515811461054257600080fd5b6000806000806000608086880312156105b457600080fd5b85356105bf8161052d565b945060208601359350604086013567ffffffffffffffff8111156105e257600080fd5b6105ee88828901610545565b90945092505060608601356106028161058e565b809150509295509295909350565b6000806000806060858703121561062657600080fd5b84356106318161052d565b935060208501359250604085013567ffffffffffffffff81111561065457600080fd5b61066087828801610545565b95989497509550505050565b8181038181111561068d57634e487b7160e01b600052601160045260246000fd5b92915050565b600080858511156106a357600080fd5b838611156106b057600080fd5b5050820193919092039150565b8035602083101561068d57600019602084900360031b1b1692915050565b634e487b7160e01b600052604160045260246000fd5b600082601f83011261070257600080fd5b813567ffffffffffffffff8082111561071d5761071d6106db565b604051601f8301601f19908116603f01168101908282118183101715610745576107456106db565b8160405283815286602085880101111561075e57600080fd5b836020870160208301376000602085830101528094505050505092915050565b60008060006060848603121561079357600080fd5b833561079e8161052d565b9250602084013567ffffffffffffffff808211156107bb57600080fd5b6107c7878388016106f1565b935060408601359150808211156107dd57600080fd5b506107ea868287016106f1565b9150509250925092565b60005b8381101561080f5781810151838201526020016107f7565b50506000910152565b6000825161082a8184602087016107f4565b9190910192915050565b6000815180845261084c8160208601602086016107f4565b601f01601f19169290920160200192915050565b6020815260006108736020830184610834565b9392505050565b8281526040602082015260006108936040830184610834565b949350505050565b6000602082840312156108ad57600080fd5b81516001600160e01b03198116811461087357600080fd5b634e487b7160e01b600052603260045260246000fd5b6001600160a01b0386168152602081018590526080604082018190528101839052828460a0830137600081840160a0908101919091529115156060820152601f909201601f1916909101019392505050565b60006020828403121561093f57600080fd5b81516108738161058e56fea264697066735822122007f26d081bfc7f28e4b1a5d6e1382c965d4eefcf6c42ef8d3d3a6e7dc280c61b64736f6c63430008110033";
+
+/**
+ * Verify that a message was signed by an address, which can be a regular wallet, a smart contract wallet
+ * implementing EIP-1271 like a Gnosis Safe, or a smart contract wallet that is not deployed yet (EIP-6492)
+ *
+ * @param message - The signed message
+ * @param signature - The signature of the message
+ * @param address - The address that should have signed the message
+ * @param getProvider - Gets the provider of the chain of smart contract wallets, only called if the signature is not a valid ECDSA signature of the address
+ * @returns Whether the signature is valid
+ * @internal
+ */
+export async function verifySignature(
+  message: string,
+  signature: string,
+  address: string,
+  getProvider: () => Promise<providers.Provider | undefined>,
+): Promise<boolean> {
+  // signatures of regular wallets can be checked without calling the chain
+  if (
+    !ethers.utils.hexlify(signature).endsWith(ERC6492_MAGIC_SUFFIX.slice(2))
+  ) {
+    try {
+      const signer = ethers.utils.verifyMessage(message, signature);
+      if (signer.toLowerCase() === address.toLowerCase()) {
+        return true;
+      }
+    } catch (err) {
+      // not an ECDSA signature, but it can still be a signature of a smart contract wallet
+    }
+  }
+
+  const provider = await getProvider();
+  if (!provider) {
+    return false;
+  }
+  const data = ethers.utils.hexConcat([
+    VALIDATE_SIG_OFFCHAIN_BYTECODE,
+    ethers.utils.defaultAbiCoder.encode(
+      ["address", "bytes32", "bytes"],
+      [address, ethers.utils.hashMessage(message), signature],
+    ),
+  ]);
+  try {
+    return (await provider.call({ data })) === "0x01";
+  } catch (err) {
+    // the validator reverts if the wallet reverts or can't be deployed
+    return false;
+  }
+}
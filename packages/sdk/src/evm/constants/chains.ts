@@ -1,3 +1,5 @@
+import { Chain } from "../types/chain";
+
 /**
  * @public
  */
@@ -68,3 +70,445 @@ export const SUPPORTED_CHAIN_IDS: SUPPORTED_CHAIN_ID[] = [
   ChainId.BinanceSmartChainMainnet,
   ChainId.BinanceSmartChainTestnet,
 ];
+
+const ETHER = {
+  name: "Ether",
+  symbol: "ETH",
+  decimals: 18,
+} as const;
+
+/**
+ * The chains supported out of the box
+ * @remarks Their RPC urls are public and rate limited, pass your own RPC url to the SDK or register the chain again with your own urls in production.
+ * @public
+ */
+export const DEFAULT_CHAINS: Chain[] = [
+  {
+    chainId: ChainId.Mainnet,
+    name: "Ethereum Mainnet",
+    slug: "mainnet",
+    aliases: ["ethereum"],
+    nativeCurrency: {
+      ...ETHER,
+      wrapped: {
+        address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+        name: "Wrapped Ether",
+        symbol: "WETH",
+      },
+    },
+    rpc: ["https://rpc.ankr.com/eth", "https://cloudflare-eth.com"],
+    blockExplorers: [{ name: "Etherscan", url: "https://etherscan.io" }],
+    testnet: false,
+  },
+  {
+    chainId: ChainId.Rinkeby,
+    name: "Rinkeby",
+    slug: "rinkeby",
+    nativeCurrency: {
+      name: "Rinkeby Ether",
+      symbol: "RIN",
+      decimals: 18,
+      wrapped: {
+        address: "0xc778417E063141139Fce010982780140Aa0cD5Ab",
+        name: "Wrapped Ether",
+        symbol: "WETH",
+      },
+    },
+    rpc: ["https://rpc.ankr.com/eth_rinkeby"],
+    blockExplorers: [
+      { name: "Etherscan", url: "https://rinkeby.etherscan.io" },
+    ],
+    testnet: true,
+    deprecated: true,
+  },
+  {
+    chainId: ChainId.Goerli,
+    name: "Goerli",
+    slug: "goerli",
+    nativeCurrency: {
+      name: "Görli Ether",
+      symbol: "GOR",
+      decimals: 18,
+      wrapped: {
+        address: "0x0bb7509324ce409f7bbc4b701f932eaca9736ab7",
+        name: "Wrapped Ether",
+        symbol: "WETH",
+      },
+    },
+    rpc: ["https://rpc.ankr.com/eth_goerli"],
+    blockExplorers: [{ name: "Etherscan", url: "https://goerli.etherscan.io" }],
+    testnet: true,
+  },
+  {
+    chainId: ChainId.Polygon,
+    name: "Polygon Mainnet",
+    slug: "polygon",
+    aliases: ["matic"],
+    nativeCurrency: {
+      name: "Matic",
+      symbol: "MATIC",
+      decimals: 18,
+      wrapped: {
+        address: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270",
+        name: "Wrapped Matic",
+        symbol: "WMATIC",
+      },
+    },
+    rpc: [
+      "https://polygon-rpc.com",
+      "https://rpc-mainnet.matic.network",
+      "https://matic-mainnet.chainstacklabs.com",
+      "https://rpc-mainnet.maticvigil.com",
+      "https://rpc-mainnet.matic.quiknode.pro",
+      "https://matic-mainnet-full-rpc.bwarelabs.com",
+    ],
+    blockExplorers: [{ name: "Polygonscan", url: "https://polygonscan.com" }],
+    testnet: false,
+  },
+  {
+    chainId: ChainId.Mumbai,
+    name: "Mumbai",
+    slug: "mumbai",
+    nativeCurrency: {
+      name: "Matic",
+      symbol: "MATIC",
+      decimals: 18,
+      wrapped: {
+        address: "0x9c3C9283D3e44854697Cd22D3Faa240Cfb032889",
+        name: "Wrapped Matic",
+        symbol: "WMATIC",
+      },
+    },
+    rpc: [
+      "https://rpc.ankr.com/polygon_mumbai",
+      "https://matic-mumbai.chainstacklabs.com",
+      "https://rpc-mumbai.maticvigil.com",
+      "https://matic-testnet-archive-rpc.bwarelabs.com",
+    ],
+    blockExplorers: [
+      { name: "PolygonScan", url: "https://mumbai.polygonscan.com" },
+    ],
+    testnet: true,
+  },
+  {
+    chainId: ChainId.Avalanche,
+    name: "Avalanche",
+    slug: "avalanche",
+    nativeCurrency: {
+      name: "Avalanche",
+      symbol: "AVAX",
+      decimals: 18,
+      wrapped: {
+        address: "0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7",
+        name: "Wrapped AVAX",
+        symbol: "WAVAX",
+      },
+    },
+    rpc: [
+      "https://api.avax.network/ext/bc/C/rpc",
+      "https://rpc.ankr.com/avalanche",
+    ],
+    blockExplorers: [{ name: "SnowTrace", url: "https://snowtrace.io/" }],
+    testnet: false,
+  },
+  {
+    chainId: ChainId.AvalancheFujiTestnet,
+    name: "Avalanche Fuji Testnet",
+    slug: "avalanche-fuji",
+    aliases: ["avalanche-testnet"],
+    nativeCurrency: {
+      name: "Avalanche",
+      symbol: "AVAX",
+      decimals: 18,
+      wrapped: {
+        address: "0xd00ae08403B9bbb9124bB305C09058E32C39A48c",
+        name: "Wrapped AVAX",
+        symbol: "WAVAX",
+      },
+    },
+    rpc: ["https://api.avax-test.network/ext/bc/C/rpc"],
+    blockExplorers: [
+      { name: "SnowTrace", url: "https://testnet.snowtrace.io/" },
+    ],
+    testnet: true,
+  },
+  {
+    chainId: ChainId.Fantom,
+    name: "Fantom Opera",
+    slug: "fantom",
+    nativeCurrency: {
+      name: "Fantom",
+      symbol: "FTM",
+      decimals: 18,
+      wrapped: {
+        address: "0x21be370D5312f44cB42ce377BC9b8a0cEF1A4C83",
+        name: "Wrapped Fantom",
+        symbol: "WFTM",
+      },
+    },
+    rpc: ["https://rpc.ftm.tools"],
+    blockExplorers: [{ name: "FTMscan", url: "https://ftmscan.com/" }],
+    testnet: false,
+  },
+  {
+    chainId: ChainId.FantomTestnet,
+    name: "Fantom Testnet",
+    slug: "fantom-testnet",
+    nativeCurrency: {
+      name: "Fantom",
+      symbol: "FTM",
+      decimals: 18,
+      wrapped: {
+        address: "0xf1277d1Ed8AD466beddF92ef448A132661956621",
+        name: "Wrapped Fantom",
+        symbol: "WFTM",
+      },
+    },
+    rpc: ["https://rpc.testnet.fantom.network/"],
+    blockExplorers: [{ name: "FTMscan", url: "https://testnet.ftmscan.com/" }],
+    testnet: true,
+  },
+  {
+    chainId: ChainId.Optimism,
+    name: "Optimism",
+    slug: "optimism",
+    nativeCurrency: {
+      ...ETHER,
+      wrapped: {
+        address: "0x4200000000000000000000000000000000000006",
+        name: "Wrapped Ether",
+        symbol: "WETH",
+      },
+    },
+    rpc: ["https://mainnet.optimism.io", "https://rpc.ankr.com/optimism"],
+    blockExplorers: [
+      { name: "Etherscan", url: "https://optimistic.etherscan.io/" },
+    ],
+    testnet: false,
+  },
+  {
+    chainId: ChainId.OptimismKovan,
+    name: "Optimism Kovan",
+    slug: "optimism-kovan",
+    nativeCurrency: {
+      name: "Kovan Ether",
+      symbol: "KOR",
+      decimals: 18,
+      wrapped: {
+        address: "0xbC6F6b680bc61e30dB47721c6D1c5cde19C1300d",
+        name: "Wrapped Ether",
+        symbol: "WETH",
+      },
+    },
+    // alchemy optimism kovan rpc doesn't link to the testnet sequencer...
+    rpc: ["https://kovan.optimism.io"],
+    blockExplorers: [
+      { name: "Etherscan", url: "https://kovan-optimistic.etherscan.io/" },
+    ],
+    testnet: true,
+    deprecated: true,
+  },
+  {
+    chainId: ChainId.OptimismGoerli,
+    name: "Optimism Goerli Testnet",
+    slug: "optimism-goerli",
+    nativeCurrency: {
+      name: "Goerli Ether",
+      symbol: "ETH",
+      decimals: 18,
+      wrapped: {
+        address: "0x4200000000000000000000000000000000000006",
+        name: "Wrapped Ether",
+        symbol: "WETH",
+      },
+    },
+    rpc: ["https://goerli.optimism.io/"],
+    blockExplorers: [
+      { name: "Etherscan", url: "https://goerli-optimism.etherscan.io/" },
+    ],
+    testnet: true,
+  },
+  {
+    chainId: ChainId.Arbitrum,
+    name: "Arbitrum One",
+    slug: "arbitrum",
+    nativeCurrency: {
+      ...ETHER,
+      wrapped: {
+        address: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1",
+        name: "Wrapped Ether",
+        symbol: "WETH",
+      },
+    },
+    rpc: ["https://arb1.arbitrum.io/rpc", "https://rpc.ankr.com/arbitrum"],
+    blockExplorers: [{ name: "Arbiscan", url: "https://arbiscan.io/" }],
+    testnet: false,
+  },
+  {
+    chainId: ChainId.ArbitrumRinkeby,
+    name: "Arbitrum Rinkeby",
+    slug: "arbitrum-rinkeby",
+    nativeCurrency: {
+      name: "Arbitrum Rinkeby Ether",
+      symbol: "ARETH",
+      decimals: 18,
+      wrapped: {
+        address: "0xEBbc3452Cc911591e4F18f3b36727Df45d6bd1f9",
+        name: "Wrapped Ether",
+        symbol: "WETH",
+      },
+    },
+    rpc: ["https://rinkeby.arbitrum.io/rpc"],
+    blockExplorers: [{ name: "Arbiscan", url: "https://testnet.arbiscan.io/" }],
+    testnet: true,
+    deprecated: true,
+  },
+  {
+    chainId: ChainId.ArbitrumGoerli,
+    name: "Arbitrum Goerli",
+    slug: "arbitrum-goerli",
+    nativeCurrency: {
+      name: "Arbitrum Goerli Ether",
+      symbol: "AGOR",
+      decimals: 18,
+      wrapped: {
+        address: "0xe39Ab88f8A4777030A534146A9Ca3B52bd5D43A3",
+        name: "Wrapped Ether",
+        symbol: "WETH",
+      },
+    },
+    rpc: ["https://goerli-rollup.arbitrum.io/rpc/"],
+    blockExplorers: [
+      {
+        name: "Arbitrum Goerli Rollup Explorer",
+        url: "https://goerli-rollup-explorer.arbitrum.io",
+      },
+    ],
+    testnet: true,
+  },
+  {
+    chainId: ChainId.BinanceSmartChainMainnet,
+    name: "Binance Smart Chain Mainnet",
+    slug: "binance",
+    nativeCurrency: {
+      name: "Binance Chain Native Token",
+      symbol: "BNB",
+      decimals: 18,
+      wrapped: {
+        address: "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c",
+        name: "Wrapped Binance Chain Token",
+        symbol: "WBNB",
+      },
+    },
+    rpc: ["https://bsc-dataseed1.binance.org"],
+    blockExplorers: [{ name: "BscScan", url: "https://bscscan.com/" }],
+    testnet: false,
+  },
+  {
+    chainId: ChainId.BinanceSmartChainTestnet,
+    name: "Binance Smart Chain Testnet",
+    slug: "binance-testnet",
+    nativeCurrency: {
+      name: "Binance Chain Native Token",
+      symbol: "TBNB",
+      decimals: 18,
+      wrapped: {
+        address: "0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd",
+        name: "Wrapped Binance Chain Testnet Token",
+        symbol: "WBNB",
+      },
+    },
+    rpc: ["https://data-seed-prebsc-1-s1.binance.org:8545"],
+    blockExplorers: [{ name: "BscScan", url: "https://testnet.bscscan.com/" }],
+    testnet: true,
+  },
+  {
+    chainId: ChainId.Hardhat,
+    name: "Hardhat",
+    slug: "hardhat",
+    nativeCurrency: {
+      ...ETHER,
+      wrapped: {
+        address: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+        name: "Wrapped Ether",
+        symbol: "WETH",
+      },
+    },
+    rpc: ["http://localhost:8545"],
+    testnet: true,
+  },
+];
+
+const chainRegistry = new Map<number, Chain>(
+  DEFAULT_CHAINS.map((chain) => [chain.chainId, chain]),
+);
+
+/**
+ * Add a chain to the registry, or replace the definition of a registered chain
+ * @remarks Once registered, the chain can be passed to the SDK by chain id or by slug.
+ * The built-in chains only use public RPC urls, replace them to read through your own RPC provider and API key.
+ * @example
+ * ```javascript
+ * registerChain({
+ *   chainId: 1284,
+ *   name: "Moonbeam",
+ *   slug: "moonbeam",
+ *   nativeCurrency: {
+ *     name: "Glimmer",
+ *     symbol: "GLMR",
+ *     decimals: 18,
+ *     wrapped: {
+ *       address: "0xAcc15dC74880C9944775448304B263D191c6077F",
+ *       name: "Wrapped Glimmer",
+ *       symbol: "WGLMR",
+ *     },
+ *   },
+ *   rpc: ["https://rpc.api.moonbeam.network"],
+ *   testnet: false,
+ * });
+ *
+ * const sdk = new ThirdwebSDK("moonbeam");
+ *
+ * // use your own RPC url for a built-in chain
+ * registerChain({
+ *   ...getChainBySlug("mainnet"),
+ *   rpc: [`https://mainnet.infura.io/v3/${myInfuraKey}`],
+ * });
+ * ```
+ * @param chain - the chain definition
+ * @public
+ */
+export function registerChain(chain: Chain): void {
+  chainRegistry.set(chain.chainId, chain);
+}
+
+/**
+ * Get a registered chain by chain id
+ * @param chainId - the chain id
+ * @public
+ */
+export function getChainByChainId(chainId: number): Chain | undefined {
+  return chainRegistry.get(chainId);
+}
+
+/**
+ * Get a registered chain by its slug or one of its aliases
+ * @param slug - the chain name, for example `"polygon"`
+ * @public
+ */
+export function getChainBySlug(slug: string): Chain | undefined {
+  const name = slug.toLowerCase();
+  return getAllChains().find(
+    (chain) =>
+      chain.slug.toLowerCase() === name ||
+      chain.aliases?.some((alias) => alias.toLowerCase() === name),
+  );
+}
+
+/**
+ * Get all the registered chains, built-in and custom
+ * @public
+ */
+export function getAllChains(): Chain[] {
+  return Array.from(chainRegistry.values());
+}
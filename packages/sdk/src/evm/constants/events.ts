@@ -6,8 +6,10 @@ export enum EventType {
    * The event is triggered when the transaction is submitted and completed.
    * The transaction is submitted when it is sent to the relayer or the blockchain.
    * The transaction is completed when it is confirmed by the blockchain.
+   * When sent through a {@link TransactionQueue}, the transaction is replaced when it gets re-sent with a higher gas price,
+   * and failed when it reverts or never gets mined.
    *
-   * status: "submitted" | "completed"
+   * status: "submitted" | "replaced" | "completed" | "failed"
    * transactionHash: string of the transaction hash
    */
   Transaction = "transaction",
@@ -1,5 +1,8 @@
 import { SignerOrProvider } from "../core/types";
+import { FallbackRpcProvider } from "../lib/fallback-rpc";
 import { StaticJsonRpcBatchProvider } from "../lib/static-batch-rpc";
+import { FallbackRpcProviderOptions } from "../types/rpc";
+import { getChainByChainId, getChainBySlug } from "./chains";
 import { ethers, providers } from "ethers";
 
 /**
@@ -51,75 +54,64 @@ export type ChainOrRpc =
   | "arbitrum-goerli"
   | "binance"
   | "binance-testnet"
+  // any chain added with `registerChain()` can be passed by slug
   // ideally we could use `https://${string}` notation here, but doing that causes anything that is a generic string to throw a type error => not worth the hassle for now
-  | (string & {});
+  | (string & {})
+  // the chain id of a built-in or registered chain
+  | number;
 
 /**
  * @internal
- * This is a community API key that is subject to rate limiting. Please use your own key.
- */
-const DEFAULT_API_KEY = "_gg7wSSi0KMBsdKnGVfHDueq6xMB9EkC";
-
-/**
- * @internal
- * @param network - the chain name or rpc url
+ * @param network - the chain name, chain id or rpc url
  * @returns the rpc url for that chain
  */
 export function getProviderForNetwork(network: ChainOrRpc | SignerOrProvider) {
+  if (typeof network === "number") {
+    const chain = getChainByChainId(network);
+    if (!chain || chain.rpc.length === 0) {
+      throw new Error(
+        `Unrecognized chain id: ${network}, add it with registerChain() first`,
+      );
+    }
+    return chain.rpc[0];
+  }
   if (typeof network !== "string") {
     return network;
   }
-  switch (network) {
-    case "mumbai":
-      return `https://polygon-mumbai.g.alchemy.com/v2/${DEFAULT_API_KEY}`;
-    case "rinkeby":
-      return `https://eth-rinkeby.g.alchemy.com/v2/${DEFAULT_API_KEY}`;
-    case "goerli":
-      return `https://eth-goerli.g.alchemy.com/v2/${DEFAULT_API_KEY}`;
-    case "polygon":
-    case "matic":
-      return `https://polygon-mainnet.g.alchemy.com/v2/${DEFAULT_API_KEY}`;
-    case "mainnet":
-    case "ethereum":
-      return `https://eth-mainnet.g.alchemy.com/v2/${DEFAULT_API_KEY}`;
-    case "optimism":
-      // TODO test this RPC
-      return `https://opt-mainnet.g.alchemy.com/v2/${DEFAULT_API_KEY}`;
-    case "optimism-kovan":
-      // alchemy optimism kovan rpc doesn't link to the testnet sequencer...
-      return "https://kovan.optimism.io";
-    case "optimism-goerli":
-      // TODO test this RPC
-      return `https://opt-goerli.g.alchemy.com/v2/${DEFAULT_API_KEY}`;
-    case "arbitrum":
-      // TODO test this RPC
-      return `https://arb-mainnet.g.alchemy.com/v2/${DEFAULT_API_KEY}`;
-    case "arbitrum-rinkeby":
-      // TODO test this RPC
-      return `https://arb-rinkeby.g.alchemy.com/v2/${DEFAULT_API_KEY}`;
-    case "arbitrum-goerli":
-      // TODO test this RPC
-      return `https://arb-goerli.g.alchemy.com/v2/${DEFAULT_API_KEY}`;
-    case "fantom":
-      return "https://rpc.ftm.tools";
-    case "fantom-testnet":
-      return "https://rpc.testnet.fantom.network/";
-    case "avalanche":
-      return "https://api.avax.network/ext/bc/C/rpc";
-    case "avalanche-testnet":
-    case "avalanche-fuji":
-      return "https://api.avax-test.network/ext/bc/C/rpc";
-    case "binance":
-      return "https://bsc-dataseed1.binance.org";
-    case "binance-testnet":
-      return "https://data-seed-prebsc-1-s1.binance.org:8545";
-    default:
-      if (network.startsWith("http") || network.startsWith("ws")) {
-        return network;
-      } else {
-        throw new Error(`Unrecognized chain name or RPC url: ${network}`);
-      }
+  if (network.startsWith("http") || network.startsWith("ws")) {
+    return network;
+  }
+  const chain = getChainBySlug(network);
+  if (!chain || chain.rpc.length === 0) {
+    throw new Error(`Unrecognized chain name or RPC url: ${network}`);
   }
+  return chain.rpc[0];
+}
+
+/**
+ * @internal
+ * With fallback settings, chains with several http rpc urls are read through a {@link FallbackRpcProvider} over all of them.
+ * Those rpc urls are different nodes, so a read may not see a transaction that was just sent through another one yet.
+ * @param network - the chain name, chain id or rpc url
+ * @param fallbackSettings - the settings of the fallback provider, chains only use their first rpc url without them
+ * @returns the provider of the chain, or the rpc url for that chain
+ */
+export function getProviderOrRpcForNetwork(
+  network: ChainOrRpc | SignerOrProvider,
+  fallbackSettings?: FallbackRpcProviderOptions,
+) {
+  const chain = !fallbackSettings
+    ? undefined
+    : typeof network === "number"
+    ? getChainByChainId(network)
+    : typeof network === "string" && !/^(ws|http)s?:/i.test(network)
+    ? getChainBySlug(network)
+    : undefined;
+  const rpcUrls = chain ? chain.rpc.filter((url) => /^https?:/i.test(url)) : [];
+  if (chain && rpcUrls.length > 1) {
+    return getFallbackProvider(rpcUrls, chain.chainId, fallbackSettings);
+  }
+  return getProviderForNetwork(network);
 }
 
 /**
@@ -154,3 +146,27 @@ export function getReadOnlyProvider(network: string, chainId?: number) {
     return ethers.getDefaultProvider(network);
   }
 }
+
+const fallbackProviders = new Map<string, FallbackRpcProvider>();
+
+/**
+ * @internal
+ * Fallback providers are shared so that every contract keeps track of the same RPC health
+ * @param rpcUrls - the rpc urls of the chain
+ * @param chainId - the optional chain id
+ * @param options - the retry, quorum and health check settings
+ * @returns the provider
+ */
+export function getFallbackProvider(
+  rpcUrls: string[],
+  chainId?: number,
+  options?: FallbackRpcProviderOptions,
+) {
+  const key = JSON.stringify([rpcUrls, chainId, options]);
+  let provider = fallbackProviders.get(key);
+  if (!provider) {
+    provider = new FallbackRpcProvider(rpcUrls, chainId, options);
+    fallbackProviders.set(key, provider);
+  }
+  return provider;
+}
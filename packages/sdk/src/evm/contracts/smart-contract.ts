@@ -15,6 +15,7 @@ import {
   ContractOwner,
   NetworkOrSignerOrProvider,
 } from "../core";
+import { TransactionTask } from "../core/classes/TransactionTask";
 import { ContractAppURI } from "../core/classes/contract-appuri";
 import { ContractEvents } from "../core/classes/contract-events";
 import { ContractInterceptor } from "../core/classes/contract-interceptor";
@@ -33,6 +34,7 @@ import { UpdateableNetwork } from "../core/interfaces/contract";
 import { CustomContractSchema } from "../schema/contracts/custom";
 import { SDKOptions } from "../schema/sdk-options";
 import { BaseERC1155, BaseERC20, BaseERC721 } from "../types/eips";
+import { ContractTypings, UntypedContract } from "../types/typings";
 import type {
   IPermissions,
   IPlatformFee,
@@ -70,14 +72,16 @@ import { BaseContract, CallOverrides, ContractInterface } from "ethers";
  *
  * @beta
  */
-export class SmartContract<TContract extends BaseContract = BaseContract>
-  implements UpdateableNetwork
+export class SmartContract<
+  TContract extends BaseContract = BaseContract,
+  TTypings extends ContractTypings = UntypedContract,
+> implements UpdateableNetwork
 {
   private contractWrapper;
   private storage;
 
   // utilities
-  public events: ContractEvents<TContract>;
+  public events: ContractEvents<TContract, TTypings["events"]>;
   public interceptor: ContractInterceptor<TContract>;
   public encoder: ContractEncoder<TContract>;
   public estimator: GasCostEstimator<TContract>;
@@ -179,6 +183,10 @@ export class SmartContract<TContract extends BaseContract = BaseContract>
       CustomContractSchema,
       this.storage,
     );
+    // the published ABI can declare custom errors that the ABI passed in does not
+    this.contractWrapper.withErrorAbi(
+      async () => (await this.publishedMetadata.get()).abi,
+    );
   }
 
   onNetworkUpdated(network: NetworkOrSignerOrProvider): void {
@@ -191,6 +199,7 @@ export class SmartContract<TContract extends BaseContract = BaseContract>
 
   /**
    * Call any function on this contract
+   * @remarks Load the contract with an ABI generated by `npx thirdweb generate` to type check the function name, arguments and return value.
    * @example
    * ```javascript
    * // read functions will return the data from the contract
@@ -210,13 +219,45 @@ export class SmartContract<TContract extends BaseContract = BaseContract>
    * @param functionName - the name of the function to call
    * @param args - the arguments of the function
    */
-  public async call(
-    functionName: string,
-    ...args: unknown[] | [...unknown[], CallOverrides]
-  ): Promise<any> {
+  public async call<TFunctionName extends keyof TTypings["functions"] & string>(
+    functionName: TFunctionName,
+    ...args:
+      | TTypings["functions"][TFunctionName]["args"]
+      | [...TTypings["functions"][TFunctionName]["args"], CallOverrides]
+  ): Promise<TTypings["functions"][TFunctionName]["result"]> {
     return this.contractWrapper.call(functionName, ...args);
   }
 
+  /**
+   * Prepare a call to any function on this contract without executing it
+   * @remarks Useful to estimate the gas cost of a call, override its transaction options or add it to a {@link TransactionBatch}.
+   * @example
+   * ```javascript
+   * const tx = await contract.prepare("myWriteFunction", [arg1, arg2]);
+   * const gasCost = await tx.estimateGasCostInEther();
+   *
+   * // add it to a batch alongside calls to other contracts
+   * const batch = sdk.batch();
+   * batch.add(tx);
+   * await batch.execute();
+   * ```
+   * @param functionName - the name of the function to call
+   * @param args - the arguments of the function
+   * @param overrides - optional transaction options
+   */
+  public async prepare(
+    functionName: string,
+    args: unknown[] = [],
+    overrides?: CallOverrides,
+  ): Promise<TransactionTask> {
+    return TransactionTask.make({
+      contractWrapper: this.contractWrapper,
+      functionName,
+      args,
+      overrides,
+    });
+  }
+
   /** ********************
    * FEATURE DETECTION
    * ********************/
@@ -1 +1,3 @@
 export * from "./wallet-authenticator";
+export * from "./login-message";
+export * from "./nonce-store";
@@ -0,0 +1,146 @@
+import { LoginPayloadData } from "../../schema/auth";
+import { utils } from "ethers";
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:";
+
+// The fields of the message after the statement, in the order defined by EIP-4361
+const MESSAGE_FIELDS = [
+  { label: "URI", key: "uri", required: true },
+  { label: "Version", key: "version", required: true },
+  { label: "Chain ID", key: "chain_id", required: true },
+  { label: "Nonce", key: "nonce", required: true },
+  { label: "Issued At", key: "issued_at", required: true },
+  { label: "Expiration Time", key: "expiration_time", required: false },
+  { label: "Not Before", key: "invalid_before", required: false },
+  { label: "Request ID", key: "request_id", required: false },
+] as const;
+
+/**
+ * Generate the EIP-4361 (Sign-In with Ethereum) message that is signed to login
+ *
+ * @param payload - The data of the login payload
+ * @returns The message to sign
+ *
+ * @public
+ */
+export function generateLoginMessage(payload: LoginPayloadData): string {
+  const lines = [`${payload.domain}${HEADER_SUFFIX}`, payload.address, ""];
+  if (payload.statement) {
+    lines.push(payload.statement);
+  }
+  lines.push("");
+
+  for (const { label, key } of MESSAGE_FIELDS) {
+    const value = payload[key];
+    if (value !== undefined) {
+      lines.push(`${label}: ${value}`);
+    }
+  }
+
+  if (payload.resources?.length) {
+    lines.push("Resources:");
+    lines.push(...payload.resources.map((resource) => `- ${resource}`));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Parse an EIP-4361 (Sign-In with Ethereum) message, like the messages signed by other SIWE clients
+ *
+ * @remarks The expiration time is optional like in EIP-4361, `verifyMessage` limits the age of messages without one.
+ * @param message - The signed message
+ * @returns The data of the login payload
+ *
+ * @example
+ * ```javascript
+ * const payload = parseLoginMessage(message);
+ * console.log(payload.address, payload.nonce);
+ * ```
+ * @public
+ */
+export function parseLoginMessage(message: string): LoginPayloadData {
+  const lines = message.split("\n");
+
+  // the domain can be prefixed with the scheme of the application
+  const header = lines[0]?.endsWith(HEADER_SUFFIX)
+    ? lines[0]
+        .slice(0, -HEADER_SUFFIX.length)
+        .replace(/^[a-zA-Z][\w+.-]*:\/\//, "")
+    : "";
+  if (!header) {
+    throw new Error("Invalid login message, expected EIP-4361 header");
+  }
+  const address = lines[1];
+  if (!address || !utils.isAddress(address) || lines[2] !== "") {
+    throw new Error("Invalid login message, expected address after header");
+  }
+
+  let i = 3;
+  let statement: string | undefined;
+  if (lines[i] && !lines[i].startsWith("URI: ")) {
+    statement = lines[i];
+    i++;
+  }
+  // the line before the fields is omitted by some clients without a statement
+  if (lines[i] === "") {
+    i++;
+  }
+
+  const fields: Partial<Record<typeof MESSAGE_FIELDS[number]["key"], string>> =
+    {};
+  for (const { label, key, required } of MESSAGE_FIELDS) {
+    if (lines[i]?.startsWith(`${label}: `)) {
+      fields[key] = lines[i].slice(label.length + 2);
+      i++;
+    } else if (required) {
+      throw new Error(`Invalid login message, missing '${label}'`);
+    }
+  }
+
+  let resources: string[] | undefined;
+  if (lines[i] === "Resources:") {
+    resources = [];
+    i++;
+    while (lines[i]?.startsWith("- ")) {
+      resources.push(lines[i].slice(2));
+      i++;
+    }
+  }
+  if (i < lines.length) {
+    throw new Error(`Invalid login message, unexpected line '${lines[i]}'`);
+  }
+
+  if (fields.version !== "1") {
+    throw new Error(
+      `Unsupported login message version '${fields.version}', expected '1'`,
+    );
+  }
+  const chainId = Number(fields.chain_id);
+  if (!Number.isInteger(chainId)) {
+    throw new Error(`Invalid chain ID '${fields.chain_id}' in login message`);
+  }
+  for (const key of [
+    "issued_at",
+    "expiration_time",
+    "invalid_before",
+  ] as const) {
+    if (fields[key] !== undefined && isNaN(Date.parse(fields[key] as string))) {
+      throw new Error(`Invalid date '${fields[key]}' in login message`);
+    }
+  }
+  return {
+    domain: header,
+    address,
+    statement,
+    uri: fields.uri as string,
+    version: fields.version,
+    chain_id: chainId,
+    nonce: fields.nonce as string,
+    issued_at: fields.issued_at as string,
+    expiration_time: fields.expiration_time,
+    invalid_before: fields.invalid_before,
+    request_id: fields.request_id,
+    resources,
+  };
+}
@@ -0,0 +1,70 @@
+import { ethers } from "ethers";
+
+/**
+ * Stores the nonces of login requests on the server, so that every signed login payload can only be used once.
+ * Implement it with a shared database like Redis to use it with multiple servers.
+ *
+ * @public
+ */
+export interface INonceStore {
+  /**
+   * Generate a new nonce for a login request and store it until it is consumed
+   *
+   * @returns The nonce, an alphanumeric string of at least 8 characters as required by EIP-4361
+   */
+  generate(): Promise<string>;
+  /**
+   * Consume a nonce, so that it can't be used again
+   *
+   * @param nonce - The nonce of the login request
+   * @returns Whether the nonce was generated by the store and not consumed before
+   */
+  consume(nonce: string): Promise<boolean>;
+}
+
+/**
+ * Nonce store that keeps the nonces in memory, for a single server
+ *
+ * @example
+ * ```javascript
+ * const nonceStore = new MemoryNonceStore();
+ * // send the nonce to the client to login with
+ * const nonce = await nonceStore.generate();
+ *
+ * // and consume it when verifying the login request
+ * const address = await sdk.auth.verify(domain, payload, { nonceStore });
+ * ```
+ *
+ * @public
+ */
+export class MemoryNonceStore implements INonceStore {
+  private nonces = new Map<string, number>();
+  private ttl: number;
+
+  /**
+   * @param ttl - The time in milliseconds after which unused nonces expire, defaults to 10 minutes
+   */
+  constructor(ttl = 1000 * 60 * 10) {
+    this.ttl = ttl;
+  }
+
+  async generate(): Promise<string> {
+    const now = Date.now();
+    // forget the expired nonces, so that the store doesn't grow forever
+    for (const [nonce, expiresAt] of this.nonces) {
+      if (expiresAt < now) {
+        this.nonces.delete(nonce);
+      }
+    }
+
+    const nonce = ethers.utils.hexlify(ethers.utils.randomBytes(16)).slice(2);
+    this.nonces.set(nonce, now + this.ttl);
+    return nonce;
+  }
+
+  async consume(nonce: string): Promise<boolean> {
+    const expiresAt = this.nonces.get(nonce);
+    this.nonces.delete(nonce);
+    return expiresAt !== undefined && expiresAt >= Date.now();
+  }
+}
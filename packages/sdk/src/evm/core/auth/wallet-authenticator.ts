@@ -1,4 +1,9 @@
 import { isBrowser } from "../../common/utils";
+import { verifySignature } from "../../common/verify-signature";
+import {
+  getProviderForNetwork,
+  getReadOnlyProvider,
+} from "../../constants/urls";
 import { SDKOptions } from "../../schema";
 import {
   LoginOptions,
@@ -16,13 +21,32 @@ import {
 import { RPCConnectionHandler } from "../classes/rpc-connection-handler";
 import { NetworkOrSignerOrProvider } from "../types";
 import { UserWallet } from "../wallet";
+import { generateLoginMessage, parseLoginMessage } from "./login-message";
+import { ethers, providers } from "ethers";
+
+/**
+ * The `alg` of authentication tokens. The signature of a token is the EIP-191 personal signature
+ * of the JWS signing input (`<base64url header>.<base64url payload>`) by the token issuer,
+ * so tokens can be verified by recovering the issuer address from the signature.
+ *
+ * @public
+ */
+export const AUTH_TOKEN_ALGORITHM = "EIP191";
+
+// The maximum age in seconds of login requests without an expiration time
+const DEFAULT_LOGIN_MAX_AGE = 60 * 5;
 
 /**
  * Wallet Authenticator
  * @remarks The wallet authenticator enables server-side applications to securely identify the
  * connected wallet address of users on the client-side, and also enables users to authenticate
- * to any backend using just their wallet. It implements the JSON Web Token (JWT) authentication
- * standard.
+ * to any backend using just their wallet. Users login by signing EIP-4361 (Sign-In with Ethereum)
+ * messages, and are authenticated with RFC 7519 JSON Web Tokens (JWT) signed by the admin wallet.
+ *
+ * Tokens use the custom `EIP191` algorithm, so they can be verified without the SDK:
+ * split the token into its base64url encoded header, payload and signature, then recover the signer
+ * of the personal message `<header>.<payload>` from the 65 byte signature (like `ethers.utils.verifyMessage`)
+ * and check that it matches the `iss` claim, along with the `aud`, `nbf` and `exp` claims.
  *
  * @example
  * ```javascript
@@ -33,7 +57,7 @@ import { UserWallet } from "../wallet";
  * const loginPayload = await sdk.auth.login(domain);
  *
  * // Then on the server side, we can securely verify the connected client-side address
- * const address = sdk.auth.verify(domain, loginPayload);
+ * const address = await sdk.auth.verify(domain, loginPayload);
  *
  * // And we can also generate an authentication token to send to the client
  * const token = sdk.auth.generate(domain, loginPayload);
@@ -85,12 +109,25 @@ export class WalletAuthenticator extends RPCConnectionHandler {
     const payloadData = LoginPayloadDataSchema.parse({
       domain,
       address: signerAddress,
+      statement:
+        parsedOptions?.statement !== undefined
+          ? parsedOptions.statement
+          : "Please ensure that the domain above matches the URL of the current website.",
+      uri:
+        parsedOptions?.uri ||
+        (isBrowser() ? window.location.origin : `https://${domain}`),
       nonce: parsedOptions?.nonce,
       expiration_time: expirationTime,
-      chain_id: parsedOptions?.chainId,
+      invalid_before: parsedOptions?.invalidBefore,
+      chain_id:
+        parsedOptions?.chainId !== undefined
+          ? parsedOptions.chainId
+          : await this.getSigner()?.getChainId(),
+      request_id: parsedOptions?.requestId,
+      resources: parsedOptions?.resources,
     });
 
-    const message = this.generateMessage(payloadData);
+    const message = generateLoginMessage(payloadData);
     const signature = await this.wallet.sign(message);
 
     return {
@@ -102,7 +139,8 @@ export class WalletAuthenticator extends RPCConnectionHandler {
   /**
    * Verify Logged In Address
    * @remarks Server-side function to securely verify the address of the logged in client-side wallet
-   * by validating the provided client-side login request.
+   * by validating the provided client-side login request. Signatures of smart contract wallets (EIP-1271),
+   * including wallets that are not deployed yet (EIP-6492), are verified on the chain of the payload.
    *
    * @param domain - The domain of the server-side application to verify the login request for
    * @param payload - The login payload to verify
@@ -114,49 +152,60 @@ export class WalletAuthenticator extends RPCConnectionHandler {
    * const loginPayload = await sdk.auth.login(domain);
    *
    * // Verify the login request
-   * const address = sdk.auth.verify(domain, loginPayload);
+   * const address = await sdk.auth.verify(domain, loginPayload);
+   *
+   * // Or only accept nonces generated by the server, each of them once
+   * const address = await sdk.auth.verify(domain, loginPayload, { nonceStore });
+   *
+   * // Or only accept login requests issued in the last minute
+   * const address = await sdk.auth.verify(domain, loginPayload, { maxAge: 60 });
    * ```
    */
-  public verify(
+  public async verify(
     domain: string,
     payload: LoginPayload,
     options?: VerifyOptions,
-  ): string {
-    const parsedOptions = VerifyOptionsSchema.parse(options);
-
-    // Check that the intended domain matches the domain of the payload
-    if (payload.payload.domain !== domain) {
-      throw new Error(
-        `Expected domain '${domain}' does not match domain on payload '${payload.payload.domain}'`,
-      );
-    }
-
-    // Check that the payload hasn't expired
-    const currentTime = new Date();
-    if (currentTime > new Date(payload.payload.expiration_time)) {
-      throw new Error(`Login request has expired`);
-    }
-
-    // If chain ID is specified, check that it matches the chain ID of the signature
-    if (
-      parsedOptions?.chainId !== undefined &&
-      parsedOptions.chainId !== payload.payload.chain_id
-    ) {
-      throw new Error(
-        `Chain ID '${parsedOptions.chainId}' does not match payload chain ID '${payload.payload.chain_id}'`,
-      );
-    }
-
-    // Check that the signing address is the claimed wallet address
-    const message = this.generateMessage(payload.payload);
-    const userAddress = this.wallet.recoverAddress(message, payload.signature);
-    if (userAddress.toLowerCase() !== payload.payload.address.toLowerCase()) {
-      throw new Error(
-        `Signer address '${userAddress.toLowerCase()}' does not match payload address '${payload.payload.address.toLowerCase()}'`,
-      );
-    }
+  ): Promise<string> {
+    return this.verifyLogin(
+      domain,
+      payload.payload,
+      generateLoginMessage(payload.payload),
+      payload.signature,
+      options,
+    );
+  }
 
-    return userAddress;
+  /**
+   * Verify Signed Login Message
+   * @remarks Server-side function to verify an EIP-4361 (Sign-In with Ethereum) message signed by
+   * any SIWE client, with the same checks as `verify`. Messages without an expiration time are
+   * rejected 5 minutes after they were issued, unless a `maxAge` is set.
+   *
+   * @param domain - The domain of the server-side application to verify the login request for
+   * @param message - The signed EIP-4361 message
+   * @param signature - The signature of the message
+   * @returns Address of the logged in wallet
+   *
+   * @example
+   * ```javascript
+   * const domain = "example.com";
+   * // The message and signature sent by a SIWE client
+   * const address = await sdk.auth.verifyMessage(domain, message, signature);
+   * ```
+   */
+  public async verifyMessage(
+    domain: string,
+    message: string,
+    signature: string,
+    options?: VerifyOptions,
+  ): Promise<string> {
+    return this.verifyLogin(
+      domain,
+      parseLoginMessage(message),
+      message,
+      signature,
+      options,
+    );
   }
 
   /**
@@ -176,6 +225,9 @@ export class WalletAuthenticator extends RPCConnectionHandler {
    *
    * // Generate a JWT token that can be sent to the client-side wallet and used for authentication
    * const token = await sdk.auth.generateAuthToken(domain, loginPayload);
+   *
+   * // Or only accept login requests with nonces generated by the server, each of them once
+   * const token = await sdk.auth.generateAuthToken(domain, loginPayload, { nonceStore });
    * ```
    */
   public async generateAuthToken(
@@ -189,43 +241,72 @@ export class WalletAuthenticator extends RPCConnectionHandler {
       );
     }
 
+    const userAddress = await this.verify(domain, payload, {
+      nonceStore: AuthenticationOptionsSchema.parse(options)?.nonceStore,
+    });
+    return this.generateAuthTokenForAddress(domain, userAddress, options);
+  }
+
+  /**
+   * Generate Authentication Token For Address
+   * @remarks Server-side function that generates a JWT token for an address that the server already authenticated,
+   * like when refreshing the session of a user. Use `generateAuthToken` to authenticate users that login.
+   *
+   * @param domain - The domain of the server-side application to authenticate to
+   * @param address - The address of the authenticated wallet
+   * @param options - Optional configuration options for the authentication token
+   * @returns A authentication token that can be used by the client to make authenticated requests
+   *
+   * @example
+   * ```javascript
+   * const domain = "example.com";
+   * const address = await sdk.auth.authenticate(domain, token);
+   *
+   * // Generate a new token for the same wallet that expires in 15 minutes
+   * const refreshedToken = await sdk.auth.generateAuthTokenForAddress(domain, address, {
+   *   expirationTime: new Date(Date.now() + 1000 * 60 * 15),
+   * });
+   * ```
+   */
+  public async generateAuthTokenForAddress(
+    domain: string,
+    address: string,
+    options?: AuthenticationOptions,
+  ): Promise<string> {
+    if (isBrowser()) {
+      throw new Error(
+        "Authentication tokens should not be generated in the browser, as they must be signed by a server-side admin wallet.",
+      );
+    }
+
     const parsedOptions = AuthenticationOptionsSchema.parse(options);
 
-    const userAddress = this.verify(domain, payload);
     const adminAddress = await this.wallet.getAddress();
     const payloadData = AuthenticationPayloadDataSchema.parse({
       iss: adminAddress,
-      sub: userAddress,
+      sub: ethers.utils.getAddress(address),
       aud: domain,
       nbf: parsedOptions?.invalidBefore || new Date(),
       exp:
         parsedOptions?.expirationTime ||
         new Date(Date.now() + 1000 * 60 * 60 * 5),
       iat: new Date(),
+      jti: parsedOptions?.jti,
     });
 
-    const message = JSON.stringify(payloadData);
-    const signature = await this.wallet.sign(message);
-
-    // Header used for JWT token specifying hash algorithm
+    // Header used for JWT token specifying the signature algorithm
     const header = {
-      // Specify ECDSA with SHA-256 for hashing algorithm
-      alg: "ES256",
+      alg: AUTH_TOKEN_ALGORITHM,
       typ: "JWT",
     };
 
-    const encodedHeader = Buffer.from(JSON.stringify(header)).toString(
-      "base64",
-    );
-    const encodedData = Buffer.from(JSON.stringify(payloadData))
-      .toString("base64")
-      .replace(/=/g, "");
-    const encodedSignature = Buffer.from(signature).toString("base64");
-
-    // Generate a JWT token with base64 encoded header, payload, and signature
-    const token = `${encodedHeader}.${encodedData}.${encodedSignature}`;
+    const encodedHeader = toBase64Url(JSON.stringify(header));
+    const encodedData = toBase64Url(JSON.stringify(payloadData));
+    const signature = await this.wallet.sign(`${encodedHeader}.${encodedData}`);
+    const encodedSignature = toBase64Url(ethers.utils.arrayify(signature));
 
-    return token;
+    // Generate a JWT token with base64url encoded header, payload, and signature
+    return `${encodedHeader}.${encodedData}.${encodedSignature}`;
   }
 
   /**
@@ -248,18 +329,48 @@ export class WalletAuthenticator extends RPCConnectionHandler {
    * ```
    */
   public async authenticate(domain: string, token: string): Promise<string> {
+    return (await this.verifyAuthToken(domain, token)).sub;
+  }
+
+  /**
+   * Verify Authentication Token
+   * @remarks Server-side function that verifies the provided JWT token like `authenticate`, and returns
+   * all of its claims, like the `jti` of the token to check that it wasn't revoked.
+   *
+   * @param domain - The domain of the server-side application doing authentication
+   * @param token - The authentication token being used
+   * @returns The payload of the token
+   *
+   * @example
+   * ```javascript
+   * const domain = "example.com";
+   * const { sub, jti, exp } = await sdk.auth.verifyAuthToken(domain, token);
+   * ```
+   */
+  public async verifyAuthToken(
+    domain: string,
+    token: string,
+  ): Promise<AuthenticationPayloadData> {
     if (isBrowser()) {
       throw new Error(
         "Should not authenticate tokens in the browser, as they must be verified by the server-side admin wallet.",
       );
     }
 
-    const encodedPayload = token.split(".")[1];
-    const encodedSignature = token.split(".")[2];
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      throw new Error("Invalid authentication token, expected a JWT");
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = JSON.parse(fromBase64Url(encodedHeader).toString());
+    if (header.alg !== AUTH_TOKEN_ALGORITHM) {
+      throw new Error(
+        `Unsupported token algorithm '${header.alg}', expected '${AUTH_TOKEN_ALGORITHM}'`,
+      );
+    }
     const payload: AuthenticationPayloadData = JSON.parse(
-      Buffer.from(encodedPayload, "base64").toString(),
+      fromBase64Url(encodedPayload).toString(),
     );
-    const signature = Buffer.from(encodedSignature, "base64").toString();
 
     // Check that the token audience matches the domain
     if (payload.aud !== domain) {
@@ -293,8 +404,8 @@ export class WalletAuthenticator extends RPCConnectionHandler {
 
     // Check that the connected wallet signed the token
     const adminAddress = this.wallet.recoverAddress(
-      JSON.stringify(payload),
-      signature,
+      `${encodedHeader}.${encodedPayload}`,
+      ethers.utils.hexlify(fromBase64Url(encodedSignature)),
     );
     if (connectedAddress.toLowerCase() !== adminAddress.toLowerCase()) {
       throw new Error(
@@ -302,29 +413,130 @@ export class WalletAuthenticator extends RPCConnectionHandler {
       );
     }
 
-    return payload.sub;
+    return payload;
   }
 
-  /**
-   * Generates a EIP-4361 compliant message to sign based on the login payload
-   */
-  private generateMessage(payload: LoginPayloadData): string {
-    let message = ``;
+  private async verifyLogin(
+    domain: string,
+    payload: LoginPayloadData,
+    message: string,
+    signature: string,
+    options?: VerifyOptions,
+  ): Promise<string> {
+    const parsedOptions = VerifyOptionsSchema.parse(options);
+
+    // Check that the intended domain matches the domain of the payload
+    if (payload.domain !== domain) {
+      throw new Error(
+        `Expected domain '${domain}' does not match domain on payload '${payload.domain}'`,
+      );
+    }
+
+    // Check that the payload hasn't expired
+    const currentTime = new Date();
+    if (
+      payload.expiration_time &&
+      currentTime > new Date(payload.expiration_time)
+    ) {
+      throw new Error(`Login request has expired`);
+    }
+
+    // Check that the payload isn't too old, so that payloads without an expiration time can't be replayed forever
+    const maxAge =
+      parsedOptions?.maxAge !== undefined
+        ? parsedOptions.maxAge
+        : payload.expiration_time
+        ? undefined
+        : DEFAULT_LOGIN_MAX_AGE;
+    if (
+      maxAge !== undefined &&
+      currentTime.getTime() - new Date(payload.issued_at).getTime() >
+        maxAge * 1000
+    ) {
+      throw new Error(
+        `Login request was issued more than ${maxAge} seconds ago`,
+      );
+    }
 
-    // Add the domain and login address for transparency
-    message += `${payload.domain} wants you to sign in with your account:\n${payload.address}\n\n`;
+    // Check that the payload is already valid
+    if (
+      payload.invalid_before &&
+      currentTime < new Date(payload.invalid_before)
+    ) {
+      throw new Error(
+        `Login request is invalid before '${payload.invalid_before}'`,
+      );
+    }
 
-    // Prompt user to make sure domain is correct to prevent phishing attacks
-    message += `Make sure that the requesting domain above matches the URL of the current website.\n\n`;
+    // If chain ID is specified, check that it matches the chain ID of the signature
+    if (
+      parsedOptions?.chainId !== undefined &&
+      parsedOptions.chainId !== payload.chain_id
+    ) {
+      throw new Error(
+        `Chain ID '${parsedOptions.chainId}' does not match payload chain ID '${payload.chain_id}'`,
+      );
+    }
 
-    // Add data fields in compliance with the EIP-4361 standard
-    if (payload.chain_id) {
-      message += `Chain ID: ${payload.chain_id}\n`;
+    // Check that the claimed wallet address signed the message, smart contract wallets are checked on the payload chain
+    const isValidSignature = await verifySignature(
+      message,
+      signature,
+      payload.address,
+      () => this.getChainProvider(payload.chain_id),
+    );
+    if (!isValidSignature) {
+      throw new Error(
+        `Signature does not match payload address '${payload.address.toLowerCase()}'`,
+      );
     }
 
-    message += `Nonce: ${payload.nonce}\n`;
-    message += `Expiration Time: ${payload.expiration_time}\n`;
+    // Check that the nonce was issued by the server and use it up, so that the request can't be replayed
+    if (
+      parsedOptions?.nonceStore &&
+      !(await parsedOptions.nonceStore.consume(payload.nonce))
+    ) {
+      throw new Error(
+        `Nonce '${payload.nonce}' is invalid or has already been used`,
+      );
+    }
 
-    return message;
+    return ethers.utils.getAddress(payload.address);
   }
+
+  /**
+   * Get a provider for the chain of a login request, to verify the signatures of smart contract wallets
+   */
+  private async getChainProvider(
+    chainId?: number,
+  ): Promise<providers.Provider | undefined> {
+    const provider = this.getProvider();
+    if (
+      chainId === undefined ||
+      (await provider.getNetwork()).chainId === chainId
+    ) {
+      return provider;
+    }
+    try {
+      return getReadOnlyProvider(
+        getProviderForNetwork(chainId) as string,
+        chainId,
+      );
+    } catch (err) {
+      // unknown chains can only be used by regular wallets
+      return undefined;
+    }
+  }
+}
+
+function toBase64Url(data: string | Uint8Array): string {
+  return Buffer.from(data)
+    .toString("base64")
+    .replace(/=+$/, "")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+}
+
+function fromBase64Url(data: string): Buffer {
+  return Buffer.from(data.replace(/-/g, "+").replace(/_/g, "/"), "base64");
 }
@@ -1,3 +1,4 @@
+import { GasCostEstimate, GasStrategy } from "../../types/index";
 import { TransactionResult } from "../types";
 import { ContractEncoder } from "./contract-encoder";
 import { ContractWrapper } from "./contract-wrapper";
@@ -35,6 +36,7 @@ export class TransactionTask {
   private functionName: string;
   private args: any[];
   private overrides: CallOverrides | undefined;
+  private gasStrategy: GasStrategy | undefined;
   private encoder: ContractEncoder<any>;
   private estimator: GasCostEstimator<any>;
 
@@ -47,6 +49,59 @@ export class TransactionTask {
     this.estimator = new GasCostEstimator(this.contractWrapper);
   }
 
+  // ////////////// Accessors ////////////////
+
+  /**
+   * @internal
+   */
+  public getContractWrapper(): ContractWrapper<any> {
+    return this.contractWrapper;
+  }
+
+  /**
+   * @internal
+   */
+  public getFunctionName(): string {
+    return this.functionName;
+  }
+
+  /**
+   * @internal
+   */
+  public getArgs(): any[] {
+    return this.args;
+  }
+
+  /**
+   * @internal
+   */
+  public getOverrides(): CallOverrides {
+    return this.overrides || {};
+  }
+
+  /**
+   * Get the call overrides this transaction will be sent with, including the fees computed by its gas strategy
+   * @internal
+   */
+  public async getCallOverrides(): Promise<CallOverrides> {
+    const fees = this.gasStrategy
+      ? await this.gasStrategy.getFees(this.contractWrapper.getProvider())
+      : await this.contractWrapper.getCallOverrides();
+    const overrides = this.getOverrides();
+    // explicit fees replace the computed ones, legacy and EIP-1559 fees cannot be mixed
+    if (overrides.gasPrice !== undefined) {
+      return { ...overrides };
+    }
+    if (
+      overrides.maxFeePerGas !== undefined ||
+      overrides.maxPriorityFeePerGas !== undefined
+    ) {
+      const { gasPrice, ...eip1559Fees } = fees as CallOverrides;
+      return { ...(gasPrice ? {} : eip1559Fees), ...overrides };
+    }
+    return { ...fees, ...overrides };
+  }
+
   // ////////////// Overrides ////////////////
 
   /**
@@ -73,6 +128,42 @@ export class TransactionTask {
     return this;
   }
 
+  /**
+   * Override the maximum fee per gas for this EIP-1559 transaction.
+   * @param maxFeePerGas
+   */
+  public overrideMaxFeePerGas(maxFeePerGas: BigNumberish): TransactionTask {
+    this.overrides = {
+      ...this.overrides,
+      maxFeePerGas,
+    };
+    return this;
+  }
+
+  /**
+   * Override the maximum priority fee per gas for this EIP-1559 transaction.
+   * @param maxPriorityFeePerGas
+   */
+  public overrideMaxPriorityFeePerGas(
+    maxPriorityFeePerGas: BigNumberish,
+  ): TransactionTask {
+    this.overrides = {
+      ...this.overrides,
+      maxPriorityFeePerGas,
+    };
+    return this;
+  }
+
+  /**
+   * Override the gas strategy used to compute the fees of this transaction.
+   * @remarks Fees set explicitly with the other overrides take precedence over the strategy.
+   * @param gasStrategy
+   */
+  public overrideGasStrategy(gasStrategy: GasStrategy): TransactionTask {
+    this.gasStrategy = gasStrategy;
+    return this;
+  }
+
   /**
    * Override the nonce for this transaction.
    * @param nonce
@@ -112,11 +203,40 @@ export class TransactionTask {
    * @returns the gas cost in ether
    */
   public async estimateGasCostInEther(): Promise<string> {
-    return await this.estimator.gasCostOf(this.functionName, this.args);
+    return await this.estimator.gasCostOf(
+      this.functionName,
+      this.args,
+      this.gasStrategy,
+    );
+  }
+
+  /**
+   * Returns the minimum, expected and maximum gas cost of this transaction if executed.
+   * @returns the gas limit and the gas costs in ether
+   */
+  public async estimateGasCostRange(): Promise<GasCostEstimate> {
+    return await this.estimator.gasCostRangeOf(
+      this.functionName,
+      this.args,
+      this.gasStrategy,
+    );
   }
 
   // ////////////// Actions ////////////////
 
+  /**
+   * Dry-runs this transaction against the latest block without sending it.
+   * @returns the value the function would return
+   * @throws a {@link TransactionError} with the decoded revert reason if the transaction would revert
+   */
+  public async simulate(): Promise<any> {
+    return await this.contractWrapper.simulateTransaction(
+      this.functionName,
+      this.args,
+      this.getOverrides(),
+    );
+  }
+
   /**
    * Returns the encoded function data of this transaction if executed.
    */
@@ -132,7 +252,7 @@ export class TransactionTask {
     return await this.contractWrapper.sendTransactionByFunction(
       this.functionName,
       this.args,
-      this.overrides || {},
+      await this.getCallOverrides(),
     );
   }
 
@@ -143,7 +263,7 @@ export class TransactionTask {
     const receipt = await this.contractWrapper.sendTransaction(
       this.functionName,
       this.args,
-      this.overrides || {},
+      await this.getCallOverrides(),
     );
     return {
       receipt,
@@ -0,0 +1,37 @@
+import { CacheStore } from "../../types/index";
+
+/**
+ * Keeps cached reads in memory, evicting the least recently used entries first
+ * @public
+ */
+export class LruCacheStore implements CacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+  private maxEntries: number;
+
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  public async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    // re-insert to mark the entry as the most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  public async set(key: string, value: string, ttlSeconds: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    while (this.entries.size > this.maxEntries) {
+      // maps iterate in insertion order, the first key is the least recently used
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+}
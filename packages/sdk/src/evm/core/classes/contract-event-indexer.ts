@@ -0,0 +1,269 @@
+import {
+  ContractEvent,
+  EventCheckpoint,
+  EventCheckpointStore,
+  EventIndexerOptions,
+} from "../../types/index";
+import type { ContractEvents } from "./contract-events";
+import { ContractWrapper } from "./contract-wrapper";
+import { InMemoryEventCheckpointStore } from "./event-checkpoint-store";
+import { BaseContract } from "ethers";
+
+/**
+ * Index past and future events of a contract, resuming from a persisted checkpoint
+ * @remarks Pages through block ranges, shrinking the range whenever the RPC rejects a query and growing it back after successful ones.
+ * The checkpoint is saved after every fully processed range, so events are delivered at least once: after a restart or a reorg, some events may be delivered again.
+ * @example
+ * ```javascript
+ * const indexer = contract.events.createIndexer({
+ *   eventName: "Transfer",
+ *   store: myCheckpointStore,
+ * });
+ *
+ * // go through all the events since the last checkpoint
+ * for await (const event of indexer) {
+ *   console.log(event.data);
+ * }
+ *
+ * // or catch up, then keep listening to new events
+ * const unsubscribe = await indexer.listen((event) => {
+ *   console.log(event.transaction.removed ? "reorged" : "new", event.data);
+ * });
+ * ```
+ * @public
+ */
+export class ContractEventIndexer<TContract extends BaseContract> {
+  private contractWrapper;
+  private events;
+  private eventName: string | undefined;
+  private fromBlock: number;
+  private toBlock: number | undefined;
+  private chunkSize: number;
+  private maxChunkSize: number;
+  private confirmations: number;
+  private reorgDepth: number;
+  private store: EventCheckpointStore;
+  private checkpointKey: string;
+
+  constructor(
+    contractWrapper: ContractWrapper<TContract>,
+    events: ContractEvents<TContract>,
+    options: EventIndexerOptions = {},
+  ) {
+    this.contractWrapper = contractWrapper;
+    this.events = events;
+    this.eventName = options.eventName;
+    this.fromBlock = options.fromBlock || 0;
+    this.toBlock = options.toBlock;
+    this.maxChunkSize = options.maxChunkSize || 10000;
+    this.chunkSize = Math.min(options.chunkSize || 2000, this.maxChunkSize);
+    this.confirmations = options.confirmations || 0;
+    this.reorgDepth =
+      options.reorgDepth !== undefined ? options.reorgDepth : 12;
+    this.store = options.store || new InMemoryEventCheckpointStore();
+    this.checkpointKey =
+      options.checkpointKey ||
+      `${this.contractWrapper.readContract.address}:${this.eventName || "*"}`;
+  }
+
+  /**
+   * Get the last block that was fully indexed
+   * @returns the stored checkpoint, if any
+   */
+  public async getCheckpoint(): Promise<EventCheckpoint | undefined> {
+    return this.store.get(this.checkpointKey);
+  }
+
+  /**
+   * Delete the stored checkpoint, the next run will start from the configured `fromBlock`
+   */
+  public async reset(): Promise<void> {
+    await this.store.delete(this.checkpointKey);
+  }
+
+  /**
+   * Iterate over all the events emitted since the last checkpoint, in the order they were emitted
+   * @remarks Stops once the latest confirmed block has been indexed.
+   */
+  public catchUp<TEvent extends Record<string, any>>(): AsyncGenerator<
+    ContractEvent<TEvent>
+  > {
+    return this.index<TEvent>(this.confirmations);
+  }
+
+  public [Symbol.asyncIterator]() {
+    return this.catchUp();
+  }
+
+  /**
+   * Catch up with all the events emitted since the last checkpoint, then keep listening to new events
+   * @remarks Events that get removed from the chain by a reorg are delivered again with `transaction.removed` set to `true`,
+   * and the checkpoint is rewound so that their block gets indexed again.
+   * With `confirmations`, events are only delivered once their block is confirmed, new blocks are indexed as they get confirmed instead.
+   * @param listener - the callback function that will be called on every event
+   * @returns a function to stop listening to new events
+   */
+  public async listen<TEvent extends Record<string, any>>(
+    listener: (event: ContractEvent<TEvent>) => void,
+  ): Promise<() => void> {
+    if (this.confirmations > 0) {
+      return this.listenToConfirmedBlocks(listener);
+    }
+
+    // subscribe first so that no event gets lost while catching up
+    let caughtUp = false;
+    const buffered: ContractEvent<TEvent>[] = [];
+    let queue = Promise.resolve();
+    const onEvent = (event: ContractEvent<TEvent>) => {
+      if (!caughtUp) {
+        buffered.push(event);
+        return;
+      }
+      queue = queue
+        .then(() => this.handleLiveEvent(event, listener))
+        .catch((e) => console.error("Could not index event:", event, e));
+    };
+    const unsubscribe = this.eventName
+      ? this.events.addEventListener<TEvent>(this.eventName, onEvent)
+      : this.events.listenToAllEvents<TEvent>(onEvent);
+
+    try {
+      for await (const event of this.index<TEvent>(0)) {
+        listener(event);
+      }
+    } catch (e) {
+      unsubscribe();
+      throw e;
+    }
+    caughtUp = true;
+    buffered.forEach(onEvent);
+    return unsubscribe;
+  }
+
+  /** ********************
+   * PRIVATE FUNCTIONS
+   *********************/
+
+  private async *index<TEvent extends Record<string, any>>(
+    confirmations: number,
+  ): AsyncGenerator<ContractEvent<TEvent>> {
+    const provider = this.contractWrapper.getProvider();
+    let fromBlock = await this.getStartBlock();
+    const latestBlock = (await provider.getBlockNumber()) - confirmations;
+    const toBlockLimit =
+      this.toBlock !== undefined
+        ? Math.min(this.toBlock, latestBlock)
+        : latestBlock;
+
+    while (fromBlock <= toBlockLimit) {
+      const toBlock = Math.min(fromBlock + this.chunkSize - 1, toBlockLimit);
+      let events: ContractEvent<TEvent>[];
+      try {
+        events = await this.queryRange<TEvent>(fromBlock, toBlock);
+      } catch (e) {
+        if (toBlock === fromBlock) {
+          throw e;
+        }
+        // most RPCs limit the range or the number of results of a single query
+        this.chunkSize = Math.max(1, Math.floor(this.chunkSize / 2));
+        continue;
+      }
+      for (const event of events) {
+        yield event;
+      }
+      await this.saveCheckpoint(toBlock);
+      fromBlock = toBlock + 1;
+      this.chunkSize = Math.min(this.chunkSize * 2, this.maxChunkSize);
+    }
+  }
+
+  private async listenToConfirmedBlocks<TEvent extends Record<string, any>>(
+    listener: (event: ContractEvent<TEvent>) => void,
+  ): Promise<() => void> {
+    const indexConfirmedBlocks = async () => {
+      for await (const event of this.index<TEvent>(this.confirmations)) {
+        listener(event);
+      }
+    };
+    await indexConfirmedBlocks();
+
+    // the events of the blocks that were not confirmed yet get indexed once they are
+    const provider = this.contractWrapper.getProvider();
+    let queue = Promise.resolve();
+    const onBlock = () => {
+      queue = queue
+        .then(indexConfirmedBlocks)
+        .catch((e) => console.error("Could not index events:", e));
+    };
+    provider.on("block", onBlock);
+    return () => {
+      provider.off("block", onBlock);
+    };
+  }
+
+  private async getStartBlock(): Promise<number> {
+    const checkpoint = await this.getCheckpoint();
+    if (!checkpoint) {
+      return this.fromBlock;
+    }
+    if (checkpoint.blockHash) {
+      const block = await this.contractWrapper
+        .getProvider()
+        .getBlock(checkpoint.blockNumber);
+      if (!block || block.hash !== checkpoint.blockHash) {
+        // the checkpoint was reorged out of the chain, index the last blocks again
+        return Math.max(
+          this.fromBlock,
+          checkpoint.blockNumber - this.reorgDepth + 1,
+        );
+      }
+    }
+    return checkpoint.blockNumber + 1;
+  }
+
+  private async queryRange<TEvent extends Record<string, any>>(
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<ContractEvent<TEvent>[]> {
+    const filters = { fromBlock, toBlock, order: "asc" as const };
+    return this.eventName
+      ? this.events.getEvents<TEvent>(this.eventName, filters)
+      : this.events.getAllEvents<TEvent>(filters);
+  }
+
+  private async saveCheckpoint(blockNumber: number): Promise<void> {
+    const block = await this.contractWrapper
+      .getProvider()
+      .getBlock(blockNumber);
+    await this.store.set(this.checkpointKey, {
+      blockNumber,
+      blockHash: block?.hash,
+    });
+  }
+
+  private async handleLiveEvent<TEvent extends Record<string, any>>(
+    event: ContractEvent<TEvent>,
+    listener: (event: ContractEvent<TEvent>) => void,
+  ): Promise<void> {
+    const checkpoint = await this.getCheckpoint();
+    const blockNumber = event.transaction.blockNumber;
+    if (event.transaction.removed) {
+      listener(event);
+      if (checkpoint && checkpoint.blockNumber >= blockNumber) {
+        await this.store.set(this.checkpointKey, {
+          blockNumber: blockNumber - 1,
+        });
+      }
+      return;
+    }
+    if (checkpoint && checkpoint.blockNumber >= blockNumber) {
+      // already delivered while catching up
+      return;
+    }
+    listener(event);
+    // more events can still come in for this block, only the previous one is fully indexed
+    await this.store.set(this.checkpointKey, {
+      blockNumber: blockNumber - 1,
+    });
+  }
+}
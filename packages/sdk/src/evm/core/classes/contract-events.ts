@@ -1,5 +1,10 @@
 import { EventType } from "../../constants";
-import { ContractEvent, EventQueryFilter } from "../../types/index";
+import {
+  ContractEvent,
+  EventIndexerOptions,
+  EventQueryFilter,
+} from "../../types/index";
+import { ContractEventIndexer } from "./contract-event-indexer";
 import { ContractWrapper } from "./contract-wrapper";
 import { EventFragment } from "@ethersproject/abi";
 import { BaseContract, Event, providers } from "ethers";
@@ -9,7 +14,13 @@ import { ListenerFn } from "eventemitter3";
  * Listen to Contract events in real time
  * @public
  */
-export class ContractEvents<TContract extends BaseContract> {
+export class ContractEvents<
+  TContract extends BaseContract,
+  TEvents extends Record<string, Record<string, any>> = Record<
+    string,
+    Record<string, any>
+  >,
+> {
   private contractWrapper;
 
   constructor(contractWrapper: ContractWrapper<TContract>) {
@@ -64,9 +75,17 @@ export class ContractEvents<TContract extends BaseContract> {
    * @param listener - the callback function that will be called on every new event
    * @returns a function to un-subscribe from the event
    */
+  public addEventListener<TEventName extends keyof TEvents & string>(
+    eventName: TEventName,
+    listener: (event: ContractEvent<TEvents[TEventName]>) => void,
+  ): () => void;
   public addEventListener<TEvent extends Record<string, any>>(
     eventName: keyof TContract["filters"] | (string & {}),
     listener: (event: ContractEvent<TEvent>) => void,
+  ): () => void;
+  public addEventListener(
+    eventName: keyof TContract["filters"] | (string & {}),
+    listener: (event: ContractEvent<any>) => void,
   ) {
     // validates event, throws error if not found
     const event = this.contractWrapper.readContract.interface.getEvent(
@@ -81,12 +100,22 @@ export class ContractEvents<TContract extends BaseContract> {
       ],
     };
 
-    const wrappedListener = (log: providers.Log) => {
-      const parsedLog =
-        this.contractWrapper.readContract.interface.parseLog(log);
-      listener(
-        this.toContractEvent(parsedLog.eventFragment, parsedLog.args, log),
-      );
+    const wrappedListener = async (log: providers.Log) => {
+      await this.invalidateReadCache(log);
+      let contractEvent: ContractEvent<any>;
+      try {
+        const parsedLog =
+          this.contractWrapper.readContract.interface.parseLog(log);
+        contractEvent = this.toContractEvent(
+          parsedLog.eventFragment,
+          parsedLog.args,
+          log,
+        );
+      } catch (e) {
+        console.error("Could not parse event:", log, e);
+        return;
+      }
+      this.callListener(listener, contractEvent);
     };
 
     this.contractWrapper.getProvider().on(filter, wrappedListener);
@@ -115,21 +144,22 @@ export class ContractEvents<TContract extends BaseContract> {
     const address = this.contractWrapper.readContract.address;
     const filter = { address };
 
-    const wrappedListener = (log: providers.Log) => {
+    const wrappedListener = async (log: providers.Log) => {
+      await this.invalidateReadCache(log);
+      let event: ContractEvent<TEvent>;
       try {
         const parsedLog =
           this.contractWrapper.readContract.interface.parseLog(log);
-
-        listener(
-          this.toContractEvent<TEvent>(
-            parsedLog.eventFragment,
-            parsedLog.args,
-            log,
-          ),
+        event = this.toContractEvent<TEvent>(
+          parsedLog.eventFragment,
+          parsedLog.args,
+          log,
         );
       } catch (e) {
         console.error("Could not parse event:", log, e);
+        return;
       }
+      this.callListener(listener, event);
     };
 
     this.contractWrapper.getProvider().on(filter, wrappedListener);
@@ -268,6 +298,72 @@ export class ContractEvents<TContract extends BaseContract> {
     return this.parseEvents(orderedEvents);
   }
 
+  /**
+   * Create an indexer for the events of this contract
+   * @remarks Unlike {@link ContractEvents.getAllEvents}, the indexer queries the chain in bounded block ranges
+   * and persists its progress, so it works with RPCs that limit query ranges and can resume where it left off.
+   * @example
+   * ```javascript
+   * const indexer = contract.events.createIndexer({ eventName: "Transfer" });
+   * for await (const event of indexer) {
+   *   console.log(event.data);
+   * }
+   * ```
+   * @param options - which events to index, where to start from and where to store the checkpoint
+   * @returns the event indexer
+   */
+  public createIndexer(
+    options: EventIndexerOptions = {},
+  ): ContractEventIndexer<TContract> {
+    return new ContractEventIndexer(this.contractWrapper, this, options);
+  }
+
+  /**
+   * Parse the events emitted by this contract in the logs of a transaction receipt
+   * @param logs - the logs of the receipt, the logs of other contracts and of unknown events are skipped
+   * @internal
+   */
+  public parseLogs(logs: providers.Log[]): ContractEvent[] {
+    const address = this.contractWrapper.readContract.address.toLowerCase();
+    const events: ContractEvent[] = [];
+    for (const log of logs) {
+      if (log.address.toLowerCase() !== address) {
+        continue;
+      }
+      try {
+        const parsedLog =
+          this.contractWrapper.readContract.interface.parseLog(log);
+        events.push(
+          this.toContractEvent(parsedLog.eventFragment, parsedLog.args, log),
+        );
+      } catch (e) {
+        // the event isn't part of the ABI of the contract
+      }
+    }
+    return events;
+  }
+
+  // the event changed the state of the contract, a failure of the cache store should not drop the event
+  // the provider doesn't await its listeners, so errors thrown by the listener would go unhandled
+  private callListener<TEvent extends Record<string, any>>(
+    listener: (event: ContractEvent<TEvent>) => void,
+    event: ContractEvent<TEvent>,
+  ) {
+    try {
+      listener(event);
+    } catch (e) {
+      console.error("Event listener threw an error:", event, e);
+    }
+  }
+
+  private async invalidateReadCache(log: providers.Log) {
+    try {
+      await this.contractWrapper.invalidateReadCache(log.blockNumber);
+    } catch (e) {
+      console.error("Could not invalidate the read cache:", e);
+    }
+  }
+
   private parseEvents<TEvent extends Record<string, any>>(
     events: Event[],
   ): ContractEvent<TEvent>[] {
@@ -323,6 +419,8 @@ export class ContractEvents<TContract extends BaseContract> {
             obj[name] = arr[i];
           }
           results[param.name] = obj;
+        } else {
+          results[param.name] = args[index];
         }
       } else {
         results[param.name] = args[index];
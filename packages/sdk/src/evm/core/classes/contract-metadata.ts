@@ -12,7 +12,7 @@ import type {
   IContractMetadata,
   IERC20Metadata,
 } from "@thirdweb-dev/contracts-js";
-import { ThirdwebStorage } from "@thirdweb-dev/storage";
+import { ContractMetadataSchema, ThirdwebStorage } from "@thirdweb-dev/storage";
 import { BaseContract } from "ethers";
 import { z } from "zod";
 
@@ -87,7 +87,13 @@ export class ContractMetadata<
     if (this.supportsContractMetadata(this.contractWrapper)) {
       const uri = await this.contractWrapper.readContract.contractURI();
       if (uri && uri.includes("://")) {
-        data = await this.storage.downloadJSON(uri);
+        const cache = this.contractWrapper.getReadCache();
+        // invalid metadata throws with the properties that failed validation
+        data = cache
+          ? await cache.getMetadata(uri, () =>
+              this.storage.downloadJSON(uri, ContractMetadataSchema),
+            )
+          : await this.storage.downloadJSON(uri, ContractMetadataSchema);
       }
     }
 
@@ -5,28 +5,36 @@ import {
   ForwardRequest,
   getAndIncrementNonce,
 } from "../../common/forwarder";
-import { getPolygonGasPriorityFee } from "../../common/gas-price";
 import { signEIP2612Permit } from "../../common/permit";
 import { signTypedDataInternal } from "../../common/sign";
 import { isBrowser } from "../../common/utils";
-import { CONTRACT_ADDRESSES, ChainId } from "../../constants";
+import { CONTRACT_ADDRESSES } from "../../constants";
 import { getContractAddressByChainId } from "../../constants/addresses";
 import { EventType } from "../../constants/events";
 import { CallOverrideSchema } from "../../schema";
 import { AbiSchema } from "../../schema/contracts/custom";
 import { SDKOptions } from "../../schema/sdk-options";
+import { GasStrategy } from "../../types/gas";
+import {
+  SubmittedTransaction,
+  TransactionStatus,
+} from "../../types/transactions";
 import {
   ForwardRequestMessage,
   GaslessTransaction,
   NetworkOrSignerOrProvider,
   PermitRequestMessage,
 } from "../types";
+import { SpeedGasStrategy } from "./gas-strategy";
+import type { ReadCache } from "./read-cache";
 import { RPCConnectionHandler } from "./rpc-connection-handler";
+import type { TransactionQueue } from "./transaction-queue";
 import ForwarderABI from "@thirdweb-dev/contracts-js/dist/abis/Forwarder.json";
 import fetch from "cross-fetch";
 import {
   BaseContract,
   BigNumber,
+  BigNumberish,
   BytesLike,
   CallOverrides,
   Contract,
@@ -34,6 +42,7 @@ import {
   ContractTransaction,
   ethers,
   providers,
+  Signer,
 } from "ethers";
 import invariant from "tiny-invariant";
 
@@ -45,6 +54,8 @@ export class ContractWrapper<
 > extends RPCConnectionHandler {
   private isValidContract = false;
   private customOverrides: () => CallOverrides = () => ({});
+  private errorAbiLoader: (() => Promise<ContractInterface>) | undefined;
+  private errorInterfaces: Promise<ethers.utils.Interface[]> | undefined;
   /**
    * @internal
    */
@@ -68,7 +79,7 @@ export class ContractWrapper<
     ) as TContract;
     // setup the read only contract
     this.readContract = this.writeContract.connect(
-      this.getProvider(),
+      this.getReadProvider(),
     ) as TContract;
   }
 
@@ -83,7 +94,7 @@ export class ContractWrapper<
     ) as TContract;
     // setup the read only contract
     this.readContract = this.writeContract.connect(
-      this.getProvider(),
+      this.getReadProvider(),
     ) as TContract;
   }
 
@@ -95,6 +106,46 @@ export class ContractWrapper<
     const { chainId } = await provider.getNetwork();
     return chainId;
   }
+  /**
+   * @internal
+   */
+  public getReadCache(): ReadCache | undefined {
+    return this.options.readCache;
+  }
+
+  /**
+   * @internal
+   */
+  public getTransactionQueue(): TransactionQueue | undefined {
+    return this.options.transactionQueue;
+  }
+
+  /**
+   * The provider to use for reads, which goes through the read cache when one is configured
+   * @internal
+   */
+  public getReadProvider(): providers.Provider {
+    const cache = this.options.readCache;
+    return cache ? cache.wrapProvider(this.getProvider()) : this.getProvider();
+  }
+
+  /**
+   * Invalidate the cached reads of this contract, after a transaction or an event changed its state
+   * @internal
+   * @param blockNumber - the block in which the state changed
+   */
+  public async invalidateReadCache(blockNumber?: number) {
+    const cache = this.options.readCache;
+    if (!cache) {
+      return;
+    }
+    await cache.invalidate(
+      await this.getChainID(),
+      this.readContract.address,
+      blockNumber,
+    );
+  }
+
   /**
    * @internal
    */
@@ -125,106 +176,33 @@ export class ContractWrapper<
       // but it also allows users to select their own gas speed prefs per tx from their wallet directly
       return {};
     }
-    const feeData = await this.getProvider().getFeeData();
-    const supports1559 = feeData.maxFeePerGas && feeData.maxPriorityFeePerGas;
-    if (supports1559) {
-      const chainId = await this.getChainID();
-      const block = await this.getProvider().getBlock("latest");
-      const baseBlockFee =
-        block && block.baseFeePerGas
-          ? block.baseFeePerGas
-          : ethers.utils.parseUnits("1", "gwei");
-      let defaultPriorityFee: BigNumber;
-      if (chainId === ChainId.Mumbai || chainId === ChainId.Polygon) {
-        // for polygon, get fee data from gas station
-        defaultPriorityFee = await getPolygonGasPriorityFee(chainId);
-      } else {
-        // otherwise get it from ethers
-        defaultPriorityFee = BigNumber.from(feeData.maxPriorityFeePerGas);
-      }
-      // then add additional fee based on user preferences
-      const maxPriorityFeePerGas =
-        this.getPreferredPriorityFee(defaultPriorityFee);
-      // See: https://eips.ethereum.org/EIPS/eip-1559 for formula
-      const baseMaxFeePerGas = baseBlockFee.mul(2);
-      const maxFeePerGas = baseMaxFeePerGas.add(maxPriorityFeePerGas);
-      return {
-        maxFeePerGas,
-        maxPriorityFeePerGas,
-      };
-    } else {
-      return {
-        gasPrice: await this.getPreferredGasPrice(),
-      };
-    }
+    return this.getGasStrategy().getFees(this.getProvider());
   }
 
   /**
-   * Calculates the priority fee per gas according to user preferences
-   * @param defaultPriorityFeePerGas - the base priority fee
+   * Get the gas strategy configured in the SDK options
+   * @internal
    */
-  private getPreferredPriorityFee(
-    defaultPriorityFeePerGas: BigNumber,
-  ): BigNumber {
-    const speed = this.options.gasSettings.speed;
-    const maxGasPrice = this.options.gasSettings.maxPriceInGwei;
-    let extraTip;
-    switch (speed) {
-      case "standard":
-        extraTip = BigNumber.from(0); // default is 2.5 gwei for ETH, 31 gwei for polygon
-        break;
-      case "fast":
-        extraTip = defaultPriorityFeePerGas.div(100).mul(5); // + 5% - 2.625 gwei / 32.5 gwei
-        break;
-      case "fastest":
-        extraTip = defaultPriorityFeePerGas.div(100).mul(10); // + 10% - 2.75 gwei / 34.1 gwei
-        break;
-    }
-    let txGasPrice = defaultPriorityFeePerGas.add(extraTip);
-    const max = ethers.utils.parseUnits(maxGasPrice.toString(), "gwei"); // no more than max gas setting
-    const min = ethers.utils.parseUnits("2.5", "gwei"); // no less than 2.5 gwei
-    if (txGasPrice.gt(max)) {
-      txGasPrice = max;
-    }
-    if (txGasPrice.lt(min)) {
-      txGasPrice = min;
-    }
-    return txGasPrice;
+  public getGasStrategy(): GasStrategy {
+    const { strategy, speed, maxPriceInGwei } = this.options.gasSettings;
+    return strategy || new SpeedGasStrategy(speed, maxPriceInGwei);
   }
 
   /**
    * Calculates the gas price for transactions according to user preferences
    */
   public async getPreferredGasPrice(): Promise<BigNumber> {
-    const gasPrice = await this.getProvider().getGasPrice();
-    const speed = this.options.gasSettings.speed;
-    const maxGasPrice = this.options.gasSettings.maxPriceInGwei;
-    let txGasPrice = gasPrice;
-    let extraTip;
-    switch (speed) {
-      case "standard":
-        extraTip = BigNumber.from(1); // min 1 wei
-        break;
-      case "fast":
-        extraTip = gasPrice.div(100).mul(5); // + 5%
-        break;
-      case "fastest":
-        extraTip = gasPrice.div(100).mul(10); // + 10%
-        break;
-    }
-    txGasPrice = txGasPrice.add(extraTip);
-    const max = ethers.utils.parseUnits(maxGasPrice.toString(), "gwei");
-    if (txGasPrice.gt(max)) {
-      txGasPrice = max;
-    }
-    return txGasPrice;
+    const { speed, maxPriceInGwei } = this.options.gasSettings;
+    return new SpeedGasStrategy(speed, maxPriceInGwei).getGasPrice(
+      this.getProvider(),
+    );
   }
 
   /**
    * @internal
    */
   private emitTransactionEvent(
-    status: "submitted" | "completed",
+    status: TransactionStatus,
     transactionHash: string,
   ) {
     this.emit(EventType.Transaction, {
@@ -338,6 +316,10 @@ export class ContractWrapper<
     };
     // clear up the override (single use)
     this.customOverrides = () => ({});
+    if (this.options.simulateTransactions) {
+      // fail early with a decoded revert reason instead of paying for a reverted transaction
+      await this.simulateTransaction(fn, args, callOverrides);
+    }
     if (
       this.options?.gasless &&
       ("openzeppelin" in this.options.gasless ||
@@ -348,6 +330,7 @@ export class ContractWrapper<
       this.emitTransactionEvent("submitted", txHash);
       const receipt = await provider.waitForTransaction(txHash);
       this.emitTransactionEvent("completed", txHash);
+      await this.invalidateReadCache(receipt.blockNumber);
       return receipt;
     } else {
       // one time verification that this is a valid contract (to avoid sending funds to wrong addresses)
@@ -362,6 +345,19 @@ export class ContractWrapper<
           );
         }
       }
+      const queue = this.options.transactionQueue;
+      const signer = this.getSigner();
+      if (queue && signer && callOverrides.nonce === undefined) {
+        const receipt = await this.sendQueuedTransaction(
+          queue,
+          signer,
+          fn as keyof TContract["functions"],
+          args,
+          callOverrides,
+        );
+        await this.invalidateReadCache(receipt.blockNumber);
+        return receipt;
+      }
       const tx = await this.sendTransactionByFunction(
         fn as keyof TContract["functions"],
         args,
@@ -370,6 +366,7 @@ export class ContractWrapper<
       this.emitTransactionEvent("submitted", tx.hash);
       const receipt = tx.wait();
       this.emitTransactionEvent("completed", tx.hash);
+      await this.invalidateReadCache((await receipt).blockNumber);
       return receipt;
     }
   }
@@ -391,16 +388,174 @@ export class ContractWrapper<
     try {
       return await func(...args, callOverrides);
     } catch (e) {
-      const network = await this.getProvider().getNetwork();
-      const signerAddress = await this.getSignerAddress();
-      const contractAddress = await this.readContract.address;
-      throw await convertToTWError(
-        e,
-        network,
-        signerAddress,
-        contractAddress,
-        this.readContract.interface,
+      throw await this.formatTransactionError(e);
+    }
+  }
+
+  /**
+   * Send a transaction without waiting for it to be mined, through the transaction queue when one is configured
+   * @internal
+   * @returns the hash of the transaction, and its receipt once it is mined
+   */
+  public async submitTransaction(
+    fn: keyof TContract["functions"] | (string & {}),
+    args: any[],
+    callOverrides: CallOverrides,
+  ): Promise<SubmittedTransaction> {
+    const queue = this.options.transactionQueue;
+    const signer = this.getSigner();
+    if (queue && signer && callOverrides.nonce === undefined) {
+      try {
+        const transaction = await (
+          this.writeContract.populateTransaction as any
+        )[fn](...args, callOverrides);
+        const submitted = await queue.submit(
+          signer,
+          transaction,
+          (status, hash) => this.emitTransactionEvent(status, hash),
+        );
+        return {
+          hash: submitted.hash,
+          receipt: submitted.receipt.catch(async (e) => {
+            throw await this.formatTransactionError(e);
+          }),
+        };
+      } catch (e) {
+        throw await this.formatTransactionError(e);
+      }
+    }
+    const tx = await this.sendTransactionByFunction(
+      fn as keyof TContract["functions"],
+      args,
+      callOverrides,
+    );
+    this.emitTransactionEvent("submitted", tx.hash);
+    return {
+      hash: tx.hash,
+      receipt: tx.wait().then((receipt) => {
+        this.emitTransactionEvent("completed", tx.hash);
+        return receipt;
+      }),
+    };
+  }
+
+  /**
+   * @internal
+   */
+  private async sendQueuedTransaction(
+    queue: TransactionQueue,
+    signer: Signer,
+    fn: keyof TContract["functions"],
+    args: any[],
+    callOverrides: CallOverrides,
+  ): Promise<providers.TransactionReceipt> {
+    try {
+      const transaction = await (this.writeContract.populateTransaction as any)[
+        fn
+      ](...args, callOverrides);
+      return await queue.send(signer, transaction, (status, hash) =>
+        this.emitTransactionEvent(status, hash),
       );
+    } catch (e) {
+      throw await this.formatTransactionError(e);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private async formatTransactionError(
+    e: any,
+    transaction: { data?: string; value?: BigNumberish } = {},
+  ) {
+    const network = await this.getProvider().getNetwork();
+    const signerAddress = await this.getSignerAddress();
+    const contractAddress = await this.readContract.address;
+    return await convertToTWError(
+      e,
+      network,
+      signerAddress,
+      contractAddress,
+      this.readContract.interface,
+      {
+        ...transaction,
+        errorInterfaces: await this.getErrorInterfaces(),
+      },
+    );
+  }
+
+  /**
+   * Dry-run a transaction against the latest block without sending it
+   * @internal
+   * @returns the value the function would return
+   * @throws a {@link TransactionError} with the decoded revert reason if the transaction would revert
+   */
+  public async simulateTransaction(
+    fn: keyof TContract["functions"] | (string & {}),
+    args: any[],
+    callOverrides: CallOverrides = {},
+  ): Promise<any> {
+    const func = (this.writeContract.callStatic as any)[fn];
+    if (!func) {
+      throw new Error(`invalid function: "${fn.toString()}"`);
+    }
+    try {
+      return await func(...args, callOverrides);
+    } catch (e) {
+      throw await this.formatTransactionError(e, {
+        data: this.readContract.interface.encodeFunctionData(
+          fn as string,
+          args,
+        ),
+        value: await callOverrides.value,
+      });
+    }
+  }
+
+  /**
+   * Decode revert reasons with an additional ABI, for example the full ABI from the published metadata of the contract
+   * @internal
+   */
+  public withErrorAbi(loader: () => Promise<ContractInterface>) {
+    this.errorAbiLoader = loader;
+    this.errorInterfaces = undefined;
+  }
+
+  /**
+   * @internal
+   */
+  private getErrorInterfaces(): Promise<ethers.utils.Interface[]> {
+    // loaded once, failures included, so that failing calls don't fetch it again every time
+    if (!this.errorInterfaces) {
+      this.errorInterfaces = this.loadErrorInterfaces();
+    }
+    return this.errorInterfaces;
+  }
+
+  /**
+   * @internal
+   */
+  private async loadErrorInterfaces(): Promise<ethers.utils.Interface[]> {
+    if (!this.errorAbiLoader) {
+      return [];
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      // 5 sec timeout, decoding the revert reason should not hold up the error
+      const timeout = new Promise<never>((_r, rej) => {
+        timer = setTimeout(() => rej("timeout"), 5000);
+      });
+      const abi = await Promise.race([this.errorAbiLoader(), timeout]);
+      return [
+        ethers.utils.Interface.isInterface(abi)
+          ? abi
+          : new ethers.utils.Interface(abi),
+      ];
+    } catch (e) {
+      // no additional ABI available, e.g. for unpublished contracts
+      return [];
+    } finally {
+      clearTimeout(timer);
     }
   }
 
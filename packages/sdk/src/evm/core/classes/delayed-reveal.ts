@@ -321,9 +321,10 @@ export class DelayedReveal<
   private async getNftMetadata(tokenId: BigNumberish): Promise<NFTMetadata> {
     return fetchTokenMetadataForContract(
       this.contractWrapper.readContract.address,
-      this.contractWrapper.getProvider(),
+      this.contractWrapper.getReadProvider(),
       tokenId,
       this.storage,
+      this.contractWrapper.getReadCache(),
     );
   }
 
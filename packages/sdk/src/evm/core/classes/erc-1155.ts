@@ -21,7 +21,13 @@ import {
 } from "../../constants/erc1155-features";
 import { AirdropInputSchema } from "../../schema/contracts/common/airdrop";
 import { EditionMetadataOrUri } from "../../schema/tokens/edition";
-import { ClaimOptions, QueryAllParams, UploadProgressEvent } from "../../types";
+import {
+  ClaimOptions,
+  EditionHolderQueryParams,
+  NFTHolderBalance,
+  QueryAllParams,
+  UploadProgressEvent,
+} from "../../types";
 import { AirdropInput } from "../../types/airdrop/airdrop";
 import {
   BaseDropERC1155,
@@ -42,6 +48,12 @@ import { Erc1155Enumerable } from "./erc-1155-enumerable";
 import { Erc1155LazyMintable } from "./erc-1155-lazymintable";
 import { Erc1155Mintable } from "./erc-1155-mintable";
 import { Erc1155SignatureMintable } from "./erc-1155-signature-mintable";
+import {
+  HolderBalanceTracker,
+  HolderTransfer,
+  paginateHolders,
+  toNFTHolderBalances,
+} from "./holder-balance-tracker";
 import type {
   DropERC1155,
   IBurnableERC1155,
@@ -74,6 +86,7 @@ export class Erc1155<
   private burnable: Erc1155Burnable | undefined;
   private lazyMintable: Erc1155LazyMintable | undefined;
   private signatureMintable: Erc1155SignatureMintable | undefined;
+  private holders: HolderBalanceTracker;
 
   protected contractWrapper: ContractWrapper<T>;
   protected storage: ThirdwebStorage;
@@ -81,6 +94,49 @@ export class Erc1155<
   constructor(contractWrapper: ContractWrapper<T>, storage: ThirdwebStorage) {
     this.contractWrapper = contractWrapper;
     this.storage = storage;
+    // ERC1155 transfers are split between TransferSingle and TransferBatch events
+    this.holders = new HolderBalanceTracker(
+      this.contractWrapper,
+      (event) => {
+        const { from, to } = event.data;
+        switch (event.eventName) {
+          case "TransferSingle":
+            return [
+              {
+                from,
+                to,
+                tokenId: BigNumber.from(event.data.id).toString(),
+                amount: BigNumber.from(event.data.value),
+              },
+            ];
+          case "TransferBatch": {
+            const log = this.contractWrapper.readContract.interface.parseLog(
+              event.transaction,
+            );
+            // ethers doesn't set `values` on the args, it collides with Array.prototype.values,
+            // so the arguments are looked up by their name in the event fragment
+            const getArg = (name: string) =>
+              log.args[
+                log.eventFragment.inputs.findIndex(
+                  (input) => input.name === name,
+                )
+              ] as BigNumberish[];
+            const amounts = getArg("values");
+            return getArg("ids").map(
+              (id, i): HolderTransfer => ({
+                from,
+                to,
+                tokenId: BigNumber.from(id).toString(),
+                amount: BigNumber.from(amounts[i]),
+              }),
+            );
+          }
+          default:
+            return [];
+        }
+      },
+      ["TransferSingle", "TransferBatch"],
+    );
     this.query = this.detectErc1155Enumerable();
     this.mintable = this.detectErc1155Mintable();
     this.burnable = this.detectErc1155Burnable();
@@ -167,6 +223,47 @@ export class Erc1155<
     );
   }
 
+  /**
+   * Get all NFT holders
+   *
+   * @remarks Get every wallet holding NFTs of this contract, with the quantity of each token they own, sorted by total quantity owned.
+   * Holders are computed from the `TransferSingle` and `TransferBatch` events of the contract.
+   * The result is kept as a snapshot, so subsequent calls only need to process the transfers that happened since.
+   *
+   * @example
+   * ```javascript
+   * const holders = await contract.erc1155.getAllHolders();
+   *
+   * // get the top 10 holders of a given token at a given block
+   * const topHolders = await contract.erc1155.getAllHolders({
+   *   tokenId: 0,
+   *   atBlock: 15000000,
+   *   count: 10,
+   * });
+   * ```
+   * @param params - optional token id, block to compute the holders at, pagination, sort order and snapshot store
+   * @returns the holders and the NFTs they own
+   * @twfeature ERC1155
+   */
+  public async getAllHolders(
+    params: EditionHolderQueryParams = {},
+  ): Promise<NFTHolderBalance[]> {
+    const balances = await this.holders.getBalances(
+      params.atBlock,
+      params.store,
+    );
+    return paginateHolders(
+      toNFTHolderBalances(
+        balances,
+        params.tokenId !== undefined
+          ? BigNumber.from(params.tokenId).toString()
+          : undefined,
+      ),
+      (h) => h.balance,
+      params,
+    );
+  }
+
   /**
    * Get whether this wallet has approved transfers from the given operator
    * @param address - the wallet address
@@ -983,7 +1080,12 @@ export class Erc1155<
     if (!tokenUri) {
       throw new NotFoundError();
     }
-    return fetchTokenMetadata(tokenId, tokenUri, this.storage);
+    return fetchTokenMetadata(
+      tokenId,
+      tokenUri,
+      this.storage,
+      this.contractWrapper.getReadCache(),
+    );
   }
 
   private detectErc1155Enumerable(): Erc1155Enumerable | undefined {
@@ -1,9 +1,16 @@
-import { fetchCurrencyValue } from "../../common/currency";
-import { TokenHolderBalance } from "../../types";
+import { fetchCurrencyMetadata } from "../../common/currency";
+import { HolderQueryParams, TokenHolderBalance } from "../../types";
 import { ContractEvents } from "./contract-events";
 import { ContractWrapper } from "./contract-wrapper";
+import {
+  HolderBalanceTracker,
+  paginateHolders,
+} from "./holder-balance-tracker";
 import type { TokenERC20 } from "@thirdweb-dev/contracts-js";
-import { BigNumber, constants } from "ethers";
+import { BigNumber, utils } from "ethers";
+
+// ERC20 balances are not split by token id
+const ERC20_TOKEN_ID = "0";
 
 /**
  * Manages history for Token contracts
@@ -12,6 +19,7 @@ import { BigNumber, constants } from "ethers";
 export class TokenERC20History {
   private events;
   private contractWrapper;
+  private holders: HolderBalanceTracker;
 
   constructor(
     contractWrapper: ContractWrapper<TokenERC20>,
@@ -19,51 +27,60 @@ export class TokenERC20History {
   ) {
     this.contractWrapper = contractWrapper;
     this.events = events;
+    this.holders = new HolderBalanceTracker(
+      this.contractWrapper,
+      (event) => [
+        {
+          from: event.data.from,
+          to: event.data.to,
+          tokenId: ERC20_TOKEN_ID,
+          amount: BigNumber.from(event.data.value),
+        },
+      ],
+      ["Transfer"],
+    );
   }
 
   /**
    * Get all holder balances
    *
-   * @remarks Lets you get all token holders and their corresponding balances
+   * @remarks Lets you get all token holders and their corresponding balances, sorted by balance.
+   * Balances are computed from the `Transfer` events of the contract. The result is kept as a snapshot,
+   * so subsequent calls only need to process the transfers that happened since.
+   * @param params - optional block to compute the balances at, pagination, sort order and snapshot store
    * @returns - A JSON object of all token holders and their corresponding balances
    * @example
    * ```javascript
    * const allHolderBalances = await contract.history.getAllHolderBalances();
+   *
+   * // get the top 10 holders at a given block
+   * const topHolders = await contract.history.getAllHolderBalances({
+   *   atBlock: 15000000,
+   *   count: 10,
+   * });
    * ```
    */
-  public async getAllHolderBalances(): Promise<TokenHolderBalance[]> {
-    const a = await this.events.getEvents("Transfer");
-    const txns: Record<string, any>[] = a.map((b) => b.data);
-    const balances: {
-      [key: string]: BigNumber;
-    } = {};
-    txns.forEach((item) => {
-      const from = item?.from;
-      const to = item?.to;
-      const amount = item?.value;
-
-      if (!(from === constants.AddressZero)) {
-        if (!(from in balances)) {
-          balances[from] = BigNumber.from(0);
-        }
-        balances[from] = balances[from].sub(amount);
-      }
-      if (!(to === constants.AddressZero)) {
-        if (!(to in balances)) {
-          balances[to] = BigNumber.from(0);
-        }
-        balances[to] = balances[to].add(amount);
-      }
+  public async getAllHolderBalances(
+    params: HolderQueryParams = {},
+  ): Promise<TokenHolderBalance[]> {
+    const [balances, currency] = await Promise.all([
+      this.holders.getBalances(params.atBlock, params.store),
+      fetchCurrencyMetadata(
+        this.contractWrapper.getProvider(),
+        this.contractWrapper.readContract.address,
+      ),
+    ]);
+    const holders = Object.entries(balances).map(([holder, tokens]) => {
+      const value = tokens[ERC20_TOKEN_ID] || BigNumber.from(0);
+      return {
+        holder,
+        balance: {
+          ...currency,
+          value,
+          displayValue: utils.formatUnits(value, currency.decimals),
+        },
+      };
     });
-    return Promise.all(
-      Object.keys(balances).map(async (addr) => ({
-        holder: addr,
-        balance: await fetchCurrencyValue(
-          this.contractWrapper.getProvider(),
-          this.contractWrapper.readContract.address,
-          balances[addr],
-        ),
-      })),
-    );
+    return paginateHolders(holders, (h) => h.balance.value, params);
   }
 }
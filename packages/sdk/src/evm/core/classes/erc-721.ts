@@ -22,6 +22,8 @@ import {
 import { BaseDropERC721, BaseERC721 } from "../../types/eips";
 import {
   ClaimOptions,
+  HolderQueryParams,
+  NFTHolderBalance,
   QueryAllParams,
   UploadProgressEvent,
 } from "../../types/index";
@@ -38,6 +40,11 @@ import { Erc721LazyMintable } from "./erc-721-lazymintable";
 import { Erc721Mintable } from "./erc-721-mintable";
 import { Erc721Supply } from "./erc-721-supply";
 import { Erc721WithQuantitySignatureMintable } from "./erc-721-with-quantity-signature-mintable";
+import {
+  HolderBalanceTracker,
+  paginateHolders,
+  toNFTHolderBalances,
+} from "./holder-balance-tracker";
 import type {
   DropERC721,
   IBurnableERC721,
@@ -76,12 +83,25 @@ export class Erc721<
   private burnable: Erc721Burnable | undefined;
   private lazyMintable: Erc721LazyMintable | undefined;
   private signatureMintable: Erc721WithQuantitySignatureMintable | undefined;
+  private holders: HolderBalanceTracker;
   protected contractWrapper: ContractWrapper<T>;
   protected storage: ThirdwebStorage;
 
   constructor(contractWrapper: ContractWrapper<T>, storage: ThirdwebStorage) {
     this.contractWrapper = contractWrapper;
     this.storage = storage;
+    this.holders = new HolderBalanceTracker(
+      this.contractWrapper,
+      (event) => [
+        {
+          from: event.data.from,
+          to: event.data.to,
+          tokenId: BigNumber.from(event.data.tokenId).toString(),
+          amount: BigNumber.from(1),
+        },
+      ],
+      ["Transfer"],
+    );
     this.query = this.detectErc721Enumerable();
     this.mintable = this.detectErc721Mintable();
     this.burnable = this.detectErc721Burnable();
@@ -157,6 +177,41 @@ export class Erc721<
     return await this.balanceOf(await this.contractWrapper.getSignerAddress());
   }
 
+  /**
+   * Get all NFT holders
+   *
+   * @remarks Get every wallet holding NFTs of this contract, with the token ids they own, sorted by number of NFTs owned.
+   * Holders are computed from the `Transfer` events of the contract, so this works even if the contract is not enumerable.
+   * The result is kept as a snapshot, so subsequent calls only need to process the transfers that happened since.
+   *
+   * @example
+   * ```javascript
+   * const holders = await contract.erc721.getAllHolders();
+   *
+   * // get the top 10 holders at a given block
+   * const topHolders = await contract.erc721.getAllHolders({
+   *   atBlock: 15000000,
+   *   count: 10,
+   * });
+   * ```
+   * @param params - optional block to compute the holders at, pagination, sort order and snapshot store
+   * @returns the holders and the NFTs they own
+   * @twfeature ERC721
+   */
+  public async getAllHolders(
+    params: HolderQueryParams = {},
+  ): Promise<NFTHolderBalance[]> {
+    const balances = await this.holders.getBalances(
+      params.atBlock,
+      params.store,
+    );
+    return paginateHolders(
+      toNFTHolderBalances(balances),
+      (h) => h.balance,
+      params,
+    );
+  }
+
   /**
    * Get whether this wallet has approved transfers from the given operator
    * @param address - the wallet address
@@ -716,7 +771,12 @@ export class Erc721<
     if (!tokenUri) {
       throw new NotFoundError();
     }
-    return fetchTokenMetadata(tokenId, tokenUri, this.storage);
+    return fetchTokenMetadata(
+      tokenId,
+      tokenUri,
+      this.storage,
+      this.contractWrapper.getReadCache(),
+    );
   }
 
   /**
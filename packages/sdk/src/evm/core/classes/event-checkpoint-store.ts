@@ -0,0 +1,24 @@
+import { EventCheckpoint, EventCheckpointStore } from "../../types/index";
+
+/**
+ * Keeps event indexing checkpoints in memory, for the lifetime of the process
+ * @public
+ */
+export class InMemoryEventCheckpointStore<
+  TCheckpoint extends EventCheckpoint = EventCheckpoint,
+> implements EventCheckpointStore<TCheckpoint>
+{
+  private checkpoints = new Map<string, TCheckpoint>();
+
+  public async get(key: string): Promise<TCheckpoint | undefined> {
+    return this.checkpoints.get(key);
+  }
+
+  public async set(key: string, checkpoint: TCheckpoint): Promise<void> {
+    this.checkpoints.set(key, checkpoint);
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.checkpoints.delete(key);
+  }
+}
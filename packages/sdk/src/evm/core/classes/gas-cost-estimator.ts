@@ -1,3 +1,5 @@
+import { getGasCostEstimate } from "../../common/gas-price";
+import { GasCostEstimate, GasStrategy } from "../../types/index";
 import { ContractWrapper } from "./contract-wrapper";
 import { BaseContract, BigNumber, ethers } from "ethers";
 
@@ -27,16 +29,50 @@ export class GasCostEstimator<TContract extends BaseContract> {
    *   1, // proof max quantity per transaction
    * ]);
    * ```
+   * @param strategy - the gas strategy to estimate with, defaults to the one configured in the SDK options
    * @returns the estimated price in native currency (ETH, MATIC, etc) of calling this function
    * @public
    */
   public async gasCostOf(
     fn: keyof TContract["functions"] | (string & {}),
     args: Parameters<TContract["functions"][typeof fn]> | any[],
+    strategy?: GasStrategy,
   ): Promise<string> {
-    const price = await this.contractWrapper.getPreferredGasPrice();
-    const gasUnits = await this.contractWrapper.estimateGas(fn, args);
-    return ethers.utils.formatEther(gasUnits.mul(price));
+    return (await this.gasCostRangeOf(fn, args, strategy)).expected;
+  }
+
+  /**
+   * Estimates the minimum, expected and maximum cost of gas in native token of the current chain
+   * Pass in the same parameters as the contract's function.
+   * @remarks On chains that support EIP-1559, the actual cost depends on the base fee of the block the transaction gets included in,
+   * up to the maximum fee per gas chosen by the gas strategy.
+   * @example
+   * ```javascript
+   * const { min, expected, max } = await contract.estimator.gasCostRangeOf("mintTo", [
+   *   "0x...", // receiver
+   *   1, // amount
+   * ]);
+   * ```
+   * @param strategy - the gas strategy to estimate with, defaults to the one configured in the SDK options
+   * @returns the gas limit and the range of prices in native currency (ETH, MATIC, etc) of calling this function
+   * @public
+   */
+  public async gasCostRangeOf(
+    fn: keyof TContract["functions"] | (string & {}),
+    args: Parameters<TContract["functions"][typeof fn]> | any[],
+    strategy: GasStrategy = this.contractWrapper.getGasStrategy(),
+  ): Promise<GasCostEstimate> {
+    const provider = this.contractWrapper.getProvider();
+    const [gasUnits, fees, block] = await Promise.all([
+      this.contractWrapper.estimateGas(fn, args),
+      strategy.getFees(provider),
+      provider.getBlock("latest"),
+    ]);
+    return getGasCostEstimate(
+      gasUnits,
+      fees,
+      block?.baseFeePerGas || undefined,
+    );
   }
 
   /**
@@ -0,0 +1,268 @@
+import {
+  fetchGasStationFees,
+  GAS_STATION_URLS,
+  getPolygonGasPriorityFee,
+} from "../../common/gas-price";
+import { ChainId } from "../../constants/chains";
+import {
+  FeeHistoryGasStrategyOptions,
+  GasFees,
+  GasStationGasStrategyOptions,
+  GasStationSpeed,
+  GasStrategy,
+} from "../../types/index";
+import { BigNumber, ethers, providers } from "ethers";
+
+/**
+ * Pays the network suggested fees plus a tip depending on the chosen speed
+ * @remarks This is the default strategy, configured through `gasSettings.speed` and `gasSettings.maxPriceInGwei`.
+ * @public
+ */
+export class SpeedGasStrategy implements GasStrategy {
+  private speed: "standard" | "fast" | "fastest";
+  private maxPriceInGwei: number;
+
+  constructor(
+    speed: "standard" | "fast" | "fastest" = "fastest",
+    maxPriceInGwei = 300,
+  ) {
+    this.speed = speed;
+    this.maxPriceInGwei = maxPriceInGwei;
+  }
+
+  public async getFees(provider: providers.Provider): Promise<GasFees> {
+    const feeData = await provider.getFeeData();
+    const supports1559 = feeData.maxFeePerGas && feeData.maxPriorityFeePerGas;
+    if (!supports1559) {
+      return {
+        gasPrice: await this.getGasPrice(provider),
+      };
+    }
+    const { chainId } = await provider.getNetwork();
+    const block = await provider.getBlock("latest");
+    const baseBlockFee =
+      block && block.baseFeePerGas
+        ? block.baseFeePerGas
+        : ethers.utils.parseUnits("1", "gwei");
+    let defaultPriorityFee: BigNumber;
+    if (chainId === ChainId.Mumbai || chainId === ChainId.Polygon) {
+      // for polygon, get fee data from gas station
+      defaultPriorityFee = await getPolygonGasPriorityFee(chainId);
+    } else {
+      // otherwise get it from ethers
+      defaultPriorityFee = BigNumber.from(feeData.maxPriorityFeePerGas);
+    }
+    // then add additional fee based on user preferences
+    const maxPriorityFeePerGas = this.getPriorityFee(defaultPriorityFee);
+    // See: https://eips.ethereum.org/EIPS/eip-1559 for formula
+    const baseMaxFeePerGas = baseBlockFee.mul(2);
+    const maxFeePerGas = baseMaxFeePerGas.add(maxPriorityFeePerGas);
+    return {
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    };
+  }
+
+  /**
+   * Calculates the gas price for legacy transactions according to the chosen speed
+   * @internal
+   */
+  public async getGasPrice(provider: providers.Provider): Promise<BigNumber> {
+    const gasPrice = await provider.getGasPrice();
+    let txGasPrice = gasPrice;
+    let extraTip;
+    switch (this.speed) {
+      case "standard":
+        extraTip = BigNumber.from(1); // min 1 wei
+        break;
+      case "fast":
+        extraTip = gasPrice.div(100).mul(5); // + 5%
+        break;
+      case "fastest":
+        extraTip = gasPrice.div(100).mul(10); // + 10%
+        break;
+    }
+    txGasPrice = txGasPrice.add(extraTip);
+    const max = ethers.utils.parseUnits(this.maxPriceInGwei.toString(), "gwei");
+    if (txGasPrice.gt(max)) {
+      txGasPrice = max;
+    }
+    return txGasPrice;
+  }
+
+  /** ********************
+   * PRIVATE FUNCTIONS
+   *********************/
+
+  private getPriorityFee(defaultPriorityFeePerGas: BigNumber): BigNumber {
+    let extraTip;
+    switch (this.speed) {
+      case "standard":
+        extraTip = BigNumber.from(0); // default is 2.5 gwei for ETH, 31 gwei for polygon
+        break;
+      case "fast":
+        extraTip = defaultPriorityFeePerGas.div(100).mul(5); // + 5% - 2.625 gwei / 32.5 gwei
+        break;
+      case "fastest":
+        extraTip = defaultPriorityFeePerGas.div(100).mul(10); // + 10% - 2.75 gwei / 34.1 gwei
+        break;
+    }
+    let txGasPrice = defaultPriorityFeePerGas.add(extraTip);
+    const max = ethers.utils.parseUnits(this.maxPriceInGwei.toString(), "gwei"); // no more than max gas setting
+    const min = ethers.utils.parseUnits("2.5", "gwei"); // no less than 2.5 gwei
+    if (txGasPrice.gt(max)) {
+      txGasPrice = max;
+    }
+    if (txGasPrice.lt(min)) {
+      txGasPrice = min;
+    }
+    return txGasPrice;
+  }
+}
+
+/**
+ * Pays a percentile of the priority fees paid in recent blocks, based on `eth_feeHistory`
+ * @remarks Falls back to the network gas price on chains that do not support EIP-1559.
+ * @example
+ * ```javascript
+ * const sdk = new ThirdwebSDK("mainnet", {
+ *   gasSettings: {
+ *     // pay more than 75% of the recent transactions
+ *     strategy: new FeeHistoryGasStrategy({ percentile: 75 }),
+ *   },
+ * });
+ * ```
+ * @public
+ */
+export class FeeHistoryGasStrategy implements GasStrategy {
+  private percentile: number;
+  private blockCount: number;
+  private baseFeeMultiplier: number;
+  private maxPrice: BigNumber | undefined;
+
+  constructor(options: FeeHistoryGasStrategyOptions = {}) {
+    this.percentile =
+      options.percentile !== undefined ? options.percentile : 50;
+    this.blockCount = options.blockCount || 20;
+    this.baseFeeMultiplier = options.baseFeeMultiplier || 2;
+    this.maxPrice =
+      options.maxPriceInGwei !== undefined
+        ? ethers.utils.parseUnits(options.maxPriceInGwei.toString(), "gwei")
+        : undefined;
+  }
+
+  public async getFees(provider: providers.Provider): Promise<GasFees> {
+    const history = await this.getFeeHistory(provider);
+    if (!history || !history.baseFeePerGas || !history.reward) {
+      return { gasPrice: this.cap(await provider.getGasPrice()) };
+    }
+    // the last base fee is the one of the next block
+    const baseFee = BigNumber.from(
+      history.baseFeePerGas[history.baseFeePerGas.length - 1],
+    );
+    const rewards = history.reward
+      .map((reward) => BigNumber.from(reward[0]))
+      .sort((a, b) => (a.eq(b) ? 0 : a.lt(b) ? -1 : 1));
+    const maxPriorityFeePerGas =
+      rewards.length > 0
+        ? rewards[Math.floor(rewards.length / 2)]
+        : BigNumber.from(0);
+    const maxFeePerGas = this.cap(
+      baseFee
+        .mul(Math.round(this.baseFeeMultiplier * 100))
+        .div(100)
+        .add(maxPriorityFeePerGas),
+    );
+    return {
+      maxFeePerGas,
+      maxPriorityFeePerGas: maxPriorityFeePerGas.gt(maxFeePerGas)
+        ? maxFeePerGas
+        : maxPriorityFeePerGas,
+    };
+  }
+
+  /** ********************
+   * PRIVATE FUNCTIONS
+   *********************/
+
+  private async getFeeHistory(
+    provider: providers.Provider,
+  ): Promise<{ baseFeePerGas?: string[]; reward?: string[][] } | undefined> {
+    if (!("send" in provider)) {
+      return undefined;
+    }
+    try {
+      return await (provider as providers.JsonRpcProvider).send(
+        "eth_feeHistory",
+        [ethers.utils.hexValue(this.blockCount), "latest", [this.percentile]],
+      );
+    } catch (e) {
+      // the chain or the RPC does not support EIP-1559
+      return undefined;
+    }
+  }
+
+  private cap(fee: BigNumber): BigNumber {
+    return this.maxPrice && fee.gt(this.maxPrice) ? this.maxPrice : fee;
+  }
+}
+
+/**
+ * Always pays the same fees
+ * @example
+ * ```javascript
+ * const strategy = new FixedGasStrategy({
+ *   maxFeePerGas: ethers.utils.parseUnits("50", "gwei"),
+ *   maxPriorityFeePerGas: ethers.utils.parseUnits("2", "gwei"),
+ * });
+ * ```
+ * @public
+ */
+export class FixedGasStrategy implements GasStrategy {
+  private fees: GasFees;
+
+  constructor(fees: GasFees) {
+    this.fees = fees;
+  }
+
+  public async getFees(): Promise<GasFees> {
+    return this.fees;
+  }
+}
+
+/**
+ * Pays the fees suggested by the gas station of the current chain
+ * @remarks Polygon and Mumbai are supported out of the box, other gas stations following the same format can be added by chain id.
+ * @example
+ * ```javascript
+ * const strategy = new GasStationGasStrategy({
+ *   speed: "fast",
+ *   urls: { [myChainId]: "https://my-gas-station.com/v2" },
+ * });
+ * ```
+ * @public
+ */
+export class GasStationGasStrategy implements GasStrategy {
+  private speed: GasStationSpeed;
+  private urls: Record<number, string>;
+  private fallback: GasStrategy;
+
+  constructor(options: GasStationGasStrategyOptions = {}) {
+    this.speed = options.speed || "standard";
+    this.urls = { ...GAS_STATION_URLS, ...options.urls };
+    this.fallback = options.fallback || new FeeHistoryGasStrategy();
+  }
+
+  public async getFees(provider: providers.Provider): Promise<GasFees> {
+    const { chainId } = await provider.getNetwork();
+    const url = this.urls[chainId];
+    if (url) {
+      try {
+        return await fetchGasStationFees(url, this.speed);
+      } catch (e) {
+        console.error("failed to fetch gas", e);
+      }
+    }
+    return this.fallback.getFees(provider);
+  }
+}
@@ -0,0 +1,226 @@
+import {
+  ContractEvent,
+  EventCheckpointStore,
+  HolderQueryParams,
+  HolderSnapshot,
+  NFTHolderBalance,
+} from "../../types/index";
+import { ContractEvents } from "./contract-events";
+import { ContractWrapper } from "./contract-wrapper";
+import { InMemoryEventCheckpointStore } from "./event-checkpoint-store";
+import { BigNumber, constants } from "ethers";
+
+/**
+ * A single balance change decoded from a transfer event
+ * @internal
+ */
+export type HolderTransfer = {
+  from: string;
+  to: string;
+  tokenId: string;
+  amount: BigNumber;
+};
+
+/**
+ * Balances keyed by holder address, then by token id
+ * @internal
+ */
+export type HolderBalances = Record<string, Record<string, BigNumber>>;
+
+/**
+ * Computes the balances of every holder of a contract by replaying its transfer events
+ * @remarks Balances are computed on top of the latest stored snapshot, so only the transfers emitted since then need to be fetched.
+ * @internal
+ */
+export class HolderBalanceTracker {
+  private contractWrapper;
+  private events;
+  private eventNames;
+  private decode;
+  private store: EventCheckpointStore<HolderSnapshot>;
+
+  /**
+   * @param contractWrapper - the contract to track holders of
+   * @param decode - turns a contract event into the balance changes it represents
+   * @param eventNames - the transfer events to index, only these events are fetched and decoded
+   */
+  constructor(
+    contractWrapper: ContractWrapper<any>,
+    decode: (event: ContractEvent) => HolderTransfer[],
+    eventNames: string[],
+  ) {
+    this.contractWrapper = contractWrapper;
+    this.events = new ContractEvents(contractWrapper);
+    this.decode = decode;
+    this.eventNames = eventNames;
+    this.store = new InMemoryEventCheckpointStore<HolderSnapshot>();
+  }
+
+  /**
+   * Get the balances of every holder at a given block
+   * @param atBlock - the block at which to compute balances, defaults to the latest block
+   * @param store - where to read and persist snapshots, defaults to an in-memory store
+   */
+  public async getBalances(
+    atBlock?: number,
+    store: EventCheckpointStore<HolderSnapshot> = this.store,
+  ): Promise<HolderBalances> {
+    const provider = this.contractWrapper.getProvider();
+    const latestBlock = await provider.getBlockNumber();
+    const blockNumber =
+      atBlock !== undefined ? Math.min(atBlock, latestBlock) : latestBlock;
+    const key = `${this.contractWrapper.readContract.address}:holders`;
+
+    let snapshot = await store.get(key);
+    if (snapshot && snapshot.blockHash) {
+      const block = await provider.getBlock(snapshot.blockNumber);
+      if (!block || block.hash !== snapshot.blockHash) {
+        // the snapshot was reorged out of the chain
+        await store.delete(key);
+        snapshot = undefined;
+      }
+    }
+    // snapshots only move forward, older blocks have to be computed from scratch
+    const resumeFrom =
+      snapshot && snapshot.blockNumber <= blockNumber ? snapshot : undefined;
+
+    const balances = resumeFrom ? deserializeBalances(resumeFrom.balances) : {};
+    // balance changes add up in any order, so each event can be indexed on its own
+    for (const eventName of this.eventNames) {
+      const indexer = this.events.createIndexer({
+        eventName,
+        fromBlock: resumeFrom ? resumeFrom.blockNumber + 1 : 0,
+        toBlock: blockNumber,
+      });
+      for await (const event of indexer) {
+        for (const transfer of this.decode(event)) {
+          applyTransfer(balances, transfer);
+        }
+      }
+    }
+
+    if (!snapshot || blockNumber > snapshot.blockNumber) {
+      const block = await provider.getBlock(blockNumber);
+      await store.set(key, {
+        blockNumber,
+        blockHash: block?.hash,
+        balances: serializeBalances(balances),
+      });
+    }
+    return balances;
+  }
+}
+
+/**
+ * Sort holders by balance and return the requested page
+ * @internal
+ */
+export function paginateHolders<T>(
+  holders: T[],
+  getBalance: (holder: T) => BigNumber,
+  params: HolderQueryParams = {},
+): T[] {
+  const sorted = holders.sort((a, b) => {
+    const diff =
+      params.order === "asc"
+        ? getBalance(a).sub(getBalance(b))
+        : getBalance(b).sub(getBalance(a));
+    return diff.isZero() ? 0 : diff.isNegative() ? -1 : 1;
+  });
+  if (params.start === undefined && params.count === undefined) {
+    return sorted;
+  }
+  const start = BigNumber.from(params.start || 0).toNumber();
+  const count =
+    params.count !== undefined
+      ? BigNumber.from(params.count).toNumber()
+      : sorted.length;
+  return sorted.slice(start, start + count);
+}
+
+/**
+ * Convert tracked balances to NFT holders, optionally only keeping holders of a given token
+ * @internal
+ */
+export function toNFTHolderBalances(
+  balances: HolderBalances,
+  tokenId?: string,
+): NFTHolderBalance[] {
+  return Object.entries(balances)
+    .map(([holder, tokens]) => {
+      const owned = Object.entries(tokens)
+        .filter(([id]) => tokenId === undefined || id === tokenId)
+        .map(([id, balance]) => ({ tokenId: id, balance }));
+      return {
+        holder,
+        balance: owned.reduce(
+          (acc, token) => acc.add(token.balance),
+          BigNumber.from(0),
+        ),
+        tokens: owned,
+      };
+    })
+    .filter((h) => h.tokens.length > 0);
+}
+
+function applyTransfer(balances: HolderBalances, transfer: HolderTransfer) {
+  const { from, to, tokenId, amount } = transfer;
+  if (from !== constants.AddressZero) {
+    updateBalance(balances, from, tokenId, amount.mul(-1));
+  }
+  if (to !== constants.AddressZero) {
+    updateBalance(balances, to, tokenId, amount);
+  }
+}
+
+function updateBalance(
+  balances: HolderBalances,
+  holder: string,
+  tokenId: string,
+  delta: BigNumber,
+) {
+  const tokens = balances[holder] || {};
+  const balance = (tokens[tokenId] || BigNumber.from(0)).add(delta);
+  if (balance.isZero()) {
+    delete tokens[tokenId];
+  } else {
+    tokens[tokenId] = balance;
+  }
+  if (Object.keys(tokens).length === 0) {
+    delete balances[holder];
+  } else {
+    balances[holder] = tokens;
+  }
+}
+
+function serializeBalances(
+  balances: HolderBalances,
+): HolderSnapshot["balances"] {
+  return Object.fromEntries(
+    Object.entries(balances).map(([holder, tokens]) => [
+      holder,
+      Object.fromEntries(
+        Object.entries(tokens).map(([tokenId, balance]) => [
+          tokenId,
+          balance.toString(),
+        ]),
+      ),
+    ]),
+  );
+}
+
+function deserializeBalances(
+  balances: HolderSnapshot["balances"],
+): HolderBalances {
+  return Object.fromEntries(
+    Object.entries(balances).map(([holder, tokens]) => [
+      holder,
+      Object.fromEntries(
+        Object.entries(tokens).map(([tokenId, balance]) => [
+          tokenId,
+          BigNumber.from(balance),
+        ]),
+      ),
+    ]),
+  );
+}
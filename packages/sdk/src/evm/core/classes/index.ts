@@ -38,8 +38,16 @@ export * from "./contract-deployer";
 export * from "./gas-cost-estimator";
 export * from "./delayed-reveal";
 export * from "./contract-events";
+export * from "./contract-event-indexer";
+export * from "./event-checkpoint-store";
 export * from "./contract-interceptor";
 export * from "./contract-platform-fee";
 export * from "./contract-published-metadata";
 export * from "./contract-owner";
 export * from "./TransactionTask";
+export * from "./transaction-batch";
+export * from "./nonce-manager";
+export * from "./transaction-queue";
+export * from "./gas-strategy";
+export * from "./read-cache";
+export * from "./cache-store";
@@ -543,9 +543,10 @@ export class MarketplaceAuction {
       startTimeInEpochSeconds: listing.startTime,
       asset: await fetchTokenMetadataForContract(
         listing.assetContract,
-        this.contractWrapper.getProvider(),
+        this.contractWrapper.getReadProvider(),
         listing.tokenId,
         this.storage,
+        this.contractWrapper.getReadCache(),
       ),
       reservePriceCurrencyValuePerToken: await fetchCurrencyValue(
         this.contractWrapper.getProvider(),
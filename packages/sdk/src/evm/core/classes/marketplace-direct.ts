@@ -477,9 +477,10 @@ export class MarketplaceDirect {
       startTimeInSeconds: listing.startTime,
       asset: await fetchTokenMetadataForContract(
         listing.assetContract,
-        this.contractWrapper.getProvider(),
+        this.contractWrapper.getReadProvider(),
         listing.tokenId,
         this.storage,
+        this.contractWrapper.getReadCache(),
       ),
       secondsUntilEnd: listing.endTime,
       sellerAddress: listing.tokenOwner,
@@ -0,0 +1,70 @@
+import { NonceManager } from "../../types/index";
+import { providers } from "ethers";
+
+/**
+ * Tracks the nonces of every account in memory, for the lifetime of the process
+ * @remarks The first nonce of an account is fetched from the pending block, then nonces are incremented locally
+ * so that concurrent transactions never reuse one.
+ * @public
+ */
+export class LocalNonceManager implements NonceManager {
+  private nonces = new Map<string, Promise<number>>();
+  private released = new Map<string, number[]>();
+
+  public async acquire(
+    address: string,
+    chainId: number,
+    provider: providers.Provider,
+  ): Promise<number> {
+    const key = this.getKey(address, chainId);
+    const released = this.released.get(key);
+    if (released && released.length > 0) {
+      // fill gaps first, otherwise every later transaction would be stuck behind them
+      return released.sort((a, b) => a - b).shift() as number;
+    }
+    // chain the promises so that concurrent calls never get the same nonce
+    const nonce =
+      this.nonces.get(key) || provider.getTransactionCount(address, "pending");
+    const next = nonce.then((n) => n + 1);
+    this.nonces.set(key, next);
+    next.catch(() => {
+      if (this.nonces.get(key) === next) {
+        this.nonces.delete(key);
+      }
+    });
+    return nonce;
+  }
+
+  public async release(
+    address: string,
+    chainId: number,
+    nonce: number,
+  ): Promise<void> {
+    const key = this.getKey(address, chainId);
+    const next = this.nonces.get(key);
+    if (
+      next &&
+      (await next.catch(() => undefined)) === nonce + 1 &&
+      this.nonces.get(key) === next
+    ) {
+      // no later nonce was handed out, so the counter goes back instead of leaving a gap
+      this.nonces.set(key, Promise.resolve(nonce));
+      return;
+    }
+    this.released.set(key, [...(this.released.get(key) || []), nonce]);
+  }
+
+  public async reset(address: string, chainId: number): Promise<void> {
+    const key = this.getKey(address, chainId);
+    this.nonces.delete(key);
+    this.released.delete(key);
+  }
+
+  /** ********************
+   * PRIVATE FUNCTIONS
+   *********************/
+
+  private getKey(address: string, chainId: number): string {
+    return `${chainId}:${address.toLowerCase()}`;
+  }
+}
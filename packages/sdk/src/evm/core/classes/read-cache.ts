@@ -0,0 +1,208 @@
+import { CacheStore, ReadCacheOptions } from "../../types/index";
+import { LruCacheStore } from "./cache-store";
+import { ethers, providers } from "ethers";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * Caches contract reads and metadata downloads
+ * @remarks Contract reads are cached per block, so they are refreshed as soon as a new block is observed.
+ * Reads of a contract are also invalidated when the SDK sends a transaction to it, or when it receives one of its events.
+ * Invalidations are kept in the store, so they apply to every process that shares it.
+ * Metadata is cached by URI.
+ * @example
+ * ```javascript
+ * const sdk = new ThirdwebSDK("polygon", {
+ *   readCache: new ReadCache({
+ *     // defaults to an in-memory LRU cache, pass your own store to share the cache between processes
+ *     store: new LruCacheStore(10000),
+ *   }),
+ * });
+ * ```
+ * @public
+ */
+export class ReadCache {
+  private store: CacheStore;
+  private readTtlSeconds: number;
+  private metadataTtlSeconds: number;
+  private blockPollingIntervalMs: number;
+  private blocks = new Map<
+    number,
+    { blockNumber: number; updatedAt: number }
+  >();
+  private pendingBlocks = new Map<number, Promise<number>>();
+
+  constructor(options: ReadCacheOptions = {}) {
+    this.store = options.store || new LruCacheStore();
+    this.readTtlSeconds =
+      options.readTtlSeconds !== undefined ? options.readTtlSeconds : 60;
+    this.metadataTtlSeconds =
+      options.metadataTtlSeconds !== undefined
+        ? options.metadataTtlSeconds
+        : 600;
+    this.blockPollingIntervalMs =
+      options.blockPollingIntervalMs !== undefined
+        ? options.blockPollingIntervalMs
+        : 4000;
+  }
+
+  /**
+   * Invalidate the cached reads of a contract
+   * @param chainId - the chain id of the contract
+   * @param address - the address of the contract
+   * @param blockNumber - the block in which the state of the contract changed, if known
+   */
+  public async invalidate(
+    chainId: number,
+    address: string,
+    blockNumber?: number,
+  ): Promise<void> {
+    if (blockNumber !== undefined) {
+      this.onBlock(chainId, blockNumber);
+    }
+    // a new generation changes the keys of every read of the contract, the old reads expire by themselves.
+    // Its block lets other processes read the new state, even if they haven't seen that block yet
+    const generation: Generation = { id: uuidv4(), blockNumber };
+    await this.store.set(
+      getGenerationKey(chainId, address),
+      JSON.stringify(generation),
+      this.readTtlSeconds,
+    );
+  }
+
+  /**
+   * Let the cache know about a new block, for example the block of a transaction receipt
+   * @internal
+   */
+  public onBlock(chainId: number, blockNumber: number) {
+    const known = this.blocks.get(chainId);
+    this.blocks.set(chainId, {
+      blockNumber: Math.max(blockNumber, known ? known.blockNumber : 0),
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Get a provider that answers `eth_call` requests from the cache
+   * @internal
+   */
+  public wrapProvider(provider: providers.Provider): providers.Provider {
+    const call = (
+      transaction: ethers.utils.Deferrable<providers.TransactionRequest>,
+      blockTag?: providers.BlockTag | Promise<providers.BlockTag>,
+    ) => this.call(provider, transaction, blockTag);
+    return new Proxy(provider, {
+      get(target, property) {
+        if (property === "call") {
+          return call;
+        }
+        const value = Reflect.get(target, property);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    });
+  }
+
+  /**
+   * Download JSON metadata through the cache
+   * @internal
+   */
+  public async getMetadata<T>(
+    uri: string,
+    download: () => Promise<T>,
+  ): Promise<T> {
+    const key = `metadata:${uri}`;
+    const cached = await this.store.get(key);
+    if (cached !== undefined) {
+      return JSON.parse(cached);
+    }
+    const metadata = await download();
+    await this.store.set(
+      key,
+      JSON.stringify(metadata),
+      this.metadataTtlSeconds,
+    );
+    return metadata;
+  }
+
+  /** ********************
+   * PRIVATE FUNCTIONS
+   *********************/
+
+  private async call(
+    provider: providers.Provider,
+    transaction: ethers.utils.Deferrable<providers.TransactionRequest>,
+    blockTag?: providers.BlockTag | Promise<providers.BlockTag>,
+  ): Promise<string> {
+    const tx = await ethers.utils.resolveProperties(transaction);
+    const tag = await blockTag;
+    // contracts pass null when no block tag is given
+    const latest = tag === undefined || tag === null || tag === "latest";
+    // only reads at a known block can be cached
+    const cacheable =
+      latest || typeof tag === "number" || ethers.utils.isHexString(tag);
+    if (!tx.to || !tx.data || !cacheable) {
+      return provider.call(tx, tag);
+    }
+    const { chainId } = await provider.getNetwork();
+    const address = tx.to.toLowerCase();
+    const storedGeneration = await this.store.get(
+      getGenerationKey(chainId, address),
+    );
+    const generation: Generation = storedGeneration
+      ? JSON.parse(storedGeneration)
+      : { id: "0" };
+    const blockNumber = latest
+      ? Math.max(
+          await this.getBlockNumber(chainId, provider),
+          generation.blockNumber || 0,
+        )
+      : ethers.BigNumber.from(tag).toNumber();
+    const key = [
+      "read",
+      chainId,
+      address,
+      generation.id,
+      blockNumber,
+      ethers.utils.keccak256(
+        ethers.utils.toUtf8Bytes(
+          JSON.stringify([tx.from, tx.data, tx.value?.toString()]),
+        ),
+      ),
+    ].join(":");
+    const cached = await this.store.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const result = await provider.call(tx, blockNumber);
+    await this.store.set(key, result, this.readTtlSeconds);
+    return result;
+  }
+
+  private async getBlockNumber(
+    chainId: number,
+    provider: providers.Provider,
+  ): Promise<number> {
+    const known = this.blocks.get(chainId);
+    if (known && Date.now() - known.updatedAt < this.blockPollingIntervalMs) {
+      return known.blockNumber;
+    }
+    let pending = this.pendingBlocks.get(chainId);
+    if (!pending) {
+      pending = provider
+        .getBlockNumber()
+        .then((blockNumber) => {
+          this.onBlock(chainId, blockNumber);
+          // a transaction receipt may have told us about a more recent block
+          return this.blocks.get(chainId)?.blockNumber || blockNumber;
+        })
+        .finally(() => this.pendingBlocks.delete(chainId));
+      this.pendingBlocks.set(chainId, pending);
+    }
+    return pending;
+  }
+}
+
+type Generation = { id: string; blockNumber?: number };
+
+function getGenerationKey(chainId: number, address: string): string {
+  return `generation:${chainId}:${address.toLowerCase()}`;
+}
@@ -1,4 +1,4 @@
-import { getReadOnlyProvider } from "../../constants/urls";
+import { getFallbackProvider, getReadOnlyProvider } from "../../constants/urls";
 import {
   SDKOptions,
   SDKOptionsOutput,
@@ -93,10 +93,16 @@ export class RPCConnectionHandler extends EventEmitter {
     }
 
     if (options?.readonlySettings) {
-      provider = getReadOnlyProvider(
-        options.readonlySettings.rpcUrl,
-        options.readonlySettings.chainId,
-      );
+      const { rpcUrl, chainId, fallbackRpcUrls, fallbackSettings } =
+        options.readonlySettings;
+      provider =
+        fallbackRpcUrls && fallbackRpcUrls.length > 0
+          ? getFallbackProvider(
+              [rpcUrl, ...fallbackRpcUrls],
+              chainId,
+              fallbackSettings,
+            )
+          : getReadOnlyProvider(rpcUrl, chainId);
     }
 
     if (!provider) {
@@ -0,0 +1,326 @@
+import { TransactionBatchError } from "../../common/error";
+import { ContractEvent } from "../../types/index";
+import { TransactionTask } from "./TransactionTask";
+import { ContractEncoder } from "./contract-encoder";
+import { ContractEvents } from "./contract-events";
+import { ContractWrapper } from "./contract-wrapper";
+import { GasCostEstimator } from "./gas-cost-estimator";
+import { BigNumber, ethers, providers } from "ethers";
+import invariant from "tiny-invariant";
+
+/**
+ * How a {@link TransactionBatch} gets submitted to the network
+ * - `atomic`: all calls are encoded into a single `multicall` transaction, either all of them succeed or none do
+ * - `sequential`: each call is sent as its own transaction with consecutive nonces, and the batch resolves once all of them are mined
+ * - `auto`: `atomic` when all calls target the same contract and it supports `multicall`, `sequential` otherwise
+ * @public
+ */
+export type TransactionBatchMode = "auto" | "atomic" | "sequential";
+
+/**
+ * The result of a call of an executed {@link TransactionBatch}
+ * @public
+ */
+export type BatchTransactionResult = {
+  /**
+   * The receipt of the transaction of the call, which is shared by every call in `atomic` mode
+   */
+  receipt: providers.TransactionReceipt;
+  /**
+   * The events emitted by the called contract in the transaction of the call.
+   * In `atomic` mode, the calls share a single transaction, so these are the events of every call of the batch.
+   */
+  events: ContractEvent[];
+  /**
+   * Get the value returned by the call, decoded from a simulation of the batch right before it was sent.
+   * Only available in `atomic` mode, since the calls of a `sequential` batch can depend on calls that aren't mined yet.
+   */
+  data?: () => Promise<any>;
+};
+
+/**
+ * Collects transactions from one or more contracts and submits them together
+ * @remarks Queue up {@link TransactionTask}s and execute them as a single atomic multicall
+ * or as an ordered sequence of transactions that only requires a single confirmation.
+ * @example
+ * ```javascript
+ * const batch = sdk.batch();
+ * batch.add(await contract.prepare("mintTo", [walletAddress, tokenUri]));
+ * batch.add(await contract.prepare("grantRole", [minterRole, minterAddress]));
+ *
+ * // estimate the cost of the whole batch
+ * const cost = await batch.estimateGasCostInEther();
+ *
+ * // submit all the calls and get one result per call
+ * const results = await batch.execute();
+ * ```
+ * @public
+ */
+export class TransactionBatch {
+  private tasks: TransactionTask[] = [];
+
+  /**
+   * Add one or more transactions to the batch
+   * @param tasks - the transactions to add, in the order in which they should be executed
+   * @returns the batch, for chaining
+   */
+  public add(...tasks: TransactionTask[]): TransactionBatch {
+    this.tasks.push(...tasks);
+    return this;
+  }
+
+  /**
+   * Get the transactions currently queued in the batch
+   */
+  public getTasks(): TransactionTask[] {
+    return [...this.tasks];
+  }
+
+  /**
+   * Remove all queued transactions from the batch
+   */
+  public clear(): void {
+    this.tasks = [];
+  }
+
+  /**
+   * Whether the queued transactions can be submitted as a single atomic transaction.
+   * @remarks This requires all calls to target the same contract and that contract to support `multicall`.
+   */
+  public isAtomic(): boolean {
+    return (
+      this.tasks.length > 0 &&
+      !this.hasSeveralContracts() &&
+      "multicall(bytes[])" in
+        this.tasks[0].getContractWrapper().readContract.interface.functions
+    );
+  }
+
+  /**
+   * Returns the encoded function data of every queued transaction, in order
+   */
+  public async encode(): Promise<string[]> {
+    return Promise.all(this.tasks.map((task) => task.encodeFunctionData()));
+  }
+
+  /**
+   * Returns the total gas limit the batch would consume if executed
+   * @remarks In sequential mode, each call is estimated against the current chain state,
+   * so calls that depend on a previous call of the same batch may fail to estimate.
+   * @param mode - how the batch would be submitted
+   * @returns the gas limit in gas units
+   */
+  public async estimateGasLimit(
+    mode: TransactionBatchMode = "auto",
+  ): Promise<BigNumber> {
+    if (this.resolveMode(mode) === "atomic") {
+      const [wrapper, encoded] = this.getMulticallArgs();
+      return new GasCostEstimator(wrapper).gasLimitOf("multicall", [encoded]);
+    }
+    const limits = await Promise.all(
+      this.tasks.map((task) => task.estimateGasLimit()),
+    );
+    return limits.reduce((acc, limit) => acc.add(limit), BigNumber.from(0));
+  }
+
+  /**
+   * Returns the total gas cost of the batch if executed
+   * @param mode - how the batch would be submitted
+   * @returns the gas cost in ether
+   */
+  public async estimateGasCostInEther(
+    mode: TransactionBatchMode = "auto",
+  ): Promise<string> {
+    if (this.resolveMode(mode) === "atomic") {
+      const [wrapper, encoded] = this.getMulticallArgs();
+      return new GasCostEstimator(wrapper).gasCostOf("multicall", [encoded]);
+    }
+    const costs = await Promise.all(
+      this.tasks.map((task) => task.estimateGasCostInEther()),
+    );
+    return ethers.utils.formatEther(
+      costs.reduce(
+        (acc, cost) => acc.add(ethers.utils.parseEther(cost)),
+        BigNumber.from(0),
+      ),
+    );
+  }
+
+  /**
+   * Submits every queued transaction and waits for all of them to be mined
+   * @remarks In `atomic` mode, the calls can't override their value, gas limit or nonce since they share a single transaction,
+   * which is sent with the fees of the first call. In `sequential` mode, every transaction is sent with the overrides of its call,
+   * except for the nonce, which is the next nonce of the signer of the call, handed out by the transaction queue when one is configured.
+   * If a call of a sequential batch fails, the following calls are not sent and a {@link TransactionBatchError} is thrown
+   * with the results of the calls that were mined.
+   * @param mode - how the batch should be submitted, defaults to `auto`
+   * @returns one result per queued transaction, in the order they were added
+   */
+  public async execute(
+    mode: TransactionBatchMode = "auto",
+  ): Promise<BatchTransactionResult[]> {
+    invariant(this.tasks.length > 0, "Cannot execute an empty batch");
+    this.tasks.forEach((task, i) => {
+      if (task.getOverrides().nonce !== undefined) {
+        throw new Error(
+          `Call ${i} of the batch overrides its nonce, but the nonces of a batch are assigned in order`,
+        );
+      }
+    });
+    if (this.resolveMode(mode) === "atomic") {
+      return this.executeAtomic();
+    }
+    return this.executeSequential();
+  }
+
+  /** ********************
+   * PRIVATE FUNCTIONS
+   *********************/
+
+  private async executeAtomic(): Promise<BatchTransactionResult[]> {
+    this.tasks.forEach((task, i) => {
+      const overrides = task.getOverrides();
+      if (
+        !BigNumber.from(overrides.value || 0).isZero() ||
+        overrides.gasLimit !== undefined
+      ) {
+        throw new Error(
+          `Call ${i} of the batch overrides its value or gas limit, which can't be applied to a single atomic transaction. Execute the batch in sequential mode instead.`,
+        );
+      }
+    });
+
+    const [wrapper, encoded] = this.getMulticallArgs();
+    const overrides = await this.tasks[0].getCallOverrides();
+    // multicall doesn't expose what each call returns in its receipt, so it is simulated first
+    const returned: string[] = await wrapper.simulateTransaction(
+      "multicall",
+      [encoded],
+      overrides,
+    );
+    const receipt = await wrapper.sendTransaction(
+      "multicall",
+      [encoded],
+      overrides,
+    );
+    const events = new ContractEvents(wrapper).parseLogs(receipt.logs);
+    return this.tasks.map((task, i) => ({
+      receipt,
+      events,
+      data: async () => {
+        const fn = wrapper.readContract.interface.getFunction(
+          task.getFunctionName(),
+        );
+        const result = wrapper.readContract.interface.decodeFunctionResult(
+          fn,
+          returned[i],
+        );
+        return fn.outputs && fn.outputs.length === 1 ? result[0] : result;
+      },
+    }));
+  }
+
+  private async executeSequential(): Promise<BatchTransactionResult[]> {
+    // the calls of different contracts can be signed by different wallets, which each have their own nonces
+    const nonces: Record<string, number> = {};
+    const receipts: Promise<providers.TransactionReceipt>[] = [];
+    let sendError: unknown;
+    for (const task of this.tasks) {
+      const wrapper = task.getContractWrapper();
+      const signer = wrapper.getSigner();
+      invariant(
+        signer,
+        "This action requires a connected wallet to sign the transaction. Please pass a valid signer to the SDK.",
+      );
+      try {
+        const overrides = await task.getCallOverrides();
+        // the transaction queue hands out the nonces of queued calls in the order they are submitted
+        if (!wrapper.getTransactionQueue()) {
+          const address = await signer.getAddress();
+          if (nonces[address] === undefined) {
+            nonces[address] = await signer.getTransactionCount("pending");
+          }
+          overrides.nonce = nonces[address]++;
+        }
+        const submitted = await wrapper.submitTransaction(
+          task.getFunctionName(),
+          task.getArgs(),
+          overrides,
+        );
+        receipts.push(submitted.receipt);
+      } catch (e) {
+        // the following calls may depend on this one, so they are not sent
+        sendError = e;
+        break;
+      }
+    }
+
+    const outcomes = await Promise.allSettled(receipts);
+    const results: (BatchTransactionResult | undefined)[] = await Promise.all(
+      this.tasks.map(async (task, i) => {
+        const outcome = outcomes[i];
+        if (!outcome || outcome.status === "rejected") {
+          return undefined;
+        }
+        const wrapper = task.getContractWrapper();
+        await wrapper.invalidateReadCache(outcome.value.blockNumber);
+        return {
+          receipt: outcome.value,
+          events: new ContractEvents(wrapper).parseLogs(outcome.value.logs),
+        };
+      }),
+    );
+    const failed = outcomes.findIndex(
+      (outcome) => outcome.status === "rejected",
+    );
+    if (failed !== -1) {
+      throw new TransactionBatchError(
+        failed,
+        (outcomes[failed] as PromiseRejectedResult).reason,
+        results,
+      );
+    }
+    if (receipts.length < this.tasks.length) {
+      throw new TransactionBatchError(receipts.length, sendError, results);
+    }
+    return results as BatchTransactionResult[];
+  }
+
+  private hasSeveralContracts(): boolean {
+    const address = this.tasks[0].getContractWrapper().readContract.address;
+    return this.tasks.some(
+      (task) => task.getContractWrapper().readContract.address !== address,
+    );
+  }
+
+  private resolveMode(
+    mode: TransactionBatchMode,
+  ): Exclude<TransactionBatchMode, "auto"> {
+    if (mode === "sequential") {
+      return mode;
+    }
+    if (mode === "auto") {
+      return this.isAtomic() ? "atomic" : "sequential";
+    }
+    if (this.hasSeveralContracts()) {
+      throw new Error(
+        "This batch cannot be executed atomically because its calls target several contracts. Execute it in sequential mode to send every call as its own transaction.",
+      );
+    }
+    if (!this.isAtomic()) {
+      throw new Error(
+        "This batch cannot be executed atomically because its contract doesn't support multicall.",
+      );
+    }
+    return mode;
+  }
+
+  private getMulticallArgs(): [ContractWrapper<any>, string[]] {
+    const wrapper = this.tasks[0].getContractWrapper();
+    const encoder = new ContractEncoder(wrapper);
+    const encoded = this.tasks.map((task) =>
+      encoder.encode(task.getFunctionName(), task.getArgs()),
+    );
+    return [wrapper, encoded];
+  }
+}
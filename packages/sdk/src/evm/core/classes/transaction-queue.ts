@@ -0,0 +1,316 @@
+import {
+  NonceManager,
+  SubmittedTransaction,
+  TransactionQueueOptions,
+  TransactionStatus,
+} from "../../types/index";
+import { LocalNonceManager } from "./nonce-manager";
+import { BigNumber, Signer, providers } from "ethers";
+import invariant from "tiny-invariant";
+
+/**
+ * Sends transactions from backend wallets without nonce collisions
+ * @remarks Nonces are managed locally so that many transactions can be in flight at once,
+ * up to the configured concurrency per wallet. Transactions that stay unconfirmed for too long
+ * are re-sent with the same nonce and a higher gas price.
+ * @example
+ * ```javascript
+ * const queue = new TransactionQueue({
+ *   concurrency: 20,
+ *   stuckTimeoutSeconds: 120,
+ * });
+ * const sdk = ThirdwebSDK.fromPrivateKey(privateKey, "mainnet", {
+ *   transactionQueue: queue,
+ * });
+ *
+ * // these are now safe to send concurrently
+ * await Promise.all(wallets.map((wallet) => contract.erc20.transfer(wallet, 1)));
+ * ```
+ * @public
+ */
+export class TransactionQueue {
+  private nonceManager: NonceManager;
+  private concurrency: number;
+  private stuckTimeoutSeconds: number;
+  private gasBumpPercent: number;
+  private maxReplacements: number;
+  private pollingInterval: number;
+  private accounts = new Map<
+    string,
+    { pending: number; waiting: (() => void)[] }
+  >();
+
+  constructor(options: TransactionQueueOptions = {}) {
+    this.nonceManager = options.nonceManager || new LocalNonceManager();
+    this.concurrency = Math.max(1, options.concurrency || 10);
+    this.stuckTimeoutSeconds = options.stuckTimeoutSeconds || 60;
+    this.gasBumpPercent = Math.max(10, options.gasBumpPercent || 10);
+    this.maxReplacements =
+      options.maxReplacements !== undefined ? options.maxReplacements : 3;
+    this.pollingInterval = options.pollingInterval || 4000;
+  }
+
+  /**
+   * Get the number of transactions of a wallet that are sent or waiting to be sent, but not confirmed yet
+   * @param address - the wallet address
+   * @param chainId - the chain the transactions are sent to
+   */
+  public getPendingCount(address: string, chainId: number): number {
+    const account = this.accounts.get(this.getKey(address, chainId));
+    return account ? account.pending + account.waiting.length : 0;
+  }
+
+  /**
+   * Send a transaction with the next available nonce and wait for it to be confirmed
+   * @internal
+   * @param signer - the wallet sending the transaction, must be connected to a provider
+   * @param transaction - the populated transaction, its nonce gets overwritten
+   * @param onStatusChange - called on every step of the transaction lifecycle
+   */
+  public async send(
+    signer: Signer,
+    transaction: providers.TransactionRequest,
+    onStatusChange: (
+      status: TransactionStatus,
+      transactionHash: string,
+    ) => void = () => undefined,
+  ): Promise<providers.TransactionReceipt> {
+    return (await this.submit(signer, transaction, onStatusChange)).receipt;
+  }
+
+  /**
+   * Send a transaction with the next available nonce, without waiting for it to be confirmed
+   * @remarks Transactions of the same wallet get their nonces in the order they are submitted.
+   * @internal
+   * @param signer - the wallet sending the transaction, must be connected to a provider
+   * @param transaction - the populated transaction, its nonce gets overwritten
+   * @param onStatusChange - called on every step of the transaction lifecycle
+   * @returns the hash of the sent transaction, and its receipt once it is confirmed
+   */
+  public async submit(
+    signer: Signer,
+    transaction: providers.TransactionRequest,
+    onStatusChange: (
+      status: TransactionStatus,
+      transactionHash: string,
+    ) => void = () => undefined,
+  ): Promise<SubmittedTransaction> {
+    invariant(signer.provider, "The signer must be connected to a provider");
+    const address = await signer.getAddress();
+    const chainId = await signer.getChainId();
+    const key = this.getKey(address, chainId);
+
+    await this.acquireSlot(key);
+    let response: providers.TransactionResponse;
+    try {
+      response = await this.sendWithNonce(
+        signer,
+        address,
+        chainId,
+        transaction,
+      );
+    } catch (e) {
+      this.releaseSlot(key);
+      throw e;
+    }
+    onStatusChange("submitted", response.hash);
+    const receipt = this.confirm(
+      signer,
+      address,
+      chainId,
+      response,
+      onStatusChange,
+    ).finally(() => this.releaseSlot(key));
+    return { hash: response.hash, receipt };
+  }
+
+  /** ********************
+   * PRIVATE FUNCTIONS
+   *********************/
+
+  private getKey(address: string, chainId: number): string {
+    return `${chainId}:${address.toLowerCase()}`;
+  }
+
+  private async sendWithNonce(
+    signer: Signer,
+    address: string,
+    chainId: number,
+    transaction: providers.TransactionRequest,
+    retryOnNonceError = true,
+  ): Promise<providers.TransactionResponse> {
+    const nonce = await this.nonceManager.acquire(
+      address,
+      chainId,
+      signer.provider as providers.Provider,
+    );
+    try {
+      return await signer.sendTransaction({ ...transaction, nonce });
+    } catch (e) {
+      if (!isNonceError(e)) {
+        await this.giveBackNonce(signer, address, chainId, nonce);
+        throw e;
+      }
+      // the nonce was used outside of this queue, start over from the chain state
+      await this.nonceManager.reset(address, chainId);
+      if (!retryOnNonceError) {
+        throw e;
+      }
+      return this.sendWithNonce(signer, address, chainId, transaction, false);
+    }
+  }
+
+  private async giveBackNonce(
+    signer: Signer,
+    address: string,
+    chainId: number,
+    nonce: number,
+  ): Promise<void> {
+    const account = this.accounts.get(this.getKey(address, chainId));
+    if (!account || account.pending <= 1) {
+      // nothing else is in flight, so the next transaction takes the nonce again
+      await this.nonceManager.release(address, chainId, nonce);
+      return;
+    }
+    // other transactions may already use later nonces and would wait on this one,
+    // so it gets used right away by an empty transaction to the wallet itself
+    try {
+      await signer.sendTransaction({ to: address, value: 0, nonce });
+    } catch (e) {
+      // only the chain knows which nonces are used now
+      await this.nonceManager.reset(address, chainId);
+    }
+  }
+
+  private async confirm(
+    signer: Signer,
+    address: string,
+    chainId: number,
+    response: providers.TransactionResponse,
+    onStatusChange: (
+      status: TransactionStatus,
+      transactionHash: string,
+    ) => void,
+  ): Promise<providers.TransactionReceipt> {
+    let receipt: providers.TransactionReceipt;
+    try {
+      receipt = await this.waitForReceipt(signer, response, onStatusChange);
+    } catch (e) {
+      // the nonce may or may not end up being used, only the chain knows
+      await this.nonceManager.reset(address, chainId);
+      onStatusChange("failed", response.hash);
+      throw e;
+    }
+    if (receipt.status === 0) {
+      onStatusChange("failed", receipt.transactionHash);
+      throw new Error(`Transaction reverted: ${receipt.transactionHash}`);
+    }
+    onStatusChange("completed", receipt.transactionHash);
+    return receipt;
+  }
+
+  private async acquireSlot(key: string): Promise<void> {
+    const account = this.accounts.get(key) || { pending: 0, waiting: [] };
+    this.accounts.set(key, account);
+    if (account.pending >= this.concurrency) {
+      // the slot gets handed over by the transaction that releases it
+      await new Promise<void>((resolve) => account.waiting.push(resolve));
+      return;
+    }
+    account.pending++;
+  }
+
+  private releaseSlot(key: string): void {
+    const account = this.accounts.get(key);
+    if (!account) {
+      return;
+    }
+    const next = account.waiting.shift();
+    if (next) {
+      next();
+      return;
+    }
+    account.pending--;
+    if (account.pending === 0) {
+      this.accounts.delete(key);
+    }
+  }
+
+  private async waitForReceipt(
+    signer: Signer,
+    response: providers.TransactionResponse,
+    onStatusChange: (
+      status: TransactionStatus,
+      transactionHash: string,
+    ) => void,
+  ): Promise<providers.TransactionReceipt> {
+    const provider = signer.provider as providers.Provider;
+    // any of the replacements can be the one that gets mined
+    const hashes = [response.hash];
+    let latest = response;
+    let replacements = 0;
+    let submittedAt = Date.now();
+    for (;;) {
+      for (const hash of hashes) {
+        const receipt = await provider.getTransactionReceipt(hash);
+        if (receipt && receipt.blockNumber) {
+          return receipt;
+        }
+      }
+      if (Date.now() - submittedAt >= this.stuckTimeoutSeconds * 1000) {
+        if (replacements >= this.maxReplacements) {
+          throw new Error(
+            `Transaction was not mined after ${replacements} replacements: ${hashes.join(
+              ", ",
+            )}`,
+          );
+        }
+        replacements++;
+        submittedAt = Date.now();
+        try {
+          latest = await this.replace(signer, latest);
+          hashes.push(latest.hash);
+          onStatusChange("replaced", latest.hash);
+        } catch (e) {
+          // the previous transaction just got mined or the replacement was rejected, keep waiting
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.pollingInterval));
+    }
+  }
+
+  private async replace(
+    signer: Signer,
+    transaction: providers.TransactionResponse,
+  ): Promise<providers.TransactionResponse> {
+    // rounded up, nodes reject replacements that are even 1 wei short of the minimum bump
+    const bump = (value: BigNumber) =>
+      value
+        .mul(100 + this.gasBumpPercent)
+        .add(99)
+        .div(100);
+    const request: providers.TransactionRequest = {
+      to: transaction.to,
+      data: transaction.data,
+      value: transaction.value,
+      gasLimit: transaction.gasLimit,
+      nonce: transaction.nonce,
+      chainId: transaction.chainId,
+    };
+    if (transaction.maxFeePerGas && transaction.maxPriorityFeePerGas) {
+      request.maxFeePerGas = bump(transaction.maxFeePerGas);
+      request.maxPriorityFeePerGas = bump(transaction.maxPriorityFeePerGas);
+    } else if (transaction.gasPrice) {
+      request.gasPrice = bump(transaction.gasPrice);
+    }
+    return signer.sendTransaction(request);
+  }
+}
+
+function isNonceError(e: any): boolean {
+  return (
+    e?.code === "NONCE_EXPIRED" ||
+    e?.code === "REPLACEMENT_UNDERPRICED" ||
+    /nonce/i.test(e?.message || "")
+  );
+}
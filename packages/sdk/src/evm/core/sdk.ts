@@ -1,7 +1,7 @@
 import { fetchCurrencyValue } from "../common/currency";
 import {
   ChainOrRpc,
-  getProviderForNetwork,
+  getProviderOrRpcForNetwork,
   getReadOnlyProvider,
   NATIVE_TOKEN_ADDRESS,
 } from "../constants";
@@ -11,12 +11,13 @@ import {
 } from "../contracts";
 import { SmartContract } from "../contracts/smart-contract";
 import { SDKOptions } from "../schema/sdk-options";
-import { CurrencyValue } from "../types/index";
+import { ContractTypings, CurrencyValue, TypedAbi } from "../types/index";
 import { WalletAuthenticator } from "./auth/wallet-authenticator";
 import type { ContractMetadata } from "./classes";
 import { ContractDeployer } from "./classes/contract-deployer";
 import { ContractPublisher } from "./classes/contract-publisher";
 import { RPCConnectionHandler } from "./classes/rpc-connection-handler";
+import { TransactionBatch } from "./classes/transaction-batch";
 import type {
   ContractForPrebuiltContractType,
   ContractType,
@@ -28,7 +29,13 @@ import type {
 import { UserWallet } from "./wallet/UserWallet";
 import IThirdwebContractABI from "@thirdweb-dev/contracts-js/dist/abis/IThirdwebContract.json";
 import { ThirdwebStorage } from "@thirdweb-dev/storage";
-import { Contract, ContractInterface, ethers, Signer } from "ethers";
+import {
+  BaseContract,
+  Contract,
+  ContractInterface,
+  ethers,
+  Signer,
+} from "ethers";
 import invariant from "tiny-invariant";
 
 /**
@@ -49,7 +56,7 @@ export class ThirdwebSDK extends RPCConnectionHandler {
    * ```
    *
    * @param signer - a ethers Signer to be used for transactions
-   * @param network - the network (chain) to connect to (e.g. "mainnet", "rinkeby", "polygon", "mumbai"...) or a fully formed RPC url
+   * @param network - the network (chain) to connect to (e.g. "mainnet", "rinkeby", "polygon", "mumbai"...), the chain id of a registered chain or a fully formed RPC url
    * @param options - the SDK options to use
    * @returns an instance of the SDK
    * @param storage - optional storage implementation to use
@@ -80,7 +87,7 @@ export class ThirdwebSDK extends RPCConnectionHandler {
    * ```
    *
    * @param privateKey - the private key - **DO NOT EXPOSE THIS TO THE PUBLIC**
-   * @param network - the network (chain) to connect to (e.g. "mainnet", "rinkeby", "polygon", "mumbai"...) or a fully formed RPC url
+   * @param network - the network (chain) to connect to (e.g. "mainnet", "rinkeby", "polygon", "mumbai"...), the chain id of a registered chain or a fully formed RPC url
    * @param options - the SDK options to use
    * @param storage - optional storage implementation to use
    * @returns an instance of the SDK
@@ -93,7 +100,10 @@ export class ThirdwebSDK extends RPCConnectionHandler {
     options: SDKOptions = {},
     storage: ThirdwebStorage = new ThirdwebStorage(),
   ): ThirdwebSDK {
-    const signerOrProvider = getProviderForNetwork(network);
+    const signerOrProvider = getProviderOrRpcForNetwork(
+      network,
+      options?.chainFallbackSettings,
+    );
     const provider = Signer.isSigner(signerOrProvider)
       ? signerOrProvider.provider
       : typeof signerOrProvider === "string"
@@ -139,7 +149,10 @@ export class ThirdwebSDK extends RPCConnectionHandler {
     options: SDKOptions = {},
     storage: ThirdwebStorage = new ThirdwebStorage(),
   ) {
-    const signerOrProvider = getProviderForNetwork(network);
+    const signerOrProvider = getProviderOrRpcForNetwork(
+      network,
+      options?.chainFallbackSettings,
+    );
     super(signerOrProvider, options);
     this.storageHandler = storage;
     this.storage = storage;
@@ -351,6 +364,25 @@ export class ThirdwebSDK extends RPCConnectionHandler {
       ? ContractForPrebuiltContractType<TContractType>
       : SmartContract
   >;
+  /**
+   * Get an instance of a Custom ThirdwebContract with typed functions and events
+   * @param address - the address of the deployed contract
+   * @param abi - the {@link TypedAbi} of the contract to load, as generated by `npx thirdweb generate`
+   * @returns the contract
+   * @public
+   * @example
+   * ```javascript
+   * import { MyContractAbi } from "./thirdweb-types/MyContract";
+   *
+   * const contract = await sdk.getContract("{{contract_address}}", MyContractAbi);
+   * // the function name, arguments and return value are type checked
+   * const balance = await contract.call("balanceOf", "0x...");
+   * ```
+   */
+  public async getContract<TTypings extends ContractTypings>(
+    address: string,
+    abi: TypedAbi<TTypings>,
+  ): Promise<SmartContract<BaseContract, TTypings>>;
   /**
    * Get an instance of a Custom ThirdwebContract
    * @param address - the address of the deployed contract
@@ -589,6 +621,23 @@ export class ThirdwebSDK extends RPCConnectionHandler {
     );
   }
 
+  /**
+   * Create a new batch of transactions
+   * @remarks Collect transactions from any contract and submit them together,
+   * either as a single atomic multicall or as an ordered sequence of transactions.
+   * @example
+   * ```javascript
+   * const batch = sdk.batch();
+   * batch.add(await contract.prepare("mintTo", [walletAddress, tokenUri]));
+   * batch.add(await otherContract.prepare("approve", [spender, amount]));
+   * const results = await batch.execute();
+   * ```
+   * @returns an empty {@link TransactionBatch}
+   */
+  public batch(): TransactionBatch {
+    return new TransactionBatch();
+  }
+
   /**
    * @internal
    */
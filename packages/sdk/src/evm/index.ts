@@ -28,6 +28,8 @@ export * from "./common";
 export * from "./constants";
 export * from "./contracts";
 
+export { FallbackRpcProvider } from "./lib/fallback-rpc";
+
 // export integration things
 export * from "./integrations/paper-xyz";
 
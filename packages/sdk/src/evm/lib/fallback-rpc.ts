@@ -0,0 +1,402 @@
+import { FallbackRpcProviderOptions, RpcEndpointStatus } from "../types/rpc";
+import { StaticJsonRpcBatchProvider } from "./static-batch-rpc";
+import { BigNumber, providers, utils } from "ethers";
+
+const DEFAULT_QUORUM_METHODS = [
+  "eth_call",
+  "eth_getBalance",
+  "eth_getCode",
+  "eth_getStorageAt",
+];
+
+// the position of the block tag in the params of the methods that read the state at a block
+const BLOCK_TAG_PARAMS: Record<string, number> = {
+  eth_call: 1,
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getStorageAt: 2,
+};
+
+// assumed response time of RPC urls that have not answered yet
+const INITIAL_LATENCY = 200;
+// weight of the latest response time in the moving average
+const LATENCY_SMOOTHING = 0.3;
+
+type RpcEndpoint = {
+  url: string;
+  provider: StaticJsonRpcBatchProvider;
+  latency: number;
+  failures: number;
+  unhealthyUntil: number;
+  blockNumber?: number;
+};
+
+type QuorumOutcome = {
+  count: number;
+  failed: boolean;
+  result: any;
+};
+
+/**
+ * A read-only provider that spreads requests over several RPC urls of the same chain
+ * @remarks Requests are still batched per RPC url. Every request goes to a healthy url picked at random, weighted by how fast it answered recently.
+ * Requests that are rate limited or fail with a server or network error are retried on another url with exponential backoff, and the failing url is skipped for a while.
+ * Reads that need a quorum are made at the same block number on every url. With the `chainFallbackSettings` SDK option, chains passed by name or chain ID read through this provider over all of their RPC urls.
+ * @example
+ * ```javascript
+ * const sdk = new ThirdwebSDK("polygon", {
+ *   readonlySettings: {
+ *     rpcUrl: "https://polygon-rpc.com",
+ *     fallbackRpcUrls: ["https://rpc.ankr.com/polygon"],
+ *     fallbackSettings: {
+ *       // contract reads must return the same result on 2 RPC urls
+ *       quorum: 2,
+ *     },
+ *   },
+ * });
+ * ```
+ * @public
+ */
+export class FallbackRpcProvider extends providers.StaticJsonRpcProvider {
+  private endpoints: RpcEndpoint[];
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private cooldownMs: number;
+  private quorum: number;
+  private quorumMethods: string[];
+  private maxBlockLag: number;
+  private healthCheckTimer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(
+    urls: string[],
+    network?: providers.Networkish,
+    options: FallbackRpcProviderOptions = {},
+  ) {
+    if (urls.length === 0) {
+      throw new Error("FallbackRpcProvider requires at least one RPC url");
+    }
+    super(urls[0], network);
+    this.endpoints = urls.map((url) => ({
+      url,
+      // let this provider handle rate limiting instead of waiting on the same url
+      provider: new StaticJsonRpcBatchProvider(
+        { url, throttleLimit: 1 },
+        network,
+      ),
+      latency: INITIAL_LATENCY,
+      failures: 0,
+      unhealthyUntil: 0,
+    }));
+    this.maxRetries = options.maxRetries !== undefined ? options.maxRetries : 3;
+    this.retryDelayMs =
+      options.retryDelayMs !== undefined ? options.retryDelayMs : 250;
+    this.cooldownMs =
+      options.cooldownMs !== undefined ? options.cooldownMs : 30000;
+    this.quorum = Math.min(options.quorum || 1, urls.length);
+    this.quorumMethods = options.quorumMethods || DEFAULT_QUORUM_METHODS;
+    this.maxBlockLag =
+      options.maxBlockLag !== undefined ? options.maxBlockLag : 5;
+    if (options.healthCheckIntervalMs) {
+      this.healthCheckTimer = setInterval(
+        () => this.checkHealth(),
+        options.healthCheckIntervalMs,
+      );
+      // don't keep node processes alive just for health checks
+      if (typeof this.healthCheckTimer === "object") {
+        this.healthCheckTimer.unref();
+      }
+    }
+  }
+
+  send(method: string, params: Array<any>): Promise<any> {
+    if (this.quorum > 1 && this.quorumMethods.includes(method)) {
+      return this.sendWithQuorum(method, params);
+    }
+    return this.sendWithRetries(method, params);
+  }
+
+  /**
+   * Get the state of every RPC url
+   * @returns the RPC urls with their health, latency and latest known block
+   */
+  public getEndpoints(): RpcEndpointStatus[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => ({
+      url: endpoint.url,
+      healthy: endpoint.unhealthyUntil <= now,
+      latency: endpoint.latency,
+      failures: endpoint.failures,
+      blockNumber: endpoint.blockNumber,
+    }));
+  }
+
+  /**
+   * Ping every RPC url, including the ones that failed recently
+   * @remarks RPC urls that answer are marked healthy again, unless they lag too many blocks behind the others.
+   * @returns the state of every RPC url after the check
+   */
+  public async checkHealth(): Promise<RpcEndpointStatus[]> {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          const blockNumber = await this.sendTo(
+            endpoint,
+            "eth_blockNumber",
+            [],
+          );
+          endpoint.blockNumber = BigNumber.from(blockNumber).toNumber();
+        } catch (e) {
+          endpoint.blockNumber = undefined;
+        }
+      }),
+    );
+    const latestBlock = Math.max(
+      ...this.endpoints.map((endpoint) => endpoint.blockNumber || 0),
+    );
+    for (const endpoint of this.endpoints) {
+      if (
+        endpoint.blockNumber !== undefined &&
+        latestBlock - endpoint.blockNumber > this.maxBlockLag
+      ) {
+        endpoint.unhealthyUntil = Date.now() + this.cooldownMs;
+      }
+    }
+    return this.getEndpoints();
+  }
+
+  /**
+   * Stop the periodic health checks started with the `healthCheckIntervalMs` option
+   */
+  public stopHealthChecks() {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
+  }
+
+  /** ********************
+   * PRIVATE FUNCTIONS
+   *********************/
+
+  private async sendWithRetries(
+    method: string,
+    params: Array<any>,
+  ): Promise<any> {
+    const tried: RpcEndpoint[] = [];
+    let lastError: unknown;
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.retryDelayMs * 2 ** (attempt - 1)),
+        );
+      }
+      const endpoint = this.pickEndpoint(tried);
+      tried.push(endpoint);
+      try {
+        return await this.sendTo(endpoint, method, params);
+      } catch (e) {
+        if (!isRetryableError(e)) {
+          throw e;
+        }
+        lastError = e;
+      }
+    }
+    throw lastError;
+  }
+
+  private async sendWithQuorum(
+    method: string,
+    params: Array<any>,
+  ): Promise<any> {
+    const endpoints = this.rankEndpoints();
+    // RPC urls a block apart would disagree on the latest state, so they are all asked about the same block
+    const blockTagIndex = BLOCK_TAG_PARAMS[method];
+    if (
+      blockTagIndex !== undefined &&
+      (params[blockTagIndex] === undefined ||
+        params[blockTagIndex] === "latest")
+    ) {
+      params = [...params];
+      params[blockTagIndex] = await this.getQuorumBlockNumber(
+        endpoints.slice(0, this.quorum),
+      );
+    }
+    const outcomes = new Map<string, QuorumOutcome>();
+    let next = 0;
+    let lastError: unknown;
+    while (next < endpoints.length) {
+      const agreeing = Math.max(
+        0,
+        ...Array.from(outcomes.values()).map((outcome) => outcome.count),
+      );
+      // only ask as many RPC urls as needed to reach the quorum
+      const batch = endpoints.slice(next, next + this.quorum - agreeing);
+      next += batch.length;
+      const responses = await Promise.allSettled(
+        batch.map((endpoint) => this.sendTo(endpoint, method, params)),
+      );
+      for (const response of responses) {
+        let key: string;
+        let outcome: QuorumOutcome;
+        if (response.status === "fulfilled") {
+          key = JSON.stringify(["result", response.value]);
+          outcome = outcomes.get(key) || {
+            count: 0,
+            failed: false,
+            result: response.value,
+          };
+        } else if (
+          isRetryableError(response.reason) ||
+          isUnknownBlockError(response.reason)
+        ) {
+          // RPC urls that lag behind the pinned block don't get a say
+          lastError = response.reason;
+          continue;
+        } else {
+          // reverts are results too, as long as enough RPC urls agree on them
+          key = JSON.stringify([
+            "error",
+            response.reason?.code,
+            response.reason?.message,
+          ]);
+          outcome = outcomes.get(key) || {
+            count: 0,
+            failed: true,
+            result: response.reason,
+          };
+        }
+        outcome.count++;
+        outcomes.set(key, outcome);
+        if (outcome.count >= this.quorum) {
+          if (outcome.failed) {
+            throw outcome.result;
+          }
+          return outcome.result;
+        }
+      }
+    }
+    throw new Error(
+      `Quorum of ${this.quorum} RPC urls not reached for ${method}${
+        lastError ? `, last error: ${(lastError as Error).message}` : ""
+      }`,
+    );
+  }
+
+  /**
+   * The lowest block number of the RPC urls that are asked first, so that they all know about the block
+   */
+  private async getQuorumBlockNumber(
+    endpoints: RpcEndpoint[],
+  ): Promise<string> {
+    const responses = await Promise.allSettled(
+      endpoints.map((endpoint) => this.sendTo(endpoint, "eth_blockNumber", [])),
+    );
+    const blockNumbers = responses
+      .filter(
+        (response): response is PromiseFulfilledResult<string> =>
+          response.status === "fulfilled",
+      )
+      .map((response) => BigNumber.from(response.value).toNumber());
+    if (blockNumbers.length === 0) {
+      return this.sendWithRetries("eth_blockNumber", []);
+    }
+    return utils.hexValue(Math.min(...blockNumbers));
+  }
+
+  private async sendTo(
+    endpoint: RpcEndpoint,
+    method: string,
+    params: Array<any>,
+  ): Promise<any> {
+    const start = Date.now();
+    try {
+      const result = await endpoint.provider.send(method, params);
+      this.markHealthy(endpoint, Date.now() - start);
+      return result;
+    } catch (e) {
+      if (isRetryableError(e)) {
+        endpoint.failures++;
+        endpoint.unhealthyUntil = Date.now() + this.cooldownMs;
+      } else {
+        // the RPC answered, the request itself failed
+        this.markHealthy(endpoint, Date.now() - start);
+      }
+      throw e;
+    }
+  }
+
+  private markHealthy(endpoint: RpcEndpoint, latency: number) {
+    endpoint.latency =
+      endpoint.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING;
+    endpoint.failures = 0;
+    endpoint.unhealthyUntil = 0;
+  }
+
+  /**
+   * Picks a healthy endpoint that was not tried yet, faster endpoints being more likely to get picked
+   */
+  private pickEndpoint(exclude: RpcEndpoint[]): RpcEndpoint {
+    const now = Date.now();
+    const healthy = this.endpoints.filter((e) => e.unhealthyUntil <= now);
+    const untried = (healthy.length > 0 ? healthy : this.endpoints).filter(
+      (e) => !exclude.includes(e),
+    );
+    if (untried.length === 0) {
+      // every endpoint was tried already, start over with the most reliable one
+      return this.rankEndpoints()[0];
+    }
+    const weights = untried.map((e) => 1 / Math.max(e.latency, 1));
+    let random = Math.random() * weights.reduce((a, b) => a + b, 0);
+    for (let i = 0; i < untried.length; i++) {
+      random -= weights[i];
+      if (random <= 0) {
+        return untried[i];
+      }
+    }
+    return untried[untried.length - 1];
+  }
+
+  /**
+   * Healthy endpoints first, fastest first
+   */
+  private rankEndpoints(): RpcEndpoint[] {
+    const now = Date.now();
+    return [...this.endpoints].sort((a, b) => {
+      const aHealthy = a.unhealthyUntil <= now;
+      const bHealthy = b.unhealthyUntil <= now;
+      if (aHealthy !== bHealthy) {
+        return aHealthy ? -1 : 1;
+      }
+      return aHealthy
+        ? a.latency - b.latency
+        : a.unhealthyUntil - b.unhealthyUntil;
+    });
+  }
+}
+
+/**
+ * Whether a request failed because of the RPC url rather than because of the request itself
+ * @internal
+ */
+export function isRetryableError(error: any): boolean {
+  // HTTP errors
+  if (typeof error?.status === "number") {
+    return error.status === 429 || error.status >= 500;
+  }
+  // rate limiting reported as a JSON-RPC error
+  if (error?.code === 429 || error?.code === -32005) {
+    return true;
+  }
+  // network errors and timeouts, other JSON-RPC errors come from the node
+  return error?.code === "SERVER_ERROR" || error?.code === "TIMEOUT";
+}
+
+/**
+ * Whether a request failed because the RPC url doesn't know about the requested block yet
+ */
+function isUnknownBlockError(error: any): boolean {
+  const message = `${error?.message || ""} ${error?.body || ""}`;
+  return /header not found|unknown block|block not found|invalid block tag/i.test(
+    message,
+  );
+}
@@ -1,14 +1,21 @@
+import type { INonceStore } from "../core/auth/nonce-store";
 import { AddressSchema, RawDateSchema } from "./shared";
 import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
 
+const NonceStoreSchema = z.custom<INonceStore>(
+  (store) =>
+    typeof (store as INonceStore)?.generate === "function" &&
+    typeof (store as INonceStore)?.consume === "function",
+);
+
 /**
  * @internal
  */
 export const LoginOptionsSchema = z
   .object({
     /**
-     * The optional nonce of the login request used to prevent replay attacks
+     * The optional nonce of the login request used to prevent replay attacks, like a nonce generated by the server
      */
     nonce: z.string().optional(),
     /**
@@ -16,9 +23,29 @@ export const LoginOptionsSchema = z
      */
     expirationTime: z.date().optional(),
     /**
-     * The optional chain ID that the login request was intended for
+     * The optional chain ID that the login request was intended for, defaults to the chain of the connected wallet
      */
     chainId: z.number().optional(),
+    /**
+     * The optional statement shown to the user in the login message
+     */
+    statement: z.string().optional(),
+    /**
+     * The optional URI of the application requesting the login, defaults to the current origin in the browser
+     */
+    uri: z.string().optional(),
+    /**
+     * The optional time before which the login payload will be invalid
+     */
+    invalidBefore: z.date().optional(),
+    /**
+     * The optional system specific identifier of the login request
+     */
+    requestId: z.string().optional(),
+    /**
+     * The optional URIs of the resources the user wants to access with the login
+     */
+    resources: z.array(z.string()).optional(),
   })
   .optional();
 
@@ -35,17 +62,54 @@ export const LoginPayloadDataSchema = z.object({
    */
   address: AddressSchema,
   /**
-   * The nonce of the login request used to prevent replay attacks, defaults to a random UUID
+   * The statement shown to the user in the login message
+   */
+  statement: z.string().optional(),
+  /**
+   * The URI of the application requesting the login
+   */
+  uri: z.string(),
+  /**
+   * The version of the EIP-4361 login message
+   */
+  version: z.string().default("1"),
+  /**
+   * The nonce of the login request used to prevent replay attacks, defaults to a random alphanumeric UUID
+   */
+  nonce: z.string().default(() => uuidv4().replace(/-/g, "")),
+  /**
+   * The time at which the login payload was issued, defaults to now
+   */
+  issued_at: z
+    .date()
+    .default(() => new Date())
+    .transform((d) => d.toISOString()),
+  /**
+   * The time after which the login payload will be invalid
    */
-  nonce: z.string().default(uuidv4()),
+  expiration_time: z
+    .date()
+    .optional()
+    .transform((d) => d?.toISOString()),
   /**
-   * The time after which the login payload will be invalid, defaults to 5 minutes from now
+   * The time before which the login payload will be invalid
    */
-  expiration_time: z.date().transform((d) => d.toISOString()),
+  invalid_before: z
+    .date()
+    .optional()
+    .transform((d) => d?.toISOString()),
   /**
    * The chain ID that the login request was intended for, defaults to none
    */
   chain_id: z.number().optional(),
+  /**
+   * The system specific identifier of the login request
+   */
+  request_id: z.string().optional(),
+  /**
+   * The URIs of the resources the user wants to access with the login
+   */
+  resources: z.array(z.string()).optional(),
 });
 
 /**
@@ -71,6 +135,14 @@ export const VerifyOptionsSchema = z
      * The optional chain ID to expect the request to be for
      */
     chainId: z.number().optional(),
+    /**
+     * The optional store to consume the nonce of the request from, so that the request can't be replayed
+     */
+    nonceStore: NonceStoreSchema.optional(),
+    /**
+     * The optional maximum age of the request in seconds since it was issued, defaults to 5 minutes for requests without an expiration time
+     */
+    maxAge: z.number().optional(),
   })
   .optional();
 
@@ -87,6 +159,14 @@ export const AuthenticationOptionsSchema = z
      * The date after which the authentication payload is invalid
      */
     expirationTime: z.date().optional(),
+    /**
+     * The optional store to consume the nonce of the login request from, so that the request can't be replayed
+     */
+    nonceStore: NonceStoreSchema.optional(),
+    /**
+     * The unique identifier of the token, generated if not set. Servers can record it to revoke the token later
+     */
+    jti: z.string().optional(),
   })
   .optional();
 
@@ -121,7 +201,7 @@ export const AuthenticationPayloadDataSchema = z.object({
   /**
    * The unique identifier of the payload
    */
-  jti: z.string().default(uuidv4()),
+  jti: z.string().default(() => uuidv4()),
 });
 
 /**
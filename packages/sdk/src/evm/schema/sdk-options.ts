@@ -1,5 +1,18 @@
+import { ReadCache } from "../core/classes/read-cache";
+import { TransactionQueue } from "../core/classes/transaction-queue";
+import { GasStrategy } from "../types/gas";
 import { z } from "zod";
 
+const FallbackSettingsSchema = z.object({
+  maxRetries: z.number().int().min(0).optional(),
+  retryDelayMs: z.number().min(0).optional(),
+  cooldownMs: z.number().min(0).optional(),
+  quorum: z.number().int().min(1).optional(),
+  quorumMethods: z.array(z.string()).optional(),
+  healthCheckIntervalMs: z.number().min(0).optional(),
+  maxBlockLag: z.number().int().min(0).optional(),
+});
+
 /**
  * @public
  */
@@ -9,8 +22,11 @@ export const SDKOptionsSchema = z
       .object({
         rpcUrl: z.string().url(),
         chainId: z.number().optional(),
+        fallbackRpcUrls: z.array(z.string().url()).optional(),
+        fallbackSettings: FallbackSettingsSchema.optional(),
       })
       .optional(),
+    chainFallbackSettings: FallbackSettingsSchema.optional(),
     gasSettings: z
       .object({
         maxPriceInGwei: z
@@ -18,6 +34,12 @@ export const SDKOptionsSchema = z
           .min(1, "gas price cannot be less than 1")
           .default(300),
         speed: z.enum(["standard", "fast", "fastest"]).default("fastest"),
+        strategy: z
+          .custom<GasStrategy>(
+            (strategy) =>
+              typeof (strategy as GasStrategy)?.getFees === "function",
+          )
+          .optional(),
       })
       .default({ maxPriceInGwei: 300, speed: "fastest" }),
     gasless: z
@@ -42,6 +64,13 @@ export const SDKOptionsSchema = z
         }),
       ])
       .optional(),
+    simulateTransactions: z.boolean().default(false),
+    transactionQueue: z
+      .custom<TransactionQueue>((queue) => queue instanceof TransactionQueue)
+      .optional(),
+    readCache: z
+      .custom<ReadCache>((cache) => cache instanceof ReadCache)
+      .optional(),
   })
   .default({
     gasSettings: { maxPriceInGwei: 300, speed: "fastest" },
@@ -56,10 +85,21 @@ export const SDKOptionsSchema = z
  *   readonlySettings: {
  *     rpcUrl, // force read calls to go through your own RPC url
  *     chainId, // reduce RPC calls by sepcifying your chain ID
+ *     fallbackRpcUrls, // more RPC urls of the same chain to spread read calls over and fall back to when one fails
+ *     fallbackSettings: {
+ *       maxRetries, // how many times a failed call is retried on another RPC url (default 3)
+ *       quorum, // how many RPC urls must agree on the result of contract reads and balances (default 1)
+ *       healthCheckIntervalMs, // how often to ping every RPC url (default: disabled)
+ *     },
+ *   },
+ *   // read chains passed by name or chain id through all of their RPC urls instead of only the first one, with the same settings as fallbackSettings (default: disabled)
+ *   chainFallbackSettings: {
+ *     quorum,
  *   },
  *   gasSettings: {
  *     maxPriceInGwei, // Maximum gas price for transactions (default 300 gwei)
  *     speed, // the tx speed setting: 'standard'|'fast|'fastest' (default: 'fastest')
+ *     strategy, // a custom GasStrategy, such as a FeeHistoryGasStrategy, replaces the speed setting
  *   },
  *   gasless: {
  *     // By specifying a gasless configuration - all transactions will get forwarded to enable gasless transactions
@@ -73,6 +113,17 @@ export const SDKOptionsSchema = z
  *       deadlineSeconds, // your Biconomy timeout preference
  *     },
  *   },
+ *   // dry-run every transaction before sending it, and throw the decoded revert reason if it would fail (default: false)
+ *   simulateTransactions,
+ *   // send transactions through a queue that manages nonces locally, for backend wallets sending many transactions at once
+ *   transactionQueue: new TransactionQueue({
+ *     concurrency, // the maximum number of unconfirmed transactions per wallet (default 10)
+ *     stuckTimeoutSeconds, // re-send transactions with a higher gas price after this long (default 60)
+ *   }),
+ *   // cache contract reads per block and metadata per URI (default: no caching)
+ *   readCache: new ReadCache({
+ *     store, // where to keep cached reads, e.g. your own Redis backed store (default: in-memory LRU cache)
+ *   }),
  * }
  * ```
  */
@@ -80,4 +131,4 @@ export type SDKOptions = z.input<typeof SDKOptionsSchema>;
 /**
  * @internal
  */
-export type SDKOptionsOutput = z.output<typeof SDKOptionsSchema>;
\ No newline at end of file
+export type SDKOptionsOutput = z.output<typeof SDKOptionsSchema>;
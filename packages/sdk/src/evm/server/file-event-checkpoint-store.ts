@@ -0,0 +1,82 @@
+import { EventCheckpoint, EventCheckpointStore } from "../types/index";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Persists event indexing checkpoints to a JSON file on disk
+ *
+ * @example
+ * ```javascript
+ * import { FileEventCheckpointStore } from "@thirdweb-dev/sdk/evm/server";
+ *
+ * const indexer = contract.events.createIndexer({
+ *   eventName: "Transfer",
+ *   store: new FileEventCheckpointStore("./checkpoints.json"),
+ * });
+ * ```
+ *
+ * @public
+ */
+export class FileEventCheckpointStore<
+  TCheckpoint extends EventCheckpoint = EventCheckpoint,
+> implements EventCheckpointStore<TCheckpoint>
+{
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  public async get(key: string): Promise<TCheckpoint | undefined> {
+    const checkpoints = await this.read();
+    return checkpoints[key];
+  }
+
+  public async set(key: string, checkpoint: TCheckpoint): Promise<void> {
+    await this.update((checkpoints) => {
+      checkpoints[key] = checkpoint;
+    });
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.update((checkpoints) => {
+      delete checkpoints[key];
+    });
+  }
+
+  private async read(): Promise<Record<string, TCheckpoint>> {
+    try {
+      const content = await fs.promises.readFile(this.filePath, "utf8");
+      return JSON.parse(content);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw e;
+    }
+  }
+
+  private update(
+    fn: (checkpoints: Record<string, TCheckpoint>) => void,
+  ): Promise<void> {
+    // serialize writes so that concurrent updates don't overwrite each other
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        const checkpoints = await this.read();
+        fn(checkpoints);
+        await fs.promises.mkdir(path.dirname(this.filePath), {
+          recursive: true,
+        });
+        // write to a temporary file first so that a crash never leaves a truncated file behind
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(
+          tmpPath,
+          JSON.stringify(checkpoints, null, 2),
+        );
+        await fs.promises.rename(tmpPath, this.filePath);
+      });
+    return this.writeQueue;
+  }
+}
@@ -0,0 +1 @@
+export * from "./file-event-checkpoint-store";
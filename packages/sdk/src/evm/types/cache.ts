@@ -0,0 +1,30 @@
+/**
+ * Persists cached reads, as strings
+ * @remarks Implement this interface to share the cache between processes, for example with Redis. Entries can be evicted at any time.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+}
+
+/**
+ * Options for {@link ReadCache}
+ */
+export interface ReadCacheOptions {
+  /**
+   * Where to keep cached reads, defaults to an in-memory {@link LruCacheStore}
+   */
+  store?: CacheStore;
+  /**
+   * How long contract reads are kept, defaults to 60 seconds
+   */
+  readTtlSeconds?: number;
+  /**
+   * How long token and contract metadata are kept, defaults to 10 minutes
+   */
+  metadataTtlSeconds?: number;
+  /**
+   * How often to check for a new block in milliseconds, reads are cached for at least that long. Defaults to 4 seconds
+   */
+  blockPollingIntervalMs?: number;
+}
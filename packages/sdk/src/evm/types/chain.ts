@@ -0,0 +1,27 @@
+import { NativeToken } from "./currency";
+
+/**
+ * A block explorer for a {@link Chain}
+ */
+export type ChainExplorer = {
+  name: string;
+  url: string;
+};
+
+/**
+ * Everything the SDK needs to know about a chain
+ * - `slug`: the name to pass to the SDK instead of an RPC url, for example `"polygon"`
+ * - `aliases`: other accepted names for the chain, for example `"matic"`
+ * - `rpc`: the RPC urls of the chain, the first one is used by default
+ */
+export interface Chain {
+  chainId: number;
+  name: string;
+  slug: string;
+  aliases?: string[];
+  nativeCurrency: NativeToken;
+  rpc: string[];
+  blockExplorers?: ChainExplorer[];
+  testnet: boolean;
+  deprecated?: boolean;
+}
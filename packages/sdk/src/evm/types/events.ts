@@ -42,3 +42,65 @@ export interface EventQueryFilter {
   toBlock?: string | number;
   order?: "asc" | "desc";
 }
+
+/**
+ * The last block an {@link ContractEventIndexer} has fully processed
+ */
+export interface EventCheckpoint {
+  blockNumber: number;
+  blockHash?: string;
+}
+
+/**
+ * Persists {@link EventCheckpoint}s so that indexing can resume where it left off
+ * @remarks Implement this interface to store checkpoints in your own database
+ */
+export interface EventCheckpointStore<
+  TCheckpoint extends EventCheckpoint = EventCheckpoint,
+> {
+  get(key: string): Promise<TCheckpoint | undefined>;
+  set(key: string, checkpoint: TCheckpoint): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Options for indexing past and future events of a contract
+ */
+export interface EventIndexerOptions {
+  /**
+   * The name of the event to index, indexes all events of the contract if omitted
+   */
+  eventName?: string;
+  /**
+   * The block to start indexing from when no checkpoint is stored, defaults to 0
+   */
+  fromBlock?: number;
+  /**
+   * The last block to index when catching up, defaults to the latest confirmed block
+   */
+  toBlock?: number;
+  /**
+   * The number of blocks to query at once, adapted automatically when the RPC rejects a range. Defaults to 2000
+   */
+  chunkSize?: number;
+  /**
+   * The maximum number of blocks to query at once, defaults to 10000
+   */
+  maxChunkSize?: number;
+  /**
+   * The number of blocks to wait for before indexing a block, defaults to 0
+   */
+  confirmations?: number;
+  /**
+   * The number of blocks to rewind when the stored checkpoint was reorged out of the chain, defaults to 12
+   */
+  reorgDepth?: number;
+  /**
+   * Where to persist checkpoints, defaults to an in-memory store
+   */
+  store?: EventCheckpointStore;
+  /**
+   * The key under which the checkpoint is stored, defaults to the contract address and event name
+   */
+  checkpointKey?: string;
+}
@@ -0,0 +1,88 @@
+import type { BigNumber, providers } from "ethers";
+
+/**
+ * Fees for chains that support EIP-1559
+ */
+export type Eip1559GasFees = {
+  maxFeePerGas: BigNumber;
+  maxPriorityFeePerGas: BigNumber;
+};
+
+/**
+ * Fees for chains that do not support EIP-1559
+ */
+export type LegacyGasFees = {
+  gasPrice: BigNumber;
+};
+
+/**
+ * The fees to pay for a transaction, as computed by a {@link GasStrategy}
+ */
+export type GasFees = Eip1559GasFees | LegacyGasFees;
+
+/**
+ * The speed tiers reported by gas stations
+ */
+export type GasStationSpeed = "safeLow" | "standard" | "fast";
+
+/**
+ * Decides how much to pay for gas
+ * @remarks Implement this interface to plug in your own gas oracle, then pass it in the `gasSettings.strategy` SDK option
+ * or to a single transaction with `TransactionTask.overrideGasStrategy`.
+ */
+export interface GasStrategy {
+  getFees(provider: providers.Provider): Promise<GasFees>;
+}
+
+/**
+ * The range of what a transaction could cost, in native token of the current chain
+ * - `min`: only the base fee of the latest block gets paid
+ * - `expected`: the base fee of the latest block and the priority fee get paid
+ * - `max`: the maximum fee per gas gets paid
+ */
+export type GasCostEstimate = {
+  gasLimit: BigNumber;
+  min: string;
+  expected: string;
+  max: string;
+};
+
+/**
+ * Options for {@link FeeHistoryGasStrategy}
+ */
+export interface FeeHistoryGasStrategyOptions {
+  /**
+   * The percentile of priority fees paid in recent blocks to pay, defaults to 50
+   */
+  percentile?: number;
+  /**
+   * The number of recent blocks to look at, defaults to 20
+   */
+  blockCount?: number;
+  /**
+   * How many times the next base fee to allow as maximum fee, so that the transaction stays valid when the base fee rises. Defaults to 2
+   */
+  baseFeeMultiplier?: number;
+  /**
+   * The maximum fee per gas to ever pay, in gwei
+   */
+  maxPriceInGwei?: number;
+}
+
+/**
+ * Options for {@link GasStationGasStrategy}
+ */
+export interface GasStationGasStrategyOptions {
+  /**
+   * The speed tier to pay for, defaults to `standard`
+   */
+  speed?: GasStationSpeed;
+  /**
+   * Gas station urls by chain id, in addition to the built-in Polygon and Mumbai gas stations
+   */
+  urls?: Record<number, string>;
+  /**
+   * The strategy to use on chains without a gas station or when the gas station is down, defaults to a {@link FeeHistoryGasStrategy}
+   */
+  fallback?: GasStrategy;
+}
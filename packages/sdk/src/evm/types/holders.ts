@@ -0,0 +1,51 @@
+import { QueryAllParams } from "./QueryParams";
+import { EventCheckpoint, EventCheckpointStore } from "./events";
+import { BigNumber, BigNumberish } from "ethers";
+
+/**
+ * The balances of every holder of a contract at a given block
+ * @remarks Balances are keyed by holder address, then by token id. Amounts are stored as strings so that snapshots can be serialized.
+ */
+export interface HolderSnapshot extends EventCheckpoint {
+  balances: Record<string, Record<string, string>>;
+}
+
+/**
+ * Options for querying the holders of a contract
+ */
+export interface HolderQueryParams extends QueryAllParams {
+  /**
+   * The block at which to compute balances, defaults to the latest block
+   */
+  atBlock?: number;
+  /**
+   * Sort holders by balance, defaults to descending
+   */
+  order?: "asc" | "desc";
+  /**
+   * Where to persist balance snapshots so that the next query only has to process new transfers, defaults to an in-memory store
+   */
+  store?: EventCheckpointStore<HolderSnapshot>;
+}
+
+/**
+ * Options for querying the holders of an ERC1155 contract
+ */
+export interface EditionHolderQueryParams extends HolderQueryParams {
+  /**
+   * Only return holders of this token
+   */
+  tokenId?: BigNumberish;
+}
+
+/**
+ * A holder address and the NFTs it owns
+ */
+export type NFTHolderBalance = {
+  holder: string;
+  /**
+   * The total number of NFTs owned
+   */
+  balance: BigNumber;
+  tokens: { tokenId: string; balance: BigNumber }[];
+};
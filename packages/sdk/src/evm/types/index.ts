@@ -9,3 +9,10 @@ export * from "./QueryParams";
 export * from "./deploy";
 export * from "./events";
 export * from "./multiwrap";
+export * from "./holders";
+export * from "./transactions";
+export * from "./gas";
+export * from "./chain";
+export * from "./rpc";
+export * from "./cache";
+export * from "./typings";
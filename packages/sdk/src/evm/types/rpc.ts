@@ -0,0 +1,46 @@
+/**
+ * Options for {@link FallbackRpcProvider}
+ */
+export interface FallbackRpcProviderOptions {
+  /**
+   * How many times a failed request is retried on another RPC url, defaults to 3
+   */
+  maxRetries?: number;
+  /**
+   * The delay before the first retry in milliseconds, doubled on every retry. Defaults to 250
+   */
+  retryDelayMs?: number;
+  /**
+   * How long an RPC url that failed is skipped for in milliseconds, defaults to 30 seconds
+   */
+  cooldownMs?: number;
+  /**
+   * How many RPC urls have to return the same result for the `quorumMethods`, defaults to 1
+   */
+  quorum?: number;
+  /**
+   * The JSON-RPC methods the quorum applies to, defaults to `eth_call`, `eth_getBalance`, `eth_getCode` and `eth_getStorageAt`
+   */
+  quorumMethods?: string[];
+  /**
+   * How often to check the health of every RPC url in milliseconds, disabled by default
+   */
+  healthCheckIntervalMs?: number;
+  /**
+   * How many blocks an RPC url can be behind the others before it is considered unhealthy, defaults to 5
+   */
+  maxBlockLag?: number;
+}
+
+/**
+ * The state of an RPC url of a {@link FallbackRpcProvider}
+ * - `latency`: the moving average of the response times in milliseconds
+ * - `failures`: the number of consecutive failed requests
+ */
+export type RpcEndpointStatus = {
+  url: string;
+  healthy: boolean;
+  latency: number;
+  failures: number;
+  blockNumber?: number;
+};
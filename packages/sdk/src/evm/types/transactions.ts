@@ -0,0 +1,79 @@
+import type { providers } from "ethers";
+
+/**
+ * The lifecycle of a transaction, as emitted through transaction listeners
+ * - `submitted`: the transaction was sent to the relayer or the blockchain
+ * - `replaced`: the transaction was stuck and got re-sent with a higher gas price
+ * - `completed`: the transaction was confirmed by the blockchain
+ * - `failed`: the transaction was mined but reverted, or was never mined
+ */
+export type TransactionStatus =
+  | "submitted"
+  | "replaced"
+  | "completed"
+  | "failed";
+
+/**
+ * A transaction that was sent but may not be confirmed yet
+ */
+export type SubmittedTransaction = {
+  hash: string;
+  /**
+   * Resolves once the transaction is confirmed, rejects if it reverted or was never mined
+   */
+  receipt: Promise<providers.TransactionReceipt>;
+};
+
+/**
+ * Hands out nonces to a {@link TransactionQueue}
+ * @remarks Implement this interface to share nonces between multiple processes sending from the same wallet, for example through your own database.
+ */
+export interface NonceManager {
+  /**
+   * Reserve the next nonce of an account
+   */
+  acquire(
+    address: string,
+    chainId: number,
+    provider: providers.Provider,
+  ): Promise<number>;
+  /**
+   * Give back a nonce that was reserved but never used, so that it gets handed out again
+   */
+  release(address: string, chainId: number, nonce: number): Promise<void>;
+  /**
+   * Forget everything known about an account, its next nonce gets fetched from the chain again
+   */
+  reset(address: string, chainId: number): Promise<void>;
+}
+
+/**
+ * Options for sending transactions through a {@link TransactionQueue}
+ */
+export interface TransactionQueueOptions {
+  /**
+   * The maximum number of unconfirmed transactions per wallet, defaults to 10
+   */
+  concurrency?: number;
+  /**
+   * The number of seconds after which an unconfirmed transaction gets replaced with a higher gas price, defaults to 60
+   */
+  stuckTimeoutSeconds?: number;
+  /**
+   * The percentage by which the gas price is bumped on every replacement, defaults to 10
+   * @remarks Most nodes reject replacements that are less than 10% more expensive.
+   */
+  gasBumpPercent?: number;
+  /**
+   * The maximum number of times a transaction gets replaced before giving up, defaults to 3
+   */
+  maxReplacements?: number;
+  /**
+   * The number of milliseconds between two checks for a receipt, defaults to 4000
+   */
+  pollingInterval?: number;
+  /**
+   * Where nonces come from, defaults to tracking them in memory
+   */
+  nonceManager?: NonceManager;
+}
@@ -0,0 +1,36 @@
+import type { ContractInterface } from "ethers";
+
+/**
+ * The arguments and return value of a contract function
+ */
+export type TypedFunction = {
+  args: unknown[];
+  result: unknown;
+};
+
+/**
+ * The functions and events of a contract, as generated by `npx thirdweb generate`
+ * - `functions`: the arguments and return value of every function, by function name
+ * - `events`: the data of every event, by event name
+ */
+export type ContractTypings = {
+  functions: Record<string, TypedFunction>;
+  events: Record<string, Record<string, any>>;
+};
+
+/**
+ * The typings of a contract that was loaded without generated typings, any function or event is accepted
+ */
+export type UntypedContract = {
+  functions: Record<string, { args: unknown[]; result: any }>;
+  events: Record<string, Record<string, any>>;
+};
+
+/**
+ * An ABI that carries the typings of its contract, as generated by `npx thirdweb generate`
+ * @remarks Pass it to `sdk.getContract(address, abi)` to get typed function calls and events.
+ * `__typings` only exists at the type level.
+ */
+export type TypedAbi<TTypings extends ContractTypings> = ContractInterface & {
+  readonly __typings: TTypings;
+};
@@ -1,6 +1,17 @@
+import {
+  AUTH_TOKEN_ALGORITHM,
+  generateLoginMessage,
+  MemoryNonceStore,
+  parseLoginMessage,
+} from "../../src/evm";
 import { signers, sdk } from "./before-setup";
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import { expect } from "chai";
+import { ethers } from "ethers";
+import { readFileSync } from "fs";
+
+const ERC6492_MAGIC_SUFFIX =
+  "0x6492649264926492649264926492649264926492649264926492649264926492";
 
 describe("Wallet Authentication", async () => {
   let adminWallet: SignerWithAddress,
@@ -20,7 +31,7 @@ describe("Wallet Authentication", async () => {
     const payload = await sdk.auth.login(domain);
 
     sdk.updateSignerOrProvider(adminWallet);
-    const address = sdk.auth.verify(domain, payload);
+    const address = await sdk.auth.verify(domain, payload);
 
     expect(address).to.equal(signerWallet.address);
   });
@@ -32,7 +43,7 @@ describe("Wallet Authentication", async () => {
     });
 
     sdk.updateSignerOrProvider(adminWallet);
-    const address = sdk.auth.verify(domain, payload, {
+    const address = await sdk.auth.verify(domain, payload, {
       chainId: 137,
     });
 
@@ -44,7 +55,7 @@ describe("Wallet Authentication", async () => {
 
     sdk.updateSignerOrProvider(adminWallet);
     try {
-      sdk.auth.verify("test.thirdweb.com", payload);
+      await sdk.auth.verify("test.thirdweb.com", payload);
       expect.fail();
     } catch (err) {
       expect(err.message).to.equal(
@@ -60,7 +71,7 @@ describe("Wallet Authentication", async () => {
 
     sdk.updateSignerOrProvider(adminWallet);
     try {
-      sdk.auth.verify(domain, payload);
+      await sdk.auth.verify(domain, payload);
       expect.fail();
     } catch (err) {
       expect(err.message).to.equal("Login request has expired");
@@ -74,7 +85,7 @@ describe("Wallet Authentication", async () => {
 
     sdk.updateSignerOrProvider(adminWallet);
     try {
-      sdk.auth.verify(domain, payload, {
+      await sdk.auth.verify(domain, payload, {
         chainId: 137,
       });
       expect.fail();
@@ -91,7 +102,7 @@ describe("Wallet Authentication", async () => {
 
     sdk.updateSignerOrProvider(adminWallet);
     try {
-      sdk.auth.verify(domain, payload);
+      await sdk.auth.verify(domain, payload);
       expect.fail();
     } catch (err) {
       expect(err.message).to.contain("does not match payload address");
@@ -108,6 +119,20 @@ describe("Wallet Authentication", async () => {
     expect(address).to.equal(signerWallet.address);
   });
 
+  it("Should generate token for an authenticated address with a jti", async () => {
+    sdk.updateSignerOrProvider(adminWallet);
+    const token = await sdk.auth.generateAuthTokenForAddress(
+      domain,
+      signerWallet.address.toLowerCase(),
+      { jti: "session-id" },
+    );
+    const payload = await sdk.auth.verifyAuthToken(domain, token);
+
+    expect(payload.sub).to.equal(signerWallet.address);
+    expect(payload.jti).to.equal("session-id");
+    expect(payload.iss).to.equal(adminWallet.address);
+  });
+
   it("Should reject token with incorrect domain", async () => {
     const payload = await sdk.auth.login(domain);
 
@@ -172,4 +197,242 @@ describe("Wallet Authentication", async () => {
       );
     }
   });
+
+  it("Should only accept nonces from the nonce store once", async () => {
+    const nonceStore = new MemoryNonceStore();
+    const payload = await sdk.auth.login(domain, {
+      nonce: await nonceStore.generate(),
+    });
+
+    sdk.updateSignerOrProvider(adminWallet);
+    const address = await sdk.auth.verify(domain, payload, { nonceStore });
+    expect(address).to.equal(signerWallet.address);
+
+    for (const replayed of [payload, await sdk.auth.login(domain)]) {
+      try {
+        await sdk.auth.generateAuthToken(domain, replayed, { nonceStore });
+        expect.fail();
+      } catch (err) {
+        expect(err.message).to.contain("is invalid or has already been used");
+      }
+    }
+  });
+
+  it("Should sign EIP-4361 compliant messages", async () => {
+    const payload = await sdk.auth.login(domain, {
+      statement: "Login to thirdweb",
+      resources: ["https://thirdweb.com/terms"],
+    });
+    const message = generateLoginMessage(payload.payload);
+
+    expect(message).to.equal(
+      [
+        `thirdweb.com wants you to sign in with your Ethereum account:`,
+        signerWallet.address,
+        "",
+        "Login to thirdweb",
+        "",
+        "URI: https://thirdweb.com",
+        "Version: 1",
+        `Chain ID: ${await signerWallet.getChainId()}`,
+        `Nonce: ${payload.payload.nonce}`,
+        `Issued At: ${payload.payload.issued_at}`,
+        `Expiration Time: ${payload.payload.expiration_time}`,
+        "Resources:",
+        "- https://thirdweb.com/terms",
+      ].join("\n"),
+    );
+    expect(parseLoginMessage(message)).to.deep.include(payload.payload);
+  });
+
+  it("Should verify messages signed by other SIWE clients", async () => {
+    const message = [
+      `https://thirdweb.com wants you to sign in with your Ethereum account:`,
+      signerWallet.address,
+      "",
+      "URI: https://thirdweb.com/login",
+      "Version: 1",
+      "Chain ID: 1",
+      "Nonce: 32891756",
+      "Issued At: 2021-09-30T16:25:24Z",
+      `Expiration Time: ${new Date(Date.now() + 1000 * 60).toISOString()}`,
+    ].join("\n");
+    const signature = await signerWallet.signMessage(message);
+
+    sdk.updateSignerOrProvider(adminWallet);
+    expect(await sdk.auth.verifyMessage(domain, message, signature)).to.equal(
+      signerWallet.address,
+    );
+    try {
+      await sdk.auth.verifyMessage(
+        domain,
+        message.replace("Chain ID: 1", "Chain ID: 137"),
+        signature,
+      );
+      expect.fail();
+    } catch (err) {
+      expect(err.message).to.contain("does not match payload address");
+    }
+  });
+
+  it("Should limit the age of messages without an expiration time", async () => {
+    const createMessage = (issuedAt: Date) =>
+      [
+        `thirdweb.com wants you to sign in with your Ethereum account:`,
+        signerWallet.address,
+        "",
+        "URI: https://thirdweb.com",
+        "Version: 1",
+        "Chain ID: 1",
+        "Nonce: 32891756",
+        `Issued At: ${issuedAt.toISOString()}`,
+      ].join("\n");
+    const recent = createMessage(new Date(Date.now() - 1000 * 60));
+    const old = createMessage(new Date(Date.now() - 1000 * 60 * 10));
+
+    sdk.updateSignerOrProvider(adminWallet);
+    expect(parseLoginMessage(recent).expiration_time).to.equal(undefined);
+    expect(
+      await sdk.auth.verifyMessage(
+        domain,
+        recent,
+        await signerWallet.signMessage(recent),
+      ),
+    ).to.equal(signerWallet.address);
+    try {
+      await sdk.auth.verifyMessage(
+        domain,
+        old,
+        await signerWallet.signMessage(old),
+      );
+      expect.fail();
+    } catch (err) {
+      expect(err.message).to.equal(
+        "Login request was issued more than 300 seconds ago",
+      );
+    }
+  });
+
+  it("Should reject payload older than the max age", async () => {
+    const payload = await sdk.auth.login(domain);
+
+    sdk.updateSignerOrProvider(adminWallet);
+    expect(await sdk.auth.verify(domain, payload, { maxAge: 60 })).to.equal(
+      signerWallet.address,
+    );
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    try {
+      await sdk.auth.verify(domain, payload, { maxAge: 1 });
+      expect.fail();
+    } catch (err) {
+      expect(err.message).to.equal(
+        "Login request was issued more than 1 seconds ago",
+      );
+    }
+  });
+
+  it("Should generate tokens that can be verified without the SDK", async () => {
+    const payload = await sdk.auth.login(domain);
+
+    sdk.updateSignerOrProvider(adminWallet);
+    const token = await sdk.auth.generateAuthToken(domain, payload);
+    expect(token).to.match(/^[\w-]+\.[\w-]+\.[\w-]+$/);
+
+    const [header, data, signature] = token.split(".");
+    const decode = (part: string) =>
+      JSON.parse(Buffer.from(part, "base64url").toString());
+    expect(decode(header)).to.deep.equal({
+      alg: AUTH_TOKEN_ALGORITHM,
+      typ: "JWT",
+    });
+    expect(decode(data).sub).to.equal(signerWallet.address);
+    expect(
+      ethers.utils.verifyMessage(
+        `${header}.${data}`,
+        Buffer.from(signature, "base64url"),
+      ),
+    ).to.equal(adminWallet.address);
+  });
+
+  describe("Smart contract wallets", async () => {
+    let factory: ethers.Contract;
+
+    before(async () => {
+      const artifact = JSON.parse(
+        readFileSync("test/evm/abis/mock_smart_wallet_factory.json", "utf-8"),
+      );
+      factory = await new ethers.ContractFactory(
+        artifact.abi,
+        artifact.bytecode,
+        adminWallet,
+      ).deploy();
+      await factory.deployed();
+    });
+
+    // Login as a smart contract wallet owned by the signer wallet
+    async function loginAsWallet(
+      walletAddress: string,
+      wrapSignature = (signature: string) => signature,
+    ) {
+      const { payload } = await sdk.auth.login(domain);
+      payload.address = walletAddress;
+      const signature = await signerWallet.signMessage(
+        generateLoginMessage(payload),
+      );
+      return { payload, signature: wrapSignature(signature) };
+    }
+
+    it("Should verify EIP-1271 signatures of deployed wallets", async () => {
+      const salt = ethers.utils.hexZeroPad("0x01", 32);
+      await (await factory.deploy(signerWallet.address, salt)).wait();
+      const walletAddress = await factory.getAddress(
+        signerWallet.address,
+        salt,
+      );
+      const payload = await loginAsWallet(walletAddress);
+
+      sdk.updateSignerOrProvider(adminWallet);
+      expect(await sdk.auth.verify(domain, payload)).to.equal(walletAddress);
+
+      const attackerPayload = await loginAsWallet(attackerWallet.address);
+      try {
+        await sdk.auth.verify(domain, {
+          payload: { ...attackerPayload.payload, address: walletAddress },
+          signature: attackerPayload.signature,
+        });
+        expect.fail();
+      } catch (err) {
+        expect(err.message).to.contain("does not match payload address");
+      }
+    });
+
+    it("Should verify EIP-6492 signatures of wallets that are not deployed", async () => {
+      const salt = ethers.utils.hexZeroPad("0x02", 32);
+      const walletAddress = await factory.getAddress(
+        signerWallet.address,
+        salt,
+      );
+      const payload = await loginAsWallet(walletAddress, (signature) =>
+        ethers.utils.hexConcat([
+          ethers.utils.defaultAbiCoder.encode(
+            ["address", "bytes", "bytes"],
+            [
+              factory.address,
+              factory.interface.encodeFunctionData("deploy", [
+                signerWallet.address,
+                salt,
+              ]),
+              signature,
+            ],
+          ),
+          ERC6492_MAGIC_SUFFIX,
+        ]),
+      );
+
+      sdk.updateSignerOrProvider(adminWallet);
+      expect(await sdk.auth.verify(domain, payload)).to.equal(walletAddress);
+      // the wallet is only deployed in the simulation of the verification
+      expect(await adminWallet.provider?.getCode(walletAddress)).to.equal("0x");
+    });
+  });
 });
@@ -0,0 +1,284 @@
+import {
+  NFTCollectionInitializer,
+  SmartContract,
+  ThirdwebSDK,
+  TokenInitializer,
+  TransactionBatchError,
+  TransactionQueue,
+} from "../../src/evm";
+import { expectError, sdk, signers, storage } from "./before-setup";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { assert, expect } from "chai";
+import { ethers } from "ethers";
+
+global.fetch = require("cross-fetch");
+
+describe("Transaction Batch", async () => {
+  let tokenContract: SmartContract;
+  let nftContract: SmartContract;
+
+  let adminWallet: SignerWithAddress,
+    samWallet: SignerWithAddress,
+    bobWallet: SignerWithAddress;
+
+  before(() => {
+    [adminWallet, samWallet, bobWallet] = signers;
+  });
+
+  beforeEach(async () => {
+    sdk.updateSignerOrProvider(adminWallet);
+    tokenContract = await sdk.getContract(
+      await sdk.deployer.deployBuiltInContract(TokenInitializer.contractType, {
+        name: "Test Token",
+        symbol: "TEST",
+        primary_sale_recipient: adminWallet.address,
+      }),
+    );
+    nftContract = await sdk.getContract(
+      await sdk.deployer.deployBuiltInContract(
+        NFTCollectionInitializer.contractType,
+        {
+          name: "NFT Contract",
+          primary_sale_recipient: adminWallet.address,
+        },
+      ),
+    );
+  });
+
+  it("should execute calls to the same contract atomically", async () => {
+    const batch = sdk.batch();
+    batch.add(
+      await tokenContract.prepare("mintTo", [
+        samWallet.address,
+        ethers.utils.parseEther("10"),
+      ]),
+      await tokenContract.prepare("mintTo", [
+        bobWallet.address,
+        ethers.utils.parseEther("20"),
+      ]),
+    );
+    assert.isTrue(batch.isAtomic());
+    const gasLimit = await batch.estimateGasLimit();
+    assert.isTrue(gasLimit.gt(0));
+
+    const results = await batch.execute();
+    assert.equal(results.length, 2);
+    assert.equal(
+      results[0].receipt.transactionHash,
+      results[1].receipt.transactionHash,
+    );
+    expect(results[0].events.map((e) => e.eventName)).to.include(
+      "TokensMinted",
+    );
+    expect(
+      (await tokenContract.erc20.balanceOf(samWallet.address)).value,
+    ).to.deep.eq(ethers.utils.parseEther("10"));
+    expect(
+      (await tokenContract.erc20.balanceOf(bobWallet.address)).value,
+    ).to.deep.eq(ethers.utils.parseEther("20"));
+  });
+
+  it("should decode what each call of an atomic batch returns", async () => {
+    const batch = sdk.batch();
+    batch.add(
+      await nftContract.prepare("mintTo", [samWallet.address, "ipfs://0"]),
+      await nftContract.prepare("mintTo", [bobWallet.address, "ipfs://1"]),
+    );
+
+    const results = await batch.execute("atomic");
+    const ids = await Promise.all(
+      results.map(async (result) => (await result.data?.())?.toNumber()),
+    );
+    expect(ids).to.deep.eq([0, 1]);
+    const minted = results[0].events.filter(
+      (e) => e.eventName === "TokensMinted",
+    );
+    expect(minted.map((e) => e.data.mintedTo)).to.deep.eq([
+      samWallet.address,
+      bobWallet.address,
+    ]);
+  });
+
+  it("should not apply the value, gas limit or nonce of calls to an atomic batch", async () => {
+    const withGasLimit = sdk.batch();
+    withGasLimit.add(
+      await tokenContract.prepare("mintTo", [samWallet.address, 1]),
+      (
+        await tokenContract.prepare("mintTo", [bobWallet.address, 1])
+      ).overrideGasLimit(100000),
+    );
+    try {
+      await withGasLimit.execute();
+      assert.fail("should not be able to execute with a gas limit per call");
+    } catch (e) {
+      expectError(e, "Call 1 of the batch overrides its value or gas limit");
+    }
+
+    const withNonce = sdk.batch();
+    withNonce.add(
+      (
+        await tokenContract.prepare("mintTo", [samWallet.address, 1])
+      ).overrideNonce(1000),
+    );
+    try {
+      await withNonce.execute();
+      assert.fail("should not be able to execute with a nonce per call");
+    } catch (e) {
+      expectError(e, "Call 0 of the batch overrides its nonce");
+    }
+  });
+
+  it("should execute calls to different contracts in order", async () => {
+    const minterRole = ethers.utils.id("MINTER_ROLE");
+    const batch = sdk.batch();
+    batch.add(
+      await tokenContract.prepare("mintTo", [
+        samWallet.address,
+        ethers.utils.parseEther("5"),
+      ]),
+      await nftContract.prepare("grantRole", [minterRole, bobWallet.address]),
+    );
+    assert.isFalse(batch.isAtomic());
+
+    const results = await batch.execute("sequential");
+    assert.equal(results.length, 2);
+    assert.notEqual(
+      results[0].receipt.transactionHash,
+      results[1].receipt.transactionHash,
+    );
+    assert.isTrue(
+      results[0].receipt.blockNumber <= results[1].receipt.blockNumber,
+    );
+    expect(
+      (await tokenContract.erc20.balanceOf(samWallet.address)).value,
+    ).to.deep.eq(ethers.utils.parseEther("5"));
+    assert.include(await nftContract.roles.get("minter"), bobWallet.address);
+  });
+
+  it("should use the nonces of the signer of each call", async () => {
+    const samSdk = new ThirdwebSDK(
+      samWallet,
+      { gasSettings: { maxPriceInGwei: 10000 } },
+      storage,
+    );
+    const samTokenContract = await samSdk.getContract(
+      tokenContract.getAddress(),
+    );
+    const batch = sdk.batch();
+    batch.add(
+      await tokenContract.prepare("mintTo", [
+        samWallet.address,
+        ethers.utils.parseEther("5"),
+      ]),
+      await samTokenContract.prepare("transfer", [
+        bobWallet.address,
+        ethers.utils.parseEther("2"),
+      ]),
+    );
+
+    const results = await batch.execute("sequential");
+    expect(results[0].receipt.from).to.eq(adminWallet.address);
+    expect(results[1].receipt.from).to.eq(samWallet.address);
+    expect(
+      (await tokenContract.erc20.balanceOf(bobWallet.address)).value,
+    ).to.deep.eq(ethers.utils.parseEther("2"));
+  });
+
+  it("should only allow atomic execution of calls to the same contract", async () => {
+    const batch = sdk.batch();
+    batch.add(
+      await tokenContract.prepare("mintTo", [samWallet.address, 1]),
+      await nftContract.prepare("setContractURI", ["ipfs://test"]),
+    );
+    try {
+      await batch.execute("atomic");
+      assert.fail("should not be able to execute atomically");
+    } catch (e) {
+      expectError(e, "cannot be executed atomically");
+    }
+
+    // auto falls back to sending every call as its own transaction
+    const results = await batch.execute();
+    assert.notEqual(
+      results[0].receipt.transactionHash,
+      results[1].receipt.transactionHash,
+    );
+  });
+
+  it("should get the nonces of calls from the transaction queue", async () => {
+    const queue = new TransactionQueue();
+    const queuedSdk = new ThirdwebSDK(
+      adminWallet,
+      { gasSettings: { maxPriceInGwei: 10000 }, transactionQueue: queue },
+      storage,
+    );
+    const queuedToken = await queuedSdk.getContract(tokenContract.getAddress());
+    const queuedNft = await queuedSdk.getContract(nftContract.getAddress());
+    const batch = queuedSdk.batch();
+    batch.add(
+      await queuedToken.prepare("mintTo", [samWallet.address, 1]),
+      await queuedNft.prepare("setContractURI", ["ipfs://test"]),
+    );
+
+    // a transaction of the same wallet sent through the queue while the batch runs
+    const [results, mint] = await Promise.all([
+      batch.execute("sequential"),
+      queuedToken.erc20.mintTo(bobWallet.address, 1),
+    ]);
+    const nonces = await Promise.all(
+      [...results.map((r) => r.receipt), mint.receipt].map(
+        async (receipt) =>
+          (
+            await adminWallet.provider?.getTransaction(receipt.transactionHash)
+          )?.nonce,
+      ),
+    );
+    assert.equal(new Set(nonces).size, 3);
+  });
+
+  it("should return the results of the mined calls when a call fails", async () => {
+    const samSdk = new ThirdwebSDK(
+      samWallet,
+      { gasSettings: { maxPriceInGwei: 10000 } },
+      storage,
+    );
+    const samTokenContract = await samSdk.getContract(
+      tokenContract.getAddress(),
+    );
+    const batch = sdk.batch();
+    batch.add(
+      await tokenContract.prepare("mintTo", [
+        samWallet.address,
+        ethers.utils.parseEther("5"),
+      ]),
+      // more than sam will have
+      await samTokenContract.prepare("transfer", [
+        bobWallet.address,
+        ethers.utils.parseEther("10"),
+      ]),
+      await tokenContract.prepare("mintTo", [
+        bobWallet.address,
+        ethers.utils.parseEther("5"),
+      ]),
+    );
+    try {
+      await batch.execute("sequential");
+      assert.fail("should have thrown");
+    } catch (e) {
+      assert.instanceOf(e, TransactionBatchError);
+      const error = e as TransactionBatchError;
+      expect(error.index).to.eq(1);
+      expect(error.results.length).to.eq(3);
+      expect(error.results[0]?.receipt.from).to.eq(adminWallet.address);
+      expect(error.results[1]).to.eq(undefined);
+      // the calls after the failed one are not sent
+      expect(error.results[2]).to.eq(undefined);
+    }
+    expect(
+      (await tokenContract.erc20.balanceOf(samWallet.address)).value,
+    ).to.deep.eq(ethers.utils.parseEther("5"));
+    expect(
+      (await tokenContract.erc20.balanceOf(bobWallet.address)).value,
+    ).to.deep.eq(ethers.utils.parseEther("0"));
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  ChainId,
+  DEFAULT_CHAINS,
+  getChainBySlug,
+  getNativeTokenByChainId,
+  getProviderForNetwork,
+  NATIVE_TOKENS,
+  registerChain,
+  ThirdwebSDK,
+} from "../../src/evm";
+import { expect } from "chai";
+
+global.fetch = require("cross-fetch");
+
+describe("Chain Registry", async () => {
+  const customChain = {
+    chainId: 1284,
+    name: "Moonbeam",
+    slug: "moonbeam",
+    aliases: ["glmr"],
+    nativeCurrency: {
+      name: "Glimmer",
+      symbol: "GLMR",
+      decimals: 18,
+      wrapped: {
+        address: "0xAcc15dC74880C9944775448304B263D191c6077F",
+        name: "Wrapped Glimmer",
+        symbol: "WGLMR",
+      },
+    },
+    rpc: ["https://rpc.api.moonbeam.network"],
+    testnet: false,
+  };
+
+  before(() => {
+    registerChain(customChain);
+  });
+
+  it("should resolve built-in chains by slug and alias", async () => {
+    expect(getProviderForNetwork("matic")).to.eq(
+      getProviderForNetwork("polygon"),
+    );
+    expect(getProviderForNetwork(ChainId.Polygon)).to.eq(
+      getProviderForNetwork("polygon"),
+    );
+    expect(getNativeTokenByChainId(ChainId.Polygon)).to.eq(
+      NATIVE_TOKENS[ChainId.Polygon],
+    );
+  });
+
+  it("should resolve a registered chain", async () => {
+    expect(getChainBySlug("glmr")?.chainId).to.eq(customChain.chainId);
+    expect(getProviderForNetwork("moonbeam")).to.eq(customChain.rpc[0]);
+    expect(getProviderForNetwork(customChain.chainId)).to.eq(
+      customChain.rpc[0],
+    );
+    expect(getNativeTokenByChainId(customChain.chainId)?.symbol).to.eq("GLMR");
+  });
+
+  it("should match slugs and aliases regardless of case", async () => {
+    registerChain({
+      ...customChain,
+      chainId: 1285,
+      name: "Moonriver",
+      slug: "MoonRiver",
+      aliases: ["MOVR"],
+    });
+    expect(getChainBySlug("moonriver")?.chainId).to.eq(1285);
+    expect(getChainBySlug("Movr")?.chainId).to.eq(1285);
+    expect(getChainBySlug("GLMR")?.chainId).to.eq(customChain.chainId);
+  });
+
+  it("should only use public rpc urls by default", async () => {
+    for (const chain of DEFAULT_CHAINS) {
+      expect(chain.rpc.length).to.be.greaterThan(0);
+      for (const url of chain.rpc) {
+        expect(url).not.to.contain("alchemy.com");
+        expect(url).not.to.contain("infura.io");
+      }
+    }
+  });
+
+  it("should reject unknown chains", async () => {
+    expect(() => new ThirdwebSDK("not-a-chain")).to.throw(
+      "Unrecognized chain name or RPC url",
+    );
+    expect(() => getProviderForNetwork(123456789)).to.throw(
+      "Unrecognized chain id",
+    );
+    expect(() => getNativeTokenByChainId(123456789)).to.throw(
+      "Unrecognized chain id",
+    );
+  });
+
+  it("should pass rpc urls through", async () => {
+    expect(getProviderForNetwork("https://my-rpc.com")).to.eq(
+      "https://my-rpc.com",
+    );
+  });
+});
@@ -3,6 +3,8 @@ import {
   PayloadToSign20,
   SignedPayload721WithQuantitySignature,
   ThirdwebSDK,
+  TransactionResult,
+  TypedAbi,
 } from "../../src/evm";
 import { expectError, signers, sdk } from "./before-setup";
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
@@ -12,7 +14,7 @@ import {
   VoteERC20__factory,
 } from "@thirdweb-dev/contracts-js";
 import { assert, expect } from "chai";
-import { ethers } from "ethers";
+import { BigNumber, BigNumberish, ethers } from "ethers";
 import invariant from "tiny-invariant";
 
 global.fetch = require("cross-fetch");
@@ -143,6 +145,28 @@ describe("Custom Contracts", async () => {
     expect(tx.receipt).to.not.eq(undefined);
   });
 
+  it("should call functions of a contract loaded with a typed ABI", async () => {
+    type TokenTypings = {
+      functions: {
+        balanceOf: { args: [account: string]; result: BigNumber };
+        mintTo: {
+          args: [to: string, amount: BigNumberish];
+          result: TransactionResult;
+        };
+      };
+      events: {
+        Transfer: { from: string; to: string; value: BigNumber };
+      };
+    };
+    const abi = TokenERC20__factory.abi as unknown as TypedAbi<TokenTypings>;
+    const c = await sdk.getContract(tokenContractAddress, abi);
+
+    const tx = await c.call("mintTo", samWallet.address, 100);
+    expect(tx.receipt).to.not.eq(undefined);
+    const balance = await c.call("balanceOf", samWallet.address);
+    expect(balance.toNumber()).to.eq(100);
+  });
+
   it("should fetch published metadata", async () => {
     const c = await realSDK.getContract(customContractAddress);
     invariant(c, "Contract undefined");
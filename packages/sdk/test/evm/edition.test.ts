@@ -183,6 +183,58 @@ describe("Edition Contract", async () => {
     expect(bobOwned[0].quantityOwned).to.be.equal(3);
   });
 
+  it("should get all holders from single and batch transfers", async () => {
+    await bundleContract.mintBatch([
+      {
+        metadata: { name: "Bundle 1" },
+        supply: 10,
+      },
+      {
+        metadata: { name: "Bundle 2" },
+        supply: 5,
+      },
+    ]);
+    await bundleContract.transfer(samWallet.address, 0, 1);
+    const batch = new ethers.Contract(
+      bundleContract.getAddress(),
+      [
+        "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
+      ],
+      adminWallet,
+    );
+    await (
+      await batch.safeBatchTransferFrom(
+        adminWallet.address,
+        bobWallet.address,
+        [0, 1],
+        [3, 2],
+        "0x",
+      )
+    ).wait();
+
+    const holders = await bundleContract.erc1155.getAllHolders();
+    expect(holders).to.be.an("array").length(3);
+    expect(holders[0].holder).to.eq(adminWallet.address);
+    expect(holders[0].balance.toNumber()).to.eq(9);
+    expect(holders[1].holder).to.eq(bobWallet.address);
+    expect(
+      holders[1].tokens.map((t) => [t.tokenId, t.balance.toNumber()]),
+    ).to.deep.eq([
+      ["0", 3],
+      ["1", 2],
+    ]);
+    expect(holders[2].holder).to.eq(samWallet.address);
+    expect(holders[2].balance.toNumber()).to.eq(1);
+
+    const tokenHolders = await bundleContract.erc1155.getAllHolders({
+      tokenId: 1,
+    });
+    expect(tokenHolders.map((h) => h.holder)).to.deep.eq([
+      adminWallet.address,
+      bobWallet.address,
+    ]);
+  });
+
   it("should fail airdrop because not enough NFTs owned", async () => {
     await bundleContract.mint({
       metadata: {
@@ -1,5 +1,6 @@
 import {
   ContractEvent,
+  InMemoryEventCheckpointStore,
   NFTCollection,
   NFTCollectionInitializer,
   NFTDrop,
@@ -112,6 +113,32 @@ describe("Events", async () => {
     expect(events.map((e) => e.eventName)).to.include("TokensLazyMinted");
   });
 
+  it("should not leave errors thrown by listeners unhandled", async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on("unhandledRejection", onUnhandled);
+    let calls = 0;
+    const listener = () => {
+      calls++;
+      throw new Error("listener failed");
+    };
+    const removeListener = dropContract.events.addEventListener(
+      "TokensLazyMinted",
+      listener,
+    );
+    const removeAll = dropContract.events.listenToAllEvents(listener);
+    try {
+      await dropContract.createBatch([{ name: "1" }]);
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+    } finally {
+      removeListener();
+      removeAll();
+      process.off("unhandledRejection", onUnhandled);
+    }
+    expect(calls).to.be.gte(2);
+    expect(unhandled).to.have.length(0);
+  });
+
   it("should emit all Contract events", async () => {
     const events: ContractEvent[] = [];
     const remove = dropContract2.events.listenToAllEvents((event) => {
@@ -158,4 +185,72 @@ describe("Events", async () => {
       events.filter((e) => e.eventName === "TokensMinted").length,
     ).to.be.equal(1);
   });
+
+  it("should index events in chunks and resume from the checkpoint", async () => {
+    const store = new InMemoryEventCheckpointStore();
+    await nftContract.mint({ name: "Test1" });
+    await nftContract.mint({ name: "Test2" });
+
+    const indexer = nftContract.events.createIndexer({
+      eventName: "TokensMinted",
+      chunkSize: 1,
+      store,
+    });
+    const events: ContractEvent[] = [];
+    for await (const event of indexer) {
+      events.push(event);
+    }
+    expect(events.length).to.be.equal(2);
+    const checkpoint = await indexer.getCheckpoint();
+    expect(checkpoint?.blockNumber).to.be.equal(
+      await sdk.getProvider().getBlockNumber(),
+    );
+
+    await nftContract.mint({ name: "Test3" });
+    const newEvents: ContractEvent[] = [];
+    for await (const event of nftContract.events
+      .createIndexer({ eventName: "TokensMinted", store })
+      .catchUp()) {
+      newEvents.push(event);
+    }
+    expect(newEvents.length).to.be.equal(1);
+    expect(newEvents[0].data.tokenIdMinted.toNumber()).to.be.equal(2);
+  });
+
+  it("should catch up then listen to new events", async () => {
+    await nftContract.mint({ name: "Test1" });
+    const events: ContractEvent[] = [];
+    const indexer = nftContract.events.createIndexer({
+      eventName: "TokensMinted",
+    });
+    const remove = await indexer.listen((event) => {
+      events.push(event);
+    });
+    expect(events.length).to.be.equal(1);
+    await nftContract.mint({ name: "Test2" });
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+    remove();
+    expect(events.length).to.be.equal(2);
+  });
+
+  it("should only deliver confirmed events when listening", async () => {
+    await nftContract.mint({ name: "Test1" });
+    await nftContract.mint({ name: "Test2" });
+    const events: ContractEvent[] = [];
+    const indexer = nftContract.events.createIndexer({
+      eventName: "TokensMinted",
+      confirmations: 1,
+    });
+    const remove = await indexer.listen((event) => {
+      events.push(event);
+    });
+    // the block of the last mint is not confirmed yet
+    expect(events.length).to.be.equal(1);
+    await nftContract.mint({ name: "Test3" });
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+    remove();
+    expect(
+      events.map((event) => event.data.tokenIdMinted.toNumber()),
+    ).to.deep.equal([0, 1]);
+  });
 });
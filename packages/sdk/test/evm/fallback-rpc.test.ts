@@ -0,0 +1,210 @@
+import { FallbackRpcProvider, registerChain, ThirdwebSDK } from "../../src/evm";
+import { signers } from "./before-setup";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { assert, expect } from "chai";
+import { providers, utils } from "ethers";
+import http from "http";
+import { AddressInfo } from "net";
+
+global.fetch = require("cross-fetch");
+
+const RPC_URL = "http://localhost:8545";
+
+// An RPC url in front of the local node, requests that `handle` answers don't reach the node
+async function startProxy(
+  handle: (request: any) => Promise<Record<string, any> | undefined>,
+) {
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      const payload = JSON.parse(body);
+      const responses = await Promise.all(
+        (Array.isArray(payload) ? payload : [payload]).map(async (request) => {
+          const handled = await handle(request);
+          if (handled) {
+            return { jsonrpc: "2.0", id: request.id, ...handled };
+          }
+          const response = await fetch(RPC_URL, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(request),
+          });
+          return response.json();
+        }),
+      );
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify(Array.isArray(payload) ? responses : responses[0]),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  return {
+    url: `http://localhost:${(server.address() as AddressInfo).port}`,
+    close: () => server.close(),
+  };
+}
+
+describe("Fallback RPC Provider", async () => {
+  // nothing listens on this port
+  const DEAD_RPC_URL = "http://localhost:1";
+  let adminWallet: SignerWithAddress;
+  let chainId: number;
+
+  before(async () => {
+    [adminWallet] = signers;
+    chainId = await adminWallet.getChainId();
+  });
+
+  it("should require at least one RPC url", async () => {
+    expect(() => new FallbackRpcProvider([], chainId)).to.throw(
+      "FallbackRpcProvider requires at least one RPC url",
+    );
+  });
+
+  it("should fall back to a working RPC url", async () => {
+    const provider = new FallbackRpcProvider([DEAD_RPC_URL, RPC_URL], chainId, {
+      retryDelayMs: 0,
+    });
+    for (let i = 0; i < 5; i++) {
+      assert.isTrue((await provider.getBlockNumber()) >= 0);
+    }
+    const endpoints = await provider.checkHealth();
+    expect(endpoints.find((e) => e.url === RPC_URL)?.healthy).to.eq(true);
+    expect(endpoints.find((e) => e.url === DEAD_RPC_URL)?.healthy).to.eq(false);
+  });
+
+  it("should fail once every RPC url failed", async () => {
+    const provider = new FallbackRpcProvider([DEAD_RPC_URL], chainId, {
+      maxRetries: 1,
+      retryDelayMs: 0,
+    });
+    try {
+      await provider.getBlockNumber();
+      assert.fail("should have thrown");
+    } catch (e) {
+      expect((e as any).code).to.eq("SERVER_ERROR");
+    }
+  });
+
+  it("should require a quorum for contract reads", async () => {
+    const provider = new FallbackRpcProvider(
+      [RPC_URL, "http://127.0.0.1:8545"],
+      chainId,
+      { quorum: 2 },
+    );
+    const balance = await provider.getBalance(adminWallet.address);
+    expect(balance.toString()).to.eq(
+      (
+        await new providers.StaticJsonRpcProvider(RPC_URL).getBalance(
+          adminWallet.address,
+        )
+      ).toString(),
+    );
+
+    const brokenProvider = new FallbackRpcProvider(
+      [RPC_URL, DEAD_RPC_URL],
+      chainId,
+      { quorum: 2 },
+    );
+    try {
+      await brokenProvider.getBalance(adminWallet.address);
+      assert.fail("should have thrown");
+    } catch (e) {
+      expect((e as Error).message).to.contain(
+        "Quorum of 2 RPC urls not reached",
+      );
+    }
+  });
+
+  it("should be used for reads when fallback urls are configured", async () => {
+    const sdk = new ThirdwebSDK(RPC_URL, {
+      readonlySettings: {
+        rpcUrl: DEAD_RPC_URL,
+        chainId,
+        fallbackRpcUrls: [RPC_URL],
+        fallbackSettings: { retryDelayMs: 0 },
+      },
+    });
+    expect(sdk.getProvider()).to.be.instanceOf(FallbackRpcProvider);
+    const balance = await sdk.getProvider().getBalance(adminWallet.address);
+    assert.isTrue(balance.gt(0));
+  });
+
+  it("should make quorum reads at the same block", async () => {
+    // records the requests forwarded to the RPC url
+    const requests: any[] = [];
+    const proxy = await startProxy(async (request) => {
+      requests.push(request);
+      return undefined;
+    });
+    try {
+      const provider = new FallbackRpcProvider([RPC_URL, proxy.url], chainId, {
+        quorum: 2,
+      });
+      await provider.getBalance(adminWallet.address);
+      const reads = requests.filter((r) => r.method === "eth_getBalance");
+      expect(reads).to.have.length(1);
+      expect(reads[0].params[1]).to.match(/^0x[0-9a-f]+$/);
+    } finally {
+      proxy.close();
+    }
+  });
+
+  it("should make quorum reads at a block that the RPC urls know about", async () => {
+    const node = new providers.StaticJsonRpcProvider(RPC_URL);
+    const ahead = await startProxy(async (request) =>
+      request.method === "eth_blockNumber"
+        ? { result: utils.hexValue((await node.getBlockNumber()) + 5) }
+        : undefined,
+    );
+    const lagging = await startProxy(async (request) =>
+      request.method === "eth_getBalance"
+        ? { error: { code: -32000, message: "header not found" } }
+        : undefined,
+    );
+    try {
+      const provider = new FallbackRpcProvider(
+        [ahead.url, RPC_URL, lagging.url],
+        chainId,
+        { quorum: 2 },
+      );
+      for (let i = 0; i < 5; i++) {
+        expect(
+          (await provider.getBalance(adminWallet.address)).toString(),
+        ).to.eq((await node.getBalance(adminWallet.address)).toString());
+      }
+    } finally {
+      ahead.close();
+      lagging.close();
+    }
+  });
+
+  it("should fall back over the RPC urls of registered chains if enabled", async () => {
+    const rpc = [RPC_URL, "http://127.0.0.1:8545"];
+    registerChain({
+      chainId: 8545,
+      name: "Fallback Test Chain",
+      slug: "fallback-test-chain",
+      rpc,
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      testnet: true,
+    });
+    // only the first RPC url is used by default
+    expect(
+      new ThirdwebSDK("fallback-test-chain").getProvider(),
+    ).not.to.be.instanceOf(FallbackRpcProvider);
+
+    const options = { chainFallbackSettings: { retryDelayMs: 0 } };
+    const provider = new ThirdwebSDK(
+      "fallback-test-chain",
+      options,
+    ).getProvider();
+    expect(provider).to.be.instanceOf(FallbackRpcProvider);
+    expect(
+      (provider as FallbackRpcProvider).getEndpoints().map((e) => e.url),
+    ).to.deep.eq(rpc);
+    expect(new ThirdwebSDK(8545, options).getProvider()).to.eq(provider);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  FeeHistoryGasStrategy,
+  FixedGasStrategy,
+  SmartContract,
+  TokenInitializer,
+} from "../../src/evm";
+import { sdk, signers } from "./before-setup";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { assert, expect } from "chai";
+import { ethers } from "ethers";
+
+global.fetch = require("cross-fetch");
+
+describe("Gas Strategies", async () => {
+  let tokenContract: SmartContract;
+  let adminWallet: SignerWithAddress, samWallet: SignerWithAddress;
+
+  before(() => {
+    [adminWallet, samWallet] = signers;
+  });
+
+  beforeEach(async () => {
+    sdk.updateSignerOrProvider(adminWallet);
+    tokenContract = await sdk.getContract(
+      await sdk.deployer.deployBuiltInContract(TokenInitializer.contractType, {
+        name: "Test Token",
+        symbol: "TEST",
+        primary_sale_recipient: adminWallet.address,
+      }),
+    );
+  });
+
+  it("should compute fees from the fee history", async () => {
+    const fees = await new FeeHistoryGasStrategy({ percentile: 90 }).getFees(
+      adminWallet.provider as ethers.providers.Provider,
+    );
+    assert.isTrue("maxFeePerGas" in fees);
+    if ("maxFeePerGas" in fees) {
+      assert.isTrue(fees.maxFeePerGas.gte(fees.maxPriorityFeePerGas));
+    }
+  });
+
+  it("should cap fees from the fee history", async () => {
+    const fees = await new FeeHistoryGasStrategy({
+      maxPriceInGwei: 1,
+      baseFeeMultiplier: 1000,
+    }).getFees(adminWallet.provider as ethers.providers.Provider);
+    if ("maxFeePerGas" in fees) {
+      expect(fees.maxFeePerGas.toString()).to.eq(
+        ethers.utils.parseUnits("1", "gwei").toString(),
+      );
+    }
+  });
+
+  it("should estimate a gas cost range", async () => {
+    const maxFeePerGas = ethers.utils.parseUnits("1000", "gwei");
+    const estimate = await tokenContract.estimator.gasCostRangeOf(
+      "mintTo",
+      [samWallet.address, 1],
+      new FixedGasStrategy({
+        maxFeePerGas,
+        maxPriorityFeePerGas: ethers.utils.parseUnits("2", "gwei"),
+      }),
+    );
+    assert.isTrue(estimate.gasLimit.gt(0));
+    assert.isTrue(parseFloat(estimate.min) <= parseFloat(estimate.expected));
+    assert.isTrue(parseFloat(estimate.expected) <= parseFloat(estimate.max));
+    expect(estimate.max).to.eq(
+      ethers.utils.formatEther(estimate.gasLimit.mul(maxFeePerGas)),
+    );
+  });
+
+  it("should send a transaction with a per call gas strategy", async () => {
+    const maxPriorityFeePerGas = ethers.utils.parseUnits("3", "gwei");
+    const task = await tokenContract.prepare("mintTo", [samWallet.address, 1]);
+    task.overrideGasStrategy(
+      new FixedGasStrategy({
+        maxFeePerGas: ethers.utils.parseUnits("1000", "gwei"),
+        maxPriorityFeePerGas,
+      }),
+    );
+    const { receipt } = await task.execute();
+    const tx = await adminWallet.provider?.getTransaction(
+      receipt.transactionHash,
+    );
+    expect(tx?.maxPriorityFeePerGas?.toString()).to.eq(
+      maxPriorityFeePerGas.toString(),
+    );
+  });
+
+  it("should let explicit fees take precedence over the gas strategy", async () => {
+    const gasPrice = ethers.utils.parseUnits("500", "gwei");
+    const task = await tokenContract.prepare("mintTo", [samWallet.address, 1]);
+    task
+      .overrideGasStrategy(
+        new FixedGasStrategy({
+          maxFeePerGas: ethers.utils.parseUnits("1000", "gwei"),
+          maxPriorityFeePerGas: ethers.utils.parseUnits("3", "gwei"),
+        }),
+      )
+      .overrideGasPrice(gasPrice);
+    const overrides = await task.getCallOverrides();
+    expect(overrides.gasPrice?.toString()).to.eq(gasPrice.toString());
+    expect(overrides.maxFeePerGas).to.eq(undefined);
+  });
+});
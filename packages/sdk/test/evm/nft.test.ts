@@ -71,6 +71,22 @@ describe("NFT Contract", async () => {
     expect(nfts).to.be.an("array").length(2);
   });
 
+  it("should list current holders", async () => {
+    await nftContract.mintBatch([
+      { name: "Test1" },
+      { name: "Test2" },
+      { name: "Test3" },
+    ]);
+    await nftContract.transfer(samWallet.address, 1);
+
+    const holders = await nftContract.erc721.getAllHolders();
+    expect(holders).to.be.an("array").length(2);
+    expect(holders[0].holder).to.eq(adminWallet.address);
+    expect(holders[0].balance.toNumber()).to.eq(2);
+    expect(holders[1].holder).to.eq(samWallet.address);
+    expect(holders[1].tokens.map((t) => t.tokenId)).to.deep.eq(["1"]);
+  });
+
   it("should respect pagination", async () => {
     const nfts = [] as NFTMetadataInput[];
     for (let i = 0; i < 100; i++) {
@@ -276,4 +292,19 @@ describe("NFT Contract", async () => {
     });
     expect(tx.id.toNumber()).to.eq(0);
   });
+
+  it("should throw a validation error for invalid metadata", async () => {
+    const uri = await storage.upload({
+      name: "Test1",
+      background_color: "not a color",
+    });
+    const token = await nftContract.mint(uri);
+    try {
+      await nftContract.get(token.id);
+      expect.fail("should have thrown");
+    } catch (err: any) {
+      expect(err.message).to.contain("[SCHEMA_VALIDATION_ERROR]");
+      expect(err.message).to.contain("background_color: Invalid hex color");
+    }
+  });
 });
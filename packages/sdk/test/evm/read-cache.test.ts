@@ -0,0 +1,138 @@
+import {
+  CacheStore,
+  LruCacheStore,
+  ReadCache,
+  SmartContract,
+  ThirdwebSDK,
+  TokenInitializer,
+} from "../../src/evm";
+import { sdk, signers, storage } from "./before-setup";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+
+global.fetch = require("cross-fetch");
+
+class CountingCacheStore implements CacheStore {
+  public hits = 0;
+  private store = new LruCacheStore();
+
+  public async get(key: string) {
+    const value = await this.store.get(key);
+    if (value !== undefined) {
+      this.hits++;
+    }
+    return value;
+  }
+
+  public async set(key: string, value: string, ttlSeconds: number) {
+    await this.store.set(key, value, ttlSeconds);
+  }
+}
+
+describe("Read Cache", async () => {
+  let tokenAddress: string;
+  let cachedContract: SmartContract;
+  let store: CountingCacheStore;
+  let adminWallet: SignerWithAddress, samWallet: SignerWithAddress;
+
+  before(() => {
+    [adminWallet, samWallet] = signers;
+  });
+
+  beforeEach(async () => {
+    sdk.updateSignerOrProvider(adminWallet);
+    tokenAddress = await sdk.deployer.deployBuiltInContract(
+      TokenInitializer.contractType,
+      {
+        name: "Test Token",
+        symbol: "TEST",
+        primary_sale_recipient: adminWallet.address,
+      },
+    );
+    store = new CountingCacheStore();
+    const cachedSdk = new ThirdwebSDK(
+      adminWallet,
+      { readCache: new ReadCache({ store }) },
+      storage,
+    );
+    cachedContract = await cachedSdk.getContract(tokenAddress);
+  });
+
+  it("should cache contract reads", async () => {
+    const first = await cachedContract.erc20.totalSupply();
+    const hits = store.hits;
+    const second = await cachedContract.erc20.totalSupply();
+    expect(second.displayValue).to.eq(first.displayValue);
+    expect(store.hits).to.be.greaterThan(hits);
+  });
+
+  it("should invalidate reads after a transaction", async () => {
+    expect((await cachedContract.erc20.totalSupply()).displayValue).to.eq(
+      "0.0",
+    );
+    await cachedContract.erc20.mintTo(samWallet.address, 10);
+    expect((await cachedContract.erc20.totalSupply()).displayValue).to.eq(
+      "10.0",
+    );
+  });
+
+  it("should invalidate reads in every process that shares the store", async () => {
+    // another process with its own cache, sharing the store
+    const otherContract = await new ThirdwebSDK(
+      adminWallet,
+      { readCache: new ReadCache({ store }) },
+      storage,
+    ).getContract(tokenAddress);
+    expect((await otherContract.erc20.totalSupply()).displayValue).to.eq("0.0");
+    await cachedContract.erc20.mintTo(samWallet.address, 10);
+    expect((await otherContract.erc20.totalSupply()).displayValue).to.eq(
+      "10.0",
+    );
+  });
+
+  it("should call event listeners when the store fails", async () => {
+    const failingStore: CacheStore = {
+      get: async () => undefined,
+      set: async (key) => {
+        if (key.startsWith("generation:")) {
+          throw new Error("store is down");
+        }
+      },
+    };
+    const failingContract = await new ThirdwebSDK(
+      adminWallet,
+      { readCache: new ReadCache({ store: failingStore }) },
+      storage,
+    ).getContract(tokenAddress);
+
+    const received = new Promise<string>((resolve) => {
+      failingContract.events.addEventListener("TokensMinted", (event) =>
+        resolve(event.data.mintedTo),
+      );
+    });
+    await (
+      await sdk.getContract(tokenAddress)
+    ).erc20.mintTo(samWallet.address, 10);
+    expect(await received).to.eq(samWallet.address);
+    failingContract.events.removeAllListeners();
+  });
+
+  it("should cache contract metadata", async () => {
+    const first = await cachedContract.metadata.get();
+    const hits = store.hits;
+    const second = await cachedContract.metadata.get();
+    expect(second.name).to.eq(first.name);
+    expect(store.hits).to.be.greaterThan(hits);
+  });
+
+  it("should evict the least recently used entries", async () => {
+    const lru = new LruCacheStore(2);
+    await lru.set("a", "1", 60);
+    await lru.set("b", "2", 60);
+    await lru.get("a");
+    await lru.set("c", "3", 60);
+    expect(await lru.get("a")).to.eq("1");
+    expect(await lru.get("b")).to.eq(undefined);
+    expect(await lru.get("c")).to.eq("3");
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  decodeRevertReason,
+  SmartContract,
+  ThirdwebSDK,
+  TokenInitializer,
+  TransactionError,
+} from "../../src/evm";
+import { sdk, signers, storage } from "./before-setup";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { assert, expect } from "chai";
+import { ethers } from "ethers";
+
+global.fetch = require("cross-fetch");
+
+describe("Transaction Simulation", async () => {
+  let tokenContract: SmartContract;
+  let tokenAddress: string;
+  let adminWallet: SignerWithAddress, samWallet: SignerWithAddress;
+
+  before(() => {
+    [adminWallet, samWallet] = signers;
+  });
+
+  beforeEach(async () => {
+    sdk.updateSignerOrProvider(adminWallet);
+    tokenAddress = await sdk.deployer.deployBuiltInContract(
+      TokenInitializer.contractType,
+      {
+        name: "Test Token",
+        symbol: "TEST",
+        primary_sale_recipient: adminWallet.address,
+      },
+    );
+    tokenContract = await sdk.getContract(tokenAddress);
+  });
+
+  it("should return the result of a successful simulation", async () => {
+    const task = await tokenContract.prepare("mintTo", [samWallet.address, 1]);
+    await task.simulate();
+    expect((await tokenContract.erc20.totalSupply()).value.toNumber()).to.eq(0);
+  });
+
+  it("should decode the revert reason of a failed simulation", async () => {
+    sdk.updateSignerOrProvider(samWallet);
+    const task = await tokenContract.prepare("mintTo", [samWallet.address, 1]);
+    try {
+      await task.simulate();
+      assert.fail("should have thrown");
+    } catch (e) {
+      expect(e).to.be.instanceOf(TransactionError);
+      const error = e as TransactionError;
+      expect(error.revert?.name).to.eq("Error");
+      expect(error.reason).to.eq(error.revert?.reason);
+      expect(error.from).to.eq(samWallet.address);
+      expect(error.functionInfo?.signature).to.eq("mintTo(address,uint256)");
+    }
+  });
+
+  it("should load the error ABI once and give up on it after a timeout", async () => {
+    sdk.updateSignerOrProvider(samWallet);
+    let loads = 0;
+    (tokenContract as any).contractWrapper.withErrorAbi(() => {
+      loads++;
+      // never resolves, like a metadata fetch that hangs
+      return new Promise(() => undefined);
+    });
+    for (let i = 0; i < 2; i++) {
+      const task = await tokenContract.prepare("mintTo", [
+        samWallet.address,
+        1,
+      ]);
+      try {
+        await task.simulate();
+        assert.fail("should have thrown");
+      } catch (e) {
+        expect(e).to.be.instanceOf(TransactionError);
+      }
+    }
+    expect(loads).to.eq(1);
+  });
+
+  it("should simulate every write when enabled", async () => {
+    const simulatingSdk = new ThirdwebSDK(
+      samWallet,
+      { simulateTransactions: true },
+      storage,
+    );
+    const contract = await simulatingSdk.getContract(tokenAddress);
+    const nonce = await samWallet.getTransactionCount();
+    try {
+      await contract.call("mintTo", samWallet.address, 1);
+      assert.fail("should have thrown");
+    } catch (e) {
+      expect(e).to.be.instanceOf(TransactionError);
+    }
+    // nothing was sent
+    expect(await samWallet.getTransactionCount()).to.eq(nonce);
+  });
+
+  it("should decode panic codes and custom errors", async () => {
+    const panic = ethers.utils.hexConcat([
+      "0x4e487b71",
+      ethers.utils.defaultAbiCoder.encode(["uint256"], [0x11]),
+    ]);
+    expect(decodeRevertReason(panic)?.reason).to.eq(
+      "Panic: arithmetic overflow or underflow",
+    );
+
+    const contractInterface = new ethers.utils.Interface([
+      "error InsufficientBalance(uint256 available, uint256 required)",
+    ]);
+    const custom = contractInterface.encodeErrorResult(
+      "InsufficientBalance",
+      [1, 2],
+    );
+    const revert = decodeRevertReason(custom, [contractInterface]);
+    expect(revert?.name).to.eq("InsufficientBalance");
+    expect(revert?.args.required.toNumber()).to.eq(2);
+    expect(revert?.reason).to.eq("InsufficientBalance(1, 2)");
+  });
+});
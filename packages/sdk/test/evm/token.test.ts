@@ -83,6 +83,26 @@ describe("Token Contract", async () => {
     ).to.eq("8.0");
   });
 
+  it("should list holders at a past block", async () => {
+    await currencyContract.mint(20);
+    const tx = await currencyContract.transfer(samWallet.address, "10");
+    await currencyContract.transfer(bobWallet.address, "5");
+
+    const holders = await currencyContract.history.getAllHolderBalances({
+      atBlock: tx.receipt.blockNumber,
+    });
+    expect(holders.length).to.eq(2);
+    expect(
+      holders.find((h) => h.holder === adminWallet.address)?.balance
+        .displayValue,
+    ).to.eq("10.0");
+
+    const [top] = await currencyContract.history.getAllHolderBalances({
+      count: 1,
+    });
+    expect(top.holder).to.eq(samWallet.address);
+  });
+
   it("should burn tokens", async () => {
     await currencyContract.mint(20);
     assert.deepEqual(
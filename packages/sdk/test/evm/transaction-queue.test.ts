@@ -0,0 +1,182 @@
+import {
+  ThirdwebSDK,
+  Token,
+  TokenInitializer,
+  TransactionQueue,
+} from "../../src/evm";
+import { signers, storage } from "./before-setup";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { assert, expect } from "chai";
+import { BigNumber, providers } from "ethers";
+
+global.fetch = require("cross-fetch");
+
+describe("Transaction Queue", async () => {
+  let queue: TransactionQueue;
+  let tokenContract: Token;
+
+  let adminWallet: SignerWithAddress,
+    samWallet: SignerWithAddress,
+    bobWallet: SignerWithAddress;
+
+  before(() => {
+    [adminWallet, samWallet, bobWallet] = signers;
+  });
+
+  beforeEach(async () => {
+    queue = new TransactionQueue({ concurrency: 2 });
+    const sdk = new ThirdwebSDK(
+      adminWallet,
+      {
+        gasSettings: {
+          maxPriceInGwei: 10000,
+        },
+        transactionQueue: queue,
+      },
+      storage,
+    );
+    tokenContract = await sdk.getToken(
+      await sdk.deployer.deployBuiltInContract(TokenInitializer.contractType, {
+        name: "Test Token",
+        symbol: "TEST",
+        primary_sale_recipient: adminWallet.address,
+      }),
+    );
+  });
+
+  it("should send concurrent transactions without nonce collisions", async () => {
+    const recipients = [
+      samWallet.address,
+      bobWallet.address,
+      samWallet.address,
+      bobWallet.address,
+      samWallet.address,
+    ];
+    const results = await Promise.all(
+      recipients.map((recipient) => tokenContract.mintTo(recipient, 1)),
+    );
+    const nonces = new Set(
+      await Promise.all(
+        results.map(
+          async (r) =>
+            (
+              await adminWallet.provider?.getTransaction(
+                r.receipt.transactionHash,
+              )
+            )?.nonce,
+        ),
+      ),
+    );
+    assert.equal(nonces.size, recipients.length);
+    expect(
+      (await tokenContract.balanceOf(samWallet.address)).displayValue,
+    ).to.eq("3.0");
+    expect(
+      (await tokenContract.balanceOf(bobWallet.address)).displayValue,
+    ).to.eq("2.0");
+    assert.equal(
+      queue.getPendingCount(
+        adminWallet.address,
+        await adminWallet.getChainId(),
+      ),
+      0,
+    );
+  });
+
+  it("should emit the transaction lifecycle", async () => {
+    const statuses: string[] = [];
+    tokenContract.events.addTransactionListener((event) => {
+      statuses.push(event.status);
+    });
+    await tokenContract.mintTo(samWallet.address, 1);
+    expect(statuses).to.deep.eq(["submitted", "completed"]);
+  });
+
+  it("should recover from nonces used outside of the queue", async () => {
+    await tokenContract.mintTo(samWallet.address, 1);
+    await adminWallet.sendTransaction({ to: bobWallet.address, value: 1 });
+    await tokenContract.mintTo(samWallet.address, 1);
+    await tokenContract.mintTo(samWallet.address, 1);
+    expect(
+      (await tokenContract.balanceOf(samWallet.address)).displayValue,
+    ).to.eq("3.0");
+  });
+
+  it("should not leave nonce gaps when a transaction fails to send", async () => {
+    const nonce = await adminWallet.getTransactionCount();
+    // reverts when estimating gas, before it is sent
+    const failing = { to: tokenContract.getAddress(), data: "0xdeadbeef" };
+    try {
+      await queue.send(adminWallet, failing);
+      assert.fail("should have thrown");
+    } catch (e) {
+      expect((e as any).code).to.eq("UNPREDICTABLE_GAS_LIMIT");
+    }
+    // the next transaction takes the nonce again
+    const receipt = await queue.send(adminWallet, {
+      to: bobWallet.address,
+      value: 1,
+    });
+    expect(
+      (await adminWallet.provider?.getTransaction(receipt.transactionHash))
+        ?.nonce,
+    ).to.eq(nonce);
+
+    // a later transaction is already in flight, so the nonce gets used right away
+    const [failed, sent] = await Promise.allSettled([
+      queue.send(adminWallet, failing),
+      queue.send(adminWallet, { to: bobWallet.address, value: 1 }),
+    ]);
+    expect(failed.status).to.eq("rejected");
+    expect(sent.status).to.eq("fulfilled");
+    expect(await adminWallet.getTransactionCount()).to.eq(nonce + 3);
+  });
+
+  it("should replace transactions that are stuck", async () => {
+    const stuckQueue = new TransactionQueue({
+      stuckTimeoutSeconds: 0.1,
+      pollingInterval: 100,
+      maxReplacements: 1,
+    });
+    const provider = adminWallet.provider as providers.JsonRpcProvider;
+    const nonce = await adminWallet.getTransactionCount();
+    const updates: { status: string; hash: string }[] = [];
+    // the stuck transaction is dropped once replaced, so it is fetched right away
+    let stuck: Promise<providers.TransactionResponse> | undefined;
+
+    // transactions stay pending until a block gets mined
+    await provider.send("evm_setAutomine", [false]);
+    let receipt: providers.TransactionReceipt;
+    try {
+      receipt = await stuckQueue.send(
+        adminWallet,
+        { to: bobWallet.address, value: 1 },
+        (status, hash) => {
+          updates.push({ status, hash });
+          if (status === "submitted") {
+            stuck = provider.getTransaction(hash);
+          }
+          if (status === "replaced") {
+            provider.send("evm_mine", []);
+          }
+        },
+      );
+    } finally {
+      await provider.send("evm_setAutomine", [true]);
+    }
+
+    expect(updates.map((update) => update.status)).to.deep.eq([
+      "submitted",
+      "replaced",
+      "completed",
+    ]);
+    const stuckTransaction = await stuck;
+    const replacement = await provider.getTransaction(updates[1].hash);
+    expect(receipt.transactionHash).to.eq(replacement.hash);
+    expect(replacement.nonce).to.eq(nonce);
+    expect(stuckTransaction?.nonce).to.eq(nonce);
+    assert.isTrue(
+      replacement.maxFeePerGas?.gt(stuckTransaction?.maxFeePerGas as BigNumber),
+    );
+  });
+});
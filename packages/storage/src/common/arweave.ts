@@ -0,0 +1,202 @@
+import { DataItemSigner, DataItemTag } from "../types";
+import { getSubtleCrypto } from "./utils";
+
+/**
+ * A signed ANS-104 data item
+ * @internal
+ */
+export type DataItem = {
+  id: string;
+  raw: Uint8Array;
+};
+
+const BUNDLE_TAGS: DataItemTag[] = [
+  { name: "Bundle-Format", value: "binary" },
+  { name: "Bundle-Version", value: "2.0.0" },
+];
+
+/**
+ * @internal
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * @internal
+ */
+export function fromBase64Url(base64Url: string): Uint8Array {
+  const binary = atob(base64Url.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Create and sign an ANS-104 data item
+ * @internal
+ */
+export async function createDataItem(
+  data: Uint8Array,
+  signer: DataItemSigner,
+  tags: DataItemTag[] = [],
+): Promise<DataItem> {
+  const encoder = new TextEncoder();
+  const tagBytes = encodeTags(tags);
+  const signature = await signer.sign(
+    await deepHash([
+      encoder.encode("dataitem"),
+      encoder.encode("1"),
+      encoder.encode(signer.signatureType.toString()),
+      signer.publicKey,
+      // no target nor anchor
+      new Uint8Array(0),
+      new Uint8Array(0),
+      tagBytes,
+      data,
+    ]),
+  );
+
+  const raw = concatBytes([
+    uint(signer.signatureType, 2),
+    signature,
+    signer.publicKey,
+    // target and anchor presence flags
+    new Uint8Array([0]),
+    new Uint8Array([0]),
+    uint(tags.length, 8),
+    uint(tagBytes.length, 8),
+    tagBytes,
+    data,
+  ]);
+  return { id: toBase64Url(await digest("SHA-256", signature)), raw };
+}
+
+/**
+ * Bundle data items into a single ANS-104 data item, that bundlers and gateways unpack
+ * @internal
+ */
+export async function createBundleDataItem(
+  items: DataItem[],
+  signer: DataItemSigner,
+): Promise<DataItem> {
+  const headers = items.map((item) =>
+    concatBytes([uint(item.raw.length, 32), fromBase64Url(item.id)]),
+  );
+  const bundle = concatBytes([
+    uint(items.length, 32),
+    ...headers,
+    ...items.map((item) => item.raw),
+  ]);
+  return createDataItem(bundle, signer, BUNDLE_TAGS);
+}
+
+/**
+ * Create a path manifest, so that files can be downloaded by name like from an IPFS directory
+ * @internal
+ */
+export function createPathManifest(files: Record<string, string>): string {
+  return JSON.stringify({
+    manifest: "arweave/paths",
+    version: "0.1.0",
+    paths: Object.fromEntries(
+      Object.entries(files).map(([name, id]) => [name, { id }]),
+    ),
+  });
+}
+
+/**
+ * The hash that data items sign, as defined by Arweave
+ */
+async function deepHash(data: Uint8Array | Uint8Array[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  if (Array.isArray(data)) {
+    let acc = await digest(
+      "SHA-384",
+      concatBytes([
+        encoder.encode("list"),
+        encoder.encode(data.length.toString()),
+      ]),
+    );
+    for (const chunk of data) {
+      acc = await digest("SHA-384", concatBytes([acc, await deepHash(chunk)]));
+    }
+    return acc;
+  }
+  const tag = concatBytes([
+    encoder.encode("blob"),
+    encoder.encode(data.byteLength.toString()),
+  ]);
+  return digest(
+    "SHA-384",
+    concatBytes([await digest("SHA-384", tag), await digest("SHA-384", data)]),
+  );
+}
+
+/**
+ * Tags are encoded as an Avro array of `{ name: bytes, value: bytes }` records
+ */
+function encodeTags(tags: DataItemTag[]): Uint8Array {
+  if (tags.length === 0) {
+    return new Uint8Array(0);
+  }
+  const encoder = new TextEncoder();
+  const parts = [avroLong(tags.length)];
+  for (const tag of tags) {
+    const name = encoder.encode(tag.name);
+    const value = encoder.encode(tag.value);
+    parts.push(avroLong(name.length), name, avroLong(value.length), value);
+  }
+  // end of the array
+  parts.push(avroLong(0));
+  return concatBytes(parts);
+}
+
+function avroLong(value: number): Uint8Array {
+  const bytes: number[] = [];
+  // zigzag encoding, tag counts and lengths are never negative
+  let n = value * 2;
+  while (n >= 0x80) {
+    bytes.push(n % 0x80 | 0x80);
+    n = Math.floor(n / 0x80);
+  }
+  bytes.push(n);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Little endian unsigned integer
+ */
+function uint(value: number, size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  let n = value;
+  for (let i = 0; i < size && n > 0; i++) {
+    bytes[i] = n % 256;
+    n = Math.floor(n / 256);
+  }
+  return bytes;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function digest(
+  algorithm: "SHA-256" | "SHA-384",
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  return new Uint8Array(await getSubtleCrypto().digest(algorithm, data));
+}
@@ -0,0 +1,431 @@
+import { CidVersion } from "../types";
+import { encodePath } from "./utils";
+import * as dagPb from "@ipld/dag-pb";
+import { murmur3128 } from "@multiformats/murmur3";
+import { UnixFS } from "ipfs-unixfs";
+import { CID } from "multiformats/cid";
+import * as raw from "multiformats/codecs/raw";
+import { sha256 } from "multiformats/hashes/sha2";
+
+/**
+ * The size of the blocks that files are split into, same chunking as `ipfs add` and the upload server
+ * @internal
+ */
+export const BLOCK_SIZE = 262144;
+const MAX_CHILDREN_PER_NODE = 174;
+/**
+ * Directories are sharded into a HAMT once the names and CIDs of their links add up to this size, same as kubo
+ */
+const HAMT_SHARDING_SIZE = 262144;
+const HAMT_FANOUT = 256;
+
+/**
+ * @internal
+ */
+export type DagNode = {
+  cid: CID;
+  /**
+   * The size of the node and all of its children in bytes
+   */
+  size: number;
+  /**
+   * The size of the file content in bytes
+   */
+  fileSize: number;
+  /**
+   * The encoded block of the node
+   */
+  block: Uint8Array;
+  /**
+   * The subdirectories and HAMT shards that a directory links to, so that every block of a directory can be stored
+   */
+  directories?: DagNode[];
+};
+
+/**
+ * @internal
+ */
+export type DirectoryEntry = {
+  name: string;
+  node: DagNode;
+};
+
+/**
+ * Build the UnixFS DAG of a file and return its root, with a balanced layout like `ipfs add`
+ * @internal
+ */
+export async function buildFileNode(
+  content: Uint8Array,
+  cidVersion: CidVersion = 0,
+  // files are stored as raw blocks by default with CIDv1
+  rawLeaves = cidVersion === 1,
+): Promise<DagNode> {
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < content.length; i += BLOCK_SIZE) {
+    chunks.push(content.subarray(i, i + BLOCK_SIZE));
+  }
+  if (chunks.length === 0) {
+    chunks.push(new Uint8Array(0));
+  }
+
+  let nodes = await Promise.all(
+    chunks.map((chunk) => buildLeafNode(chunk, cidVersion, rawLeaves)),
+  );
+  while (nodes.length > 1) {
+    const parents: DagNode[] = [];
+    for (let i = 0; i < nodes.length; i += MAX_CHILDREN_PER_NODE) {
+      parents.push(
+        await buildParentNode(
+          nodes.slice(i, i + MAX_CHILDREN_PER_NODE),
+          cidVersion,
+        ),
+      );
+    }
+    nodes = parents;
+  }
+  return nodes[0];
+}
+
+/**
+ * Build the UnixFS node of a directory containing the given entries,
+ * sharded into a HAMT like kubo does when it has too many entries to fit in a single block
+ * @internal
+ */
+export async function buildDirectoryNode(
+  entries: DirectoryEntry[],
+  cidVersion: CidVersion = 0,
+): Promise<DagNode> {
+  const encoder = new TextEncoder();
+  const estimatedSize = entries.reduce(
+    (total, entry) =>
+      total + encoder.encode(entry.name).length + entry.node.cid.bytes.length,
+    0,
+  );
+  if (estimatedSize >= HAMT_SHARDING_SIZE) {
+    const hashed = await Promise.all(
+      entries.map(async (entry) => ({
+        ...entry,
+        hash: await hashShardKey(entry.name),
+      })),
+    );
+    return buildShardNode(hashed, 0, cidVersion);
+  }
+
+  const directory = new UnixFS({ type: "directory" });
+  return {
+    ...(await buildNode(
+      directory.marshal(),
+      entries.map((entry) => ({
+        Hash: entry.node.cid,
+        Name: entry.name,
+        Tsize: entry.node.size,
+      })),
+      entries.reduce((total, entry) => total + entry.node.size, 0),
+      0,
+      cidVersion,
+    )),
+    directories: entries
+      .map((entry) => entry.node)
+      .filter((node) => node.directories !== undefined),
+  };
+}
+
+/**
+ * Build the UnixFS node of a directory from entries named by their path, like `images/0.png`,
+ * nesting the entries in subdirectories the same way as `ipfs add --recursive`
+ * @internal
+ */
+export async function buildDirectoryTree(
+  entries: DirectoryEntry[],
+  cidVersion: CidVersion = 0,
+): Promise<DagNode> {
+  const files: DirectoryEntry[] = [];
+  const subdirectories = new Map<string, DirectoryEntry[]>();
+  for (const entry of entries) {
+    const separator = entry.name.indexOf("/");
+    if (separator === -1) {
+      files.push(entry);
+      continue;
+    }
+    const name = entry.name.slice(0, separator);
+    const children = subdirectories.get(name) || [];
+    children.push({ name: entry.name.slice(separator + 1), node: entry.node });
+    subdirectories.set(name, children);
+  }
+
+  const directories = await Promise.all(
+    Array.from(subdirectories.entries()).map(async ([name, children]) => {
+      if (files.some((file) => file.name === name)) {
+        throw new Error(
+          `[INVALID_PATH_ERROR] ${name} can't be both a file and a directory`,
+        );
+      }
+      return { name, node: await buildDirectoryTree(children, cidVersion) };
+    }),
+  );
+  return buildDirectoryNode([...files, ...directories], cidVersion);
+}
+
+/**
+ * Compute the URIs of files uploaded to IPFS, wrapped in a directory of the entries unless uploaded without directory
+ * @internal
+ */
+export async function computeIpfsUris(
+  entries: DirectoryEntry[],
+  fileNames: string[],
+  options?: { uploadWithoutDirectory?: boolean; cidVersion?: CidVersion },
+): Promise<string[]> {
+  if (options?.uploadWithoutDirectory) {
+    return [`ipfs://${entries[0].node.cid.toString()}`];
+  }
+  const directory = await buildDirectoryTree(entries, options?.cidVersion || 0);
+  return fileNames.map(
+    (name) => `ipfs://${directory.cid.toString()}/${encodePath(name)}`,
+  );
+}
+
+/**
+ * Check that the content of a file matches its CID
+ * @remarks Files stored as several blocks are checked by computing their CID again, with the default chunking.
+ * @internal
+ */
+export async function isContentOfCid(
+  content: Uint8Array,
+  cid: CID,
+): Promise<boolean> {
+  if (cid.code === raw.code) {
+    return isBlockOfCid(content, cid);
+  }
+  if (cid.version === 0) {
+    return (await buildFileNode(content, 0)).cid.equals(cid);
+  }
+  // CIDv1 files can be stored with or without raw blocks
+  return (
+    (await buildFileNode(content, 1, true)).cid.equals(cid) ||
+    (await buildFileNode(content, 1, false)).cid.equals(cid)
+  );
+}
+
+/**
+ * Check that a single block matches its CID
+ * @internal
+ */
+export async function isBlockOfCid(
+  block: Uint8Array,
+  cid: CID,
+): Promise<boolean> {
+  if (cid.multihash.code !== sha256.code) {
+    return false;
+  }
+  const digest = await sha256.digest(block);
+  return (
+    digest.digest.length === cid.multihash.digest.length &&
+    digest.digest.every((byte, i) => byte === cid.multihash.digest[i])
+  );
+}
+
+/**
+ * Find the CID of a path inside of a directory, checking every directory block on the way
+ * @param cid - the CID of the root directory
+ * @param path - the names of the nested directories and file
+ * @param fetchBlock - fetches a block by CID
+ * @returns the CID of the path, or undefined if a block was tampered with or the path does not exist
+ * @internal
+ */
+export async function resolveCidPath(
+  cid: CID,
+  path: string[],
+  fetchBlock: (cid: CID) => Promise<Uint8Array>,
+): Promise<CID | undefined> {
+  let current = cid;
+  for (const name of path) {
+    if (current.code !== dagPb.code) {
+      return undefined;
+    }
+    const block = await fetchBlock(current);
+    if (!(await isBlockOfCid(block, current))) {
+      return undefined;
+    }
+    const node = dagPb.decode(block);
+    const next =
+      node.Data && UnixFS.unmarshal(node.Data).type === "hamt-sharded-directory"
+        ? await findShardLink(node, name, fetchBlock)
+        : node.Links.find((l) => l.Name === name)?.Hash;
+    if (!next) {
+      return undefined;
+    }
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Build a HAMT shard of a directory, the same way as kubo: every level splits the entries by the next byte of the
+ * hash of their name, and the entries that share a slot with another entry are moved to a shard of their own
+ */
+async function buildShardNode(
+  entries: (DirectoryEntry & { hash: Uint8Array })[],
+  depth: number,
+  cidVersion: CidVersion,
+): Promise<DagNode> {
+  if (depth >= entries[0].hash.length) {
+    throw new Error(
+      "[HAMT_COLLISION_ERROR] Directory entries have the same hash, they can't be sharded",
+    );
+  }
+  const slots: (DirectoryEntry & { hash: Uint8Array })[][] = [];
+  entries.forEach((entry) => {
+    const slot = entry.hash[depth];
+    slots[slot] = slots[slot] || [];
+    slots[slot].push(entry);
+  });
+
+  const links: dagPb.PBLink[] = [];
+  const directories: DagNode[] = [];
+  // the bitfield of the used slots, as a big-endian number without leading zeros
+  const bitfield = new Uint8Array(HAMT_FANOUT / 8);
+  for (let slot = 0; slot < HAMT_FANOUT; slot++) {
+    const slotEntries = slots[slot];
+    if (!slotEntries) {
+      continue;
+    }
+    bitfield[bitfield.length - 1 - (slot >> 3)] |= 1 << (slot & 7);
+    if (slotEntries.length === 1) {
+      const [entry] = slotEntries;
+      links.push({
+        Hash: entry.node.cid,
+        Name: shardPrefix(slot) + entry.name,
+        Tsize: entry.node.size,
+      });
+      if (entry.node.directories) {
+        directories.push(entry.node);
+      }
+    } else {
+      const shard = await buildShardNode(slotEntries, depth + 1, cidVersion);
+      links.push({
+        Hash: shard.cid,
+        Name: shardPrefix(slot),
+        Tsize: shard.size,
+      });
+      directories.push(shard);
+    }
+  }
+
+  const firstUsedByte = bitfield.findIndex((byte) => byte !== 0);
+  const shard = new UnixFS({
+    type: "hamt-sharded-directory",
+    data: bitfield.subarray(
+      firstUsedByte === -1 ? bitfield.length : firstUsedByte,
+    ),
+    fanout: HAMT_FANOUT,
+    hashType: murmur3128.code,
+  });
+  return {
+    ...(await buildNode(
+      shard.marshal(),
+      links,
+      links.reduce((total, link) => total + (link.Tsize || 0), 0),
+      0,
+      cidVersion,
+    )),
+    directories,
+  };
+}
+
+/**
+ * Find the link of a name in a HAMT shard, checking every shard block on the way
+ */
+async function findShardLink(
+  shard: dagPb.PBNode,
+  name: string,
+  fetchBlock: (cid: CID) => Promise<Uint8Array>,
+): Promise<CID | undefined> {
+  const hash = await hashShardKey(name);
+  let node = shard;
+  for (let depth = 0; depth < hash.length; depth++) {
+    const prefix = shardPrefix(hash[depth]);
+    const link = node.Links.find((l) => l.Name === prefix + name);
+    if (link) {
+      return link.Hash;
+    }
+    const subshard = node.Links.find((l) => l.Name === prefix);
+    if (!subshard) {
+      return undefined;
+    }
+    const block = await fetchBlock(subshard.Hash);
+    if (!(await isBlockOfCid(block, subshard.Hash))) {
+      return undefined;
+    }
+    node = dagPb.decode(block);
+  }
+  return undefined;
+}
+
+// kubo only uses the first 64 bits of the murmur3 hash of the names
+async function hashShardKey(name: string): Promise<Uint8Array> {
+  const hash = await murmur3128.digest(new TextEncoder().encode(name));
+  return hash.digest.subarray(0, 8);
+}
+
+// the links of a shard are prefixed by their slot, as uppercase hex
+function shardPrefix(slot: number): string {
+  return `0${slot.toString(16).toUpperCase()}`.slice(-2);
+}
+
+async function buildLeafNode(
+  chunk: Uint8Array,
+  cidVersion: CidVersion,
+  rawLeaves: boolean,
+): Promise<DagNode> {
+  if (rawLeaves) {
+    return {
+      cid: CID.create(1, raw.code, await sha256.digest(chunk)),
+      size: chunk.length,
+      fileSize: chunk.length,
+      block: chunk,
+    };
+  }
+  const file = new UnixFS({ type: "file", data: chunk });
+  return buildNode(file.marshal(), [], 0, chunk.length, cidVersion);
+}
+
+async function buildParentNode(
+  children: DagNode[],
+  cidVersion: CidVersion,
+): Promise<DagNode> {
+  const file = new UnixFS({ type: "file" });
+  for (const child of children) {
+    file.addBlockSize(child.fileSize);
+  }
+  return buildNode(
+    file.marshal(),
+    children.map((child) => ({
+      Hash: child.cid,
+      Name: "",
+      Tsize: child.size,
+    })),
+    children.reduce((total, child) => total + child.size, 0),
+    file.fileSize(),
+    cidVersion,
+  );
+}
+
+async function buildNode(
+  data: Uint8Array,
+  links: dagPb.PBLink[],
+  linksSize: number,
+  fileSize: number,
+  cidVersion: CidVersion,
+): Promise<DagNode> {
+  const block = dagPb.encode(dagPb.prepare({ Data: data, Links: links }));
+  const digest = await sha256.digest(block);
+  return {
+    cid:
+      cidVersion === 0
+        ? CID.createV0(digest)
+        : CID.createV1(dagPb.code, digest),
+    size: block.length + linksSize,
+    fileSize,
+    block,
+  };
+}
@@ -0,0 +1,262 @@
+import {
+  EncryptedEnvelope,
+  EncryptionKey,
+  FileOrBufferOrString,
+} from "../types";
+import { sniffMimeType } from "./media";
+import {
+  fromBase64,
+  getContentType,
+  getRandomBytes,
+  getSubtleCrypto,
+  toBase64,
+  toBytes,
+  withFileContent,
+} from "./utils";
+
+const DEFAULT_ITERATIONS = 310000;
+// envelopes are downloaded, so they could ask for enough iterations to block the CPU for minutes
+const MIN_ITERATIONS = 1000;
+const MAX_ITERATIONS = 2000000;
+// the number of derived keys kept around
+const MAX_CACHED_KEYS = 16;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * Envelope encryption of uploaded content, every file is encrypted with its own random key,
+ * which is then encrypted with the configured key and stored next to the content
+ * @internal
+ */
+export class EnvelopeEncryption {
+  private encryptionKey: EncryptionKey;
+  // the derived keys by their salt, so that every password is only derived once
+  private keys = new Map<string, Promise<CryptoKey>>();
+  private salt: string;
+
+  constructor(encryptionKey: EncryptionKey) {
+    this.encryptionKey = encryptionKey;
+    this.salt = toBase64(getRandomBytes(SALT_LENGTH));
+  }
+
+  /**
+   * Replace every file with its encrypted envelope, keeping the file names
+   */
+  async encryptFiles(
+    files: FileOrBufferOrString[],
+  ): Promise<FileOrBufferOrString[]> {
+    return Promise.all(
+      files.map(async (file) => {
+        const content = await toBytes(file);
+        const envelope = JSON.stringify(
+          await this.encrypt(
+            content,
+            sniffMimeType(content) || getContentType(file),
+          ),
+        );
+        if (typeof file === "string") {
+          return envelope;
+        }
+        return withFileContent(
+          file,
+          new TextEncoder().encode(envelope),
+          "application/json",
+        );
+      }),
+    );
+  }
+
+  async encrypt(
+    content: Uint8Array,
+    contentType?: string,
+  ): Promise<EncryptedEnvelope> {
+    const kdf =
+      "password" in this.encryptionKey
+        ? {
+            name: "PBKDF2" as const,
+            hash: "SHA-256" as const,
+            iterations:
+              this.encryptionKey.iterations !== undefined
+                ? this.encryptionKey.iterations
+                : DEFAULT_ITERATIONS,
+            salt: this.salt,
+          }
+        : undefined;
+    if (kdf && !isValidIterationCount(kdf.iterations)) {
+      throw new Error(
+        `[ENCRYPTION_ERROR] The number of PBKDF2 iterations must be between ${MIN_ITERATIONS} and ${MAX_ITERATIONS}, got ${kdf.iterations}`,
+      );
+    }
+    const key = await this.getKey(kdf);
+
+    const subtle = getSubtleCrypto();
+    const contentKey = getRandomBytes(KEY_LENGTH);
+    const iv = getRandomBytes(IV_LENGTH);
+    const ciphertext = await subtle.encrypt(
+      { name: "AES-GCM", iv },
+      await importAesKey(contentKey),
+      content,
+    );
+    const keyIv = getRandomBytes(IV_LENGTH);
+    const encryptedKey = await subtle.encrypt(
+      { name: "AES-GCM", iv: keyIv },
+      key,
+      contentKey,
+    );
+
+    return {
+      encryption: {
+        version: 1,
+        algorithm: "AES-256-GCM",
+        kdf,
+        encryptedKey: toBase64(new Uint8Array(encryptedKey)),
+        keyIv: toBase64(keyIv),
+        iv: toBase64(iv),
+        contentType,
+      },
+      ciphertext: toBase64(new Uint8Array(ciphertext)),
+    };
+  }
+
+  async decrypt(envelope: EncryptedEnvelope): Promise<Uint8Array> {
+    const { encryption } = envelope;
+    const { kdf } = encryption;
+    if (
+      kdf &&
+      (kdf.name !== "PBKDF2" ||
+        kdf.hash !== "SHA-256" ||
+        !isValidIterationCount(kdf.iterations) ||
+        typeof kdf.salt !== "string" ||
+        fromBase64(kdf.salt).length !== SALT_LENGTH)
+    ) {
+      throw new Error(
+        "[DECRYPTION_ERROR] Content was encrypted with unsupported key derivation settings",
+      );
+    }
+    const key = await this.getKey(kdf);
+    const subtle = getSubtleCrypto();
+    try {
+      const contentKey = await subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(encryption.keyIv) },
+        key,
+        fromBase64(encryption.encryptedKey),
+      );
+      const content = await subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(encryption.iv) },
+        await importAesKey(new Uint8Array(contentKey)),
+        fromBase64(envelope.ciphertext),
+      );
+      return new Uint8Array(content);
+    } catch (err) {
+      throw new Error(
+        "[DECRYPTION_ERROR] Failed to decrypt content - the encryption key is wrong or the content was tampered with",
+      );
+    }
+  }
+
+  private getKey(kdf: EncryptedEnvelope["encryption"]["kdf"]) {
+    const cacheKey = kdf ? `${kdf.salt}:${kdf.iterations}` : "";
+    let key = this.keys.get(cacheKey);
+    if (!key) {
+      if (this.keys.size >= MAX_CACHED_KEYS) {
+        // maps iterate in insertion order, so this is the oldest key
+        this.keys.delete(this.keys.keys().next().value);
+      }
+      key = this.importKey(kdf);
+      this.keys.set(cacheKey, key);
+      // a failed derivation can be tried again
+      key.catch(() => this.keys.delete(cacheKey));
+    }
+    return key;
+  }
+
+  private async importKey(
+    kdf: EncryptedEnvelope["encryption"]["kdf"],
+  ): Promise<CryptoKey> {
+    if ("password" in this.encryptionKey) {
+      if (!kdf) {
+        throw new Error(
+          "[DECRYPTION_ERROR] Content was encrypted with a key, not with a password",
+        );
+      }
+      const subtle = getSubtleCrypto();
+      const password = await subtle.importKey(
+        "raw",
+        new TextEncoder().encode(this.encryptionKey.password),
+        "PBKDF2",
+        false,
+        ["deriveKey"],
+      );
+      return subtle.deriveKey(
+        {
+          name: "PBKDF2",
+          hash: kdf.hash,
+          salt: fromBase64(kdf.salt),
+          iterations: kdf.iterations,
+        },
+        password,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"],
+      );
+    }
+
+    if (kdf) {
+      throw new Error(
+        "[DECRYPTION_ERROR] Content was encrypted with a password, not with a key",
+      );
+    }
+    const { key } = this.encryptionKey;
+    if (!(key instanceof Uint8Array)) {
+      return key;
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(
+        `[ENCRYPTION_ERROR] Encryption keys must be ${KEY_LENGTH} bytes, got ${key.length}`,
+      );
+    }
+    return importAesKey(key);
+  }
+}
+
+/**
+ * Parse the envelope of encrypted content, if the content is one
+ * @internal
+ */
+export function parseEncryptedEnvelope(
+  content: Uint8Array,
+): EncryptedEnvelope | undefined {
+  // envelopes are always stored as JSON objects
+  if (content[0] !== "{".charCodeAt(0)) {
+    return undefined;
+  }
+  try {
+    const json = JSON.parse(new TextDecoder().decode(content));
+    if (
+      json?.encryption?.version === 1 &&
+      typeof json.ciphertext === "string"
+    ) {
+      return json;
+    }
+  } catch (err) {
+    // not JSON, so not encrypted
+  }
+  return undefined;
+}
+
+function isValidIterationCount(iterations: unknown): boolean {
+  return (
+    typeof iterations === "number" &&
+    Number.isInteger(iterations) &&
+    iterations >= MIN_ITERATIONS &&
+    iterations <= MAX_ITERATIONS
+  );
+}
+
+function importAesKey(key: Uint8Array): Promise<CryptoKey> {
+  return getSubtleCrypto().importKey("raw", key, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
@@ -0,0 +1,227 @@
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// chunks with text, timestamps and EXIF data that are not needed to render the image
+const PNG_METADATA_CHUNKS = ["eXIf", "tEXt", "zTXt", "iTXt", "tIME"];
+// APP1 holds EXIF and XMP data, and APP13 holds IPTC data
+const JPEG_METADATA_MARKERS = [0xe1, 0xed];
+const JPEG_EXIF_MARKER = 0xe1;
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00];
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+/**
+ * Detect the MIME type of a file from its first bytes, for the common NFT media formats
+ * @internal
+ */
+export function sniffMimeType(bytes: Uint8Array): string | undefined {
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    return "image/png";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (ascii(0, 4) === "GIF8") {
+    return "image/gif";
+  }
+  if (ascii(0, 4) === "RIFF") {
+    const format = ascii(8, 12);
+    if (format === "WEBP") {
+      return "image/webp";
+    }
+    if (format === "WAVE") {
+      return "audio/wav";
+    }
+  }
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (brand === "avif") {
+      return "image/avif";
+    }
+    return brand === "qt  " ? "video/quicktime" : "video/mp4";
+  }
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf) {
+    return "video/webm";
+  }
+  if (ascii(0, 4) === "glTF") {
+    return "model/gltf-binary";
+  }
+  if (ascii(0, 3) === "ID3" || (bytes[0] === 0xff && bytes[1] === 0xfb)) {
+    return "audio/mpeg";
+  }
+  if (ascii(0, 4) === "OggS") {
+    return "audio/ogg";
+  }
+  if (ascii(0, 4) === "%PDF") {
+    return "application/pdf";
+  }
+  if (/^\s*(<\?xml[^>]*>\s*)?<svg/.test(ascii(0, 256))) {
+    return "image/svg+xml";
+  }
+  return undefined;
+}
+
+/**
+ * Remove the EXIF data and other metadata from a JPEG or PNG image, without decoding the image.
+ * The orientation of JPEG images is kept. Other formats and malformed images are returned as they are.
+ * @internal
+ */
+export function stripImageMetadata(bytes: Uint8Array): Uint8Array {
+  const type = sniffMimeType(bytes);
+  if (type === "image/jpeg") {
+    return stripJpegMetadata(bytes);
+  }
+  if (type === "image/png") {
+    return stripPngMetadata(bytes);
+  }
+  return bytes;
+}
+
+function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+  const segments: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return bytes;
+    }
+    const marker = bytes[offset + 1];
+    // the compressed image data starts after the start of scan segment, so there is no more metadata
+    if (marker === 0xda) {
+      segments.push(bytes.subarray(offset));
+      return concat(segments);
+    }
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) {
+      return bytes;
+    }
+    if (!JPEG_METADATA_MARKERS.includes(marker)) {
+      segments.push(bytes.subarray(offset, end));
+    } else if (marker === JPEG_EXIF_MARKER) {
+      // the orientation is kept, so that photos are still displayed the right way up
+      const orientation = getExifOrientation(bytes.subarray(offset + 4, end));
+      if (orientation !== undefined && orientation !== 1) {
+        segments.push(createOrientationSegment(orientation));
+      }
+    }
+    offset = end;
+  }
+  return bytes;
+}
+
+/**
+ * Read the orientation tag from the first IFD of the content of an EXIF segment
+ */
+function getExifOrientation(exif: Uint8Array): number | undefined {
+  if (!EXIF_HEADER.every((byte, i) => exif[i] === byte)) {
+    return undefined;
+  }
+  const tiff = exif.subarray(EXIF_HEADER.length);
+  const littleEndian = tiff[0] === 0x49 && tiff[1] === 0x49;
+  const read = (offset: number, size: 2 | 4) => {
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+      value +=
+        tiff[offset + (littleEndian ? i : size - 1 - i)] * Math.pow(256, i);
+    }
+    return value;
+  };
+
+  const ifd = read(4, 4);
+  if (ifd + 2 > tiff.length) {
+    return undefined;
+  }
+  const count = read(ifd, 2);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) {
+      return undefined;
+    }
+    if (read(entry, 2) === EXIF_ORIENTATION_TAG) {
+      return read(entry + 8, 2);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * An APP1 segment with an EXIF block that only holds the orientation
+ */
+function createOrientationSegment(orientation: number): Uint8Array {
+  return new Uint8Array([
+    0xff,
+    JPEG_EXIF_MARKER,
+    // length of the segment without its marker
+    0x00,
+    0x22,
+    ...EXIF_HEADER,
+    // big endian TIFF header with the first IFD right after it
+    0x4d,
+    0x4d,
+    0x00,
+    0x2a,
+    0x00,
+    0x00,
+    0x00,
+    0x08,
+    // a single entry with a short value, and no next IFD
+    0x00,
+    0x01,
+    EXIF_ORIENTATION_TAG >> 8,
+    EXIF_ORIENTATION_TAG & 0xff,
+    0x00,
+    0x03,
+    0x00,
+    0x00,
+    0x00,
+    0x01,
+    0x00,
+    orientation,
+    0x00,
+    0x00,
+    0x00,
+    0x00,
+    0x00,
+    0x00,
+  ]);
+}
+
+function stripPngMetadata(bytes: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length =
+      ((bytes[offset] << 24) |
+        (bytes[offset + 1] << 16) |
+        (bytes[offset + 2] << 8) |
+        bytes[offset + 3]) >>>
+      0;
+    const type = String.fromCharCode(
+      ...Array.from(bytes.subarray(offset + 4, offset + 8)),
+    );
+    // length, type, data and CRC
+    const end = offset + 12 + length;
+    if (end > bytes.length) {
+      return bytes;
+    }
+    if (!PNG_METADATA_CHUNKS.includes(type)) {
+      chunks.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+    if (type === "IEND") {
+      return concat(chunks);
+    }
+  }
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
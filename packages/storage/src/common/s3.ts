@@ -0,0 +1,96 @@
+import { S3Credentials } from "../types";
+import { encodeKey, getSubtleCrypto, sha256Hex, toHex } from "./utils";
+
+/**
+ * @internal
+ */
+export type S3Request = {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: Uint8Array;
+};
+
+/**
+ * Sign a request to an S3 compatible API with AWS signature version 4
+ *
+ * @returns The headers to send the request with
+ * @internal
+ */
+export async function signS3Request(
+  request: S3Request,
+  credentials: S3Credentials,
+  region: string,
+  date = new Date(),
+): Promise<Record<string, string>> {
+  const url = new URL(request.url);
+  // 20220101T000000Z
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const scope = `${amzDate.slice(0, 8)}/${region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    "x-amz-content-sha256": await sha256Hex(request.body),
+    "x-amz-date": amzDate,
+  };
+  if (credentials.sessionToken) {
+    headers["x-amz-security-token"] = credentials.sessionToken;
+  }
+
+  // the host is signed, but set by fetch
+  const signedHeaders: Record<string, string> = { host: url.host };
+  for (const [name, value] of Object.entries(headers)) {
+    signedHeaders[name.toLowerCase()] = value.trim();
+  }
+  const names = Object.keys(signedHeaders).sort();
+
+  const canonicalRequest = [
+    request.method,
+    url.pathname,
+    Array.from(url.searchParams.entries())
+      .map(([key, value]) => `${encodeKey(key)}=${encodeKey(value)}`)
+      .sort()
+      .join("&"),
+    names.map((name) => `${name}:${signedHeaders[name]}\n`).join(""),
+    names.join(";"),
+    headers["x-amz-content-sha256"],
+  ].join("\n");
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    await sha256Hex(new TextEncoder().encode(canonicalRequest)),
+  ].join("\n");
+
+  let key: Uint8Array = new TextEncoder().encode(
+    `AWS4${credentials.secretAccessKey}`,
+  );
+  for (const part of scope.split("/")) {
+    key = await hmac(key, part);
+  }
+  const signature = toHex(await hmac(key, stringToSign));
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${
+      credentials.accessKeyId
+    }/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`,
+  };
+}
+
+async function hmac(key: Uint8Array, data: string): Promise<Uint8Array> {
+  const cryptoKey = await getSubtleCrypto().importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return new Uint8Array(
+    await getSubtleCrypto().sign(
+      "HMAC",
+      cryptoKey,
+      new TextEncoder().encode(data),
+    ),
+  );
+}
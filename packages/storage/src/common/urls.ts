@@ -10,6 +10,7 @@ export const DEFAULT_GATEWAY_URLS: GatewayUrls = {
     "https://cloudflare-ipfs.com/ipfs/",
     "https://ipfs.io/ipfs/",
   ],
+  "ar://": ["https://arweave.net/"],
 };
 
 /**
@@ -20,7 +21,12 @@ export const TW_IPFS_SERVER_URL = "https://upload.nftlabs.co";
 /**
  * @internal
  */
-export const PINATA_IPFS_URL = `https://api.pinata.cloud/pinning/pinFileToIPFS`;
+export const PINATA_API_URL = "https://api.pinata.cloud";
+
+/**
+ * @internal
+ */
+export const BUNDLR_NODE_URL = "https://node1.bundlr.network";
 
 /**
  * @internal
@@ -31,7 +37,7 @@ export function prepareGatewayUrls(gatewayUrls?: GatewayUrls): GatewayUrls {
     ...DEFAULT_GATEWAY_URLS,
   };
 
-  for (const key of Object.keys(DEFAULT_GATEWAY_URLS)) {
+  for (const key of Object.keys(gatewayUrls || {})) {
     if (gatewayUrls && gatewayUrls[key]) {
       // Make sure that all user gateway URLs have trailing slashes
       const cleanedGatewayUrls = gatewayUrls[key].map(
@@ -39,10 +45,15 @@ export function prepareGatewayUrls(gatewayUrls?: GatewayUrls): GatewayUrls {
       );
       allGatewayUrls[key] = [
         ...cleanedGatewayUrls,
-        ...DEFAULT_GATEWAY_URLS[key],
+        ...(DEFAULT_GATEWAY_URLS[key] || []),
       ];
     }
   }
 
   return allGatewayUrls;
 }
+
+/**
+ * @internal
+ */
+export const KUBO_API_URL = "http://127.0.0.1:5001";
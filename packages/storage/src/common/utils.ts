@@ -1,4 +1,10 @@
-import { BufferOrStringWithName, FileOrBuffer, GatewayUrls } from "../types";
+import {
+  BufferOrStringWithName,
+  FileOrBuffer,
+  FileOrBufferOrString,
+  GatewayUrls,
+  IpfsUploadBatchOptions,
+} from "../types";
 
 /**
  * @internal
@@ -7,6 +13,32 @@ export function isBrowser() {
   return typeof window !== "undefined";
 }
 
+/**
+ * Get the web crypto API of the browser or of node
+ * @internal
+ */
+export function getSubtleCrypto(): SubtleCrypto {
+  if (globalThis.crypto?.subtle) {
+    return globalThis.crypto.subtle;
+  }
+  // node < 19 only exposes web crypto through the crypto module
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  return require("crypto").webcrypto.subtle;
+}
+
+/**
+ * Generate cryptographically secure random bytes, in the browser or in node
+ * @internal
+ */
+export function getRandomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  if (globalThis.crypto?.getRandomValues) {
+    return globalThis.crypto.getRandomValues(bytes);
+  }
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  return require("crypto").webcrypto.getRandomValues(bytes);
+}
+
 /**
  * @internal
  */
@@ -261,3 +293,299 @@ export function replaceObjectFilesWithUris(
 
   return data;
 }
+
+/**
+ * Read any file data as bytes, the same way the uploader sends it
+ * @internal
+ */
+export async function toBytes(data: FileOrBufferOrString): Promise<Uint8Array> {
+  if (typeof data === "string") {
+    return new TextEncoder().encode(data);
+  }
+  if (isFileInstance(data)) {
+    return new Uint8Array(await data.arrayBuffer());
+  }
+  if (isBufferOrStringWithName(data)) {
+    return toBytes(data.data);
+  }
+  return data;
+}
+
+/**
+ * Names the files to upload and skips the duplicates
+ * @internal
+ */
+export function getFilesToUpload(
+  files: FileOrBufferOrString[],
+  options?: Pick<IpfsUploadBatchOptions, "rewriteFileNames">,
+) {
+  const filesToUpload: { name: string; data: FileOrBufferOrString }[] = [];
+  const fileNameToFileMap = new Map<string, FileOrBufferOrString>();
+  const fileNames: string[] = [];
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    let fileName = "";
+    let fileData = file;
+
+    if (isFileInstance(file)) {
+      if (options?.rewriteFileNames) {
+        let extensions = "";
+        if (file.name) {
+          const extensionStartIndex = file.name.lastIndexOf(".");
+          if (extensionStartIndex > -1) {
+            extensions = file.name.substring(extensionStartIndex);
+          }
+        }
+        fileName = `${
+          i + options.rewriteFileNames.fileStartNumber
+        }${extensions}`;
+      } else {
+        fileName = `${file.name}`;
+      }
+    } else if (isBufferOrStringWithName(file)) {
+      fileData = file.data;
+      if (options?.rewriteFileNames) {
+        fileName = `${i + options.rewriteFileNames.fileStartNumber}`;
+      } else {
+        fileName = `${file.name}`;
+      }
+    } else {
+      if (options?.rewriteFileNames) {
+        fileName = `${i + options.rewriteFileNames.fileStartNumber}`;
+      } else {
+        fileName = `${i}`;
+      }
+    }
+
+    if (fileNameToFileMap.has(fileName)) {
+      // if the file in the map is the same as the file we are already looking at then just skip and continue
+      if (isFileBufferOrStringEqual(fileNameToFileMap.get(fileName), file)) {
+        // we add it to the filenames array so that we can return the correct number of urls,
+        fileNames.push(fileName);
+        // but then we skip because we don't need to upload it multiple times
+        continue;
+      }
+      // otherwise if file names are the same but they are not the same file then we should throw an error (trying to upload to differnt files but with the same names)
+      throw new Error(
+        `[DUPLICATE_FILE_NAME_ERROR] File name ${fileName} was passed for more than one different file.`,
+      );
+    }
+
+    // add it to the map so that we can check for duplicates
+    fileNameToFileMap.set(fileName, file);
+    // add it to the filenames array so that we can return the correct number of urls
+    fileNames.push(fileName);
+    filesToUpload.push({ name: fileName, data: fileData });
+  }
+
+  return { files: filesToUpload, fileNames };
+}
+
+/**
+ * Guess the content type that a file should be served with
+ * @internal
+ */
+export function getContentType(data: FileOrBufferOrString): string | undefined {
+  if (isFileInstance(data)) {
+    return data.type || undefined;
+  }
+  if (isBufferOrStringWithName(data)) {
+    return getContentType(data.data);
+  }
+  // objects are uploaded as JSON strings
+  if (typeof data === "string") {
+    try {
+      JSON.parse(data);
+      return "application/json";
+    } catch (err) {
+      return "text/plain";
+    }
+  }
+  return undefined;
+}
+
+/**
+ * @internal
+ */
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  return toHex(new Uint8Array(await getSubtleCrypto().digest("SHA-256", data)));
+}
+
+/**
+ * @internal
+ */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+/**
+ * Key the files to upload by their content, for storage backends that don't address files by content themselves.
+ * Uploading the same files with the same names always gives the same keys.
+ *
+ * @returns The files to store under their keys, and the key of every file passed in
+ * @internal
+ */
+export async function getContentAddressedFiles(
+  data: FileOrBufferOrString[],
+  options?: Pick<
+    IpfsUploadBatchOptions,
+    "rewriteFileNames" | "uploadWithoutDirectory"
+  >,
+): Promise<{
+  files: { key: string; content: Uint8Array; contentType?: string }[];
+  keys: string[];
+}> {
+  if (options?.uploadWithoutDirectory && data.length > 1) {
+    throw new Error(
+      "[UPLOAD_WITHOUT_DIRECTORY_ERROR] Cannot upload more than one file or object without directory!",
+    );
+  }
+
+  const { files, fileNames } = getFilesToUpload(data, options);
+  const contents = await Promise.all(files.map((file) => toBytes(file.data)));
+  const hashes = await Promise.all(
+    contents.map((content) => sha256Hex(content)),
+  );
+
+  if (options?.uploadWithoutDirectory) {
+    return {
+      files: [
+        {
+          key: hashes[0],
+          content: contents[0],
+          contentType: getContentType(files[0].data),
+        },
+      ],
+      keys: [hashes[0]],
+    };
+  }
+
+  // the directory depends on the names and the content of all the files, like an IPFS directory
+  const directory = await sha256Hex(
+    new TextEncoder().encode(
+      JSON.stringify(files.map((file, i) => [file.name, hashes[i]])),
+    ),
+  );
+  return {
+    files: files.map((file, i) => ({
+      key: `${directory}/${file.name}`,
+      content: contents[i],
+      contentType: getContentType(file.data),
+    })),
+    keys: fileNames.map((name) => `${directory}/${name}`),
+  };
+}
+
+/**
+ * Encode every segment of a key for use in a URI, as specified by RFC 3986
+ * @internal
+ */
+export function encodeKey(key: string): string {
+  return key
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+      ),
+    )
+    .join("/");
+}
+
+/**
+ * Encode every segment of a path for use in a URI, keeping the separators between them
+ * @internal
+ */
+export function encodePath(path: string): string {
+  return path
+    .split("/")
+    .map((segment) => encodeURIComponent(segment))
+    .join("/");
+}
+
+/**
+ * Normalize the path of a file in a directory upload to `/` separated segments
+ * @internal
+ */
+export function normalizeDirectoryPath(path: string): string {
+  const segments = path
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment, i) => !(i === 0 && segment === "."));
+  if (segments[0] === "") {
+    segments.shift();
+  }
+  if (
+    !segments.length ||
+    segments.some((segment) => !segment || segment === "." || segment === "..")
+  ) {
+    throw new Error(
+      `[INVALID_PATH_ERROR] ${path} is not a valid path for a file in a directory`,
+    );
+  }
+  return segments.join("/");
+}
+
+/**
+ * Give a file the name it should be uploaded with
+ * @internal
+ */
+export function renameFile(
+  file: FileOrBufferOrString,
+  name: string,
+): FileOrBufferOrString {
+  if (isFileInstance(file)) {
+    return new File([file], name, {
+      type: file.type,
+      lastModified: file.lastModified,
+    });
+  }
+  return { name, data: isBufferOrStringWithName(file) ? file.data : file };
+}
+
+/**
+ * Replace the content of a file, keeping its name
+ * @internal
+ */
+export function withFileContent(
+  file: FileOrBuffer,
+  content: Uint8Array,
+  type?: string,
+): FileOrBuffer {
+  if (isFileInstance(file)) {
+    return new File([content], file.name, {
+      type: type !== undefined ? type : file.type,
+      lastModified: file.lastModified,
+    });
+  }
+  if (isBufferOrStringWithName(file)) {
+    return { name: file.name, data: Buffer.from(content) };
+  }
+  return Buffer.from(content);
+}
+
+/**
+ * @internal
+ */
+export function toBase64(bytes: Uint8Array): string {
+  if (global.Buffer) {
+    return Buffer.from(bytes).toString("base64");
+  }
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * @internal
+ */
+export function fromBase64(base64: string): Uint8Array {
+  if (global.Buffer) {
+    return new Uint8Array(Buffer.from(base64, "base64"));
+  }
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
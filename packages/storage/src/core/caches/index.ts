@@ -0,0 +1,2 @@
+export { IndexedDbCache } from "./indexeddb-cache";
+export { MemoryCache } from "./memory-cache";
@@ -0,0 +1,72 @@
+import { IndexedDbCacheOptions, IStorageCache } from "../../types";
+
+const STORE_NAME = "content";
+
+/**
+ * Cache of downloaded content in the IndexedDB of the browser, that persists across page loads
+ *
+ * @example
+ * ```jsx
+ * const downloader = new StorageDownloader({ cache: new IndexedDbCache() });
+ * const storage = new ThirdwebStorage({ downloader });
+ * ```
+ *
+ * @public
+ */
+export class IndexedDbCache implements IStorageCache {
+  private databaseName: string;
+  private database?: Promise<IDBDatabase>;
+
+  constructor(options?: IndexedDbCacheOptions) {
+    this.databaseName = options?.databaseName || "thirdweb-storage";
+  }
+
+  async get(uri: string): Promise<Uint8Array | undefined> {
+    try {
+      const result = await this.request("readonly", (store) => store.get(uri));
+      return result ? new Uint8Array(result) : undefined;
+    } catch (err) {
+      // the cache is best effort, like in private browsing where IndexedDB can be unavailable
+      return undefined;
+    }
+  }
+
+  async set(uri: string, content: Uint8Array): Promise<void> {
+    try {
+      await this.request("readwrite", (store) => store.put(content, uri));
+    } catch (err) {
+      console.warn(`Failed to cache ${uri}`, err);
+    }
+  }
+
+  private async request(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<any> {
+    const database = await this.getDatabase();
+    return new Promise((resolve, reject) => {
+      const request = run(
+        database.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        if (typeof indexedDB === "undefined") {
+          return reject(new Error("IndexedDB is not available"));
+        }
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,58 @@
+import { IStorageCache, MemoryCacheOptions } from "../../types";
+
+/**
+ * In-memory cache of downloaded content, used by default by the `StorageDownloader`
+ *
+ * @example
+ * ```jsx
+ * // Cache up to 100MB of content
+ * const cache = new MemoryCache({ maxSize: 100 * 1024 * 1024 });
+ * const downloader = new StorageDownloader({ cache });
+ * ```
+ *
+ * @public
+ */
+export class MemoryCache implements IStorageCache {
+  private maxSize: number;
+  private size = 0;
+  // maps iterate in insertion order, so the first entry is the least recently used
+  private entries = new Map<string, Uint8Array>();
+
+  constructor(options?: MemoryCacheOptions) {
+    this.maxSize =
+      options?.maxSize !== undefined ? options.maxSize : 50 * 1024 * 1024;
+  }
+
+  async get(uri: string): Promise<Uint8Array | undefined> {
+    const content = this.entries.get(uri);
+    if (content) {
+      this.entries.delete(uri);
+      this.entries.set(uri, content);
+    }
+    return content;
+  }
+
+  async set(uri: string, content: Uint8Array): Promise<void> {
+    if (content.length > this.maxSize) {
+      return;
+    }
+    this.delete(uri);
+    this.entries.set(uri, content);
+    this.size += content.length;
+
+    for (const key of Array.from(this.entries.keys())) {
+      if (this.size <= this.maxSize) {
+        break;
+      }
+      this.delete(key);
+    }
+  }
+
+  private delete(uri: string) {
+    const content = this.entries.get(uri);
+    if (content) {
+      this.size -= content.length;
+      this.entries.delete(uri);
+    }
+  }
+}
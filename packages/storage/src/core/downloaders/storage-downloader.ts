@@ -1,6 +1,24 @@
-import { replaceSchemeWithGatewayUrl } from "../../common/utils";
-import { GatewayUrls, IStorageDownloader } from "../../types";
-import fetch from "cross-fetch";
+import { isContentOfCid, resolveCidPath } from "../../common/cid";
+import { DEFAULT_GATEWAY_URLS } from "../../common/urls";
+import {
+  GatewayUrls,
+  IStorageCache,
+  IStorageDownloader,
+  StorageDownloaderOptions,
+} from "../../types";
+import { MemoryCache } from "../caches/memory-cache";
+import fetch, { Response as FetchResponse } from "cross-fetch";
+import { CID } from "multiformats/cid";
+
+// the content of these URIs never changes, so it can be cached forever
+const IMMUTABLE_SCHEMES = ["ipfs://", "ar://"];
+
+type Download = {
+  content: ArrayBuffer;
+  status: number;
+  statusText: string;
+  headers: Headers;
+};
 
 /**
  * Default downloader used - handles downloading from all schemes specified in the gateway URLs configuration.
@@ -10,41 +28,209 @@ import fetch from "cross-fetch";
  * // Can instantiate the downloader with the default gateway URLs
  * const downloader = new StorageDownloader();
  * const storage = new ThirdwebStorage({ downloader });
+ *
+ * // Or optionally, check that data downloaded from IPFS matches its CID
+ * const downloader = new StorageDownloader({ verifyContent: true });
+ * const storage = new ThirdwebStorage({ downloader });
+ *
+ * // Or download from the 3 healthiest gateways at once, with a 10 second timeout
+ * const downloader = new StorageDownloader({ raceGateways: 3, timeout: 10000 });
+ * const storage = new ThirdwebStorage({ downloader });
  * ```
  *
  * @public
  */
 export class StorageDownloader implements IStorageDownloader {
+  private verifyContent: boolean;
+  private timeout: number;
+  private raceGateways: number;
+  private cache?: IStorageCache;
+  // the number of consecutive failures of each gateway URL, gateways that keep failing are tried last
+  private failures: Record<string, number> = {};
+
+  constructor(options?: StorageDownloaderOptions) {
+    this.verifyContent = options?.verifyContent || false;
+    this.timeout = options?.timeout !== undefined ? options.timeout : 30000;
+    this.raceGateways = Math.max(options?.raceGateways || 1, 1);
+    this.cache =
+      options?.cache !== undefined
+        ? options.cache || undefined
+        : new MemoryCache();
+  }
+
   async download(
     uri: string,
-    gatewayUrls: GatewayUrls,
-    attempts = 0,
+    gatewayUrls: GatewayUrls = DEFAULT_GATEWAY_URLS,
   ): Promise<Response> {
-    // Replace recognized scheme with the highest priority gateway URL that hasn't already been attempted
-    let resolvedUri;
+    const cacheable =
+      !!this.cache && IMMUTABLE_SCHEMES.some((s) => uri.startsWith(s));
+    if (cacheable) {
+      const cached = await this.cache?.get(uri);
+      if (cached) {
+        return new FetchResponse(cached, { status: 200 });
+      }
+    }
+
+    const scheme = Object.keys(gatewayUrls).find((s) => uri.startsWith(s));
+    if (!scheme) {
+      const res = await this.fetchWithTimeout(uri);
+      return new FetchResponse(res.content, res);
+    }
+
+    const urls = this.sortByHealth(gatewayUrls[scheme]);
+    for (let i = 0; i < urls.length; i += this.raceGateways) {
+      const race = new AbortController();
+      let res: Download;
+      try {
+        res = await firstFulfilled(
+          urls
+            .slice(i, i + this.raceGateways)
+            .map((url) =>
+              this.downloadFromGateway(uri, scheme, url, race.signal),
+            ),
+        );
+      } catch (err) {
+        // every gateway of this round failed, try the next ones
+        continue;
+      } finally {
+        // stop the downloads that lost the race
+        race.abort();
+      }
+
+      if (cacheable) {
+        await this.cache?.set(uri, new Uint8Array(res.content));
+      }
+      return new FetchResponse(res.content, res);
+    }
+
+    // If every gateway URL we know about for the designated scheme has failed, throw an error
+    throw new Error(
+      "[FAILED_TO_DOWNLOAD_ERROR] Unable to download from URI - all gateway URLs failed to respond.",
+    );
+  }
+
+  private async downloadFromGateway(
+    uri: string,
+    scheme: string,
+    gatewayUrl: string,
+    signal: AbortSignal,
+  ): Promise<Download> {
+    const resolvedUri = uri.replace(scheme, gatewayUrl);
     try {
-      resolvedUri = replaceSchemeWithGatewayUrl(uri, gatewayUrls, attempts);
-    } catch (err: any) {
-      // If every gateway URL we know about for the designated scheme has been tried (via recursion) and failed, throw an error
-      if (err.includes("[GATEWAY_URL_ERROR]")) {
+      const res = await this.fetchWithTimeout(resolvedUri, {}, signal);
+      // If request to the current gateway fails, the next one is tried
+      if (res.status < 200 || res.status >= 300) {
         throw new Error(
-          "[FAILED_TO_DOWNLOAD_ERROR] Unable to download from URI - all gateway URLs failed to respond.",
+          `Request to ${resolvedUri} failed with status ${res.status} - ${res.statusText}`,
+        );
+      }
+      if (
+        this.verifyContent &&
+        scheme === "ipfs://" &&
+        !(await this.isContentOfUri(uri, res.content, gatewayUrl, signal))
+      ) {
+        throw new Error(
+          `Request to ${resolvedUri} returned data that does not match its CID`,
         );
       }
 
+      this.failures[gatewayUrl] = 0;
+      return res;
+    } catch (err: any) {
+      if (!signal.aborted) {
+        console.warn(err.message);
+        this.failures[gatewayUrl] = (this.failures[gatewayUrl] || 0) + 1;
+      }
       throw err;
     }
+  }
 
-    const res = await fetch(resolvedUri);
-
-    // If request to the current gateway fails, recursively try the next one we know about
-    if (!res.ok) {
-      console.warn(
-        `Request to ${resolvedUri} failed with status ${res.status} - ${res.statusText}`,
-      );
-      return this.download(uri, gatewayUrls, attempts + 1);
+  private async fetchWithTimeout(
+    url: string,
+    init?: RequestInit,
+    signal?: AbortSignal,
+  ): Promise<Download> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeout);
+    const abort = () => controller.abort();
+    signal?.addEventListener("abort", abort);
+    try {
+      const res = await fetch(url, { ...init, signal: controller.signal });
+      // the body is read before the timeout is cleared, so that a gateway can't hang in the middle of a download
+      const content = await res.arrayBuffer();
+      return {
+        content,
+        status: res.status,
+        statusText: res.statusText,
+        headers: res.headers,
+      };
+    } catch (err: any) {
+      if (timedOut) {
+        throw new Error(`Request to ${url} timed out after ${this.timeout}ms`);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
     }
+  }
 
-    return res;
+  private sortByHealth(gatewayUrls: string[]): string[] {
+    // the sort is stable, so healthy gateways keep the configured priority
+    return [...gatewayUrls].sort(
+      (a, b) => (this.failures[a] || 0) - (this.failures[b] || 0),
+    );
   }
+
+  private async isContentOfUri(
+    uri: string,
+    content: ArrayBuffer,
+    gatewayUrl: string,
+    signal: AbortSignal,
+  ): Promise<boolean> {
+    const [root, ...path] = uri
+      .replace("ipfs://", "")
+      .split(/[?#]/)[0]
+      .split("/")
+      .filter((segment) => segment.length > 0)
+      .map((segment) => decodeURIComponent(segment));
+    try {
+      // blocks of the directories are fetched from the same gateway as the file
+      const cid = await resolveCidPath(CID.parse(root), path, async (c) => {
+        const res = await this.fetchWithTimeout(
+          `${gatewayUrl}${c.toString()}?format=raw`,
+          { headers: { Accept: "application/vnd.ipld.raw" } },
+          signal,
+        );
+        if (res.status < 200 || res.status >= 300) {
+          throw new Error(`Failed to fetch block ${c.toString()}`);
+        }
+        return new Uint8Array(res.content);
+      });
+      return !!cid && (await isContentOfCid(new Uint8Array(content), cid));
+    } catch (err) {
+      return false;
+    }
+  }
+}
+
+/**
+ * Resolve with the first promise that fulfills, or reject once they all reject
+ */
+function firstFulfilled<T>(promises: Promise<T>[]): Promise<T> {
+  return new Promise((resolve, reject) => {
+    let rejected = 0;
+    for (const promise of promises) {
+      promise.then(resolve, (err) => {
+        rejected++;
+        if (rejected === promises.length) {
+          reject(err);
+        }
+      });
+    }
+  });
 }
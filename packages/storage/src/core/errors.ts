@@ -0,0 +1,32 @@
+import type { ZodIssue } from "zod";
+
+/**
+ * Thrown by `downloadJSON` when the downloaded data does not match the schema it is validated with
+ *
+ * @public
+ */
+export class SchemaValidationError extends Error {
+  /**
+   * The URL of the data that failed validation
+   */
+  public url: string;
+  /**
+   * Every property of the data that failed validation, and why
+   */
+  public issues: ZodIssue[];
+
+  constructor(url: string, issues: ZodIssue[]) {
+    super(
+      `[SCHEMA_VALIDATION_ERROR] Data downloaded from ${url} is invalid - ${issues
+        .map(
+          (issue) =>
+            `${issue.path.length ? issue.path.join(".") : "data"}: ${
+              issue.message
+            }`,
+        )
+        .join(", ")}`,
+    );
+    this.url = url;
+    this.issues = issues;
+  }
+}
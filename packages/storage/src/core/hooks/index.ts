@@ -0,0 +1,3 @@
+export { IntegrityHook } from "./integrity-hook";
+export { StripExifHook } from "./strip-exif-hook";
+export { ThumbnailHook } from "./thumbnail-hook";
@@ -0,0 +1,46 @@
+import { sniffMimeType } from "../../common/media";
+import {
+  getContentType,
+  getSubtleCrypto,
+  toBase64,
+  toBytes,
+} from "../../common/utils";
+import { IStorageUploadHook, UploadedObjectFile } from "../../types";
+
+/**
+ * Upload hook that adds the integrity and MIME type of the files in an object to it,
+ * like `image_integrity` and `image_mime_type` for the `image` of NFT metadata.
+ * The `_url` suffix of properties is dropped, so `animation_url` gets `animation_integrity`.
+ *
+ * @remarks The integrity is the SHA-256 digest of the file as uploaded, in the subresource integrity format.
+ *
+ * @example
+ * ```jsx
+ * const storage = new ThirdwebStorage({ uploadHooks: [new IntegrityHook()] });
+ * const uri = await storage.upload({ name: "NFT", image: file });
+ * ```
+ *
+ * @public
+ */
+export class IntegrityHook implements IStorageUploadHook {
+  async transformObject(
+    object: Record<string, unknown>,
+    files: UploadedObjectFile[],
+  ): Promise<Record<string, unknown>> {
+    const result = { ...object };
+    for (const { key, file } of files) {
+      const bytes = await toBytes(file);
+      const digest = await getSubtleCrypto().digest("SHA-256", bytes);
+      const name = key.replace(/_url$/, "");
+      result[`${name}_integrity`] = `sha256-${toBase64(
+        new Uint8Array(digest),
+      )}`;
+
+      const mimeType = sniffMimeType(bytes) || getContentType(file);
+      if (mimeType) {
+        result[`${name}_mime_type`] = mimeType;
+      }
+    }
+    return result;
+  }
+}
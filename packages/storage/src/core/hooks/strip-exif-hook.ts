@@ -0,0 +1,25 @@
+import { stripImageMetadata } from "../../common/media";
+import { toBytes, withFileContent } from "../../common/utils";
+import { FileOrBuffer, IStorageUploadHook } from "../../types";
+
+/**
+ * Upload hook that strips EXIF data, like the GPS location and camera details, from JPEG and PNG images.
+ * The image data is kept as it is, other files are uploaded unchanged.
+ *
+ * @example
+ * ```jsx
+ * const storage = new ThirdwebStorage({ uploadHooks: [new StripExifHook()] });
+ * ```
+ *
+ * @public
+ */
+export class StripExifHook implements IStorageUploadHook {
+  async transformFile(file: FileOrBuffer): Promise<FileOrBuffer> {
+    const bytes = await toBytes(file);
+    const stripped = stripImageMetadata(bytes);
+    if (stripped === bytes) {
+      return file;
+    }
+    return withFileContent(file, stripped);
+  }
+}
@@ -0,0 +1,93 @@
+import { sniffMimeType } from "../../common/media";
+import { toBytes, withFileContent } from "../../common/utils";
+import {
+  FileOrBuffer,
+  IStorageUploadHook,
+  ThumbnailHookOptions,
+  UploadedObjectFile,
+  UploadHookContext,
+} from "../../types";
+
+// formats that can be drawn to a canvas to be resized
+const RESIZABLE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+/**
+ * Upload hook that uploads a resized thumbnail of the `image` of an object, and adds its URI as `image_thumbnail`.
+ * Images are resized with a canvas in the browser, pass a resize function to use it in node.
+ *
+ * @example
+ * ```jsx
+ * const storage = new ThirdwebStorage({
+ *   uploadHooks: [new ThumbnailHook({ width: 256 })],
+ * });
+ *
+ * // Or in node, resize the images with a library like sharp
+ * const thumbnails = new ThumbnailHook({
+ *   resize: (image, width) =>
+ *     sharp(image).resize({ width, withoutEnlargement: true }).toBuffer(),
+ * });
+ * ```
+ *
+ * @public
+ */
+export class ThumbnailHook implements IStorageUploadHook {
+  private width: number;
+  private resize: (image: FileOrBuffer, width: number) => Promise<FileOrBuffer>;
+
+  constructor(options?: ThumbnailHookOptions) {
+    this.width = options?.width !== undefined ? options.width : 256;
+    this.resize = options?.resize || resizeWithCanvas;
+  }
+
+  async transformObject(
+    object: Record<string, unknown>,
+    files: UploadedObjectFile[],
+    context: UploadHookContext,
+  ): Promise<Record<string, unknown>> {
+    const image = files.find((file) => file.key === "image");
+    if (!image) {
+      return object;
+    }
+    const mimeType = sniffMimeType(await toBytes(image.file));
+    if (!mimeType || !RESIZABLE_TYPES.includes(mimeType)) {
+      return object;
+    }
+
+    const thumbnail = await this.resize(image.file, this.width);
+    const [uri] = await context.upload([thumbnail]);
+    return { ...object, image_thumbnail: uri };
+  }
+}
+
+async function resizeWithCanvas(
+  image: FileOrBuffer,
+  width: number,
+): Promise<FileOrBuffer> {
+  if (
+    typeof document === "undefined" ||
+    typeof createImageBitmap === "undefined"
+  ) {
+    throw new Error(
+      "[THUMBNAIL_ERROR] Images can only be resized in the browser, pass a resize function to resize them in node",
+    );
+  }
+
+  const bytes = await toBytes(image);
+  const bitmap = await createImageBitmap(new Blob([bytes]));
+  // images that are already small enough are not enlarged
+  const scale = Math.min(1, width / bitmap.width);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+  const type =
+    sniffMimeType(bytes) === "image/jpeg" ? "image/jpeg" : "image/png";
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, type),
+  );
+  if (!blob) {
+    throw new Error("[THUMBNAIL_ERROR] Failed to resize image");
+  }
+  return withFileContent(image, new Uint8Array(await blob.arrayBuffer()), type);
+}
@@ -1,3 +1,7 @@
 export { ThirdwebStorage } from "./storage";
+export { SchemaValidationError } from "./errors";
+export * from "./schemas";
+export * from "./caches";
 export * from "./downloaders";
+export * from "./hooks";
 export * from "./uploaders";
@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+const PropertiesSchema = z.union([
+  z.array(z.record(z.unknown())),
+  z.record(z.unknown()),
+]);
+
+/**
+ * Schema of the metadata of an NFT, to validate downloaded metadata with `downloadJSON`.
+ * Properties that aren't part of the standard are kept as they are.
+ *
+ * @public
+ */
+export const NFTMetadataSchema = z
+  .object({
+    name: z.union([z.string(), z.number()]).optional(),
+    description: z.string().nullable().optional(),
+    image: z.string().nullable().optional(),
+    external_url: z.string().nullable().optional(),
+    animation_url: z.string().nullable().optional(),
+    background_color: z
+      .string()
+      .regex(/^(#?([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3}))?$/, "Invalid hex color")
+      .optional(),
+    properties: PropertiesSchema.optional(),
+    attributes: PropertiesSchema.optional(),
+  })
+  .catchall(z.unknown());
+
+/**
+ * Schema of the metadata of a contract, to validate downloaded metadata with `downloadJSON`.
+ * Properties that aren't part of the standard are kept as they are.
+ *
+ * @public
+ */
+export const ContractMetadataSchema = z
+  .object({
+    name: z.string(),
+    description: z.string().optional(),
+    image: z.string().optional(),
+    external_link: z.string().url().optional(),
+  })
+  .catchall(z.unknown());
@@ -1,23 +1,37 @@
 import { prepareGatewayUrls } from "../common";
+import {
+  EnvelopeEncryption,
+  parseEncryptedEnvelope,
+} from "../common/encryption";
 import {
   extractObjectFiles,
   isFileOrBuffer,
+  normalizeDirectoryPath,
+  renameFile,
   replaceObjectFilesWithUris,
   replaceObjectGatewayUrlsWithSchemes,
   replaceObjectSchemesWithGatewayUrls,
   replaceSchemeWithGatewayUrl,
 } from "../common/utils";
 import {
+  DirectoryFiles,
+  DirectoryUploadResult,
+  FileOrBuffer,
   FileOrBufferOrString,
   GatewayUrls,
   IpfsUploadBatchOptions,
   IStorageDownloader,
   ThirdwebStorageOptions,
   IStorageUploader,
+  IStorageUploadHook,
+  UploadedObjectFile,
   UploadOptions,
 } from "../types";
 import { StorageDownloader } from "./downloaders/storage-downloader";
+import { SchemaValidationError } from "./errors";
 import { IpfsUploader } from "./uploaders/ipfs-uploader";
+import { Response as FetchResponse } from "cross-fetch";
+import type { output, ZodTypeAny } from "zod";
 
 /**
  * Upload and download files from decentralized storage systems.
@@ -43,6 +57,15 @@ import { IpfsUploader } from "./uploaders/ipfs-uploader";
  * const downloader = new StorageDownloader();
  * const uploader = new IpfsUploader();
  * const storage = new ThirdwebStorage({ uploader, downloader, gatewayUrls });
+ *
+ * // Hooks can transform the uploaded files and objects, like to strip EXIF data from images
+ * const storage = new ThirdwebStorage({
+ *   uploadHooks: [new StripExifHook(), new ThumbnailHook(), new IntegrityHook()],
+ * });
+ *
+ * // Or encrypt uploads, which are then decrypted when downloaded with the same key
+ * const storage = new ThirdwebStorage({ encryptionKey: { password: "secret" } });
+ * const uri = await storage.uploadEncrypted(data);
  * ```
  *
  * @public
@@ -50,12 +73,18 @@ import { IpfsUploader } from "./uploaders/ipfs-uploader";
 export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
   private uploader: IStorageUploader<T>;
   private downloader: IStorageDownloader;
+  private uploadHooks: IStorageUploadHook[];
+  private encryption?: EnvelopeEncryption;
   public gatewayUrls: GatewayUrls;
 
   constructor(options?: ThirdwebStorageOptions<T>) {
     this.uploader = options?.uploader || new IpfsUploader();
     this.downloader = options?.downloader || new StorageDownloader();
     this.gatewayUrls = prepareGatewayUrls(options?.gatewayUrls);
+    this.uploadHooks = options?.uploadHooks || [];
+    if (options?.encryptionKey) {
+      this.encryption = new EnvelopeEncryption(options.encryptionKey);
+    }
   }
 
   /**
@@ -77,6 +106,7 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
 
   /**
    * Downloads arbitrary data from any URL scheme.
+   * Encrypted data is decrypted if an encryption key is configured.
    *
    * @param url - The URL of the data to download
    * @returns The response object fetched from the resolved URL
@@ -88,28 +118,62 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
    * ```
    */
   async download(url: string): Promise<Response> {
-    return this.downloader.download(url, this.gatewayUrls);
+    const res = await this.downloader.download(url, this.gatewayUrls);
+    if (!this.encryption) {
+      return res;
+    }
+
+    const content = new Uint8Array(await res.arrayBuffer());
+    const envelope = parseEncryptedEnvelope(content);
+    if (!envelope) {
+      return new FetchResponse(content, res);
+    }
+    const { contentType } = envelope.encryption;
+    return new FetchResponse(await this.encryption.decrypt(envelope), {
+      status: res.status,
+      headers: contentType ? { "Content-Type": contentType } : undefined,
+    });
   }
 
   /**
    * Downloads JSON data from any URL scheme.
    * Resolves any URLs with schemes to retrievable gateway URLs.
+   * If a zod schema is given, the data is validated with it and returned as its output.
    *
    * @param url - The URL of the JSON data to download
+   * @param schema - Optional zod schema to validate the data with, like `NFTMetadataSchema`
    * @returns The JSON data fetched from the resolved URL
+   * @throws SchemaValidationError with the issues of the data, if it does not match the schema
    *
    * @example
    * ```jsx
    * const uri = "ipfs://example";
    * const json = await storage.downloadJSON(uri);
+   *
+   * // Or validate the data, which is then typed as NFT metadata
+   * const metadata = await storage.downloadJSON(uri, NFTMetadataSchema);
    * ```
    */
-  async downloadJSON<TJSON = any>(url: string): Promise<TJSON> {
+  async downloadJSON<TJSON = any>(url: string): Promise<TJSON>;
+  async downloadJSON<TSchema extends ZodTypeAny>(
+    url: string,
+    schema: TSchema,
+  ): Promise<output<TSchema>>;
+  async downloadJSON(url: string, schema?: ZodTypeAny): Promise<unknown> {
     const res = await this.download(url);
 
     // If we get a JSON object, recursively replace any schemes with gatewayUrls
     const json = await res.json();
-    return replaceObjectSchemesWithGatewayUrls(json, this.gatewayUrls) as TJSON;
+    const data = replaceObjectSchemesWithGatewayUrls(json, this.gatewayUrls);
+    if (!schema) {
+      return data;
+    }
+
+    const result = await schema.safeParseAsync(data);
+    if (!result.success) {
+      throw new SchemaValidationError(url, result.error.issues);
+    }
+    return result.data;
   }
 
   /**
@@ -162,6 +226,170 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
    * ```
    */
   async uploadBatch(data: unknown[], options?: T): Promise<string[]> {
+    return this.processBatch(data, options, (files, batchOptions) =>
+      this.uploader.uploadBatch(files, batchOptions),
+    );
+  }
+
+  /**
+   * Upload arbitrary file or JSON data encrypted with the configured encryption key, so that it can't be read publicly.
+   * The files within JSON objects are encrypted as well, and the data is decrypted when downloaded with the same key.
+   *
+   * @param data - Arbitrary file or JSON data to encrypt and upload
+   * @param options - Options to pass through to the storage uploader class
+   * @returns - The URI of the encrypted data
+   *
+   * @example
+   * ```jsx
+   * const storage = new ThirdwebStorage({ encryptionKey: { password: "secret" } });
+   * const uri = await storage.uploadEncrypted({ name: "Unlockable", file });
+   * const unlockable = await storage.downloadJSON(uri);
+   * ```
+   */
+  async uploadEncrypted(data: unknown, options?: T): Promise<string> {
+    const [uri] = await this.uploadBatchEncrypted([data], options);
+    return uri;
+  }
+
+  /**
+   * Batch upload arbitrary file or JSON data encrypted with the configured encryption key, so that it can't be read publicly.
+   * The files within JSON objects are encrypted as well, and the data is decrypted when downloaded with the same key.
+   *
+   * @param data - Array of arbitrary file or JSON data to encrypt and upload
+   * @param options - Options to pass through to the storage uploader class
+   * @returns - The URIs of the encrypted data
+   */
+  async uploadBatchEncrypted(data: unknown[], options?: T): Promise<string[]> {
+    const encryption = this.encryption;
+    if (!encryption) {
+      throw new Error(
+        "[ENCRYPTION_ERROR] Configure an encryption key to upload encrypted data",
+      );
+    }
+    return this.processBatch(data, options, async (files, batchOptions) =>
+      this.uploader.uploadBatch(
+        await encryption.encryptFiles(files),
+        batchOptions,
+      ),
+    );
+  }
+
+  /**
+   * Upload the files of a directory with their paths, so that the whole tree is stored under a single URI.
+   * Useful to upload static websites, or folders of images and metadata.
+   *
+   * @param files - The files of the directory, by their path in the directory
+   * @param options - Options to pass through to the storage uploader class
+   * @returns - The URI of the directory, and the URIs of the files by their normalized path
+   *
+   * @example
+   * ```jsx
+   * const { uri, uris } = await storage.uploadDirectory({
+   *   "index.html": readFileSync("../site/index.html"),
+   *   "images/logo.png": readFileSync("../site/images/logo.png"),
+   * });
+   *
+   * // Or in node, upload a local directory
+   * import { readDirectory } from "@thirdweb-dev/storage/server";
+   * const { uri } = await storage.uploadDirectory(await readDirectory("../site"));
+   * ```
+   */
+  async uploadDirectory(
+    files: DirectoryFiles,
+    options?: T,
+  ): Promise<DirectoryUploadResult> {
+    const paths = Object.keys(files);
+    if (!paths.length) {
+      throw new Error(
+        "[EMPTY_DIRECTORY_ERROR] Cannot upload a directory without files",
+      );
+    }
+
+    const normalizedPaths = paths.map((path) => normalizeDirectoryPath(path));
+    const transformedFiles = await Promise.all(
+      paths.map((path) => {
+        const file = files[path];
+        return typeof file === "string" ? file : this.transformFile(file);
+      }),
+    );
+    let uris = await this.uploader.uploadBatch(
+      normalizedPaths.map((path, i) => renameFile(transformedFiles[i], path)),
+      // the files have to keep their paths inside of the directory
+      {
+        ...(options as T),
+        rewriteFileNames: undefined,
+        uploadWithoutDirectory: false,
+      },
+    );
+    // the URI of the directory is the URI of any of its files without the path
+    let uri = uris[0]
+      .split("/")
+      .slice(0, -normalizedPaths[0].split("/").length)
+      .join("/");
+
+    if (options?.uploadWithGatewayUrl || this.uploader.uploadWithGatewayUrl) {
+      uri = this.resolveScheme(uri);
+      uris = uris.map((fileUri) => this.resolveScheme(fileUri));
+    }
+    return {
+      uri,
+      uris: normalizedPaths.reduce((result, path, i) => {
+        result[path] = uris[i];
+        return result;
+      }, {} as Record<string, string>),
+    };
+  }
+
+  /**
+   * Compute the URI that uploading arbitrary file or JSON data would return, without uploading anything.
+   * Only supported by uploaders that can compute URIs locally, such as the default IPFS uploader.
+   *
+   * @param data - Arbitrary file or JSON data
+   * @param options - The options that would be passed to the storage uploader class
+   * @returns - The URI of the data
+   *
+   * @example
+   * ```jsx
+   * const uri = await storage.computeUri(data);
+   * // uploading the same data returns the same URI
+   * const uploadedUri = await storage.upload(data);
+   * ```
+   */
+  async computeUri(data: unknown, options?: T): Promise<string> {
+    const [uri] = await this.computeUriBatch([data], options);
+    return uri;
+  }
+
+  /**
+   * Compute the URIs that batch uploading arbitrary file or JSON data would return, without uploading anything.
+   * Only supported by uploaders that can compute URIs locally, such as the default IPFS uploader.
+   *
+   * @param data - Array of arbitrary file or JSON data
+   * @param options - The options that would be passed to the storage uploader class
+   * @returns - The URIs of the data
+   *
+   * @example
+   * ```jsx
+   * const uris = await storage.computeUriBatch([file, { name: "JSON", image: file }]);
+   * ```
+   */
+  async computeUriBatch(data: unknown[], options?: T): Promise<string[]> {
+    const computeUris = this.uploader.computeUris?.bind(this.uploader);
+    if (!computeUris) {
+      throw new Error(
+        "[COMPUTE_URI_ERROR] The configured uploader does not support computing URIs",
+      );
+    }
+    return this.processBatch(data, options, (files, batchOptions) =>
+      computeUris(files, batchOptions),
+    );
+  }
+
+  private async processBatch(
+    data: unknown[],
+    options: T | undefined,
+    uploadFiles: UploadFiles<T>,
+  ): Promise<string[]> {
     data = data.filter((item) => item !== undefined);
 
     if (!data.length) {
@@ -176,14 +404,18 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
 
     // If data is an array of files, pass it through to upload directly
     if (isFileArray) {
-      uris = await this.uploader.uploadBatch(
-        data as FileOrBufferOrString[],
+      uris = await uploadFiles(
+        await Promise.all(
+          (data as FileOrBufferOrString[]).map((file) =>
+            typeof file === "string" ? file : this.transformFile(file),
+          ),
+        ),
         options,
       );
     } else {
       // Otherwise it is an array of JSON objects, so we have to prepare it first
       const metadata = (
-        await this.uploadAndReplaceFilesWithHashes(data, options)
+        await this.uploadAndReplaceFilesWithHashes(data, options, uploadFiles)
       ).map((item) => {
         if (typeof item === "string") {
           return item;
@@ -191,7 +423,7 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
         return JSON.stringify(item);
       });
 
-      uris = await this.uploader.uploadBatch(metadata, options);
+      uris = await uploadFiles(metadata, options);
     }
 
     if (options?.uploadWithGatewayUrl || this.uploader.uploadWithGatewayUrl) {
@@ -203,7 +435,8 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
 
   private async uploadAndReplaceFilesWithHashes(
     data: unknown[],
-    options?: T,
+    options: T | undefined,
+    uploadFiles: UploadFiles<T>,
   ): Promise<unknown[]> {
     let cleaned = data;
     // Replace any gateway URLs with their hashes
@@ -215,12 +448,51 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
     // Recurse through data and extract files to upload
     const files = extractObjectFiles(cleaned);
 
+    let objectFiles: UploadedObjectFile[][] = cleaned.map(() => []);
     if (files.length) {
+      const transformedFiles = await Promise.all(
+        files.map((file) => this.transformFile(file)),
+      );
       // Upload all files that came from the object
-      const uris = await this.uploader.uploadBatch(files, options);
+      const uris = await uploadFiles(transformedFiles, options);
+      objectFiles = getUploadedObjectFiles(cleaned, transformedFiles, uris);
 
       // Recurse through data and replace files with hashes
-      cleaned = replaceObjectFilesWithUris(cleaned, uris) as unknown[];
+      cleaned = replaceObjectFilesWithUris(cleaned, [...uris]) as unknown[];
+    }
+
+    if (this.uploadHooks.some((hook) => hook.transformObject)) {
+      // The files of the hooks are numbered in their own batch, instead of with the names of the upload
+      const hookUploads = batchUploads(
+        cleaned.filter(isPlainObject).length,
+        (hookFiles) =>
+          uploadFiles(hookFiles, {
+            ...(options as T),
+            rewriteFileNames: { fileStartNumber: 0 },
+            uploadWithoutDirectory: false,
+          }),
+      );
+      // Let the hooks transform the objects, after their files were replaced with URIs
+      cleaned = await Promise.all(
+        cleaned.map(async (item, i) => {
+          if (!isPlainObject(item)) {
+            return item;
+          }
+          let object = item;
+          try {
+            for (const hook of this.uploadHooks) {
+              if (hook.transformObject) {
+                object = await hook.transformObject(object, objectFiles[i], {
+                  upload: hookUploads.upload,
+                });
+              }
+            }
+          } finally {
+            hookUploads.done();
+          }
+          return object;
+        }),
+      );
     }
 
     if (options?.uploadWithGatewayUrl || this.uploader.uploadWithGatewayUrl) {
@@ -234,4 +506,100 @@ export class ThirdwebStorage<T extends UploadOptions = IpfsUploadBatchOptions> {
 
     return cleaned;
   }
+
+  private async transformFile(file: FileOrBuffer): Promise<FileOrBuffer> {
+    for (const hook of this.uploadHooks) {
+      if (hook.transformFile) {
+        file = await hook.transformFile(file);
+      }
+    }
+    return file;
+  }
+}
+
+type UploadFiles<T> = (
+  files: FileOrBufferOrString[],
+  options: T | undefined,
+) => Promise<string[]>;
+
+// Send the uploads of the objects of a batch together, once every object that isn't transformed yet waits for one
+function batchUploads(
+  count: number,
+  uploadFiles: (files: FileOrBufferOrString[]) => Promise<string[]>,
+) {
+  let pending = count;
+  let queue: {
+    files: FileOrBufferOrString[];
+    resolve: (uris: string[]) => void;
+    reject: (err: unknown) => void;
+  }[] = [];
+
+  const flush = () => {
+    if (!queue.length || queue.length < pending) {
+      return;
+    }
+    const requests = queue;
+    queue = [];
+    uploadFiles(
+      requests.reduce(
+        (files, request) => files.concat(request.files),
+        [] as FileOrBufferOrString[],
+      ),
+    ).then(
+      (uris) => {
+        let offset = 0;
+        requests.forEach((request) => {
+          request.resolve(uris.slice(offset, offset + request.files.length));
+          offset += request.files.length;
+        });
+      },
+      (err) => requests.forEach((request) => request.reject(err)),
+    );
+  };
+
+  return {
+    upload(files: FileOrBufferOrString[]): Promise<string[]> {
+      return new Promise((resolve, reject) => {
+        queue.push({ files, resolve, reject });
+        flush();
+      });
+    },
+    done() {
+      pending--;
+      flush();
+    },
+  };
+}
+
+function isPlainObject(data: unknown): data is Record<string, unknown> {
+  return (
+    typeof data === "object" &&
+    !!data &&
+    !Array.isArray(data) &&
+    !isFileOrBuffer(data)
+  );
+}
+
+// Find the files that were uploaded from the top level properties of every object,
+// in the same order as the files were extracted from the objects
+function getUploadedObjectFiles(
+  data: unknown[],
+  files: FileOrBuffer[],
+  uris: string[],
+): UploadedObjectFile[][] {
+  let index = 0;
+  return data.map((item) => {
+    const uploaded: UploadedObjectFile[] = [];
+    if (!isPlainObject(item)) {
+      index += extractObjectFiles(item).length;
+      return uploaded;
+    }
+    for (const [key, value] of Object.entries(item)) {
+      if (isFileOrBuffer(value)) {
+        uploaded.push({ key, file: files[index], uri: uris[index] });
+      }
+      index += extractObjectFiles(value).length;
+    }
+    return uploaded;
+  });
 }
@@ -0,0 +1,50 @@
+import { fromBase64Url } from "../../common/arweave";
+import { getSubtleCrypto } from "../../common/utils";
+import { DataItemSigner } from "../../types";
+
+/**
+ * Signs Arweave data items with an Arweave wallet key file
+ *
+ * @example
+ * ```jsx
+ * const jwk = JSON.parse(readFileSync("wallet.json", "utf-8"));
+ * const signer = new ArweaveSigner(jwk);
+ * const uploader = new ArweaveUploader({ signer });
+ * ```
+ *
+ * @public
+ */
+export class ArweaveSigner implements DataItemSigner {
+  public signatureType = 1;
+  public publicKey: Uint8Array;
+  private jwk: JsonWebKey;
+  private key?: Promise<CryptoKey>;
+
+  constructor(jwk: JsonWebKey) {
+    if (jwk.kty !== "RSA" || !jwk.n || !jwk.d) {
+      throw new Error(
+        "[INVALID_ARWEAVE_KEY_ERROR] Arweave keys must be private RSA keys in JWK format",
+      );
+    }
+    this.jwk = jwk;
+    this.publicKey = fromBase64Url(jwk.n);
+  }
+
+  async sign(message: Uint8Array): Promise<Uint8Array> {
+    if (!this.key) {
+      this.key = getSubtleCrypto().importKey(
+        "jwk",
+        this.jwk,
+        { name: "RSA-PSS", hash: "SHA-256" },
+        false,
+        ["sign"],
+      );
+    }
+    const signature = await getSubtleCrypto().sign(
+      { name: "RSA-PSS", saltLength: 32 },
+      await this.key,
+      message,
+    );
+    return new Uint8Array(signature);
+  }
+}
@@ -0,0 +1,222 @@
+import {
+  createBundleDataItem,
+  createDataItem,
+  createPathManifest,
+  DataItem,
+} from "../../common/arweave";
+import { BUNDLR_NODE_URL } from "../../common/urls";
+import {
+  encodePath,
+  getContentType,
+  getFilesToUpload,
+  isBrowser,
+  toBytes,
+} from "../../common/utils";
+import {
+  ArweaveUploadBatchOptions,
+  ArweaveUploaderOptions,
+  DataItemSigner,
+  DataItemTag,
+  FileOrBufferOrString,
+  IStorageUploader,
+} from "../../types";
+import fetch from "cross-fetch";
+
+// The size of the parts the bundle is streamed in on node, to report the progress of the upload
+const UPLOAD_CHUNK_SIZE = 256 * 1024;
+
+/**
+ * Uploader that stores data permanently on Arweave, through a bundler like Bundlr
+ *
+ * @example
+ * ```jsx
+ * // Sign the uploads with an Arweave wallet funded on the bundler
+ * const signer = new ArweaveSigner(jwk);
+ * const uploader = new ArweaveUploader({ signer });
+ * const storage = new ThirdwebStorage({ uploader });
+ *
+ * // Files are returned with ar:// URIs, which resolve through the Arweave gateway
+ * const uri = await storage.upload(metadata);
+ * ```
+ *
+ * @public
+ */
+export class ArweaveUploader
+  implements IStorageUploader<ArweaveUploadBatchOptions>
+{
+  public uploadWithGatewayUrl: boolean;
+  private signer: DataItemSigner;
+  private bundlerUrl: string;
+  private currency: string;
+
+  constructor(options: ArweaveUploaderOptions) {
+    this.signer = options.signer;
+    this.bundlerUrl = (options.bundlerUrl || BUNDLR_NODE_URL).replace(
+      /\/$/,
+      "",
+    );
+    this.currency = options.currency || "arweave";
+    this.uploadWithGatewayUrl = options.uploadWithGatewayUrl || false;
+  }
+
+  async uploadBatch(
+    data: FileOrBufferOrString[],
+    options?: ArweaveUploadBatchOptions,
+  ): Promise<string[]> {
+    if (options?.uploadWithoutDirectory && data.length > 1) {
+      throw new Error(
+        "[UPLOAD_WITHOUT_DIRECTORY_ERROR] Cannot upload more than one file or object without directory!",
+      );
+    }
+
+    const { files, fileNames } = getFilesToUpload(data, options);
+    const tags = options?.tags || [];
+    const items = await Promise.all(
+      files.map(async (file) =>
+        createDataItem(await toBytes(file.data), this.signer, [
+          ...getContentTypeTags(file.data),
+          ...tags,
+        ]),
+      ),
+    );
+
+    let uris: string[];
+    if (options?.uploadWithoutDirectory) {
+      uris = [`ar://${items[0].id}`];
+    } else {
+      // the manifest lets gateways resolve the files by name, like an IPFS directory
+      const manifest = await createDataItem(
+        new TextEncoder().encode(
+          createPathManifest(
+            Object.fromEntries(
+              files.map((file, i) => [file.name, items[i].id]),
+            ),
+          ),
+        ),
+        this.signer,
+        [
+          {
+            name: "Content-Type",
+            value: "application/x.arweave-manifest+json",
+          },
+          ...tags,
+        ],
+      );
+      items.push(manifest);
+      uris = fileNames.map((name) => `ar://${manifest.id}/${encodePath(name)}`);
+    }
+
+    // all the files are sent in a single bundle, so that they are stored together
+    const bundle = await createBundleDataItem(items, this.signer);
+    const id = isBrowser()
+      ? await this.uploadBundleBrowser(bundle, options)
+      : await this.uploadBundleNode(bundle, options);
+    if (id !== bundle.id) {
+      throw new Error(
+        `[ARWEAVE_UPLOAD_ERROR] Bundler returned id ${id} but the uploaded bundle has id ${bundle.id}`,
+      );
+    }
+
+    return uris;
+  }
+
+  private async uploadBundleBrowser(
+    bundle: DataItem,
+    options?: ArweaveUploadBatchOptions,
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+
+      xhr.upload.addEventListener("progress", (event) => {
+        if (event.lengthComputable && options?.onProgress) {
+          options?.onProgress({
+            progress: event.loaded,
+            total: event.total,
+          });
+        }
+      });
+
+      xhr.addEventListener("load", () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          try {
+            return resolve(JSON.parse(xhr.responseText).id);
+          } catch (err) {
+            return reject(
+              new Error("Failed to parse JSON from upload response"),
+            );
+          }
+        }
+
+        return reject(
+          new Error(getUploadErrorMessage(xhr.status, xhr.responseText)),
+        );
+      });
+
+      xhr.addEventListener("error", () => {
+        return reject(
+          new Error(
+            "This looks like a network error, the endpoint might be blocked by an internet provider or a firewall.",
+          ),
+        );
+      });
+
+      xhr.open("POST", `${this.bundlerUrl}/tx/${this.currency}`);
+      xhr.setRequestHeader("Content-Type", "application/octet-stream");
+
+      xhr.send(bundle.raw);
+    });
+  }
+
+  private async uploadBundleNode(
+    bundle: DataItem,
+    options?: ArweaveUploadBatchOptions,
+  ): Promise<string> {
+    const { Readable } = require("stream");
+    const total = bundle.raw.length;
+    let progress = 0;
+    // the progress is reported as the request reads each part of the bundle
+    const stream = new Readable({
+      read() {
+        if (progress >= total) {
+          this.push(null);
+          return;
+        }
+        const chunk = bundle.raw.subarray(
+          progress,
+          progress + UPLOAD_CHUNK_SIZE,
+        );
+        progress += chunk.length;
+        this.push(chunk);
+        if (options?.onProgress) {
+          options.onProgress({ progress, total });
+        }
+      },
+    });
+
+    const res = await fetch(`${this.bundlerUrl}/tx/${this.currency}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Length": total.toString(),
+      },
+      body: stream,
+    });
+    if (!res.ok) {
+      throw new Error(getUploadErrorMessage(res.status, await res.text()));
+    }
+    const body = await res.json();
+    return body.id;
+  }
+}
+
+function getContentTypeTags(data: FileOrBufferOrString): DataItemTag[] {
+  const contentType = getContentType(data);
+  return contentType ? [{ name: "Content-Type", value: contentType }] : [];
+}
+
+function getUploadErrorMessage(status: number, body: string): string {
+  if (status === 402) {
+    return `[ARWEAVE_UPLOAD_ERROR] Not enough funds on the bundler to upload - ${body}`;
+  }
+  return `[ARWEAVE_UPLOAD_ERROR] Upload failed with status ${status} - ${body}`;
+}
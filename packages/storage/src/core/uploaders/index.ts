@@ -1,2 +1,6 @@
+export { ArweaveSigner } from "./arweave-signer";
+export { ArweaveUploader } from "./arweave-uploader";
 export { IpfsUploader } from "./ipfs-uploader";
+export { KuboUploader } from "./kubo-uploader";
 export { MockUploader } from "./mock-uploader";
+export { S3Uploader } from "./s3-uploader";
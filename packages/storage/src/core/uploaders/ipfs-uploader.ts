@@ -1,19 +1,42 @@
-import { PINATA_IPFS_URL, TW_IPFS_SERVER_URL } from "../../common/urls";
 import {
+  BLOCK_SIZE,
+  buildDirectoryNode,
+  buildDirectoryTree,
+  buildFileNode,
+  computeIpfsUris,
+  DagNode,
+} from "../../common/cid";
+import { PINATA_API_URL, TW_IPFS_SERVER_URL } from "../../common/urls";
+import {
+  encodePath,
+  getFilesToUpload,
   isBrowser,
-  isBufferOrStringWithName,
-  isFileBufferOrStringEqual,
-  isFileInstance,
+  toBytes,
 } from "../../common/utils";
 import {
   FileOrBufferOrString,
   IpfsUploadBatchOptions,
   IpfsUploaderOptions,
   IStorageUploader,
+  UploadProgressEvent,
 } from "../../types";
 import fetch from "cross-fetch";
 import FormData from "form-data";
 
+type FileToUpload = { name: string; data: FileOrBufferOrString };
+
+/**
+ * A request to the upload server that failed, with the status of the response if there was one
+ */
+class UploadRequestError extends Error {
+  public status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
 /**
  * Default uploader used - handles uploading arbitrary data to IPFS
  *
@@ -36,9 +59,17 @@ import FormData from "form-data";
  */
 export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
   public uploadWithGatewayUrl: boolean;
+  private uploadServerUrl: string;
+  private pinataUrl: string;
+  private verifyUploads: boolean;
 
   constructor(options?: IpfsUploaderOptions) {
     this.uploadWithGatewayUrl = options?.uploadWithGatewayUrl || false;
+    this.uploadServerUrl = (
+      options?.uploadServerUrl || TW_IPFS_SERVER_URL
+    ).replace(/\/$/, "");
+    this.pinataUrl = (options?.pinataUrl || PINATA_API_URL).replace(/\/$/, "");
+    this.verifyUploads = options?.verifyUploads || false;
   }
 
   async uploadBatch(
@@ -51,16 +82,283 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
       );
     }
 
-    const formData = new FormData();
-    const { form, fileNames } = this.buildFormData(formData, data, options);
+    const { files, fileNames } = getFilesToUpload(data, options);
+    const nodes = await this.buildFileNodes(files, options);
+    const chunks = this.splitIntoChunks(
+      nodes,
+      options?.chunkSize !== undefined ? options.chunkSize : 50 * 1024 * 1024,
+    );
+
+    // compute the URIs locally so that we don't have to trust the upload server
+    const expectedUris = await this.getUris(files, fileNames, nodes, options);
+
+    if (options?.uploadWithoutDirectory || chunks.length === 1) {
+      const form = this.buildFormData(files, options);
+      const cid = await this.withRetries(
+        () => this.uploadForm(form, options?.onProgress),
+        options,
+      );
+      // node requests don't report their progress, so always report the end of the upload
+      const total = nodes.reduce((sum, node) => sum + node.fileSize, 0);
+      options?.onProgress?.({ progress: total, total });
+      const uris = options?.uploadWithoutDirectory
+        ? [`ipfs://${cid}`]
+        : fileNames.map((name) => `ipfs://${cid}/${encodePath(name)}`);
+      const mismatch = uris.findIndex((uri, i) => uri !== expectedUris[i]);
+      if (mismatch !== -1) {
+        const message = `[CID_MISMATCH_ERROR] Upload server returned ${uris[mismatch]} but the uploaded data has URI ${expectedUris[mismatch]}`;
+        if (this.verifyUploads) {
+          throw new Error(message);
+        }
+        console.warn(message);
+      }
+      return uris;
+    }
+
+    await this.uploadChunks(files, nodes, chunks, options);
+    return expectedUris;
+  }
+
+  /**
+   * Compute the URIs that uploading the data would return, without uploading anything
+   *
+   * @param data - Array of arbitrary file data or JSON strings
+   * @param options - The options that would be passed to uploadBatch
+   * @returns Array of file URIs
+   */
+  async computeUris(
+    data: FileOrBufferOrString[],
+    options?: IpfsUploadBatchOptions,
+  ): Promise<string[]> {
+    const { files, fileNames } = getFilesToUpload(data, options);
+    const nodes = await this.buildFileNodes(files, options);
+    return this.getUris(files, fileNames, nodes, options);
+  }
+
+  private async buildFileNodes(
+    files: FileToUpload[],
+    options?: IpfsUploadBatchOptions,
+  ): Promise<DagNode[]> {
+    return Promise.all(
+      files.map(async (file) =>
+        buildFileNode(await toBytes(file.data), options?.cidVersion || 0),
+      ),
+    );
+  }
+
+  private async getUris(
+    files: FileToUpload[],
+    fileNames: string[],
+    nodes: DagNode[],
+    options?: IpfsUploadBatchOptions,
+  ): Promise<string[]> {
+    return computeIpfsUris(
+      files.map((file, i) => ({ name: file.name, node: nodes[i] })),
+      fileNames,
+      options,
+    );
+  }
+
+  /**
+   * Split the files into chunks of at most chunkSize bytes, files that are larger get a chunk of their own
+   *
+   * @returns The indexes of the files of every chunk
+   */
+  private splitIntoChunks(nodes: DagNode[], chunkSize: number): number[][] {
+    const chunks: number[][] = [];
+    let current: number[] = [];
+    let currentSize = 0;
+    nodes.forEach((node, i) => {
+      if (current.length > 0 && currentSize + node.fileSize > chunkSize) {
+        chunks.push(current);
+        current = [];
+        currentSize = 0;
+      }
+      current.push(i);
+      currentSize += node.fileSize;
+    });
+    chunks.push(current);
+    return chunks;
+  }
+
+  /**
+   * Upload every chunk as a directory of its own, then the directory of all the files
+   */
+  private async uploadChunks(
+    files: FileToUpload[],
+    nodes: DagNode[],
+    chunks: number[][],
+    options?: IpfsUploadBatchOptions,
+  ) {
+    const cidVersion = options?.cidVersion || 0;
+    const uploadedChunks = new Set(options?.resumeFrom?.uploadedChunks || []);
+    const total = nodes.reduce((sum, node) => sum + node.fileSize, 0);
+    let uploaded = 0;
+
+    for (const chunk of chunks) {
+      const chunkFiles = chunk.map((i) => files[i]);
+      const chunkSize = chunk.reduce((sum, i) => sum + nodes[i].fileSize, 0);
+      const directory = await buildDirectoryTree(
+        chunk.map((i) => ({ name: files[i].name, node: nodes[i] })),
+        cidVersion,
+      );
+      const expectedCid = directory.cid.toString();
+
+      if (!uploadedChunks.has(expectedCid)) {
+        const form = this.buildFormData(chunkFiles, {
+          ...options,
+          // every chunk is wrapped in a directory, even the chunks of a single file
+          uploadWithoutDirectory: false,
+        });
+        const cid = await this.withRetries(
+          () =>
+            this.uploadForm(form, (event) =>
+              options?.onProgress?.({
+                progress: uploaded + (chunkSize * event.progress) / event.total,
+                total,
+              }),
+            ),
+          options,
+        );
+        // the directory of all the files links to the CIDs computed locally, it would be missing a chunk stored under another CID
+        if (cid !== expectedCid) {
+          throw new Error(
+            `[CID_MISMATCH_ERROR] Upload server returned ${cid} for a chunk but the uploaded data has CID ${expectedCid}`,
+          );
+        }
+        uploadedChunks.add(cid);
+        options?.onManifest?.({ uploadedChunks: Array.from(uploadedChunks) });
+      }
+
+      uploaded += chunkSize;
+      options?.onProgress?.({ progress: uploaded, total });
+    }
+
+    // the files are already stored by the chunks, so the final directory only links to them
+    const directory = await buildDirectoryTree(
+      files.map((file, i) => ({ name: file.name, node: nodes[i] })),
+      cidVersion,
+    );
+    if (!uploadedChunks.has(directory.cid.toString())) {
+      await this.uploadDirectoryBlocks(directory, options);
+      await this.withRetries(
+        () => this.pinByHash(directory.cid.toString()),
+        options,
+      );
+      uploadedChunks.add(directory.cid.toString());
+      options?.onManifest?.({ uploadedChunks: Array.from(uploadedChunks) });
+    }
+  }
+
+  /**
+   * Store the blocks of a directory, its subdirectories and HAMT shards, without uploading its files again
+   *
+   * @remarks The blocks are uploaded as CIDv1 files, which are stored as single raw blocks when they fit in one.
+   * IPFS stores blocks by their multihash, so the blocks are then also available under the CIDs of the directories.
+   */
+  private async uploadDirectoryBlocks(
+    directory: DagNode,
+    options?: IpfsUploadBatchOptions,
+  ) {
+    const blocks = getDirectoryNodes(directory);
+    if (blocks.some((node) => node.block.length > BLOCK_SIZE)) {
+      throw new Error(
+        "[DIRECTORY_TOO_LARGE_ERROR] A directory is too large to upload in chunks, upload the files with a larger chunk size or in several batches instead.",
+      );
+    }
+
+    const entries = await Promise.all(
+      blocks.map(async (node) => ({
+        name: node.cid.toString(),
+        node: await buildFileNode(node.block, 1),
+      })),
+    );
+    const expectedCid = (await buildDirectoryNode(entries, 1)).cid.toString();
+    const form = this.buildFormData(
+      blocks.map((node) => ({
+        name: node.cid.toString(),
+        // form-data only accepts buffers in node
+        data: isBrowser() ? (node.block as any) : Buffer.from(node.block),
+      })),
+      { cidVersion: 1 },
+    );
+    const cid = await this.withRetries(() => this.uploadForm(form), options);
+    // blocks stored under other multihashes could not be pinned as the directory
+    if (cid !== expectedCid) {
+      throw new Error(
+        `[CID_MISMATCH_ERROR] Upload server returned ${cid} for the blocks of directory ${directory.cid.toString()} but they have CID ${expectedCid}`,
+      );
+    }
+  }
+
+  /**
+   * Pin a CID whose blocks are already stored, with all of the blocks it links to
+   */
+  private async pinByHash(cid: string): Promise<void> {
+    const token = await this.getUploadToken();
+    await this.request(
+      `${this.pinataUrl}/pinning/pinByHash`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          hashToPin: cid,
+          pinataMetadata: { name: `Storage SDK` },
+        }),
+      },
+      "Failed to pin directory on IPFS",
+    );
+  }
 
-    if (isBrowser()) {
-      return this.uploadBatchBrowser(form, fileNames, options);
-    } else {
-      return this.uploadBatchNode(form, fileNames, options);
+  private async withRetries<T>(
+    upload: () => Promise<T>,
+    options?: IpfsUploadBatchOptions,
+  ): Promise<T> {
+    const retries = options?.retries !== undefined ? options.retries : 3;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await upload();
+      } catch (err) {
+        if (attempt >= retries || !isRetryable(err)) {
+          throw err;
+        }
+        const delay = 1000 * 2 ** attempt;
+        console.warn(`Upload failed, retrying in ${delay}ms`, err);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
     }
   }
 
+  /**
+   * Send a request to the upload server or Pinata
+   *
+   * @throws UploadRequestError if the request fails or gets an error response
+   */
+  private async request(
+    url: string,
+    init: RequestInit,
+    errorMessage: string,
+  ): Promise<Response> {
+    let res: Response;
+    try {
+      res = await fetch(url, init);
+    } catch (err) {
+      throw new UploadRequestError(
+        `${errorMessage} - ${(err as Error).message}`,
+      );
+    }
+    if (!res.ok) {
+      throw new UploadRequestError(
+        `${errorMessage} with status ${res.status} - ${await res.text()}`,
+        res.status,
+      );
+    }
+    return res;
+  }
+
   /**
    * Fetches a one-time-use upload token that can used to upload
    * a file to storage.
@@ -68,121 +366,80 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
    * @returns - The one time use token that can be passed to the Pinata API.
    */
   private async getUploadToken(): Promise<string> {
-    const res = await fetch(`${TW_IPFS_SERVER_URL}/grant`, {
-      method: "GET",
-      headers: {
-        "X-APP-NAME":
-          // eslint-disable-next-line turbo/no-undeclared-env-vars
-          process.env.NODE_ENV === "test" || !!process.env.CI
-            ? "Storage SDK CI"
-            : "Storage SDK",
+    const res = await this.request(
+      `${this.uploadServerUrl}/grant`,
+      {
+        method: "GET",
+        headers: {
+          "X-APP-NAME":
+            // eslint-disable-next-line turbo/no-undeclared-env-vars
+            process.env.NODE_ENV === "test" || !!process.env.CI
+              ? "Storage SDK CI"
+              : "Storage SDK",
+        },
       },
-    });
-    if (!res.ok) {
-      throw new Error(`Failed to get upload token`);
-    }
+      "Failed to get upload token",
+    );
     const body = await res.text();
     return body;
   }
 
   private buildFormData(
-    form: FormData,
-    files: FileOrBufferOrString[],
-    options?: IpfsUploadBatchOptions,
-  ) {
-    const fileNameToFileMap = new Map<string, FileOrBufferOrString>();
-    const fileNames: string[] = [];
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      let fileName = "";
-      let fileData = file;
-
-      if (isFileInstance(file)) {
-        if (options?.rewriteFileNames) {
-          let extensions = "";
-          if (file.name) {
-            const extensionStartIndex = file.name.lastIndexOf(".");
-            if (extensionStartIndex > -1) {
-              extensions = file.name.substring(extensionStartIndex);
-            }
-          }
-          fileName = `${
-            i + options.rewriteFileNames.fileStartNumber
-          }${extensions}`;
-        } else {
-          fileName = `${file.name}`;
-        }
-      } else if (isBufferOrStringWithName(file)) {
-        fileData = file.data;
-        if (options?.rewriteFileNames) {
-          fileName = `${i + options.rewriteFileNames.fileStartNumber}`;
-        } else {
-          fileName = `${file.name}`;
-        }
-      } else {
-        if (options?.rewriteFileNames) {
-          fileName = `${i + options.rewriteFileNames.fileStartNumber}`;
-        } else {
-          fileName = `${i}`;
-        }
-      }
-
+    files: FileToUpload[],
+    options?: Pick<
+      IpfsUploadBatchOptions,
+      "uploadWithoutDirectory" | "cidVersion"
+    >,
+  ): FormData {
+    const form = new FormData();
+    for (const file of files) {
       // If we don't want to wrap with directory, adjust the filepath
       const filepath = options?.uploadWithoutDirectory
         ? `files`
-        : `files/${fileName}`;
-
-      if (fileNameToFileMap.has(fileName)) {
-        // if the file in the map is the same as the file we are already looking at then just skip and continue
-        if (isFileBufferOrStringEqual(fileNameToFileMap.get(fileName), file)) {
-          // we add it to the filenames array so that we can return the correct number of urls,
-          fileNames.push(fileName);
-          // but then we skip because we don't need to upload it multiple times
-          continue;
-        }
-        // otherwise if file names are the same but they are not the same file then we should throw an error (trying to upload to differnt files but with the same names)
-        throw new Error(
-          `[DUPLICATE_FILE_NAME_ERROR] File name ${fileName} was passed for more than one different file.`,
-        );
-      }
-
-      // add it to the map so that we can check for duplicates
-      fileNameToFileMap.set(fileName, file);
-      // add it to the filenames array so that we can return the correct number of urls
-      fileNames.push(fileName);
+        : `files/${file.name}`;
       if (!isBrowser()) {
-        form.append("file", fileData as any, { filepath } as any);
+        form.append("file", file.data as any, { filepath } as any);
       } else {
         // browser does blob things, filepath is parsed differently on browser vs node.
         // pls pinata?
-        form.append("file", new Blob([fileData as any]), filepath);
+        form.append("file", new Blob([file.data as any]), filepath);
       }
     }
 
     const metadata = { name: `Storage SDK`, keyvalues: {} };
     form.append("pinataMetadata", JSON.stringify(metadata));
 
-    if (options?.uploadWithoutDirectory) {
+    if (options?.uploadWithoutDirectory || options?.cidVersion) {
       form.append(
         "pinataOptions",
         JSON.stringify({
-          wrapWithDirectory: false,
+          wrapWithDirectory: !options?.uploadWithoutDirectory,
+          cidVersion: options?.cidVersion || 0,
         }),
       );
     }
 
-    return {
-      form,
-      // encode the file names on the way out (which is what the upload backend expects)
-      fileNames: fileNames.map((fName) => encodeURIComponent(fName)),
-    };
+    return form;
   }
 
-  private async uploadBatchBrowser(
+  /**
+   * Upload a form to IPFS
+   *
+   * @returns The CID of the uploaded file or directory
+   */
+  private async uploadForm(
     form: FormData,
-    fileNames: string[],
-    options?: IpfsUploadBatchOptions,
-  ): Promise<string[]> {
+    onProgress?: (event: UploadProgressEvent) => void,
+  ): Promise<string> {
+    return isBrowser()
+      ? this.uploadFormBrowser(form, onProgress)
+      : this.uploadFormNode(form);
+  }
+
+  private async uploadFormBrowser(
+    form: FormData,
+    onProgress?: (event: UploadProgressEvent) => void,
+  ): Promise<string> {
     const token = await this.getUploadToken();
 
     return new Promise((resolve, reject) => {
@@ -191,7 +448,7 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
       let timer = setTimeout(() => {
         xhr.abort();
         reject(
-          new Error(
+          new UploadRequestError(
             "Request to upload timed out! No upload progress received in 30s",
           ),
         );
@@ -210,7 +467,7 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
           timer = setTimeout(() => {
             xhr.abort();
             reject(
-              new Error(
+              new UploadRequestError(
                 "Request to upload timed out! No upload progress received in 30s",
               ),
             );
@@ -221,8 +478,8 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
           );
         }
 
-        if (event.lengthComputable && options?.onProgress) {
-          options?.onProgress({
+        if (event.lengthComputable && onProgress) {
+          onProgress({
             progress: event.loaded,
             total: event.total,
           });
@@ -245,19 +502,18 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
 
           const cid = body.IpfsHash;
           if (!cid) {
-            throw new Error("Failed to get IPFS hash from upload response");
+            return reject(
+              new Error("Failed to get IPFS hash from upload response"),
+            );
           }
 
-          if (options?.uploadWithoutDirectory) {
-            return resolve([`ipfs://${cid}`]);
-          } else {
-            return resolve(fileNames.map((name) => `ipfs://${cid}/${name}`));
-          }
+          return resolve(cid);
         }
 
         return reject(
-          new Error(
+          new UploadRequestError(
             `Upload failed with status ${xhr.status} - ${xhr.responseText}`,
+            xhr.status,
           ),
         );
       });
@@ -271,7 +527,7 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
           xhr.status === 0
         ) {
           return reject(
-            new Error(
+            new UploadRequestError(
               "This looks like a network error, the endpoint might be blocked by an internet provider or a firewall.",
             ),
           );
@@ -280,46 +536,58 @@ export class IpfsUploader implements IStorageUploader<IpfsUploadBatchOptions> {
         return reject(new Error("Unknown upload error occured"));
       });
 
-      xhr.open("POST", PINATA_IPFS_URL);
+      xhr.open("POST", `${this.pinataUrl}/pinning/pinFileToIPFS`);
       xhr.setRequestHeader("Authorization", `Bearer ${token}`);
 
       xhr.send(form as any);
     });
   }
 
-  private async uploadBatchNode(
-    form: FormData,
-    fileNames: string[],
-    options?: IpfsUploadBatchOptions,
-  ) {
+  private async uploadFormNode(form: FormData): Promise<string> {
     const token = await this.getUploadToken();
 
-    if (options?.onProgress) {
-      console.warn("The onProgress option is only supported in the browser");
-    }
-    const res = await fetch(PINATA_IPFS_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${token}`,
-        ...form.getHeaders(),
+    const res = await this.request(
+      `${this.pinataUrl}/pinning/pinFileToIPFS`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...form.getHeaders(),
+        },
+        body: form.getBuffer(),
       },
-      body: form.getBuffer(),
-    });
+      "Failed to upload files to IPFS",
+    );
     const body = await res.json();
-    if (!res.ok) {
-      console.warn(body);
-      throw new Error("Failed to upload files to IPFS");
-    }
 
     const cid = body.IpfsHash;
     if (!cid) {
       throw new Error("Failed to upload files to IPFS");
     }
 
-    if (options?.uploadWithoutDirectory) {
-      return [`ipfs://${cid}`];
-    } else {
-      return fileNames.map((name) => `ipfs://${cid}/${name}`);
-    }
+    return cid;
   }
 }
+
+/**
+ * Only network errors and errors of overloaded servers are retried, other errors would fail again
+ */
+function isRetryable(err: unknown): boolean {
+  return (
+    err instanceof UploadRequestError &&
+    (err.status === undefined || err.status === 429 || err.status >= 500)
+  );
+}
+
+/**
+ * Every directory node linked from a directory, including itself, without duplicates
+ */
+function getDirectoryNodes(directory: DagNode): DagNode[] {
+  const nodes = new Map<string, DagNode>();
+  const visit = (node: DagNode) => {
+    nodes.set(node.cid.toString(), node);
+    (node.directories || []).forEach(visit);
+  };
+  visit(directory);
+  return Array.from(nodes.values());
+}
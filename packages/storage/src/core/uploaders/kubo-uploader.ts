@@ -0,0 +1,454 @@
+import { buildFileNode, computeIpfsUris } from "../../common/cid";
+import { KUBO_API_URL } from "../../common/urls";
+import { getFilesToUpload, isBrowser, toBytes } from "../../common/utils";
+import {
+  FileOrBufferOrString,
+  IStorageUploader,
+  KuboUploadBatchOptions,
+  KuboUploaderOptions,
+  PinningServiceOptions,
+  PinOptions,
+  PinStatus,
+} from "../../types";
+import fetch from "cross-fetch";
+import FormData from "form-data";
+
+type FileToUpload = { name: string; data: FileOrBufferOrString };
+
+// the number of pins fetched per request when listing the pins of a pinning service
+const PINS_PAGE_SIZE = 1000;
+
+/**
+ * Uploader that adds files to an IPFS node through the Kubo RPC API, and optionally pins them
+ * with a remote pinning service that implements the IPFS Pinning Service API.
+ * Pins are managed on the pinning service if one is configured, otherwise on the node.
+ *
+ * @example
+ * ```jsx
+ * // Upload to a local Kubo node
+ * const uploader = new KuboUploader({ apiUrl: "http://127.0.0.1:5001" });
+ * const storage = new ThirdwebStorage({ uploader });
+ *
+ * // Or also pin the uploaded files with a pinning service
+ * const uploader = new KuboUploader({
+ *   apiUrl: "http://127.0.0.1:5001",
+ *   pinningService: {
+ *     endpoint: "https://api.pinata.cloud/psa",
+ *     accessToken: process.env.PINATA_JWT,
+ *   },
+ * });
+ * const storage = new ThirdwebStorage({ uploader });
+ * const uri = await storage.upload(data, { pinName: "my-nft" });
+ *
+ * // List and remove pins
+ * const pins = await uploader.listPins();
+ * await uploader.unpin(uri);
+ * ```
+ *
+ * @public
+ */
+export class KuboUploader implements IStorageUploader<KuboUploadBatchOptions> {
+  public uploadWithGatewayUrl: boolean;
+  private apiUrl: string;
+  private headers: Record<string, string>;
+  private pinningService?: PinningServiceOptions;
+  private pinPollInterval: number;
+
+  constructor(options?: KuboUploaderOptions) {
+    this.apiUrl = (options?.apiUrl || KUBO_API_URL).replace(/\/$/, "");
+    this.headers = options?.headers || {};
+    this.pinningService = options?.pinningService
+      ? {
+          ...options.pinningService,
+          endpoint: options.pinningService.endpoint.replace(/\/$/, ""),
+        }
+      : undefined;
+    this.pinPollInterval =
+      options?.pinPollInterval !== undefined ? options.pinPollInterval : 2000;
+    this.uploadWithGatewayUrl = options?.uploadWithGatewayUrl || false;
+  }
+
+  async uploadBatch(
+    data: FileOrBufferOrString[],
+    options?: KuboUploadBatchOptions,
+  ): Promise<string[]> {
+    if (options?.uploadWithoutDirectory && data.length > 1) {
+      throw new Error(
+        "[UPLOAD_WITHOUT_DIRECTORY_ERROR] Cannot upload more than one file or object without directory!",
+      );
+    }
+
+    const { files, fileNames } = getFilesToUpload(data, options);
+    // compute the URIs locally so that we don't have to trust the node
+    const { uris, sizes } = await this.getUris(files, fileNames, options);
+    const expectedCid = uris[0].replace("ipfs://", "").split("/")[0];
+
+    const cid = await this.add(files, options);
+    if (cid !== expectedCid) {
+      throw new Error(
+        `[CID_MISMATCH_ERROR] IPFS node returned ${cid} but the uploaded data has CID ${expectedCid}`,
+      );
+    }
+    const total = sizes.reduce((sum, size) => sum + size, 0);
+    options?.onProgress?.({ progress: total, total });
+
+    if (this.pinningService) {
+      await this.pin(cid, options);
+    }
+    return uris;
+  }
+
+  /**
+   * Compute the URIs that uploading the data would return, without uploading anything
+   *
+   * @param data - Array of arbitrary file data or JSON strings
+   * @param options - The options that would be passed to uploadBatch
+   * @returns Array of file URIs
+   */
+  async computeUris(
+    data: FileOrBufferOrString[],
+    options?: KuboUploadBatchOptions,
+  ): Promise<string[]> {
+    const { files, fileNames } = getFilesToUpload(data, options);
+    return (await this.getUris(files, fileNames, options)).uris;
+  }
+
+  /**
+   * Pin a CID, on the pinning service if one is configured and otherwise on the node
+   *
+   * @param cid - The CID to pin, or an `ipfs://` URI
+   * @param options - The name of the pin, and whether to wait until it is pinned
+   * @returns The status of the pin
+   */
+  async pin(cid: string, options?: PinOptions): Promise<PinStatus> {
+    cid = toCid(cid);
+    if (!this.pinningService) {
+      await this.kuboRequest("pin/add", { arg: cid });
+      return { requestId: cid, status: "pinned", cid, name: options?.pinName };
+    }
+
+    const pin = toPinStatus(
+      await this.pinningServiceRequest("POST", "/pins", {
+        cid,
+        name: options?.pinName,
+      }),
+    );
+    if (options?.waitForPin === false) {
+      return pin;
+    }
+    return this.waitForPin(
+      pin,
+      options?.pinTimeout !== undefined ? options.pinTimeout : 300000,
+    );
+  }
+
+  /**
+   * Get the status of a pin request
+   *
+   * @param requestId - The ID of the pin request, which is the pinned CID for pins on the node
+   * @returns The status of the pin
+   */
+  async getPinStatus(requestId: string): Promise<PinStatus> {
+    if (!this.pinningService) {
+      const pins = await this.listNodePins(requestId);
+      if (!pins.length) {
+        throw new Error(`[PIN_NOT_FOUND_ERROR] ${requestId} is not pinned`);
+      }
+      return pins[0];
+    }
+    return toPinStatus(
+      await this.pinningServiceRequest(
+        "GET",
+        `/pins/${encodeURIComponent(requestId)}`,
+      ),
+    );
+  }
+
+  /**
+   * Remove the pins of a CID, on the pinning service if one is configured and otherwise on the node
+   *
+   * @param cid - The CID to unpin, or an `ipfs://` URI
+   */
+  async unpin(cid: string): Promise<void> {
+    cid = toCid(cid);
+    if (!this.pinningService) {
+      try {
+        await this.kuboRequest("pin/rm", { arg: cid });
+      } catch (err: any) {
+        if (!err.message.includes("not pinned")) {
+          throw err;
+        }
+      }
+      return;
+    }
+
+    const pins = await this.listPins(cid);
+    await Promise.all(
+      pins.map((pin) =>
+        this.pinningServiceRequest(
+          "DELETE",
+          `/pins/${encodeURIComponent(pin.requestId)}`,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * List the pins, on the pinning service if one is configured and otherwise on the node
+   *
+   * @param cid - If specified, only the pins of this CID or `ipfs://` URI are listed
+   * @returns The status of every pin
+   */
+  async listPins(cid?: string): Promise<PinStatus[]> {
+    if (!this.pinningService) {
+      return this.listNodePins(cid ? toCid(cid) : undefined);
+    }
+
+    const pins: PinStatus[] = [];
+    // pins are listed from the most recent, older pins are fetched with the date of the last one
+    let before: string | undefined;
+    for (;;) {
+      const query = new URLSearchParams({
+        status: "queued,pinning,pinned,failed",
+        limit: `${PINS_PAGE_SIZE}`,
+      });
+      if (cid) {
+        query.set("cid", toCid(cid));
+      }
+      if (before) {
+        query.set("before", before);
+      }
+      const body = await this.pinningServiceRequest(
+        "GET",
+        `/pins?${query.toString()}`,
+      );
+      const page: PinStatus[] = body.results.map(toPinStatus);
+      pins.push(...page);
+      if (page.length < PINS_PAGE_SIZE || pins.length >= body.count) {
+        return pins;
+      }
+      before = page[page.length - 1].created;
+    }
+  }
+
+  private async getUris(
+    files: FileToUpload[],
+    fileNames: string[],
+    options?: KuboUploadBatchOptions,
+  ): Promise<{ uris: string[]; sizes: number[] }> {
+    const nodes = await Promise.all(
+      files.map(async (file) =>
+        buildFileNode(await toBytes(file.data), options?.cidVersion || 0),
+      ),
+    );
+    const uris = await computeIpfsUris(
+      files.map((file, i) => ({ name: file.name, node: nodes[i] })),
+      fileNames,
+      options,
+    );
+    return { uris, sizes: nodes.map((node) => node.fileSize) };
+  }
+
+  /**
+   * Add files to the node, and pin them there
+   *
+   * @returns The CID of the file, or of the directory that wraps the files
+   */
+  private async add(
+    files: FileToUpload[],
+    options?: KuboUploadBatchOptions,
+  ): Promise<string> {
+    const form = new FormData();
+    for (const entry of toMultipartEntries(files)) {
+      // kubo decodes the file names, which can contain the path of the file in the directory
+      const filename = encodeURIComponent(entry.name);
+      // directories are sent as empty parts, before the files and directories they contain
+      const contentType = entry.file
+        ? "application/octet-stream"
+        : "application/x-directory";
+      const data = entry.file ? entry.file.data : "";
+      if (!isBrowser()) {
+        form.append("file", data as any, { filename, contentType });
+      } else {
+        form.append(
+          "file",
+          new Blob([data as any], { type: contentType }),
+          filename,
+        );
+      }
+    }
+
+    const body = await this.kuboRequest(
+      "add",
+      {
+        pin: "true",
+        "wrap-with-directory": `${!options?.uploadWithoutDirectory}`,
+        "cid-version": `${options?.cidVersion || 0}`,
+      },
+      form,
+    );
+    // every added file and directory is returned on its own line, the root is last
+    const lines = body
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line));
+    const cid = lines[lines.length - 1]?.Hash;
+    if (!cid) {
+      throw new Error(
+        "[KUBO_API_ERROR] Failed to get the CID of the added files",
+      );
+    }
+    return cid;
+  }
+
+  private async listNodePins(cid?: string): Promise<PinStatus[]> {
+    let body: string;
+    try {
+      body = await this.kuboRequest(
+        "pin/ls",
+        cid ? { arg: cid, type: "recursive" } : { type: "recursive" },
+      );
+    } catch (err: any) {
+      if (cid && err.message.includes("not pinned")) {
+        return [];
+      }
+      throw err;
+    }
+    return Object.keys(JSON.parse(body).Keys || {}).map((key) => ({
+      requestId: key,
+      status: "pinned",
+      cid: key,
+    }));
+  }
+
+  private async waitForPin(pin: PinStatus, timeout: number) {
+    const start = Date.now();
+    while (pin.status === "queued" || pin.status === "pinning") {
+      if (Date.now() - start > timeout) {
+        throw new Error(
+          `[PIN_TIMEOUT_ERROR] ${pin.cid} was not pinned after ${timeout}ms, check the status of pin request ${pin.requestId} later`,
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.pinPollInterval));
+      pin = await this.getPinStatus(pin.requestId);
+    }
+    if (pin.status === "failed") {
+      throw new Error(
+        `[PIN_FAILED_ERROR] Pinning service failed to pin ${pin.cid}`,
+      );
+    }
+    return pin;
+  }
+
+  private async kuboRequest(
+    path: string,
+    query: Record<string, string>,
+    form?: FormData,
+  ): Promise<string> {
+    const url = `${this.apiUrl}/api/v0/${path}?${new URLSearchParams(
+      query,
+    ).toString()}`;
+    // every method of the RPC API is called with POST
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        ...this.headers,
+        ...(form && !isBrowser() ? form.getHeaders() : {}),
+      },
+      body: form ? (isBrowser() ? (form as any) : form.getBuffer()) : undefined,
+    });
+    const body = await res.text();
+    if (!res.ok) {
+      let message = body;
+      try {
+        message = JSON.parse(body).Message || body;
+      } catch (err) {
+        // the error is not JSON, use it as it is
+      }
+      throw new Error(
+        `[KUBO_API_ERROR] Request to ${path} failed with status ${res.status} - ${message}`,
+      );
+    }
+    return body;
+  }
+
+  private async pinningServiceRequest(
+    method: string,
+    path: string,
+    body?: unknown,
+  ): Promise<any> {
+    const service = this.pinningService as PinningServiceOptions;
+    const res = await fetch(`${service.endpoint}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${service.accessToken}`,
+        ...(body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const text = await res.text();
+    if (!res.ok) {
+      let reason = text;
+      try {
+        const error = JSON.parse(text).error;
+        reason = error.details
+          ? `${error.reason} - ${error.details}`
+          : error.reason;
+      } catch (err) {
+        // the error is not JSON, use it as it is
+      }
+      throw new Error(
+        `[PINNING_SERVICE_ERROR] ${method} ${path} failed with status ${res.status} - ${reason}`,
+      );
+    }
+    return text ? JSON.parse(text) : undefined;
+  }
+}
+
+/**
+ * Kubo reads the files of a multipart body as a tree: every directory has to be sent
+ * before its content, and the content of a directory has to be sent without interruption
+ */
+function toMultipartEntries(
+  files: FileToUpload[],
+): { name: string; file?: FileToUpload }[] {
+  // comparing the paths segment by segment keeps the content of every directory together
+  const sorted = files
+    .map((file) => ({ file, segments: file.name.split("/") }))
+    .sort((a, b) => {
+      for (let i = 0; i < Math.min(a.segments.length, b.segments.length); i++) {
+        if (a.segments[i] !== b.segments[i]) {
+          return a.segments[i] < b.segments[i] ? -1 : 1;
+        }
+      }
+      return a.segments.length - b.segments.length;
+    });
+
+  const entries: { name: string; file?: FileToUpload }[] = [];
+  const directories = new Set<string>();
+  for (const { file, segments } of sorted) {
+    for (let depth = 1; depth < segments.length; depth++) {
+      const directory = segments.slice(0, depth).join("/");
+      if (!directories.has(directory)) {
+        directories.add(directory);
+        entries.push({ name: directory });
+      }
+    }
+    entries.push({ name: file.name, file });
+  }
+  return entries;
+}
+
+function toCid(cidOrUri: string): string {
+  return cidOrUri.replace("ipfs://", "").split("/")[0];
+}
+
+function toPinStatus(body: any): PinStatus {
+  return {
+    requestId: body.requestid,
+    status: body.status,
+    cid: body.pin.cid,
+    name: body.pin.name,
+    created: body.created,
+  };
+}
@@ -0,0 +1,125 @@
+import { signS3Request } from "../../common/s3";
+import { encodeKey, getContentAddressedFiles } from "../../common/utils";
+import {
+  FileOrBufferOrString,
+  IStorageUploader,
+  S3Credentials,
+  S3UploadBatchOptions,
+  S3UploaderOptions,
+} from "../../types";
+import fetch from "cross-fetch";
+
+/**
+ * Uploader for S3 compatible storage, like AWS S3, Cloudflare R2 or MinIO.
+ * Files are stored under a hash of their content, and returned with `s3://bucket/key` URIs.
+ *
+ * @example
+ * ```jsx
+ * const uploader = new S3Uploader({
+ *   endpoint: "http://localhost:9000",
+ *   bucket: "nfts",
+ *   credentials: { accessKeyId: "minioadmin", secretAccessKey: "minioadmin" },
+ * });
+ * // The gateway URL resolves s3:// URIs to the public URL of the bucket
+ * const storage = new ThirdwebStorage({
+ *   uploader,
+ *   gatewayUrls: { "s3://": ["http://localhost:9000/"] },
+ * });
+ * ```
+ *
+ * @public
+ */
+export class S3Uploader implements IStorageUploader<S3UploadBatchOptions> {
+  public uploadWithGatewayUrl: boolean;
+  private endpoint: string;
+  private bucket: string;
+  private credentials: S3Credentials;
+  private region: string;
+  private prefix: string;
+
+  constructor(options: S3UploaderOptions) {
+    this.endpoint = options.endpoint.replace(/\/$/, "");
+    this.bucket = options.bucket;
+    this.credentials = options.credentials;
+    this.region = options.region || "us-east-1";
+    const prefix = (options.prefix || "").replace(/^\/|\/$/g, "");
+    this.prefix = prefix ? `${prefix}/` : "";
+    this.uploadWithGatewayUrl = options.uploadWithGatewayUrl || false;
+  }
+
+  async uploadBatch(
+    data: FileOrBufferOrString[],
+    options?: S3UploadBatchOptions,
+  ): Promise<string[]> {
+    const { files, keys } = await getContentAddressedFiles(data, options);
+
+    const total = files.reduce((sum, file) => sum + file.content.length, 0);
+    let progress = 0;
+    await Promise.all(
+      files.map(async (file) => {
+        await this.putObject(file.key, file.content, file.contentType);
+        progress += file.content.length;
+        if (options?.onProgress) {
+          options.onProgress({ progress, total });
+        }
+      }),
+    );
+
+    return keys.map((key) => this.toUri(key));
+  }
+
+  /**
+   * Compute the URIs that uploading the data would return, without uploading anything
+   *
+   * @param data - Array of arbitrary file data or JSON strings
+   * @param options - The options that would be passed to uploadBatch
+   * @returns Array of file URIs
+   */
+  async computeUris(
+    data: FileOrBufferOrString[],
+    options?: S3UploadBatchOptions,
+  ): Promise<string[]> {
+    const { keys } = await getContentAddressedFiles(data, options);
+    return keys.map((key) => this.toUri(key));
+  }
+
+  private toUri(key: string): string {
+    return `s3://${this.bucket}/${encodeKey(`${this.prefix}${key}`)}`;
+  }
+
+  private async putObject(
+    key: string,
+    content: Uint8Array,
+    contentType?: string,
+  ) {
+    // path style URLs work with every S3 compatible API
+    const url = `${this.endpoint}/${this.bucket}/${encodeKey(
+      `${this.prefix}${key}`,
+    )}`;
+    const headers = await signS3Request(
+      {
+        method: "PUT",
+        url,
+        headers: {
+          "Content-Type": contentType || "application/octet-stream",
+        },
+        body: content,
+      },
+      this.credentials,
+      this.region,
+    );
+
+    const res = await fetch(url, {
+      method: "PUT",
+      headers,
+      body: content as any,
+    });
+    if (!res.ok) {
+      throw new Error(
+        `[S3_UPLOAD_ERROR] Upload of ${key} failed with status ${
+          res.status
+        } - ${await res.text()}`,
+      );
+    }
+  }
+}
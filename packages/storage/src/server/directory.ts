@@ -0,0 +1,44 @@
+import { DirectoryFiles } from "../types";
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Read the files of a local directory and its subdirectories, to upload them with `uploadDirectory`
+ *
+ * @param directory - The path of the directory to read
+ * @returns The content of the files, by their `/` separated path in the directory
+ *
+ * @example
+ * ```jsx
+ * const files = await readDirectory("./site");
+ * const { uri, uris } = await storage.uploadDirectory(files);
+ * ```
+ *
+ * @public
+ */
+export async function readDirectory(
+  directory: string,
+): Promise<DirectoryFiles> {
+  const files: DirectoryFiles = {};
+  const read = async (prefix: string) => {
+    const entries = await readdir(path.join(directory, prefix), {
+      withFileTypes: true,
+    });
+    for (const entry of entries) {
+      const entryPath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await read(entryPath);
+      } else if (entry.isFile()) {
+        files[entryPath] = await readFile(path.join(directory, entryPath));
+      }
+    }
+  };
+  await read("");
+
+  if (!Object.keys(files).length) {
+    throw new Error(
+      `[EMPTY_DIRECTORY_ERROR] There are no files to upload in ${directory}`,
+    );
+  }
+  return files;
+}
@@ -0,0 +1,53 @@
+import { sha256Hex } from "../common/utils";
+import { FileSystemCacheOptions, IStorageCache } from "../types";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Cache of downloaded content on disk, that persists across restarts
+ *
+ * @example
+ * ```jsx
+ * const cache = new FileSystemCache({ directory: "./.cache/storage" });
+ * const downloader = new StorageDownloader({ cache });
+ * const storage = new ThirdwebStorage({ downloader });
+ * ```
+ *
+ * @public
+ */
+export class FileSystemCache implements IStorageCache {
+  private directory: string;
+
+  constructor(options: FileSystemCacheOptions) {
+    this.directory = options.directory;
+  }
+
+  async get(uri: string): Promise<Uint8Array | undefined> {
+    try {
+      return await readFile(await this.getPath(uri));
+    } catch (err) {
+      return undefined;
+    }
+  }
+
+  async set(uri: string, content: Uint8Array): Promise<void> {
+    try {
+      await mkdir(this.directory, { recursive: true });
+      // write then rename, so that concurrent reads never see a partial file
+      const filePath = await this.getPath(uri);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, content);
+      await rename(tempPath, filePath);
+    } catch (err) {
+      console.warn(`Failed to cache ${uri}`, err);
+    }
+  }
+
+  private async getPath(uri: string): Promise<string> {
+    // URIs can contain characters that are not allowed in file names
+    return path.join(
+      this.directory,
+      await sha256Hex(new TextEncoder().encode(uri)),
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { StorageDownloader } from "../core/downloaders/storage-downloader";
+import {
+  FileSystemDownloaderOptions,
+  GatewayUrls,
+  IStorageDownloader,
+} from "../types";
+import { resolveStoragePath } from "./paths";
+import { Response as FetchResponse } from "cross-fetch";
+import { readFile } from "fs/promises";
+
+/**
+ * Downloader that reads the files stored by the `FileSystemUploader`, and downloads any other URI with another downloader.
+ *
+ * @example
+ * ```jsx
+ * const downloader = new FileSystemDownloader({ directory: "./storage" });
+ * const storage = new ThirdwebStorage({ downloader });
+ * ```
+ *
+ * @public
+ */
+export class FileSystemDownloader implements IStorageDownloader {
+  private directory: string;
+  private scheme: string;
+  private downloader: IStorageDownloader;
+
+  constructor(options: FileSystemDownloaderOptions) {
+    this.directory = options.directory;
+    this.scheme = options.scheme || "file://";
+    this.downloader = options.downloader || new StorageDownloader();
+  }
+
+  async download(uri: string, gatewayUrls?: GatewayUrls): Promise<Response> {
+    if (!uri.startsWith(this.scheme)) {
+      return this.downloader.download(uri, gatewayUrls);
+    }
+
+    const key = uri
+      .slice(this.scheme.length)
+      .split(/[?#]/)[0]
+      .split("/")
+      .map((segment) => decodeURIComponent(segment))
+      .join("/");
+    const filePath = resolveStoragePath(this.directory, key);
+    let content;
+    try {
+      content = await readFile(filePath);
+    } catch (err: any) {
+      throw new Error(
+        `[FAILED_TO_DOWNLOAD_ERROR] Unable to read ${uri} - ${err.message}`,
+      );
+    }
+    return new FetchResponse(content, { status: 200 });
+  }
+}
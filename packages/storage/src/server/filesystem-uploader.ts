@@ -0,0 +1,74 @@
+import { encodeKey, getContentAddressedFiles } from "../common/utils";
+import {
+  FileOrBufferOrString,
+  FileSystemUploadBatchOptions,
+  FileSystemUploaderOptions,
+  IStorageUploader,
+} from "../types";
+import { resolveStoragePath } from "./paths";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Uploader that stores files in a local directory, for development and private deployments.
+ * Files are stored under a hash of their content, and returned with URIs relative to the directory.
+ *
+ * @example
+ * ```jsx
+ * const uploader = new FileSystemUploader({ directory: "./storage" });
+ * const downloader = new FileSystemDownloader({ directory: "./storage" });
+ * const storage = new ThirdwebStorage({ uploader, downloader });
+ *
+ * // Upload with a custom scheme, and serve the directory over HTTP
+ * const uploader = new FileSystemUploader({ directory: "./storage", scheme: "local://" });
+ * const storage = new ThirdwebStorage({
+ *   uploader,
+ *   gatewayUrls: { "local://": ["https://assets.example.com/"] },
+ * });
+ * ```
+ *
+ * @public
+ */
+export class FileSystemUploader
+  implements IStorageUploader<FileSystemUploadBatchOptions>
+{
+  public uploadWithGatewayUrl: boolean;
+  private directory: string;
+  private scheme: string;
+
+  constructor(options: FileSystemUploaderOptions) {
+    this.directory = options.directory;
+    this.scheme = options.scheme || "file://";
+    this.uploadWithGatewayUrl = options.uploadWithGatewayUrl || false;
+  }
+
+  async uploadBatch(
+    data: FileOrBufferOrString[],
+    options?: FileSystemUploadBatchOptions,
+  ): Promise<string[]> {
+    const { files, keys } = await getContentAddressedFiles(data, options);
+
+    for (const file of files) {
+      const filePath = resolveStoragePath(this.directory, file.key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, file.content);
+    }
+
+    return keys.map((key) => `${this.scheme}${encodeKey(key)}`);
+  }
+
+  /**
+   * Compute the URIs that uploading the data would return, without storing anything
+   *
+   * @param data - Array of arbitrary file data or JSON strings
+   * @param options - The options that would be passed to uploadBatch
+   * @returns Array of file URIs
+   */
+  async computeUris(
+    data: FileOrBufferOrString[],
+    options?: FileSystemUploadBatchOptions,
+  ): Promise<string[]> {
+    const { keys } = await getContentAddressedFiles(data, options);
+    return keys.map((key) => `${this.scheme}${encodeKey(key)}`);
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./directory";
+export * from "./filesystem-cache";
+export * from "./filesystem-downloader";
+export * from "./filesystem-uploader";
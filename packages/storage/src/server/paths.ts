@@ -0,0 +1,16 @@
+import path from "path";
+
+/**
+ * Resolve the path of a key inside of the storage directory
+ * @internal
+ */
+export function resolveStoragePath(directory: string, key: string): string {
+  const root = path.resolve(directory);
+  const filePath = path.resolve(root, ...key.split("/"));
+  if (!filePath.startsWith(`${root}${path.sep}`)) {
+    throw new Error(
+      `[INVALID_PATH_ERROR] ${key} resolves outside of the storage directory`,
+    );
+  }
+  return filePath;
+}
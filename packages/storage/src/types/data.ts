@@ -15,3 +15,9 @@ export type BufferOrStringWithName = {
  * @internal
  */
 export type FileOrBufferOrString = FileOrBuffer | string;
+
+/**
+ * The files of a directory, by their path in the directory like `images/0.png`
+ * @public
+ */
+export type DirectoryFiles = Record<string, FileOrBufferOrString>;
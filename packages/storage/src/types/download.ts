@@ -12,6 +12,99 @@ export interface IStorageDownloader {
   download(url: string, gatewayUrls?: GatewayUrls): Promise<Response>;
 }
 
+/**
+ * Caches downloaded content by URI, for URIs whose content never changes like `ipfs://` URIs
+ *
+ * @public
+ */
+export interface IStorageCache {
+  /**
+   * Get the cached content of a URI
+   *
+   * @param uri - The URI of the content
+   * @returns The cached content, or undefined if it isn't cached
+   */
+  get(uri: string): Promise<Uint8Array | undefined>;
+  /**
+   * Cache the content of a URI
+   *
+   * @param uri - The URI of the content
+   * @param content - The downloaded content
+   */
+  set(uri: string, content: Uint8Array): Promise<void>;
+}
+
+/**
+ * @public
+ */
+export type MemoryCacheOptions = {
+  /**
+   * The maximum size of the cached content in bytes, the least recently used content is evicted first. Defaults to 50MB.
+   */
+  maxSize?: number;
+};
+
+/**
+ * @public
+ */
+export type IndexedDbCacheOptions = {
+  /**
+   * The name of the database to cache content in, defaults to `thirdweb-storage`
+   */
+  databaseName?: string;
+};
+
+/**
+ * @public
+ */
+export type FileSystemCacheOptions = {
+  /**
+   * The directory to cache content in
+   */
+  directory: string;
+};
+
+/**
+ * @public
+ */
+export type StorageDownloaderOptions = {
+  /**
+   * If specified, data downloaded from IPFS is checked against its CID, and gateways that return
+   * anything else are skipped. Only works for files uploaded with the default chunking.
+   */
+  verifyContent?: boolean;
+  /**
+   * The time in milliseconds after which a request to a gateway is aborted, defaults to 30 seconds
+   */
+  timeout?: number;
+  /**
+   * The number of gateways to download from in parallel, the first valid response is used. Defaults to 1.
+   */
+  raceGateways?: number;
+  /**
+   * The cache of content from `ipfs://` and `ar://` URIs, defaults to an in-memory cache. Pass `false` to disable caching.
+   */
+  cache?: IStorageCache | false;
+};
+
+/**
+ * @public
+ */
+export type FileSystemDownloaderOptions = {
+  /**
+   * The directory that the files are stored in
+   */
+  directory: string;
+  /**
+   * The scheme of the URIs to read from the directory, defaults to `file://`
+   */
+  scheme?: string;
+  /**
+   * The downloader used for URIs with any other scheme, defaults to the `StorageDownloader`
+   */
+  downloader?: IStorageDownloader;
+};
+
 /**
  * @public
  */
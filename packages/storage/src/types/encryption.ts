@@ -0,0 +1,51 @@
+/**
+ * The key to encrypt uploads and decrypt downloads with
+ * - `password`: the key is derived from a password with PBKDF2
+ * - `key`: a 256 bit AES key, as bytes or as a web crypto key that can encrypt and decrypt
+ *
+ * @public
+ */
+export type EncryptionKey =
+  | {
+      password: string;
+      /**
+       * The number of PBKDF2 iterations to derive the key with, between 1000 and 2000000, defaults to 310000
+       */
+      iterations?: number;
+    }
+  | { key: Uint8Array | CryptoKey };
+
+/**
+ * The metadata of encrypted content, stored with the content in place of the original data
+ *
+ * @public
+ */
+export type EncryptedEnvelope = {
+  encryption: {
+    version: 1;
+    /**
+     * The content is encrypted with a random key, which is encrypted with the encryption key
+     */
+    algorithm: "AES-256-GCM";
+    /**
+     * How the encryption key was derived from a password, if it was
+     */
+    kdf?: {
+      name: "PBKDF2";
+      hash: "SHA-256";
+      iterations: number;
+      salt: string;
+    };
+    encryptedKey: string;
+    keyIv: string;
+    iv: string;
+    /**
+     * The MIME type of the decrypted content
+     */
+    contentType?: string;
+  };
+  /**
+   * The base64 encoded encrypted content
+   */
+  ciphertext: string;
+};
@@ -0,0 +1,78 @@
+import { FileOrBuffer, FileOrBufferOrString } from "./data";
+
+/**
+ * Transforms files and objects on upload, like to strip metadata from images or add fields to NFT metadata
+ *
+ * @public
+ */
+export interface IStorageUploadHook {
+  /**
+   * Transform a file before it is uploaded, like to strip metadata from it or to add a watermark
+   *
+   * @param file - The file to upload
+   * @returns The file to upload instead
+   */
+  transformFile?(file: FileOrBuffer): Promise<FileOrBuffer>;
+  /**
+   * Transform an object after the files in its properties were uploaded, like to add fields about the files
+   *
+   * @param object - The object to upload, with its files replaced by their URIs
+   * @param files - The files that were uploaded from the top level properties of the object
+   * @param context - Lets the hook upload extra files with the same uploader and options
+   * @returns The object to upload instead
+   */
+  transformObject?(
+    object: Record<string, unknown>,
+    files: UploadedObjectFile[],
+    context: UploadHookContext,
+  ): Promise<Record<string, unknown>>;
+}
+
+/**
+ * A file that was uploaded from a property of an object
+ *
+ * @public
+ */
+export type UploadedObjectFile = {
+  /**
+   * The property of the object, like `image`
+   */
+  key: string;
+  /**
+   * The file as it was uploaded, after the file transforms
+   */
+  file: FileOrBuffer;
+  /**
+   * The URI of the uploaded file
+   */
+  uri: string;
+};
+
+/**
+ * @public
+ */
+export type UploadHookContext = {
+  /**
+   * Upload files with the uploader and options of the current upload. The files of all the objects
+   * of the batch are uploaded together, and are named by their index instead of the `rewriteFileNames` option
+   *
+   * @param files - The files to upload
+   * @returns The URIs of the files
+   */
+  upload(files: FileOrBufferOrString[]): Promise<string[]>;
+};
+
+/**
+ * @public
+ */
+export type ThumbnailHookOptions = {
+  /**
+   * The maximum width of the thumbnails in pixels, defaults to 256
+   */
+  width?: number;
+  /**
+   * Resize an image to the width, required in node where there is no canvas to resize images with.
+   * Images that are already smaller should not be enlarged.
+   */
+  resize?: (image: FileOrBuffer, width: number) => Promise<FileOrBuffer>;
+};
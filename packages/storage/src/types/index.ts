@@ -1,12 +1,24 @@
 import { GatewayUrls, IStorageDownloader } from "./download";
+import { EncryptionKey } from "./encryption";
+import { IStorageUploadHook } from "./hooks";
 import { IStorageUploader, UploadOptions } from "./upload";
 
 export type ThirdwebStorageOptions<T extends UploadOptions> = {
   uploader?: IStorageUploader<T>;
   downloader?: IStorageDownloader;
   gatewayUrls?: GatewayUrls;
+  /**
+   * Transform the uploaded files and objects, the hooks run in order
+   */
+  uploadHooks?: IStorageUploadHook[];
+  /**
+   * The key to encrypt uploads with `uploadEncrypted`, and to decrypt encrypted downloads with
+   */
+  encryptionKey?: EncryptionKey;
 };
 
 export * from "./upload";
 export * from "./download";
 export * from "./data";
+export * from "./hooks";
+export * from "./encryption";
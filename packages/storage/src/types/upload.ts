@@ -21,8 +21,39 @@ export interface IStorageUploader<T extends UploadOptions> {
    * @returns Array of uploaded file URIs
    */
   uploadBatch(data: FileOrBufferOrString[], options?: T): Promise<string[]>;
+  /**
+   * Compute the URIs that uploading an array of file data or JSON strings would return, without uploading anything
+   *
+   * @param data - Array of arbitrary file data or JSON strings
+   * @param options - The options that would be passed to the uploader
+   * @returns Array of file URIs
+   */
+  computeUris?(data: FileOrBufferOrString[], options?: T): Promise<string[]>;
 }
 
+/**
+ * @public
+ */
+export type DirectoryUploadResult = {
+  /**
+   * The URI of the uploaded directory
+   */
+  uri: string;
+  /**
+   * The URIs of the uploaded files, by their path in the directory
+   */
+  uris: Record<string, string>;
+};
+
+/**
+ * The version of the CIDs of uploaded files
+ * - `0`: base58 encoded CIDs starting with `Qm`
+ * - `1`: base32 encoded CIDs starting with `b`, files are stored as raw blocks
+ *
+ * @public
+ */
+export type CidVersion = 0 | 1;
+
 /**
  * @public
  */
@@ -46,6 +77,19 @@ export type IpfsUploaderOptions = {
    * Whether or not to replace any URLs with schemes with resolved URLs before upload
    */
   uploadWithGatewayUrl?: boolean;
+  /**
+   * The URL of the server that grants the tokens to upload files with, defaults to `https://upload.nftlabs.co`
+   */
+  uploadServerUrl?: string;
+  /**
+   * The URL of the Pinata API that files are uploaded to and pinned with, defaults to `https://api.pinata.cloud`
+   */
+  pinataUrl?: string;
+  /**
+   * If specified, uploads fail when the upload server returns another CID than the one computed locally,
+   * instead of warning and returning the URIs of the upload server. Uploads in chunks are always checked.
+   */
+  verifyUploads?: boolean;
 };
 
 /**
@@ -74,4 +118,355 @@ export type IpfsUploadBatchOptions = {
    * If specified, will upload a single file without wrapping it in a directory
    */
   uploadWithoutDirectory?: boolean;
+  /**
+   * The version of the CIDs to upload with, defaults to 0
+   */
+  cidVersion?: CidVersion;
+  /**
+   * The maximum size in bytes of the files sent in a single request, larger batches are uploaded in several chunks.
+   * Defaults to 50MB.
+   */
+  chunkSize?: number;
+  /**
+   * The number of times that a request is retried when it fails with a network error or a 5xx or 429 status,
+   * with an exponential backoff. Defaults to 3.
+   */
+  retries?: number;
+  /**
+   * The manifest of an interrupted upload of the same files, the chunks that were already uploaded are skipped
+   */
+  resumeFrom?: IpfsUploadManifest;
+  /**
+   * Callback that gets triggered when a chunk is uploaded, with a manifest that can be persisted to resume the upload
+   */
+  onManifest?: (manifest: IpfsUploadManifest) => void;
+};
+
+/**
+ * The progress of an upload in chunks, that can be persisted to resume it
+ *
+ * @public
+ */
+export type IpfsUploadManifest = {
+  /**
+   * The CIDs of the directories of the uploaded chunks, and of the directory of all the files once it is pinned
+   */
+  uploadedChunks: string[];
+};
+
+/**
+ * A remote pinning service that implements the IPFS Pinning Service API
+ *
+ * @public
+ */
+export type PinningServiceOptions = {
+  /**
+   * The endpoint of the API, like `https://api.pinata.cloud/psa`
+   */
+  endpoint: string;
+  /**
+   * The access token of the service
+   */
+  accessToken: string;
+};
+
+/**
+ * @public
+ */
+export type KuboUploaderOptions = {
+  /**
+   * The URL of the Kubo RPC API that files are added to, defaults to `http://127.0.0.1:5001`
+   */
+  apiUrl?: string;
+  /**
+   * Headers to send with every request to the Kubo RPC API, like an `Authorization` header
+   */
+  headers?: Record<string, string>;
+  /**
+   * If specified, uploaded files are also pinned by this pinning service.
+   * The service fetches the files from the IPFS network, so the Kubo node has to be reachable by it.
+   */
+  pinningService?: PinningServiceOptions;
+  /**
+   * The number of milliseconds between checks of the status of a pin, defaults to 2000
+   */
+  pinPollInterval?: number;
+  /**
+   * Whether or not to replace any URLs with schemes with resolved URLs before upload
+   */
+  uploadWithGatewayUrl?: boolean;
+};
+
+/**
+ * @public
+ */
+export type KuboUploadBatchOptions = {
+  /**
+   * If specified, will rewrite file names to numbers for use on-chain.
+   * Useful to use with NFT contracts that map token IDs to files.
+   */
+  rewriteFileNames?: {
+    /**
+     * The start number to replace file names with
+     */
+    fileStartNumber: number;
+  };
+  /**
+   * If specified, any URLs with schemes will be replaced with resolved URLs before upload
+   */
+  uploadWithGatewayUrl?: boolean;
+  /**
+   * Callback that gets triggered when file upload progresses
+   */
+  onProgress?: (event: UploadProgressEvent) => void;
+  /**
+   * If specified, will upload a single file without wrapping it in a directory
+   */
+  uploadWithoutDirectory?: boolean;
+  /**
+   * The version of the CIDs to upload with, defaults to 0
+   */
+  cidVersion?: CidVersion;
+} & PinOptions;
+
+/**
+ * @public
+ */
+export type PinOptions = {
+  /**
+   * The name of the pin on the pinning service
+   */
+  pinName?: string;
+  /**
+   * Whether or not to wait until the pinning service has pinned the files, defaults to true
+   */
+  waitForPin?: boolean;
+  /**
+   * The maximum number of milliseconds to wait for the files to be pinned, defaults to 300000
+   */
+  pinTimeout?: number;
+};
+
+/**
+ * The status of a pin request on a pinning service
+ *
+ * @public
+ */
+export type PinStatus = {
+  /**
+   * The ID of the pin request, that its status can be checked with
+   */
+  requestId: string;
+  status: "queued" | "pinning" | "pinned" | "failed";
+  /**
+   * The pinned CID
+   */
+  cid: string;
+  /**
+   * The name of the pin
+   */
+  name?: string;
+  /**
+   * When the pin was requested on the pinning service, as an ISO 8601 date
+   */
+  created?: string;
+};
+
+/**
+ * A tag attached to an Arweave data item, gateways serve files with their `Content-Type` tag
+ *
+ * @public
+ */
+export type DataItemTag = {
+  name: string;
+  value: string;
+};
+
+/**
+ * Signs the data items uploaded to Arweave
+ *
+ * @public
+ */
+export interface DataItemSigner {
+  /**
+   * The ANS-104 signature type of the key, `1` for Arweave keys and `3` for Ethereum keys
+   */
+  signatureType: number;
+  /**
+   * The public key that owns the data items, the modulus `n` of an Arweave key
+   */
+  publicKey: Uint8Array;
+  /**
+   * Sign a message with the key
+   *
+   * @param message - The message to sign
+   * @returns The signature, 512 bytes for Arweave keys
+   */
+  sign(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * @public
+ */
+export type ArweaveUploaderOptions = {
+  /**
+   * Signs the uploaded data items, and pays the bundler for them
+   */
+  signer: DataItemSigner;
+  /**
+   * The bundler node to upload to, defaults to Bundlr
+   */
+  bundlerUrl?: string;
+  /**
+   * The currency the bundler is funded with for the signer, defaults to `arweave`
+   */
+  currency?: string;
+  /**
+   * Whether or not to replace any URLs with schemes with resolved URLs before upload
+   */
+  uploadWithGatewayUrl?: boolean;
+};
+
+/**
+ * @public
+ */
+export type ArweaveUploadBatchOptions = {
+  /**
+   * If specified, will rewrite file names to numbers for use on-chain.
+   * Useful to use with NFT contracts that map token IDs to files.
+   */
+  rewriteFileNames?: {
+    /**
+     * The start number to replace file names with
+     */
+    fileStartNumber: number;
+  };
+  /**
+   * If specified, any URLs with schemes will be replaced with resolved URLs before upload
+   */
+  uploadWithGatewayUrl?: boolean;
+  /**
+   * Callback that gets triggered when file upload progresses
+   */
+  onProgress?: (event: UploadProgressEvent) => void;
+  /**
+   * If specified, will upload a single file without a path manifest
+   */
+  uploadWithoutDirectory?: boolean;
+  /**
+   * Tags to attach to every uploaded file, like an `App-Name`
+   */
+  tags?: DataItemTag[];
+};
+
+/**
+ * @public
+ */
+export type S3Credentials = {
+  accessKeyId: string;
+  secretAccessKey: string;
+  /**
+   * The session token of temporary credentials
+   */
+  sessionToken?: string;
+};
+
+/**
+ * @public
+ */
+export type S3UploaderOptions = {
+  /**
+   * The URL of the S3 compatible API, like `https://s3.us-east-1.amazonaws.com` or `http://localhost:9000` for MinIO
+   */
+  endpoint: string;
+  /**
+   * The bucket to upload to
+   */
+  bucket: string;
+  /**
+   * The credentials that requests are signed with
+   */
+  credentials: S3Credentials;
+  /**
+   * The region of the bucket, defaults to `us-east-1`
+   */
+  region?: string;
+  /**
+   * If specified, files are uploaded under this prefix in the bucket
+   */
+  prefix?: string;
+  /**
+   * Whether or not to replace any URLs with schemes with resolved URLs before upload
+   */
+  uploadWithGatewayUrl?: boolean;
+};
+
+/**
+ * @public
+ */
+export type S3UploadBatchOptions = {
+  /**
+   * If specified, will rewrite file names to numbers for use on-chain.
+   * Useful to use with NFT contracts that map token IDs to files.
+   */
+  rewriteFileNames?: {
+    /**
+     * The start number to replace file names with
+     */
+    fileStartNumber: number;
+  };
+  /**
+   * If specified, any URLs with schemes will be replaced with resolved URLs before upload
+   */
+  uploadWithGatewayUrl?: boolean;
+  /**
+   * Callback that gets triggered when each file is uploaded
+   */
+  onProgress?: (event: UploadProgressEvent) => void;
+  /**
+   * If specified, will upload a single file without wrapping it in a directory
+   */
+  uploadWithoutDirectory?: boolean;
+};
+
+/**
+ * @public
+ */
+export type FileSystemUploaderOptions = {
+  /**
+   * The directory to store the files in
+   */
+  directory: string;
+  /**
+   * The scheme of the returned URIs, defaults to `file://`
+   */
+  scheme?: string;
+  /**
+   * Whether or not to replace any URLs with schemes with resolved URLs before upload
+   */
+  uploadWithGatewayUrl?: boolean;
+};
+
+/**
+ * @public
+ */
+export type FileSystemUploadBatchOptions = {
+  /**
+   * If specified, will rewrite file names to numbers for use on-chain.
+   * Useful to use with NFT contracts that map token IDs to files.
+   */
+  rewriteFileNames?: {
+    /**
+     * The start number to replace file names with
+     */
+    fileStartNumber: number;
+  };
+  /**
+   * If specified, any URLs with schemes will be replaced with resolved URLs before upload
+   */
+  uploadWithGatewayUrl?: boolean;
+  /**
+   * If specified, will store a single file without wrapping it in a directory
+   */
+  uploadWithoutDirectory?: boolean;
 };
@@ -0,0 +1,286 @@
+/* eslint-disable no-unused-expressions */
+import { ArweaveSigner, ArweaveUploader, ThirdwebStorage } from "../src";
+import { DEFAULT_GATEWAY_URLS } from "../src/common/urls";
+import { expect } from "chai";
+import {
+  constants,
+  createHash,
+  createPublicKey,
+  generateKeyPairSync,
+  verify,
+} from "crypto";
+import { readFileSync } from "fs";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+
+type StoredItem = {
+  data: Buffer;
+  tags: Record<string, string>;
+};
+
+// The deep hash of Arweave, which data items sign
+function deepHash(data: Buffer | Buffer[]): Buffer {
+  const sha384 = (...parts: Buffer[]) =>
+    createHash("sha384").update(Buffer.concat(parts)).digest();
+  if (Array.isArray(data)) {
+    return data.reduce(
+      (acc, chunk) => sha384(acc, deepHash(chunk)),
+      sha384(Buffer.from(`list${data.length}`)),
+    );
+  }
+  return sha384(sha384(Buffer.from(`blob${data.length}`)), sha384(data));
+}
+
+// Parse a data item the way a bundler does, and store it along with the items it bundles
+function storeDataItem(raw: Buffer, items: Map<string, StoredItem>): string {
+  // Arweave signatures and owners are both 512 bytes
+  let offset = 2;
+  const signature = raw.subarray(offset, offset + 512);
+  const owner = raw.subarray(offset + 512, offset + 1024);
+  offset += 1024;
+  // no target nor anchor
+  offset += 2;
+  const tagCount = raw.readUInt32LE(offset);
+  const tagBytesLength = raw.readUInt32LE(offset + 8);
+  offset += 16;
+  const tagBytes = raw.subarray(offset, offset + tagBytesLength);
+  const tags = decodeTags(tagBytes);
+  expect(Object.keys(tags).length).to.equal(tagCount);
+  const data = raw.subarray(offset + tagBytesLength);
+
+  const isValid = verify(
+    "sha256",
+    deepHash([
+      Buffer.from("dataitem"),
+      Buffer.from("1"),
+      Buffer.from(raw.readUInt16LE(0).toString()),
+      owner,
+      Buffer.alloc(0),
+      Buffer.alloc(0),
+      tagBytes,
+      data,
+    ]),
+    {
+      key: createPublicKey({
+        key: { kty: "RSA", n: owner.toString("base64url"), e: "AQAB" },
+        format: "jwk",
+      }),
+      padding: constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: 32,
+    },
+    signature,
+  );
+  if (!isValid) {
+    throw new Error("Invalid data item signature");
+  }
+
+  const id = createHash("sha256").update(signature).digest("base64url");
+  items.set(id, { data, tags });
+
+  if (tags["Bundle-Format"] === "binary") {
+    const count = data.readUInt32LE(0);
+    let itemOffset = 32 + count * 64;
+    for (let i = 0; i < count; i++) {
+      const size = data.readUInt32LE(32 + i * 64);
+      const itemId = data
+        .subarray(64 + i * 64, 96 + i * 64)
+        .toString("base64url");
+      expect(
+        storeDataItem(data.subarray(itemOffset, itemOffset + size), items),
+      ).to.equal(itemId);
+      itemOffset += size;
+    }
+  }
+  return id;
+}
+
+function decodeTags(bytes: Buffer): Record<string, string> {
+  let offset = 0;
+  const readLong = () => {
+    let value = 0;
+    let shift = 1;
+    let byte;
+    do {
+      byte = bytes[offset++];
+      value += (byte & 0x7f) * shift;
+      shift *= 0x80;
+    } while (byte & 0x80);
+    return value / 2;
+  };
+  const readString = () => {
+    const length = readLong();
+    offset += length;
+    return bytes.subarray(offset - length, offset).toString();
+  };
+
+  const tags: Record<string, string> = {};
+  for (let count = readLong(); count > 0; count = readLong()) {
+    for (let i = 0; i < count; i++) {
+      const name = readString();
+      tags[name] = readString();
+    }
+  }
+  return tags;
+}
+
+describe("Arweave", async () => {
+  // Mock of a bundler that unpacks uploaded bundles, and of a gateway that serves them
+  const items = new Map<string, StoredItem>();
+  const server: Server = createServer((req, res) => {
+    if (req.method === "POST" && req.url === "/tx/arweave") {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk) => chunks.push(chunk));
+      req.on("end", () => {
+        let id: string;
+        try {
+          id = storeDataItem(Buffer.concat(chunks), items);
+        } catch (err: any) {
+          res.statusCode = 400;
+          res.end(err.message);
+          return;
+        }
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ id, timestamp: Date.now() }));
+      });
+      return;
+    }
+
+    const [id, ...path] = (req.url || "").slice(1).split("/");
+    let item = items.get(id);
+    if (item && path.length > 0) {
+      const manifest = JSON.parse(item.data.toString());
+      const entry = manifest.paths[decodeURIComponent(path.join("/"))];
+      item = entry ? items.get(entry.id) : undefined;
+    }
+    if (!item) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    if (item.tags["Content-Type"]) {
+      res.setHeader("Content-Type", item.tags["Content-Type"]);
+    }
+    res.end(item.data);
+  });
+
+  let url: string;
+  let signer: ArweaveSigner;
+  let storage: ThirdwebStorage;
+
+  const generateJwk = () =>
+    generateKeyPairSync("rsa", {
+      modulusLength: 4096,
+      publicExponent: 65537,
+    }).privateKey.export({ format: "jwk" });
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+    signer = new ArweaveSigner(generateJwk());
+    storage = new ThirdwebStorage({
+      uploader: new ArweaveUploader({ signer, bundlerUrl: url }),
+      gatewayUrls: { "ar://": [`${url}/`] },
+    });
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("Should resolve ar:// scheme with gateway URL", async () => {
+    const gatewayUrl = new ThirdwebStorage().resolveScheme("ar://example");
+    expect(gatewayUrl).to.equal(`${DEFAULT_GATEWAY_URLS["ar://"][0]}example`);
+  });
+
+  it("Should upload and download JSON object", async () => {
+    const uri = await storage.upload({
+      name: "Goku",
+      description: "The strongest human in the world",
+    });
+    expect(uri.startsWith("ar://"), `${uri} does not start with 'ar://'`).to.be
+      .true;
+    expect(uri.endsWith("/0"), `${uri} does not end with '/0'`).to.be.true;
+
+    const data = await storage.downloadJSON(uri);
+    expect(data.name).to.equal("Goku");
+    expect(data.description).to.equal("The strongest human in the world");
+  });
+
+  it("Should upload files in the same manifest with metadata", async () => {
+    const uris = await storage.uploadBatch([
+      { name: "first", data: "data1" },
+      { name: "0.jpg", data: readFileSync("test/files/0.jpg") },
+    ]);
+    expect(uris[0].split("/")[2]).to.equal(uris[1].split("/")[2]);
+    expect(uris[1].endsWith("0.jpg")).to.be.true;
+
+    const res = await storage.download(uris[1]);
+    expect(Buffer.from(await res.arrayBuffer())).to.deep.equal(
+      readFileSync("test/files/0.jpg"),
+    );
+    expect(await (await storage.download(uris[0])).text()).to.equal("data1");
+  });
+
+  it("Should replace nested files with ar:// URIs", async () => {
+    const uri = await storage.upload({
+      name: "NFT",
+      image: readFileSync("test/files/0.jpg"),
+    });
+    const res = await storage.download(uri);
+    const image = (await res.json()).image;
+    expect(image.startsWith("ar://")).to.be.true;
+
+    // schemes are resolved with the gateway URLs on download
+    const data = await storage.downloadJSON(uri);
+    expect(data.image).to.equal(image.replace("ar://", `${url}/`));
+  });
+
+  it("Should sign data items with RSA-PSS", async () => {
+    // a signer that signs with another key than the owner of its data items
+    const otherSigner = new ArweaveSigner(generateJwk());
+    const uploader = new ArweaveUploader({
+      signer: {
+        signatureType: signer.signatureType,
+        publicKey: signer.publicKey,
+        sign: (message) => otherSigner.sign(message),
+      },
+      bundlerUrl: url,
+    });
+    try {
+      await uploader.uploadBatch(["data1"]);
+      expect.fail("Upload should have been rejected");
+    } catch (err: any) {
+      expect(err.message).to.contain("Invalid data item signature");
+    }
+  });
+
+  it("Should report the progress of each part of the upload", async () => {
+    const events: { progress: number; total: number }[] = [];
+    const [uri] = await storage.uploadBatch([Buffer.alloc(1024 * 1024, 1)], {
+      uploadWithoutDirectory: true,
+      onProgress: (event) => events.push(event),
+    });
+    expect(events.length).to.be.greaterThan(4);
+    events.slice(1).forEach((event, i) => {
+      expect(event.progress).to.be.greaterThan(events[i].progress);
+    });
+    expect(events[events.length - 1].progress).to.equal(events[0].total);
+    expect(
+      (await (await storage.download(uri)).arrayBuffer()).byteLength,
+    ).to.equal(1024 * 1024);
+  });
+
+  it("Should upload without directory and report progress", async () => {
+    let progress = 0;
+    const [uri] = await storage.uploadBatch(["data1"], {
+      uploadWithoutDirectory: true,
+      onProgress: (event) => {
+        progress = event.progress / event.total;
+      },
+    });
+    expect(uri.split("/")).to.have.length(3);
+    expect(progress).to.equal(1);
+    expect(await (await storage.download(uri)).text()).to.equal("data1");
+  });
+});
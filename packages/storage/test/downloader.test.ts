@@ -0,0 +1,136 @@
+/* eslint-disable no-unused-expressions */
+import { MemoryCache, StorageDownloader } from "../src";
+import { expect } from "chai";
+import { createServer, Server } from "http";
+import { AddressInfo, Socket } from "net";
+
+type Gateway = {
+  url: string;
+  requests: number;
+  server: Server;
+  sockets: Set<Socket>;
+};
+
+// Mock gateway that serves the path of any request after a delay, or fails or hangs
+async function createGateway(
+  behavior: "ok" | "fail" | "hang",
+  delay = 0,
+): Promise<Gateway> {
+  const gateway = { requests: 0, sockets: new Set<Socket>() } as Gateway;
+  gateway.server = createServer((req, res) => {
+    gateway.requests++;
+    if (behavior === "hang") {
+      return;
+    }
+    setTimeout(() => {
+      if (behavior === "fail") {
+        res.statusCode = 500;
+        res.end();
+        return;
+      }
+      res.end(`${gateway.url}${req.url?.slice(1)}`);
+    }, delay);
+  });
+  gateway.server.on("connection", (socket) => {
+    gateway.sockets.add(socket);
+    socket.on("close", () => gateway.sockets.delete(socket));
+  });
+  await new Promise<void>((resolve) => gateway.server.listen(0, resolve));
+  gateway.url = `http://localhost:${
+    (gateway.server.address() as AddressInfo).port
+  }/`;
+  return gateway;
+}
+
+describe("Storage Downloader", async () => {
+  const gateways: Gateway[] = [];
+  const create = async (behavior: "ok" | "fail" | "hang", delay = 0) => {
+    const gateway = await createGateway(behavior, delay);
+    gateways.push(gateway);
+    return gateway;
+  };
+
+  after(() => {
+    for (const gateway of gateways) {
+      gateway.sockets.forEach((socket) => socket.destroy());
+      gateway.server.close();
+    }
+  });
+
+  it("Should skip gateways that time out", async () => {
+    const hanging = await create("hang");
+    const ok = await create("ok");
+    const downloader = new StorageDownloader({ timeout: 200, cache: false });
+
+    const res = await downloader.download("ipfs://example", {
+      "ipfs://": [hanging.url, ok.url],
+    });
+    expect(await res.text()).to.equal(`${ok.url}example`);
+  });
+
+  it("Should use the fastest of the raced gateways", async () => {
+    const slow = await create("ok", 2000);
+    const fast = await create("ok");
+    const downloader = new StorageDownloader({ raceGateways: 2, cache: false });
+
+    const start = Date.now();
+    const res = await downloader.download("ipfs://example", {
+      "ipfs://": [slow.url, fast.url],
+    });
+    expect(await res.text()).to.equal(`${fast.url}example`);
+    expect(Date.now() - start).to.be.lessThan(2000);
+  });
+
+  it("Should try gateways that keep failing last", async () => {
+    const failing = await create("fail");
+    const ok = await create("ok");
+    const downloader = new StorageDownloader({ cache: false });
+    const gatewayUrls = { "ipfs://": [failing.url, ok.url] };
+
+    await downloader.download("ipfs://first", gatewayUrls);
+    const res = await downloader.download("ipfs://second", gatewayUrls);
+    expect(await res.text()).to.equal(`${ok.url}second`);
+    expect(failing.requests).to.equal(1);
+  });
+
+  it("Should throw when every gateway fails", async () => {
+    const failing = await create("fail");
+    const downloader = new StorageDownloader({ cache: false });
+    try {
+      await downloader.download("ipfs://example", {
+        "ipfs://": [failing.url],
+      });
+      expect.fail("Download should have failed");
+    } catch (err: any) {
+      expect(err.message).to.contain("[FAILED_TO_DOWNLOAD_ERROR]");
+    }
+  });
+
+  it("Should cache content of IPFS URIs", async () => {
+    const ok = await create("ok");
+    const downloader = new StorageDownloader();
+    const gatewayUrls = { "ipfs://": [ok.url] };
+
+    await downloader.download("ipfs://example", gatewayUrls);
+    const res = await downloader.download("ipfs://example", gatewayUrls);
+    expect(await res.text()).to.equal(`${ok.url}example`);
+    expect(ok.requests).to.equal(1);
+
+    // URLs can change, so they are never cached
+    await downloader.download(`${ok.url}url`, gatewayUrls);
+    await downloader.download(`${ok.url}url`, gatewayUrls);
+    expect(ok.requests).to.equal(3);
+  });
+
+  it("Should evict the least recently used content from the memory cache", async () => {
+    const cache = new MemoryCache({ maxSize: 10 });
+    await cache.set("ipfs://first", new Uint8Array(4));
+    await cache.set("ipfs://second", new Uint8Array(4));
+    await cache.get("ipfs://first");
+    await cache.set("ipfs://third", new Uint8Array(4));
+
+    expect(await cache.get("ipfs://first")).to.not.be.undefined;
+    expect(await cache.get("ipfs://second")).to.be.undefined;
+    expect(await cache.get("ipfs://third")).to.not.be.undefined;
+  });
+});
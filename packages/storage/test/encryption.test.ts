@@ -0,0 +1,137 @@
+/* eslint-disable no-unused-expressions */
+import { ThirdwebStorage } from "../src";
+import { FileSystemDownloader, FileSystemUploader } from "../src/server";
+import { expect } from "chai";
+import { randomBytes } from "crypto";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+describe("Encryption", async () => {
+  const directory = mkdtempSync(path.join(tmpdir(), "storage-"));
+  const uploader = new FileSystemUploader({ directory });
+  const downloader = new FileSystemDownloader({ directory });
+  const publicStorage = new ThirdwebStorage({ uploader, downloader });
+  // few iterations to keep the tests fast
+  const password = { password: "secret", iterations: 1000 };
+
+  after(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("Should encrypt objects and their files with a password", async () => {
+    const storage = new ThirdwebStorage({
+      uploader,
+      downloader,
+      encryptionKey: password,
+    });
+    const image = readFileSync("test/files/0.jpg");
+    const uri = await storage.uploadEncrypted({
+      name: "Unlockable",
+      image,
+    });
+
+    const envelope = await publicStorage.downloadJSON(uri);
+    expect(envelope.name).to.be.undefined;
+    expect(envelope.encryption.kdf.iterations).to.equal(1000);
+
+    const metadata = await storage.downloadJSON(uri);
+    expect(metadata.name).to.equal("Unlockable");
+    const res = await storage.download(metadata.image);
+    expect(res.headers.get("Content-Type")).to.equal("image/jpeg");
+    expect(Buffer.from(await res.arrayBuffer()).equals(image)).to.be.true;
+    expect(
+      Buffer.from(
+        await (await publicStorage.download(metadata.image)).arrayBuffer(),
+      ).includes(image.subarray(0, 64)),
+    ).to.be.false;
+
+    // a new storage with the same password derives the same key
+    const other = new ThirdwebStorage({
+      uploader,
+      downloader,
+      encryptionKey: password,
+    });
+    expect((await other.downloadJSON(uri)).name).to.equal("Unlockable");
+  });
+
+  it("Should encrypt files with a key", async () => {
+    const key = randomBytes(32);
+    const storage = new ThirdwebStorage({
+      uploader,
+      downloader,
+      encryptionKey: { key },
+    });
+    const [encrypted] = await storage.uploadBatchEncrypted(["unlockable"]);
+    expect(await (await storage.download(encrypted)).text()).to.equal(
+      "unlockable",
+    );
+
+    // content that is not encrypted is downloaded as it is
+    const plain = await storage.upload("public");
+    expect(await (await storage.download(plain)).text()).to.equal("public");
+  });
+
+  it("Should fail to decrypt with the wrong key", async () => {
+    const storage = new ThirdwebStorage({
+      uploader,
+      downloader,
+      encryptionKey: password,
+    });
+    const uri = await storage.uploadEncrypted("unlockable");
+
+    for (const encryptionKey of [
+      { password: "wrong", iterations: 1000 },
+      { key: randomBytes(32) },
+    ]) {
+      const wrong = new ThirdwebStorage({
+        uploader,
+        downloader,
+        encryptionKey,
+      });
+      try {
+        await wrong.download(uri);
+        expect.fail("Decryption should have failed");
+      } catch (err: any) {
+        expect(err.message).to.contain("[DECRYPTION_ERROR]");
+      }
+    }
+
+    try {
+      await publicStorage.uploadEncrypted("unlockable");
+      expect.fail("Upload should have failed");
+    } catch (err: any) {
+      expect(err.message).to.contain("[ENCRYPTION_ERROR]");
+    }
+  });
+
+  it("Should reject key derivation settings outside the limits", async () => {
+    const storage = new ThirdwebStorage({
+      uploader,
+      downloader,
+      encryptionKey: password,
+    });
+    const uri = await storage.uploadEncrypted("unlockable");
+    const envelope = await publicStorage.downloadJSON(uri);
+    envelope.encryption.kdf.iterations = 1000000000;
+    const tampered = await publicStorage.upload(envelope);
+    try {
+      await storage.download(tampered);
+      expect.fail("Decryption should have failed");
+    } catch (err: any) {
+      expect(err.message).to.contain("[DECRYPTION_ERROR]");
+    }
+
+    const weak = new ThirdwebStorage({
+      uploader,
+      downloader,
+      encryptionKey: { password: "secret", iterations: 10 },
+    });
+    try {
+      await weak.uploadEncrypted("unlockable");
+      expect.fail("Upload should have failed");
+    } catch (err: any) {
+      expect(err.message).to.contain("[ENCRYPTION_ERROR]");
+    }
+  });
+});
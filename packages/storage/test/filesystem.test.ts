@@ -0,0 +1,139 @@
+/* eslint-disable no-unused-expressions */
+import {
+  NFTMetadataSchema,
+  SchemaValidationError,
+  ThirdwebStorage,
+} from "../src";
+import {
+  FileSystemCache,
+  FileSystemDownloader,
+  FileSystemUploader,
+  readDirectory,
+} from "../src/server";
+import { expect } from "chai";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+describe("File System", async () => {
+  const directory = mkdtempSync(path.join(tmpdir(), "storage-"));
+  const storage = new ThirdwebStorage({
+    uploader: new FileSystemUploader({ directory }),
+    downloader: new FileSystemDownloader({ directory }),
+  });
+
+  after(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("Should upload and download JSON object with nested files", async () => {
+    const uri = await storage.upload({
+      name: "Goku",
+      image: {
+        name: "goku.jpg",
+        data: readFileSync("test/files/0.jpg"),
+      },
+    });
+    expect(uri.startsWith("file://")).to.be.true;
+    expect(existsSync(path.join(directory, uri.replace("file://", "")))).to.be
+      .true;
+
+    const data = await storage.downloadJSON(uri);
+    expect(data.name).to.equal("Goku");
+    expect(data.image.endsWith("/goku.jpg")).to.be.true;
+
+    const image = await storage.download(data.image);
+    expect(Buffer.from(await image.arrayBuffer())).to.deep.equal(
+      readFileSync("test/files/0.jpg"),
+    );
+  });
+
+  it("Should validate downloaded JSON with a schema", async () => {
+    const uri = await storage.upload({ name: "Goku", power: 9001 });
+    const metadata = await storage.downloadJSON(uri, NFTMetadataSchema);
+    expect(metadata.name).to.equal("Goku");
+    // properties that aren't part of the schema are kept
+    expect(metadata.power).to.equal(9001);
+
+    const invalidUri = await storage.upload({ name: { first: "Goku" } });
+    try {
+      await storage.downloadJSON(invalidUri, NFTMetadataSchema);
+      expect.fail("Download should have failed");
+    } catch (err: any) {
+      expect(err).to.be.instanceOf(SchemaValidationError);
+      expect(err.message).to.contain("[SCHEMA_VALIDATION_ERROR]");
+      expect(err.issues[0].path).to.deep.equal(["name"]);
+    }
+  });
+
+  it("Should upload with a custom scheme", async () => {
+    const uploader = new FileSystemUploader({ directory, scheme: "local://" });
+    const [uri] = await uploader.uploadBatch(["data"], {
+      uploadWithoutDirectory: true,
+    });
+    expect(uri.startsWith("local://")).to.be.true;
+
+    const downloader = new FileSystemDownloader({
+      directory,
+      scheme: "local://",
+    });
+    expect(await (await downloader.download(uri)).text()).to.equal("data");
+  });
+
+  it("Should upload a local directory with its paths", async () => {
+    const site = path.join(directory, "site");
+    mkdirSync(path.join(site, "images"), { recursive: true });
+    writeFileSync(path.join(site, "index.html"), "<html></html>");
+    writeFileSync(path.join(site, "images", "logo.svg"), "<svg></svg>");
+
+    const { uri, uris } = await storage.uploadDirectory(
+      await readDirectory(site),
+    );
+    expect(Object.keys(uris).sort()).to.deep.equal([
+      "images/logo.svg",
+      "index.html",
+    ]);
+    expect(uris["images/logo.svg"]).to.equal(`${uri}/images/logo.svg`);
+    expect(await (await storage.download(uris["index.html"])).text()).to.equal(
+      "<html></html>",
+    );
+  });
+
+  it("Should not upload files outside of the directory", async () => {
+    try {
+      await storage.uploadDirectory({ "../secret": "data" });
+      expect.fail("Upload should have failed");
+    } catch (err: any) {
+      expect(err.message).to.contain("[INVALID_PATH_ERROR]");
+    }
+  });
+
+  it("Should not read outside of the directory", async () => {
+    try {
+      await storage.download("file://../secret");
+      expect.fail("Download should have failed");
+    } catch (err: any) {
+      expect(err.message).to.contain("[INVALID_PATH_ERROR]");
+    }
+  });
+
+  it("Should persist cached content", async () => {
+    const cacheDirectory = path.join(directory, "cache");
+    await new FileSystemCache({ directory: cacheDirectory }).set(
+      "ipfs://example/0",
+      new TextEncoder().encode("data"),
+    );
+
+    const cache = new FileSystemCache({ directory: cacheDirectory });
+    const content = await cache.get("ipfs://example/0");
+    expect(new TextDecoder().decode(content)).to.equal("data");
+    expect(await cache.get("ipfs://example/1")).to.be.undefined;
+  });
+});
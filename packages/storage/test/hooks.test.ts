@@ -0,0 +1,263 @@
+/* eslint-disable no-unused-expressions */
+import {
+  FileOrBuffer,
+  IntegrityHook,
+  IStorageUploadHook,
+  StripExifHook,
+  ThirdwebStorage,
+  ThumbnailHook,
+} from "../src";
+import { FileSystemDownloader, FileSystemUploader } from "../src/server";
+import { expect } from "chai";
+import { createHash } from "crypto";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+// A PNG with a text chunk between its header and its image data
+function createPng() {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    // the CRC is not checked when stripping chunks
+    return Buffer.concat([length, Buffer.from(type), data, Buffer.alloc(4)]);
+  };
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", Buffer.alloc(13)),
+    chunk("tEXt", Buffer.from("Author\0Goku")),
+    chunk("IDAT", Buffer.from("pixels")),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function hasExif(jpeg: Buffer) {
+  return jpeg.includes(Buffer.from("Exif\0\0"));
+}
+
+// A copy of a JPEG with a little endian EXIF block, with its orientation changed
+function withOrientation(jpeg: Buffer, orientation: number) {
+  const result = Buffer.from(jpeg);
+  const entry = result.indexOf(Buffer.from([0x12, 0x01, 0x03, 0x00]));
+  result.writeUInt16LE(orientation, entry + 8);
+  return result;
+}
+
+describe("Upload Hooks", async () => {
+  const directory = mkdtempSync(path.join(tmpdir(), "storage-"));
+  const uploader = new FileSystemUploader({ directory });
+  const downloader = new FileSystemDownloader({ directory });
+
+  after(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  async function downloadBuffer(storage: ThirdwebStorage, uri: string) {
+    const res = await storage.download(uri);
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  it("Should strip EXIF data from uploaded images", async () => {
+    const storage = new ThirdwebStorage({
+      uploader,
+      downloader,
+      uploadHooks: [new StripExifHook()],
+    });
+    const jpeg = readFileSync("test/files/0.jpg");
+    expect(hasExif(jpeg)).to.be.true;
+
+    const [jpegUri, pngUri, textUri] = await storage.uploadBatch([
+      jpeg,
+      { name: "image.png", data: createPng() },
+      "not an image",
+    ]);
+    const strippedJpeg = await downloadBuffer(storage, jpegUri);
+    expect(hasExif(strippedJpeg)).to.be.false;
+    expect(strippedJpeg.includes(Buffer.from("ICC_PROFILE"))).to.be.true;
+    // the image data after the metadata is unchanged
+    expect(jpeg.subarray(-1024).equals(strippedJpeg.subarray(-1024))).to.be
+      .true;
+
+    const strippedPng = await downloadBuffer(storage, pngUri);
+    expect(strippedPng.includes(Buffer.from("tEXt"))).to.be.false;
+    expect(strippedPng.includes(Buffer.from("IDAT"))).to.be.true;
+    expect((await downloadBuffer(storage, textUri)).toString()).to.equal(
+      "not an image",
+    );
+
+    const metadataUri = await storage.upload({ name: "Goku", image: jpeg });
+    const metadata = await storage.downloadJSON(metadataUri);
+    expect(hasExif(await downloadBuffer(storage, metadata.image))).to.be.false;
+  });
+
+  it("Should keep the orientation of JPEG images", async () => {
+    const storage = new ThirdwebStorage({
+      uploader,
+      downloader,
+      uploadHooks: [new StripExifHook()],
+    });
+    const jpeg = withOrientation(readFileSync("test/files/1.jpg"), 6);
+
+    const [rotatedUri, uprightUri] = await storage.uploadBatch([
+      jpeg,
+      readFileSync("test/files/1.jpg"),
+    ]);
+    const rotated = await downloadBuffer(storage, rotatedUri);
+    // only the orientation is left of the EXIF data, as a big endian entry
+    const entry = rotated.indexOf(Buffer.from([0x01, 0x12, 0x00, 0x03]));
+    expect(entry).to.be.greaterThan(-1);
+    expect(rotated.readUInt16BE(entry + 8)).to.equal(6);
+    expect(rotated.length).to.be.lessThan(jpeg.length);
+    expect(jpeg.subarray(-1024).equals(rotated.subarray(-1024))).to.be.true;
+
+    // images that are already the right way up don't need any EXIF data
+    expect(hasExif(await downloadBuffer(storage, uprightUri))).to.be.false;
+  });
+
+  it("Should add the integrity and MIME type of files to objects", async () => {
+    const storage = new ThirdwebStorage({
+      uploader,
+      downloader,
+      uploadHooks: [new StripExifHook(), new IntegrityHook()],
+    });
+    const uri = await storage.upload({
+      name: "Goku",
+      image: readFileSync("test/files/0.jpg"),
+      animation_url: readFileSync("test/files/test.mp4"),
+      properties: { file: readFileSync("test/files/1.jpg") },
+    });
+    const metadata = await storage.downloadJSON(uri);
+
+    // the integrity is of the stripped image that was uploaded
+    const image = await downloadBuffer(storage, metadata.image);
+    expect(metadata.image_integrity).to.equal(
+      `sha256-${createHash("sha256").update(image).digest("base64")}`,
+    );
+    expect(metadata.image_mime_type).to.equal("image/jpeg");
+    expect(metadata.animation_integrity).to.match(/^sha256-/);
+    expect(metadata.animation_mime_type).to.equal("video/mp4");
+    expect(metadata.properties_integrity).to.be.undefined;
+  });
+
+  it("Should upload thumbnails with a resize function", async () => {
+    const resized: number[] = [];
+    const storage = new ThirdwebStorage({
+      uploader,
+      downloader,
+      uploadHooks: [
+        new ThumbnailHook({
+          width: 64,
+          resize: async (image, width) => {
+            resized.push(width);
+            return readFileSync("test/files/1.jpg");
+          },
+        }),
+      ],
+    });
+    const [uri, withoutImage] = await storage.uploadBatch([
+      { name: "Goku", image: readFileSync("test/files/0.jpg") },
+      { name: "Vegeta", image: "ipfs://existing" },
+    ]);
+
+    const metadata = await storage.downloadJSON(uri);
+    expect(resized).to.deep.equal([64]);
+    expect(
+      (await downloadBuffer(storage, metadata.image_thumbnail)).equals(
+        readFileSync("test/files/1.jpg"),
+      ),
+    ).to.be.true;
+    expect((await storage.downloadJSON(withoutImage)).image_thumbnail).to.be
+      .undefined;
+  });
+
+  it("Should upload the thumbnails of a batch together", async () => {
+    const batches: { count: number; options: any }[] = [];
+    const storage = new ThirdwebStorage({
+      uploader: {
+        uploadWithGatewayUrl: false,
+        uploadBatch: (data, options) => {
+          batches.push({ count: data.length, options });
+          return uploader.uploadBatch(data, options);
+        },
+      },
+      downloader,
+      uploadHooks: [
+        new ThumbnailHook({
+          resize: async (image) =>
+            Buffer.concat([image as Buffer, Buffer.from("thumbnail")]),
+        }),
+      ],
+    });
+    const uris = await storage.uploadBatch(
+      [0, 1, 2].map((i) => ({
+        name: `NFT ${i}`,
+        image: readFileSync(`test/files/${i}.jpg`),
+      })),
+      { rewriteFileNames: { fileStartNumber: 10 } },
+    );
+
+    // the images, the thumbnails and the metadata
+    expect(batches.map((batch) => batch.count)).to.deep.equal([3, 3, 3]);
+    expect(batches[1].options.rewriteFileNames).to.deep.equal({
+      fileStartNumber: 0,
+    });
+    const thumbnails = await Promise.all(
+      uris.map(async (uri, i) => {
+        const metadata = await storage.downloadJSON(uri);
+        expect(
+          (await downloadBuffer(storage, metadata.image_thumbnail)).equals(
+            Buffer.concat([
+              readFileSync(`test/files/${i}.jpg`),
+              Buffer.from("thumbnail"),
+            ]),
+          ),
+        ).to.be.true;
+        return metadata.image_thumbnail;
+      }),
+    );
+    expect(new Set(thumbnails).size).to.equal(3);
+  });
+
+  it("Should throw when thumbnails can't be resized in node", async () => {
+    const storage = new ThirdwebStorage({
+      uploader,
+      downloader,
+      uploadHooks: [new ThumbnailHook()],
+    });
+    try {
+      await storage.upload({ image: readFileSync("test/files/0.jpg") });
+      expect.fail("Upload should have failed");
+    } catch (err: any) {
+      expect(err.message).to.contain("[THUMBNAIL_ERROR]");
+    }
+  });
+
+  it("Should run custom hooks in order", async () => {
+    const watermark: IStorageUploadHook = {
+      async transformFile(file: FileOrBuffer) {
+        return Buffer.concat([file as Buffer, Buffer.from("watermark")]);
+      },
+    };
+    const storage = new ThirdwebStorage({
+      uploader,
+      downloader,
+      uploadHooks: [
+        watermark,
+        {
+          async transformObject(object, files) {
+            return { ...object, files: files.map((file) => file.key) };
+          },
+        },
+      ],
+    });
+    const uri = await storage.upload({
+      name: "Goku",
+      image: Buffer.from("image"),
+    });
+    const metadata = await storage.downloadJSON(uri);
+    expect(metadata.files).to.deep.equal(["image"]);
+    expect((await downloadBuffer(storage, metadata.image)).toString()).to.equal(
+      "imagewatermark",
+    );
+  });
+});
@@ -1,8 +1,45 @@
 /* eslint-disable no-unused-expressions */
-import { IpfsUploader, ThirdwebStorage } from "../src";
+import {
+  IpfsUploader,
+  IpfsUploadManifest,
+  StorageDownloader,
+  ThirdwebStorage,
+} from "../src";
+import { buildDirectoryTree, buildFileNode } from "../src/common/cid";
 import { DEFAULT_GATEWAY_URLS } from "../src/common/urls";
 import { expect } from "chai";
 import { readFileSync } from "fs";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+// Parse the parts of a multipart body, only the parts of files have a filename
+function parseForm(body: Buffer, contentType: string) {
+  const boundary = `--${/boundary=(.+)$/.exec(contentType)?.[1]}`;
+  const parts: { name: string; filename?: string; data: Buffer }[] = [];
+  let start = body.indexOf(boundary) + boundary.length + 2;
+  for (;;) {
+    const end = body.indexOf(`\r\n${boundary}`, start);
+    if (end === -1) {
+      return parts;
+    }
+    const headersEnd = body.indexOf("\r\n\r\n", start);
+    const headers = body.subarray(start, headersEnd).toString();
+    parts.push({
+      name: /name="([^"]*)"/.exec(headers)?.[1] || "",
+      filename: /filename="([^"]*)"/.exec(headers)?.[1],
+      data: body.subarray(headersEnd + 4, end),
+    });
+    start = end + boundary.length + 4;
+  }
+}
 
 describe("IPFS", async () => {
   const storage = new ThirdwebStorage();
@@ -448,4 +485,255 @@ describe("IPFS", async () => {
 
     expect(res.status).to.equal(200);
   });
+
+  it("Should compute CIDv0 and CIDv1 URIs locally", async () => {
+    const uri = await storage.computeUri("hello world\n", {
+      uploadWithoutDirectory: true,
+    });
+    expect(uri).to.equal(
+      "ipfs://QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o",
+    );
+
+    const uriV1 = await storage.computeUri("hello world\n", {
+      uploadWithoutDirectory: true,
+      cidVersion: 1,
+    });
+    expect(uriV1).to.equal(
+      "ipfs://bafkreifjjcie6lypi6ny7amxnfftagclbuxndqonfipmb64f2km2devei4",
+    );
+  });
+
+  it("Should compute the same URIs as the upload server", async () => {
+    const data = [
+      { name: "Goku", image: readFileSync("test/files/0.jpg") },
+      { name: "Vegeta", image: readFileSync("test/files/test.mp4") },
+    ];
+    const computed = await storage.computeUriBatch(data);
+    const uploaded = await storage.uploadBatch(data);
+    expect(computed).to.deep.equal(uploaded);
+  });
+
+  it("Should verify downloaded data against its CID", async () => {
+    const uri = await storage.upload({
+      name: "#specialChar^file$Name.jpg",
+      data: readFileSync("test/files/0.jpg"),
+    });
+    const verifyingStorage = new ThirdwebStorage({
+      downloader: new StorageDownloader({ verifyContent: true }),
+    });
+    const res = await verifyingStorage.download(uri);
+    expect(Buffer.from(await res.arrayBuffer())).to.deep.equal(
+      readFileSync("test/files/0.jpg"),
+    );
+  });
+
+  it("Should upload a directory with nested files", async () => {
+    const files = {
+      "index.html": "<html></html>",
+      "images/0.jpg": readFileSync("test/files/0.jpg"),
+      "metadata/0.json": JSON.stringify({
+        name: "Goku",
+        image: "../images/0.jpg",
+      }),
+    };
+    const { uri, uris } = await storage.uploadDirectory(files);
+    expect(uris["images/0.jpg"]).to.equal(`${uri}/images/0.jpg`);
+    expect(
+      await storage.computeUriBatch(
+        Object.entries(files).map(([name, data]) => ({ name, data })),
+      ),
+    ).to.deep.equal(Object.values(uris));
+
+    const res = await storage.download(uris["images/0.jpg"]);
+    expect(Buffer.from(await res.arrayBuffer())).to.deep.equal(
+      readFileSync("test/files/0.jpg"),
+    );
+  });
+});
+
+describe("IPFS uploads in chunks", async () => {
+  // Mock of the upload server and of Pinata, that fails the next uploads with the queued failures
+  let failures: (number | "network" | undefined)[] = [];
+  let uploads = 0;
+  let pins: string[] = [];
+  // the CID returned instead of the CID of the uploaded files, if any
+  let wrongCid: string | undefined;
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url as string, "http://localhost");
+    const body = await readBody(req);
+    switch (url.pathname) {
+      case "/grant":
+        return res.end("token");
+      case "/pinning/pinFileToIPFS": {
+        uploads++;
+        const failure = failures.shift();
+        if (failure === "network") {
+          return req.socket.destroy();
+        }
+        if (failure) {
+          res.statusCode = failure;
+          return res.end("Upload failed");
+        }
+
+        const parts = parseForm(body, req.headers["content-type"] as string);
+        const optionsPart = parts.find((p) => p.name === "pinataOptions");
+        const pinataOptions = optionsPart
+          ? JSON.parse(optionsPart.data.toString())
+          : {};
+        const cidVersion = pinataOptions.cidVersion || 0;
+        const files = await Promise.all(
+          parts
+            .filter((p) => p.filename !== undefined)
+            .map(async (p) => ({
+              name: (p.filename as string).replace(/^files\//, ""),
+              node: await buildFileNode(p.data, cidVersion),
+            })),
+        );
+        const cid =
+          pinataOptions.wrapWithDirectory === false
+            ? files[0].node.cid
+            : (await buildDirectoryTree(files, cidVersion)).cid;
+        return res.end(
+          JSON.stringify({ IpfsHash: wrongCid || cid.toString() }),
+        );
+      }
+      case "/pinning/pinByHash": {
+        const { hashToPin } = JSON.parse(body.toString());
+        pins.push(hashToPin);
+        return res.end(
+          JSON.stringify({ ipfsHash: hashToPin, status: "searching" }),
+        );
+      }
+    }
+    res.statusCode = 404;
+    res.end();
+  });
+
+  let url: string;
+  let storage: ThirdwebStorage;
+  const data = ["a", "b", "c"].map((char, i) => ({
+    name: `${i}.txt`,
+    data: Buffer.from(char.repeat(100)),
+  }));
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://localhost:${(server.address() as AddressInfo).port}`;
+    storage = new ThirdwebStorage({
+      uploader: new IpfsUploader({ uploadServerUrl: url, pinataUrl: url }),
+    });
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    failures = [];
+    uploads = 0;
+    pins = [];
+    wrongCid = undefined;
+  });
+
+  it("Should retry uploads that fail with network errors, 5xx or 429 statuses", async () => {
+    failures = [503, undefined, "network", undefined, 429];
+    let manifest: IpfsUploadManifest = { uploadedChunks: [] };
+    let progress = 0;
+    const uris = await storage.uploadBatch(data, {
+      chunkSize: 100,
+      onManifest: (m) => (manifest = m),
+      onProgress: (event) => (progress = event.progress / event.total),
+    });
+
+    expect(uris).to.deep.equal(await storage.computeUriBatch(data));
+    // one chunk per file, the retries, and the blocks of the directory of all the files
+    expect(uploads).to.equal(7);
+    expect(manifest.uploadedChunks.length).to.equal(4);
+    expect(progress).to.equal(1);
+    // the directory of all the files is pinned, not only its blocks
+    expect(pins).to.deep.equal([uris[0].split("/")[2]]);
+  });
+
+  it("Should not retry uploads that fail with other statuses", async () => {
+    failures = [400];
+    try {
+      await storage.uploadBatch(data, { chunkSize: 100 });
+      expect.fail();
+    } catch (err) {
+      expect((err as Error).message).to.contain("with status 400");
+    }
+    expect(uploads).to.equal(1);
+  });
+
+  it("Should resume an upload that failed part of the way", async () => {
+    failures = [undefined, 400];
+    let manifest: IpfsUploadManifest = { uploadedChunks: [] };
+    try {
+      await storage.uploadBatch(data, {
+        chunkSize: 100,
+        onManifest: (m) => (manifest = m),
+      });
+      expect.fail();
+    } catch (err) {
+      expect((err as Error).message).to.contain("with status 400");
+    }
+    expect(manifest.uploadedChunks.length).to.equal(1);
+    expect(pins).to.be.empty;
+
+    uploads = 0;
+    const uris = await storage.uploadBatch(data, {
+      chunkSize: 100,
+      resumeFrom: manifest,
+      onManifest: (m) => (manifest = m),
+    });
+    expect(uris).to.deep.equal(await storage.computeUriBatch(data));
+    // only the chunks that weren't uploaded, and the blocks of the directory
+    expect(uploads).to.equal(3);
+    expect(manifest.uploadedChunks.length).to.equal(4);
+    expect(pins).to.deep.equal([uris[0].split("/")[2]]);
+  });
+
+  it("Should only fail uploads with another CID if uploads are verified", async () => {
+    wrongCid = "QmP15GwNibCG8suXoEbxmLUBbzHUxnvJSi4ynFSAZmCDzW";
+    const [uri] = await storage.uploadBatch([data[0]]);
+    expect(uri).to.equal(`ipfs://${wrongCid}/0.txt`);
+
+    const verifiedStorage = new ThirdwebStorage({
+      uploader: new IpfsUploader({
+        uploadServerUrl: url,
+        pinataUrl: url,
+        verifyUploads: true,
+      }),
+    });
+    try {
+      await verifiedStorage.uploadBatch([data[0]]);
+      expect.fail();
+    } catch (err) {
+      expect((err as Error).message).to.contain("[CID_MISMATCH_ERROR]");
+    }
+
+    // the directory of chunked uploads is built from the CIDs of the chunks
+    try {
+      await storage.uploadBatch(data, { chunkSize: 100 });
+      expect.fail();
+    } catch (err) {
+      expect((err as Error).message).to.contain("[CID_MISMATCH_ERROR]");
+    }
+    expect(pins).to.be.empty;
+  });
+
+  it("Should upload the directory of large batches sharded like kubo", async () => {
+    const files = Array.from({ length: 10000 }, (_, i) => ({
+      name: `${i}`,
+      data: Buffer.from(`${i}`),
+    }));
+    // CID of the same files added with ipfs-unixfs-importer, which shards large directories the same way as kubo
+    const cid = "QmP15GwNibCG8suXoEbxmLUBbzHUxnvJSi4ynFSAZmCDzW";
+
+    const uris = await storage.uploadBatch(files, { chunkSize: 20000 });
+    expect(uris[1234]).to.equal(`ipfs://${cid}/1234`);
+    // two chunks, and the blocks of the directory and its shards
+    expect(uploads).to.equal(3);
+    expect(pins).to.deep.equal([cid]);
+  });
 });
@@ -0,0 +1,325 @@
+/* eslint-disable no-unused-expressions */
+import { KuboUploader, ThirdwebStorage } from "../src";
+import { expect } from "chai";
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+
+const accessToken = "secret";
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+// Parse the parts of a multipart body, with the file names decoded like kubo does
+function parseParts(body: Buffer, contentType: string) {
+  const boundary = `--${/boundary=(.+)$/.exec(contentType)?.[1]}`;
+  const parts: { name: string; type: string; data: Buffer }[] = [];
+  let start = body.indexOf(boundary) + boundary.length + 2;
+  for (;;) {
+    const end = body.indexOf(`\r\n${boundary}`, start);
+    if (end === -1) {
+      return parts;
+    }
+    const headersEnd = body.indexOf("\r\n\r\n", start);
+    const headers = body.subarray(start, headersEnd).toString();
+    const filename = /filename="([^"]*)"/.exec(headers)?.[1] || "";
+    parts.push({
+      name: decodeURIComponent(filename),
+      type: /content-type: (.+)/i.exec(headers)?.[1] || "",
+      data: body.subarray(headersEnd + 4, end),
+    });
+    start = end + boundary.length + 4;
+  }
+}
+
+// Read the files of a multipart body like kubo does, which fails when the parts are not sent as a tree
+function readTree(parts: { name: string; type: string; data: Buffer }[]) {
+  const files: { name: string; data: Buffer }[] = [];
+  // the directories whose content is being sent, from the outermost
+  const open: string[] = [];
+  for (const part of parts) {
+    const parent = part.name.split("/").slice(0, -1).join("/");
+    while (open.length && open[open.length - 1] !== parent) {
+      open.pop();
+    }
+    if (parent && open[open.length - 1] !== parent) {
+      throw new Error(`file ${part.name} is not in directory ${parent}`);
+    }
+    if (part.type === "application/x-directory") {
+      open.push(part.name);
+    } else {
+      files.push({ name: part.name, data: part.data });
+    }
+  }
+  return files;
+}
+
+// The CIDs of the files added by the tests, by the hash of the added files and options.
+// They were computed by ipfs-unixfs-importer with the defaults of `ipfs add`, independently of the uploader,
+// set KUBO_API_URL to also test against a local kubo node.
+const KUBO_CIDS: Record<string, string> = {
+  // index.html, images/0.jpg and metadata/#0.json in a directory
+  "03da136ddb84a9437f27e2ae279287e17b23abd224b2a24ba64d8653b8fac486":
+    "QmUnZszRsN5DYKFsjEjuNRPxaL4t87dvjNfJEWKxf8wiaw",
+  // test/files/0.jpg with CIDv1
+  c7e096a91fd79c03d5b923d96fdc09d4bbc11c96278dded3b1e8dba5924489aa:
+    "bafkreies5uuw4vxwc6sg2yhlrjrcuqwt6zbpgdmy6eunjsuqneahg5i4yy",
+  // "pinned on the node"
+  "7b6eab6a09931982b9a97763a8f5272f1e8e45ef28f6fe97087d289ddc9fe9f3":
+    "QmW6aJYoasKgGEtAfNEFAhNaa2AfU71eshp6W7gJm9zCCA",
+  // { name: "Goku" }
+  "78c54ecfb31683a4331d304668632cfe0e3425c0b85177a8fc877ccedb2c9b58":
+    "QmRReXZQcxaxfyoR5Mw9gyyncHGrfxpzRyj7mNkuT5Jyav",
+  // "data" in a directory
+  "4d1fc9f8795c3415a3513fd9d42941df8fabb3d0134003dedee0512b8920d81f":
+    "QmXwqrf8t2N9Mf9fcXLsG5ydnn72pxGXmSDXoBfuqnydtD",
+};
+
+function hashAdd(
+  files: { name: string; data: Buffer }[],
+  cidVersion: string,
+  wrap: boolean,
+) {
+  const hash = createHash("sha256").update(`${cidVersion}:${wrap}`);
+  for (const file of files) {
+    hash.update(`:${file.name}:`).update(file.data);
+  }
+  return hash.digest("hex");
+}
+
+async function listen(server: Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  return `http://localhost:${(server.address() as AddressInfo).port}`;
+}
+
+describe("Kubo", async () => {
+  // Mock of the kubo RPC API, that returns the CIDs that kubo computes for the added files
+  const nodePins = new Set<string>();
+  const kubo: Server = createServer(async (req, res) => {
+    const url = new URL(req.url as string, "http://localhost");
+    const body = await readBody(req);
+    if (req.method !== "POST") {
+      res.statusCode = 405;
+      return res.end();
+    }
+
+    const arg = url.searchParams.get("arg") as string;
+    switch (url.pathname) {
+      case "/api/v0/add": {
+        let files: { name: string; data: Buffer }[];
+        try {
+          files = readTree(
+            parseParts(body, req.headers["content-type"] as string),
+          );
+        } catch (err: any) {
+          res.statusCode = 400;
+          return res.end(JSON.stringify({ Message: err.message }));
+        }
+        const cid =
+          KUBO_CIDS[
+            hashAdd(
+              files,
+              url.searchParams.get("cid-version") as string,
+              url.searchParams.get("wrap-with-directory") === "true",
+            )
+          ];
+        if (!cid) {
+          res.statusCode = 500;
+          return res.end(JSON.stringify({ Message: "unexpected files" }));
+        }
+        nodePins.add(cid);
+        return res.end(
+          `${files
+            .map((f) => JSON.stringify({ Name: f.name }))
+            .join("\n")}\n${JSON.stringify({ Name: "", Hash: cid })}\n`,
+        );
+      }
+      case "/api/v0/pin/add":
+        nodePins.add(arg);
+        return res.end(JSON.stringify({ Pins: [arg] }));
+      case "/api/v0/pin/rm":
+        if (!nodePins.delete(arg)) {
+          res.statusCode = 500;
+          return res.end(
+            JSON.stringify({ Message: "not pinned or pinned indirectly" }),
+          );
+        }
+        return res.end(JSON.stringify({ Pins: [arg] }));
+      case "/api/v0/pin/ls": {
+        const keys: Record<string, { Type: string }> = {};
+        nodePins.forEach((cid) => {
+          if (!arg || arg === cid) {
+            keys[cid] = { Type: "recursive" };
+          }
+        });
+        if (arg && !Object.keys(keys).length) {
+          res.statusCode = 500;
+          return res.end(
+            JSON.stringify({ Message: `path '${arg}' is not pinned` }),
+          );
+        }
+        return res.end(JSON.stringify({ Keys: keys }));
+      }
+    }
+    res.statusCode = 404;
+    res.end();
+  });
+
+  // Mock of a pinning service, pins are pinned the first time that their status is checked
+  const pins = new Map<string, any>();
+  const pinningService: Server = createServer(async (req, res) => {
+    const url = new URL(req.url as string, "http://localhost");
+    const body = await readBody(req);
+    res.setHeader("Content-Type", "application/json");
+    if (req.headers.authorization !== `Bearer ${accessToken}`) {
+      res.statusCode = 401;
+      return res.end(JSON.stringify({ error: { reason: "UNAUTHORIZED" } }));
+    }
+
+    const requestId = url.pathname.split("/")[2];
+    if (req.method === "POST" && url.pathname === "/pins") {
+      const pin = JSON.parse(body.toString());
+      const status = {
+        requestid: `${pins.size}`,
+        status: "queued",
+        created: new Date().toISOString(),
+        pin,
+      };
+      pins.set(status.requestid, status);
+      return res.end(JSON.stringify(status));
+    }
+    if (req.method === "GET" && url.pathname === "/pins") {
+      const cid = url.searchParams.get("cid");
+      const results = Array.from(pins.values()).filter(
+        (pin) => !cid || pin.pin.cid === cid,
+      );
+      return res.end(JSON.stringify({ count: results.length, results }));
+    }
+    if (!pins.has(requestId)) {
+      res.statusCode = 404;
+      return res.end(JSON.stringify({ error: { reason: "NOT_FOUND" } }));
+    }
+    if (req.method === "GET") {
+      const pin = pins.get(requestId);
+      pin.status = pin.pin.name === "fail" ? "failed" : "pinned";
+      return res.end(JSON.stringify(pin));
+    }
+    if (req.method === "DELETE") {
+      pins.delete(requestId);
+      res.statusCode = 202;
+      return res.end();
+    }
+    res.statusCode = 404;
+    res.end();
+  });
+
+  let apiUrl = "";
+  let endpoint = "";
+  before(async () => {
+    // set KUBO_API_URL to test against a local kubo node instead of the mock
+    // eslint-disable-next-line turbo/no-undeclared-env-vars
+    apiUrl = process.env.KUBO_API_URL || (await listen(kubo));
+    endpoint = await listen(pinningService);
+  });
+
+  after(() => {
+    kubo.close();
+    pinningService.close();
+  });
+
+  it("Should add nested files to the node with the computed URIs", async () => {
+    const storage = new ThirdwebStorage({
+      uploader: new KuboUploader({ apiUrl }),
+    });
+    const files = {
+      "index.html": "<html></html>",
+      "images/0.jpg": readFileSync("test/files/0.jpg"),
+      "metadata/#0.json": JSON.stringify({ name: "Goku" }),
+    };
+    const { uri, uris } = await storage.uploadDirectory(files);
+    expect(uris["metadata/#0.json"]).to.equal(`${uri}/metadata/%230.json`);
+
+    const single = await storage.upload(readFileSync("test/files/0.jpg"), {
+      uploadWithoutDirectory: true,
+      cidVersion: 1,
+    });
+    expect(single).to.equal(
+      await storage.computeUri(readFileSync("test/files/0.jpg"), {
+        uploadWithoutDirectory: true,
+        cidVersion: 1,
+      }),
+    );
+  });
+
+  it("Should pin and unpin on the node without a pinning service", async () => {
+    const uploader = new KuboUploader({ apiUrl });
+    const storage = new ThirdwebStorage({ uploader });
+    const uri = await storage.upload("pinned on the node", {
+      uploadWithoutDirectory: true,
+    });
+
+    const cid = uri.replace("ipfs://", "");
+    expect((await uploader.getPinStatus(cid)).status).to.equal("pinned");
+    expect((await uploader.listPins()).map((pin) => pin.cid)).to.include(cid);
+
+    await uploader.unpin(uri);
+    expect(await uploader.listPins(uri)).to.be.empty;
+    // unpinning again is a no-op
+    await uploader.unpin(uri);
+  });
+
+  it("Should wait for uploads to be pinned by the pinning service", async () => {
+    const uploader = new KuboUploader({
+      apiUrl,
+      pinningService: { endpoint, accessToken },
+      pinPollInterval: 10,
+    });
+    const storage = new ThirdwebStorage({ uploader });
+    const uri = await storage.upload(
+      { name: "Goku" },
+      { pinName: "goku", uploadWithoutDirectory: true },
+    );
+
+    const [pin] = await uploader.listPins(uri);
+    expect(pin.status).to.equal("pinned");
+    expect(pin.name).to.equal("goku");
+    expect((await uploader.getPinStatus(pin.requestId)).cid).to.equal(
+      uri.replace("ipfs://", ""),
+    );
+
+    await uploader.unpin(uri);
+    expect(await uploader.listPins(uri)).to.be.empty;
+  });
+
+  it("Should throw when the pinning service fails to pin", async () => {
+    const uploader = new KuboUploader({
+      apiUrl,
+      pinningService: { endpoint, accessToken },
+      pinPollInterval: 10,
+    });
+    try {
+      await uploader.uploadBatch(["data"], { pinName: "fail" });
+      expect.fail("Upload should have failed");
+    } catch (err: any) {
+      expect(err.message).to.contain("[PIN_FAILED_ERROR]");
+    }
+
+    const unauthorized = new KuboUploader({
+      apiUrl,
+      pinningService: { endpoint, accessToken: "wrong" },
+    });
+    try {
+      await unauthorized.listPins();
+      expect.fail("Listing pins should have failed");
+    } catch (err: any) {
+      expect(err.message).to.contain("[PINNING_SERVICE_ERROR]");
+      expect(err.message).to.contain("UNAUTHORIZED");
+    }
+  });
+});
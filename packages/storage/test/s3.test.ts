@@ -0,0 +1,163 @@
+/* eslint-disable no-unused-expressions */
+import { S3Uploader, ThirdwebStorage } from "../src";
+import { expect } from "chai";
+import { createHash, createHmac } from "crypto";
+import { readFileSync } from "fs";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+
+const credentials = {
+  accessKeyId: "minioadmin",
+  secretAccessKey: "minioadmin",
+};
+
+// Check the signature of a request the way S3 does
+function isSignedRequest(req: IncomingMessage, body: Buffer): boolean {
+  const match =
+    /^AWS4-HMAC-SHA256 Credential=([^/]+)\/([^,]+), SignedHeaders=([^,]+), Signature=(\w+)$/.exec(
+      req.headers.authorization || "",
+    );
+  if (!match || match[1] !== credentials.accessKeyId) {
+    return false;
+  }
+  const [, , scope, signedHeaders, signature] = match;
+  const payloadHash = createHash("sha256").update(body).digest("hex");
+  if (req.headers["x-amz-content-sha256"] !== payloadHash) {
+    return false;
+  }
+
+  const canonicalRequest = [
+    req.method,
+    req.url,
+    "",
+    signedHeaders
+      .split(";")
+      .map((name) => `${name}:${req.headers[name]}\n`)
+      .join(""),
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    req.headers["x-amz-date"],
+    scope,
+    createHash("sha256").update(canonicalRequest).digest("hex"),
+  ].join("\n");
+  let key: Buffer = Buffer.from(`AWS4${credentials.secretAccessKey}`);
+  for (const part of scope.split("/")) {
+    key = createHmac("sha256", key).update(part).digest();
+  }
+  return (
+    createHmac("sha256", key).update(stringToSign).digest("hex") === signature
+  );
+}
+
+describe("S3", async () => {
+  // Mock of a public S3 bucket, that only accepts signed uploads
+  const objects = new Map<string, { body: Buffer; contentType: string }>();
+  const server: Server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks);
+      const key = decodeURIComponent(req.url || "");
+      if (req.method === "PUT") {
+        if (!isSignedRequest(req, body)) {
+          res.statusCode = 403;
+          res.end("SignatureDoesNotMatch");
+          return;
+        }
+        objects.set(key, {
+          body,
+          contentType: req.headers["content-type"] || "",
+        });
+        res.end();
+        return;
+      }
+
+      const object = objects.get(key);
+      if (!object) {
+        res.statusCode = 404;
+        res.end();
+        return;
+      }
+      res.setHeader("Content-Type", object.contentType);
+      res.end(object.body);
+    });
+  });
+
+  let endpoint: string;
+  let storage: ThirdwebStorage;
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    endpoint = `http://localhost:${(server.address() as AddressInfo).port}`;
+    storage = new ThirdwebStorage({
+      uploader: new S3Uploader({
+        endpoint,
+        bucket: "nfts",
+        credentials,
+        prefix: "staging",
+      }),
+      gatewayUrls: { "s3://": [endpoint] },
+    });
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("Should upload and download JSON object with nested files", async () => {
+    const uri = await storage.upload({
+      name: "Goku",
+      image: readFileSync("test/files/0.jpg"),
+    });
+    expect(uri.startsWith("s3://nfts/staging/")).to.be.true;
+    expect(uri.endsWith("/0")).to.be.true;
+
+    const data = await storage.downloadJSON(uri);
+    expect(data.name).to.equal("Goku");
+    expect(data.image.startsWith(`${endpoint}/nfts/staging/`)).to.be.true;
+
+    const image = await storage.download(data.image);
+    expect(image.headers.get("Content-Type")).to.equal(
+      "application/octet-stream",
+    );
+    expect(Buffer.from(await image.arrayBuffer())).to.deep.equal(
+      readFileSync("test/files/0.jpg"),
+    );
+  });
+
+  it("Should upload files with names that need encoding", async () => {
+    const uris = await storage.uploadBatch([
+      { name: "first file (1).json", data: JSON.stringify({ a: 1 }) },
+      { name: "second!", data: "data2" },
+    ]);
+    expect(uris[0].endsWith("/first%20file%20%281%29.json")).to.be.true;
+
+    const res = await storage.download(uris[0]);
+    expect(res.headers.get("Content-Type")).to.equal("application/json");
+    expect(await res.json()).to.deep.equal({ a: 1 });
+    expect(await (await storage.download(uris[1])).text()).to.equal("data2");
+  });
+
+  it("Should compute the same URIs as the upload", async () => {
+    const files = [{ name: "0.jpg", data: readFileSync("test/files/0.jpg") }];
+    const computed = await storage.computeUriBatch(files);
+    expect(await storage.uploadBatch(files)).to.deep.equal(computed);
+  });
+
+  it("Should fail to upload with the wrong credentials", async () => {
+    const uploader = new S3Uploader({
+      endpoint,
+      bucket: "nfts",
+      credentials: { ...credentials, secretAccessKey: "wrong" },
+    });
+    try {
+      await uploader.uploadBatch(["data"]);
+      expect.fail("Upload should have failed");
+    } catch (err: any) {
+      expect(err.message).to.contain("[S3_UPLOAD_ERROR]");
+    }
+  });
+});